@@ -22,6 +22,7 @@ import {
   StateDisplay,
   ChatInterface,
   MeasurementHistogram,
+  VQEPanel,
 } from '@/components/quantum';
 import {
   Settings,
@@ -44,6 +45,7 @@ import {
   Rocket,
   Zap,
   Target,
+  TrendingDown,
 } from 'lucide-react';
 import { getRandomTip, getAllTutorials, ONBOARDING_FLOW } from '@/lib/ai/tutorials';
 import type { SkillLevel } from '@/lib/ai/types';
@@ -612,7 +614,7 @@ export default function QuantumSimulatorPage() {
           {/* Right Sidebar - Results & Visualization */}
           <div className="col-span-3 flex flex-col gap-4 overflow-hidden">
             <Tabs defaultValue="state" className="flex-1 flex flex-col">
-              <TabsList className="grid w-full grid-cols-3 glass">
+              <TabsList className="grid w-full grid-cols-4 glass">
                 <TabsTrigger value="state" className="gap-2 text-xs">
                   <BarChart3 className="h-3 w-3" />
                   State
@@ -625,6 +627,10 @@ export default function QuantumSimulatorPage() {
                   <Atom className="h-3 w-3" />
                   Bloch
                 </TabsTrigger>
+                <TabsTrigger value="vqe" className="gap-2 text-xs">
+                  <TrendingDown className="h-3 w-3" />
+                  VQE
+                </TabsTrigger>
               </TabsList>
               <TabsContent value="state" className="flex-1 overflow-hidden glass rounded-xl mt-4">
                 <StateDisplay />
@@ -635,6 +641,9 @@ export default function QuantumSimulatorPage() {
               <TabsContent value="bloch" className="flex-1 overflow-hidden glass rounded-xl mt-4 bloch-container">
                 <BlochSphere />
               </TabsContent>
+              <TabsContent value="vqe" className="flex-1 overflow-hidden glass rounded-xl mt-4">
+                <VQEPanel />
+              </TabsContent>
             </Tabs>
 
             {/* Quick Help for Beginners */}
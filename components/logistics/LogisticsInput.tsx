@@ -1,66 +1,218 @@
 "use client";
 
-import { useState, useRef, useEffect } from 'react';
-import { Send, Upload, Loader2, Play, Map as MapIcon, Globe, BarChart3, FileText } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, Upload, Download, Loader2, Play, Pause, Square, Ruler, X, Wrench, AlertTriangle, XCircle, Map as MapIcon, Globe, BarChart3, FileText, Atom } from 'lucide-react';
 import { useLogisticsStore } from '@/lib/logistics/store';
 import { parseLogisticsRequest } from '@/lib/logistics/agent';
-import { solveVRP, SolverResult } from '@/lib/logistics/solver';
+import { AIProvider } from '@/lib/ai/types';
+import { SolverResult, SolverProgress } from '@/lib/logistics/solver';
+import { solveQAOA, canSolveWithQAOA, qaoaQubitCount } from '@/lib/logistics/qaoa';
+import { SolverEvent } from '@/lib/logistics/session';
+import { createSolverRunner, SolverRunner } from '@/lib/logistics/runner';
+import { createDistanceMatrix, parseDistanceMatrix } from '@/lib/logistics/distance';
+import { importFile, toGeoJSON } from '@/lib/logistics/formats';
+import { validateProblem, repairProblem } from '@/lib/logistics/validators';
+import { LogisticsProblem } from '@/lib/logistics/types';
 
 export function LogisticsInput() {
     const [input, setInput] = useState('');
     const [result, setResult] = useState<SolverResult | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
     const {
         setProblem,
         setSolution,
         setLoading,
         isLoading,
+        error,
         problem,
+        solution,
         solverState,
         updateSolverState,
         ui,
         setViewMode,
+        solverMode,
+        setSolverMode,
+        recordResult,
+        setTravelModel,
+        setError,
         reset
     } = useLogisticsStore();
 
+    // QAOA only handles tours small enough to simulate; larger problems always anneal
+    const qaoaAvailable = problem ? canSolveWithQAOA(problem) : false;
+    const activeMode = solverMode === 'qaoa' && qaoaAvailable ? 'qaoa' : 'annealing';
+
+    // Checked before solving; errors block the solver until repaired
+    const validation = useMemo(() => (problem ? validateProblem(problem) : null), [problem]);
+    const canRepair = validation?.issues.some(i => i.repair) ?? false;
+    // What Auto-repair changed, shown until the problem changes again
+    const [repaired, setRepaired] = useState<{ problem: LogisticsProblem; repairs: string[] } | null>(null);
+    const repairs = repaired?.problem === problem ? repaired.repairs : [];
+
+    const runnerRef = useRef<SolverRunner | null>(null);
+    const matrixInputRef = useRef<HTMLInputElement>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => () => runnerRef.current?.terminate(), []);
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!input.trim()) return;
 
+        runnerRef.current?.cancel();
         reset();
         setResult(null);
         setLoading(true);
 
         try {
+            // Build-time variables win over settings saved in the browser
+            const setting = (key: string) =>
+                typeof window !== 'undefined' ? localStorage.getItem(key) || undefined : undefined;
+            const provider = (process.env.NEXT_PUBLIC_LLM_PROVIDER || setting('llm_provider') || 'gemini') as AIProvider;
+
             const parsed = await parseLogisticsRequest(input, {
-                apiKey: process.env.NEXT_PUBLIC_GEMINI_API_KEY ||
-                    (typeof window !== 'undefined' ? localStorage.getItem('gemini_api_key') || undefined : undefined)
+                provider,
+                model: process.env.NEXT_PUBLIC_LLM_MODEL || setting('llm_model'),
+                baseUrl: process.env.NEXT_PUBLIC_LLM_BASE_URL || setting('llm_base_url'),
+                apiKey: (provider === 'gemini' ? process.env.NEXT_PUBLIC_GEMINI_API_KEY : undefined) ||
+                    setting(`${provider}_api_key`)
             });
             setProblem(parsed);
         } catch (err) {
             console.error("Failed to parse:", err);
+            setError(err instanceof Error ? err.message : String(err));
         } finally {
             setLoading(false);
         }
     };
 
-    const runOptimization = async () => {
-        if (!problem) return;
+    // Road distances and travel times from a CSV or JSON file replace great-circle estimates
+    const handleMatrixFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !problem) return;
 
-        updateSolverState({ isRunning: true, history: [], currentCost: 0, bestCost: Infinity });
+        try {
+            const travel = parseDistanceMatrix(await file.text(), file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+            createDistanceMatrix({ ...problem, travel }); // Throws if a node is missing
+            setTravelModel(travel);
+            setResult(null);
+        } catch (err) {
+            console.error("Failed to load distance matrix:", err);
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    // Stop lists (.csv, .geojson, .vrp) replace the problem; routes (.csv with a sequence column, .sol) apply to it
+    const importFiles = async (files: File[]) => {
+        // Instances before their solutions when both are dropped together
+        const ordered = [...files].sort((a, b) => Number(a.name.toLowerCase().endsWith('.sol')) - Number(b.name.toLowerCase().endsWith('.sol')));
+        let current = problem;
 
         try {
-            const solverResult = await solveVRP(problem, (state) => {
-                updateSolverState({
-                    iteration: state.iteration,
-                    currentCost: state.cost,
-                    temperature: state.temp,
-                    bestCost: state.bestCost
-                });
-            });
+            for (const file of ordered) {
+                const imported = importFile(file.name, await file.text(), current);
+                if (imported.problem !== current) {
+                    runnerRef.current?.cancel();
+                    reset();
+                    setProblem(imported.problem);
+                    current = imported.problem;
+                }
+                if (imported.solution) setSolution(imported.solution);
+                setResult(null);
+            }
+        } catch (err) {
+            console.error("Failed to import:", err);
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        importFiles(files);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        if (!solverState.isRunning) importFiles(Array.from(e.dataTransfer.files));
+    };
+
+    const exportGeoJSON = () => {
+        if (!problem) return;
+        const blob = new Blob([JSON.stringify(toGeoJSON(problem, solution), null, 2)], { type: 'application/geo+json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${problem.name.replace(/\W+/g, '-').toLowerCase() || 'problem'}.geojson`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleRepair = () => {
+        if (!problem) return;
+        const repair = repairProblem(problem);
+        reset();
+        setProblem(repair.problem);
+        setRepaired(repair);
+        setResult(null);
+    };
+
+    const onProgress = (state: SolverProgress) => {
+        updateSolverState({
+            iteration: state.iteration,
+            currentCost: state.cost,
+            temperature: state.temp,
+            bestCost: state.bestCost
+        });
+    };
+
+    const finishRun = (solverResult: SolverResult) => {
+        setSolution(solverResult);
+        setResult(solverResult);
+        recordResult(solverResult.solver, solverResult.totalCost, solverResult.baselineCost);
+        updateSolverState({ isRunning: false, isPaused: false, currentCost: solverResult.totalCost });
+    };
+
+    const handleSolverEvent = (event: SolverEvent) => {
+        switch (event.type) {
+            case 'progress':
+                onProgress(event.state);
+                break;
+            case 'paused':
+                // Show the best routes so far while the run is on hold
+                setSolution(event.result);
+                updateSolverState({ isPaused: true });
+                break;
+            case 'done':
+                finishRun(event.result);
+                break;
+            case 'cancelled':
+                updateSolverState({ isRunning: false, isPaused: false });
+                break;
+            case 'error':
+                console.error("Solver error:", event.message);
+                updateSolverState({ isRunning: false, isPaused: false });
+                break;
+        }
+    };
+
+    const runOptimization = async () => {
+        if (!problem || validation?.valid === false) return;
+
+        setResult(null);
+        updateSolverState({ isRunning: true, isPaused: false, history: [], currentCost: 0, bestCost: Infinity });
+
+        if (activeMode === 'annealing') {
+            // Annealing runs in a worker so it can be paused, resumed and cancelled
+            runnerRef.current ??= createSolverRunner(handleSolverEvent);
+            runnerRef.current.start(problem);
+            return;
+        }
 
-            setSolution(solverResult);
-            setResult(solverResult);
-            updateSolverState({ isRunning: false, currentCost: solverResult.totalCost });
+        try {
+            finishRun(await solveQAOA(problem, onProgress));
         } catch (err) {
             console.error("Solver error:", err);
             updateSolverState({ isRunning: false });
@@ -88,22 +240,75 @@ export function LogisticsInput() {
                         </div>
                         <div className="flex gap-6 text-sm">
                             <div className="text-center">
-                                <p className="text-gray-400">Baseline</p>
-                                <p className="text-red-400 font-mono">{result.baselineCost.toFixed(1)} km</p>
+                                <p className="text-gray-400">Baseline Cost</p>
+                                <p className="text-red-400 font-mono">{result.baselineCost.toFixed(1)}</p>
                             </div>
                             <div className="text-center">
-                                <p className="text-gray-400">Optimized</p>
-                                <p className="text-green-400 font-mono">{result.totalCost.toFixed(1)} km</p>
+                                <p className="text-gray-400">Optimized Cost</p>
+                                <p className="text-green-400 font-mono">{result.totalCost.toFixed(1)}</p>
                             </div>
                             <div className="text-center">
-                                <p className="text-gray-400">Saved</p>
-                                <p className="text-cyan-400 font-mono">{result.improvement.toFixed(1)} km</p>
+                                <p className="text-gray-400">Cost Saved</p>
+                                <p className="text-cyan-400 font-mono">{result.improvement.toFixed(1)}</p>
                             </div>
                         </div>
                     </div>
                 </div>
             )}
 
+            {/* Error Banner */}
+            {error && (
+                <div className="mx-auto max-w-xl flex items-center gap-3 bg-red-900/80 backdrop-blur-xl border border-red-500/30 rounded-xl px-4 py-3 pointer-events-auto animate-fadeIn">
+                    <p className="flex-1 text-red-200 text-sm">{error}</p>
+                    <button onClick={() => setError(null)} className="text-red-300 hover:text-white transition-colors" title="Dismiss">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+
+            {/* Problem Check */}
+            {validation && (validation.issues.length > 0 || repairs.length > 0) && !solverState.isRunning && (
+                <div className={`mx-auto w-full max-w-xl backdrop-blur-xl border rounded-xl px-4 py-3 pointer-events-auto animate-fadeIn ${validation.issues.length === 0 ? 'bg-emerald-900/70 border-emerald-500/30' : validation.valid ? 'bg-amber-900/70 border-amber-500/30' : 'bg-red-900/80 border-red-500/30'}`}>
+                    <div className="flex items-center justify-between gap-3 mb-2">
+                        <p className={`text-sm font-bold ${validation.issues.length === 0 ? 'text-emerald-300' : validation.valid ? 'text-amber-300' : 'text-red-300'}`}>
+                            {validation.issues.length === 0
+                                ? 'Problem check: repaired'
+                                : validation.valid ? 'Problem check: warnings' : 'Problem check: fix errors before solving'}
+                        </p>
+                        {canRepair && (
+                            <button
+                                onClick={handleRepair}
+                                className="flex items-center gap-1 px-3 py-1 rounded-full bg-white/10 text-white text-xs hover:bg-white/20 transition-colors"
+                                title="Apply every suggested repair"
+                            >
+                                <Wrench className="w-3 h-3" />
+                                Auto-repair
+                            </button>
+                        )}
+                    </div>
+                    <ul className="space-y-1 max-h-32 overflow-y-auto text-xs">
+                        {validation.issues.map((issue, i) => (
+                            <li key={i} className="flex items-start gap-2">
+                                {issue.severity === 'error'
+                                    ? <XCircle className="w-3 h-3 mt-0.5 shrink-0 text-red-400" />
+                                    : <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0 text-amber-400" />}
+                                <span className="text-gray-200">
+                                    {issue.message}
+                                    {issue.repair && <span className="text-gray-400"> — {issue.repair.description}</span>}
+                                    <span className="text-gray-500 font-mono"> [{issue.code}]</span>
+                                </span>
+                            </li>
+                        ))}
+                        {repairs.map((repair, i) => (
+                            <li key={`repair-${i}`} className="flex items-start gap-2">
+                                <Wrench className="w-3 h-3 mt-0.5 shrink-0 text-emerald-400" />
+                                <span className="text-gray-200">{repair}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             {/* Controls Bar */}
             <div className="mx-auto flex gap-2 pointer-events-auto">
                 <button
@@ -121,31 +326,91 @@ export function LogisticsInput() {
                     <MapIcon className="w-6 h-6" />
                 </button>
                 {problem && (
+                    <>
+                        <button
+                            onClick={() => matrixInputRef.current?.click()}
+                            disabled={solverState.isRunning}
+                            className={`p-3 rounded-full backdrop-blur-md transition-all ${problem.travel?.kind === 'matrix' ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/50' : 'bg-black/40 text-gray-400 border border-white/10 hover:bg-white/10'}`}
+                            title="Load a distance matrix (CSV or JSON)"
+                        >
+                            <Ruler className="w-6 h-6" />
+                        </button>
+                        <input ref={matrixInputRef} type="file" accept=".csv,.json" className="hidden" onChange={handleMatrixFile} />
+                        <button
+                            onClick={exportGeoJSON}
+                            className="p-3 rounded-full backdrop-blur-md transition-all bg-black/40 text-gray-400 border border-white/10 hover:bg-white/10"
+                            title="Export stops and routes as GeoJSON"
+                        >
+                            <Download className="w-6 h-6" />
+                        </button>
+                    </>
+                )}
+                {problem && qaoaAvailable && (
                     <button
-                        onClick={runOptimization}
+                        onClick={() => setSolverMode(activeMode === 'qaoa' ? 'annealing' : 'qaoa')}
                         disabled={solverState.isRunning}
+                        className={`p-3 rounded-full backdrop-blur-md transition-all ${activeMode === 'qaoa' ? 'bg-purple-500/20 text-purple-400 border border-purple-500/50' : 'bg-black/40 text-gray-400 border border-white/10 hover:bg-white/10'}`}
+                        title={`QAOA on ${qaoaQubitCount(problem)} simulated qubits`}
+                    >
+                        <Atom className="w-6 h-6" />
+                    </button>
+                )}
+                {problem && (
+                    <button
+                        onClick={runOptimization}
+                        disabled={solverState.isRunning || validation?.valid === false}
                         className="flex items-center gap-2 px-6 py-3 rounded-full bg-gradient-to-r from-cyan-600 to-blue-600 text-white font-bold shadow-lg shadow-cyan-500/20 hover:scale-105 transition-transform disabled:opacity-50 disabled:scale-100 backdrop-blur-md overflow-hidden relative group"
                     >
-                        {solverState.isRunning ? <Loader2 className="w-5 h-5 animate-spin" /> : <Play className="w-5 h-5 fill-current" />}
-                        <span>{solverState.isRunning ? 'OPTIMIZING...' : 'RUN SOLVER'}</span>
+                        {solverState.isRunning && !solverState.isPaused ? <Loader2 className="w-5 h-5 animate-spin" /> : <Play className="w-5 h-5 fill-current" />}
+                        <span>{solverState.isPaused ? 'PAUSED' : solverState.isRunning ? 'OPTIMIZING...' : (activeMode === 'qaoa' ? 'RUN QAOA' : 'RUN SOLVER')}</span>
                         <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent -translate-x-full group-hover:animate-shine" />
                     </button>
                 )}
+                {solverState.isRunning && activeMode === 'annealing' && (
+                    <>
+                        <button
+                            onClick={() => solverState.isPaused ? runnerRef.current?.resume() : runnerRef.current?.pause()}
+                            className="p-3 rounded-full backdrop-blur-md transition-all bg-black/40 text-gray-400 border border-white/10 hover:bg-white/10"
+                            title={solverState.isPaused ? 'Resume from the best routes so far' : 'Pause'}
+                        >
+                            {solverState.isPaused ? <Play className="w-6 h-6" /> : <Pause className="w-6 h-6" />}
+                        </button>
+                        <button
+                            onClick={() => runnerRef.current?.cancel()}
+                            className="p-3 rounded-full backdrop-blur-md transition-all bg-black/40 text-red-400 border border-white/10 hover:bg-white/10"
+                            title="Cancel"
+                        >
+                            <Square className="w-6 h-6" />
+                        </button>
+                    </>
+                )}
             </div>
 
-            {/* Input Bar */}
-            <div className="mx-auto w-full max-w-2xl pointer-events-auto">
+            {/* Input Bar, also a drop zone for stop and route files */}
+            <div
+                className="mx-auto w-full max-w-2xl pointer-events-auto"
+                onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+            >
                 <form onSubmit={handleSubmit} className="relative group">
-                    <div className="absolute inset-0 bg-gradient-to-r from-cyan-500/20 via-blue-500/20 to-purple-500/20 rounded-xl blur opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
-                    <div className="relative flex items-center bg-black/60 backdrop-blur-xl border border-white/10 rounded-xl overflow-hidden shadow-2xl">
-                        <button type="button" className="p-4 text-gray-400 hover:text-white transition-colors" title="Upload CSV">
+                    <div className={`absolute inset-0 bg-gradient-to-r from-cyan-500/20 via-blue-500/20 to-purple-500/20 rounded-xl blur transition-opacity duration-500 ${isDragging ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`} />
+                    <div className={`relative flex items-center bg-black/60 backdrop-blur-xl border rounded-xl overflow-hidden shadow-2xl ${isDragging ? 'border-cyan-500/50 border-dashed' : 'border-white/10'}`}>
+                        <button
+                            type="button"
+                            onClick={() => importInputRef.current?.click()}
+                            disabled={solverState.isRunning}
+                            className="p-4 text-gray-400 hover:text-white disabled:opacity-50 transition-colors"
+                            title="Import stops or routes (CSV, GeoJSON, CVRPLIB .vrp/.sol), or drop files here"
+                        >
                             <Upload className="w-5 h-5" />
                         </button>
+                        <input ref={importInputRef} type="file" accept=".csv,.geojson,.json,.vrp,.sol" multiple className="hidden" onChange={handleImportFile} />
                         <input
                             type="text"
                             value={input}
                             onChange={(e) => setInput(e.target.value)}
-                            placeholder="Describe your logistics problem (e.g., 'Optimize routes for 5 trucks with 30 stops in Hamburg')"
+                            placeholder={isDragging ? 'Drop to import' : "Describe your logistics problem (e.g., 'Optimize routes for 5 trucks with 30 stops in Hamburg')"}
                             className="flex-1 bg-transparent border-none outline-none text-white placeholder-gray-500 p-4 font-mono text-sm"
                             disabled={isLoading}
                         />
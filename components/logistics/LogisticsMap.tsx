@@ -10,6 +10,14 @@ import { LogisticsNode, Route, GeoLocation } from "@/lib/logistics/types";
 
 const EARTH_RADIUS = 10;
 
+// Marker colour per node type: pickups and deliveries stand out from plain customers
+const NODE_COLORS: Record<LogisticsNode['type'], string> = {
+    depot: "#00ffff",
+    customer: "#ff00ff",
+    pickup: "#ffaa00",
+    delivery: "#00ff88",
+};
+
 // Hamburg coordinates for camera focus
 const HAMBURG = { lat: 53.5511, lng: 9.9937 };
 
@@ -63,6 +71,7 @@ function CityMap({ problem, solution }: { problem: any; solution: any }) {
             {problem.nodes.map((node: LogisticsNode) => {
                 const pos = project(node.location.lat, node.location.lng);
                 const isDepot = node.type === 'depot';
+                const color = NODE_COLORS[node.type];
 
                 return (
                     <group key={node.id} position={pos}>
@@ -70,7 +79,7 @@ function CityMap({ problem, solution }: { problem: any; solution: any }) {
                         <mesh position={[0, 0.01, 0]} rotation={[-Math.PI / 2, 0, 0]}>
                             <circleGeometry args={[isDepot ? 0.8 : 0.4, 32]} />
                             <meshBasicMaterial
-                                color={isDepot ? "#00ffff" : "#ff00ff"}
+                                color={color}
                                 transparent
                                 opacity={0.3}
                             />
@@ -80,8 +89,8 @@ function CityMap({ problem, solution }: { problem: any; solution: any }) {
                         <mesh position={[0, isDepot ? 1.5 : 0.6, 0]}>
                             <boxGeometry args={[0.4, isDepot ? 3 : 1.2, 0.4]} />
                             <meshStandardMaterial
-                                color={isDepot ? "#00ffff" : "#ff00ff"}
-                                emissive={isDepot ? "#00ffff" : "#ff00ff"}
+                                color={color}
+                                emissive={color}
                                 emissiveIntensity={2}
                                 toneMapped={false}
                             />
@@ -92,7 +101,7 @@ function CityMap({ problem, solution }: { problem: any; solution: any }) {
                             position={[0, 1, 0]}
                             distance={3}
                             intensity={1}
-                            color={isDepot ? "#00ffff" : "#ff00ff"}
+                            color={color}
                         />
                     </group>
                 );
@@ -191,14 +200,15 @@ function GlobeMap({ problem, solution }: { problem: any; solution: any }) {
             {problem.nodes.map((node: LogisticsNode) => {
                 const pos = latLngToVector3(node.location.lat, node.location.lng, EARTH_RADIUS + 0.15);
                 const isDepot = node.type === 'depot';
+                const color = NODE_COLORS[node.type];
 
                 return (
                     <group key={node.id} position={pos}>
                         <mesh>
                             <sphereGeometry args={[isDepot ? 0.3 : 0.15, 16, 16]} />
                             <meshStandardMaterial
-                                color={isDepot ? "#00ffff" : "#ff00ff"}
-                                emissive={isDepot ? "#00ffff" : "#ff00ff"}
+                                color={color}
+                                emissive={color}
                                 emissiveIntensity={3}
                                 toneMapped={false}
                             />
@@ -206,7 +216,7 @@ function GlobeMap({ problem, solution }: { problem: any; solution: any }) {
                         <pointLight
                             distance={1.5}
                             intensity={isDepot ? 3 : 1}
-                            color={isDepot ? "#00ffff" : "#ff00ff"}
+                            color={color}
                         />
                     </group>
                 );
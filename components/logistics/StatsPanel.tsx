@@ -2,18 +2,29 @@
 
 import { useLogisticsStore } from "@/lib/logistics/store";
 import { useEffect, Suspense, useRef, useMemo } from "react";
-import { Loader2, TrendingDown } from "lucide-react";
-import { SolverResult } from "@/lib/logistics/solver";
+import { Loader2, TrendingDown, AlertTriangle } from "lucide-react";
+import { SolverResult, DEFAULT_SOLVER_OPTIONS, isStop } from "@/lib/logistics/solver";
+import { canSolveWithQAOA } from "@/lib/logistics/qaoa";
+import { quboQubitCount } from "@/lib/logistics/qubo";
 
 export function StatsPanel() {
-    const { problem, solverState, solution } = useLogisticsStore();
+    const { problem, solverState, solution, solverMode, comparison } = useLogisticsStore();
 
     if (!problem) return null;
 
-    const status = solverState.isRunning ? 'OPTIMIZING' : (solution ? 'COMPLETED' : 'READY');
+    const qaoaActive = solverMode === 'qaoa' && canSolveWithQAOA(problem);
+    const comparisonRows = [
+        { label: 'Greedy', cost: comparison.greedy, color: 'text-red-400' },
+        { label: 'Annealing', cost: comparison.annealing, color: 'text-cyan-400' },
+        { label: 'QAOA', cost: comparison.qaoa, color: 'text-purple-400' },
+    ].filter(row => row.cost !== undefined);
+
+    const status = solverState.isPaused ? 'PAUSED' : solverState.isRunning ? 'OPTIMIZING' : (solution ? 'COMPLETED' : 'READY');
     const statusColor = solverState.isRunning ? 'text-yellow-400' : (solution ? 'text-green-400' : 'text-cyan-400');
 
     const solverResult = solution as SolverResult | null;
+    const infeasibleRoutes = solverResult?.routes.filter(r => r.feasibility && !r.feasibility.feasible) ?? [];
+    const unassigned = solverResult?.unassignedNodes ?? [];
 
     return (
         <div className="fixed top-6 right-6 z-50 w-72 space-y-3 pointer-events-none">
@@ -22,10 +33,10 @@ export function StatsPanel() {
                 <h3 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-2">Operation Status</h3>
                 <div className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
-                        <div className={`w-3 h-3 rounded-full ${solverState.isRunning ? 'bg-yellow-400 animate-pulse' : (solution ? 'bg-green-400' : 'bg-cyan-400')}`} />
+                        <div className={`w-3 h-3 rounded-full ${solverState.isRunning ? `bg-yellow-400 ${solverState.isPaused ? '' : 'animate-pulse'}` : (solution ? 'bg-green-400' : 'bg-cyan-400')}`} />
                         <span className={`font-bold ${statusColor}`}>{status}</span>
                     </div>
-                    {solverState.isRunning && (
+                    {solverState.isRunning && !solverState.isPaused && (
                         <Loader2 className="w-4 h-4 text-yellow-400 animate-spin" />
                     )}
                 </div>
@@ -33,7 +44,7 @@ export function StatsPanel() {
 
             {/* Problem Stats */}
             <div className="bg-black/80 backdrop-blur-xl border border-white/10 rounded-lg p-4 pointer-events-auto">
-                <div className="grid grid-cols-2 gap-4">
+                <div className="grid grid-cols-3 gap-4">
                     <div>
                         <p className="text-xs text-cyan-400 uppercase tracking-wider flex items-center gap-1">
                             <span className="text-base">🚛</span> Fleet
@@ -44,7 +55,13 @@ export function StatsPanel() {
                         <p className="text-xs text-cyan-400 uppercase tracking-wider flex items-center gap-1">
                             <span className="text-base">📍</span> Stops
                         </p>
-                        <p className="text-2xl font-bold text-white">{problem.nodes.filter(n => n.type === 'customer').length}</p>
+                        <p className="text-2xl font-bold text-white">{problem.nodes.filter(isStop).length}</p>
+                    </div>
+                    <div title="Qubits needed by the QUBO encoding">
+                        <p className="text-xs text-cyan-400 uppercase tracking-wider flex items-center gap-1">
+                            <span className="text-base">⚛</span> Qubits
+                        </p>
+                        <p className="text-2xl font-bold text-white">{quboQubitCount(problem)}</p>
                     </div>
                 </div>
             </div>
@@ -53,45 +70,89 @@ export function StatsPanel() {
             <div className="bg-black/80 backdrop-blur-xl border border-white/10 rounded-lg p-4 pointer-events-auto">
                 <h3 className="text-xs font-bold text-cyan-400 uppercase tracking-widest mb-3 flex items-center gap-2">
                     <TrendingDown className="w-4 h-4" />
-                    Quantum Annealing
+                    {qaoaActive ? 'QAOA' : 'Quantum Annealing'}
                 </h3>
 
                 <div className="space-y-3">
                     <div className="flex justify-between items-center">
                         <span className="text-gray-400 text-sm">Current Cost</span>
                         <span className="text-white font-mono">
-                            {solverState.currentCost > 0 ? `${solverState.currentCost.toFixed(1)} km` : '—'}
+                            {solverState.currentCost > 0 ? solverState.currentCost.toFixed(1) : '—'}
                         </span>
                     </div>
                     <div className="flex justify-between items-center">
                         <span className="text-gray-400 text-sm">Best Cost</span>
                         <span className="text-green-400 font-mono font-bold">
-                            {solverState.bestCost < Infinity ? `${solverState.bestCost.toFixed(1)} km` : '—'}
+                            {solverState.bestCost < Infinity ? solverState.bestCost.toFixed(1) : '—'}
                         </span>
                     </div>
 
                     {/* Temperature Bar */}
-                    <div>
-                        <div className="flex justify-between text-xs mb-1">
-                            <span className="text-gray-500">Temperature</span>
-                            <span className="text-orange-400 font-mono">{solverState.temperature.toFixed(1)}</span>
+                    {!qaoaActive && (
+                        <div>
+                            <div className="flex justify-between text-xs mb-1">
+                                <span className="text-gray-500">Temperature</span>
+                                <span className="text-orange-400 font-mono">{solverState.temperature.toFixed(1)}</span>
+                            </div>
+                            <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                                <div
+                                    className="h-full bg-gradient-to-r from-blue-500 via-orange-500 to-red-500 transition-all duration-300"
+                                    style={{ width: `${Math.min(100, (solverState.temperature / DEFAULT_SOLVER_OPTIONS.initialTemperature) * 100)}%` }}
+                                />
+                            </div>
                         </div>
-                        <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
-                            <div
-                                className="h-full bg-gradient-to-r from-blue-500 via-orange-500 to-red-500 transition-all duration-300"
-                                style={{ width: `${Math.min(100, (solverState.temperature / 500) * 100)}%` }}
-                            />
-                        </div>
-                    </div>
+                    )}
 
                     {/* Progress */}
                     <div className="flex justify-between text-xs">
                         <span className="text-gray-500">Iteration</span>
-                        <span className="text-gray-400 font-mono">{solverState.iteration} / 3000</span>
+                        <span className="text-gray-400 font-mono">
+                            {qaoaActive ? solverState.iteration : `${solverState.iteration} / ${DEFAULT_SOLVER_OPTIONS.maxIterations}`}
+                        </span>
                     </div>
                 </div>
             </div>
 
+            {/* Constraint Violations */}
+            {(infeasibleRoutes.length > 0 || unassigned.length > 0) && (
+                <div className="bg-black/80 backdrop-blur-xl border border-orange-500/30 rounded-lg p-4 pointer-events-auto">
+                    <h3 className="text-xs font-bold text-orange-400 uppercase tracking-widest mb-2 flex items-center gap-2">
+                        <AlertTriangle className="w-4 h-4" />
+                        Constraints
+                    </h3>
+                    <div className="space-y-1 text-sm">
+                        {unassigned.length > 0 && (
+                            <p className="text-orange-300">{unassigned.length} stops could not be assigned feasibly</p>
+                        )}
+                        {infeasibleRoutes.map(route => (
+                            <p key={route.vehicleId} className="text-orange-300/80 text-xs font-mono">
+                                {route.vehicleId}:
+                                {route.feasibility!.overload > 0 && ` +${route.feasibility!.overload} load`}
+                                {route.feasibility!.lateness > 0 && ` ${route.feasibility!.lateness.toFixed(0)} min late`}
+                                {route.feasibility!.excessDistance > 0 && ` +${route.feasibility!.excessDistance.toFixed(1)} km`}
+                                {route.feasibility!.excessTime > 0 && ` +${route.feasibility!.excessTime.toFixed(0)} min`}
+                                {route.feasibility!.unpairedStops.length > 0 && ` ${route.feasibility!.unpairedStops.length} out of order`}
+                            </p>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Method Comparison */}
+            {comparisonRows.length > 1 && (
+                <div className="bg-black/80 backdrop-blur-xl border border-white/10 rounded-lg p-4 pointer-events-auto">
+                    <h3 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-2">Cost Comparison</h3>
+                    <div className="space-y-1">
+                        {comparisonRows.map(row => (
+                            <div key={row.label} className="flex justify-between text-sm">
+                                <span className="text-gray-400">{row.label}</span>
+                                <span className={`font-mono ${row.color}`}>{row.cost!.toFixed(1)}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Improvement Card */}
             {solverResult && solverResult.improvementPercent > 0 && (
                 <div className="bg-gradient-to-br from-green-900/60 to-emerald-900/60 backdrop-blur-xl border border-green-500/30 rounded-lg p-4 pointer-events-auto">
@@ -105,7 +166,7 @@ export function StatsPanel() {
                         <span className="text-green-300/70 text-sm">better than greedy</span>
                     </div>
                     <p className="text-green-300/60 text-xs mt-2">
-                        Saved {solverResult.improvement.toFixed(1)} km across {solverResult.routes.length} routes
+                        Cut cost by {solverResult.improvement.toFixed(1)} across {solverResult.routes.length} routes
                     </p>
                 </div>
             )}
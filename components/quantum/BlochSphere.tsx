@@ -67,8 +67,8 @@ function BlochSphereMesh({ coordinates, qubitIndex, showTrail = true, isAnimatin
   const yWidth = highlightedAxis === 'y' ? 3 : 1;
   const zWidth = highlightedAxis === 'z' ? 3 : 1;
 
-  // Calculate spherical coordinates for display
-  const theta = Math.acos(coordinates.z);
+  // Calculate spherical coordinates for display (normalized so mixed states stay in range)
+  const theta = Math.acos(length > 1e-9 ? Math.max(-1, Math.min(1, coordinates.z / length)) : 1);
   const phi = Math.atan2(coordinates.y, coordinates.x);
   const thetaDeg = (theta * 180 / Math.PI).toFixed(1);
   const phiDeg = (phi * 180 / Math.PI).toFixed(1);
@@ -202,7 +202,7 @@ function BlochSphereMesh({ coordinates, qubitIndex, showTrail = true, isAnimatin
             {/* Coordinates display */}
             <Html position={[coordinates.x + 0.2, coordinates.z + 0.2, coordinates.y]}>
               <div className="bg-black/80 text-white text-xs p-1.5 rounded font-mono whitespace-nowrap">
-                θ={thetaDeg}° φ={phiDeg}°
+                θ={thetaDeg}° φ={phiDeg}°{length < 0.999 && ` r=${length.toFixed(2)}`}
               </div>
             </Html>
           </>
@@ -430,6 +430,10 @@ export function BlochSphere() {
               <span className="w-2 h-2 rounded-full bg-green-500"></span>
               Superposition states lie on the equator
             </p>
+            <p className="flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full bg-gray-500"></span>
+              Mixed or entangled qubits point inside the sphere (r &lt; 1)
+            </p>
             <p className="text-muted-foreground/70 mt-2">
               💡 Drag to rotate, scroll to zoom, click axes for info
             </p>
@@ -297,6 +297,18 @@ export function ChatInterface() {
     scrollToBottom();
   }, [messages]);
 
+  // Circuit code runs through the parser or the sandbox; report what it rejects in the chat
+  const handleLoadCircuit = async (code: string) => {
+    try {
+      await loadCircuitFromCode(code);
+    } catch (error) {
+      addMessage({
+        role: 'assistant',
+        content: `I couldn't load that circuit: ${error instanceof Error ? error.message : 'Unknown error'}.`,
+      });
+    }
+  };
+
   const handleSend = async () => {
     if (!input.trim() || isAiLoading) return;
 
@@ -326,9 +338,10 @@ export function ChatInterface() {
         quiz: response.quiz,
       });
 
-      // Auto-load circuit if provided
+      // Auto-load circuit if provided; not awaited, so a sandboxed run neither
+      // holds up the next question nor reports a load failure as an AI error
       if (response.circuitCode) {
-        loadCircuitFromCode(response.circuitCode);
+        handleLoadCircuit(response.circuitCode);
       }
     } catch (error) {
       addMessage({
@@ -403,7 +416,7 @@ export function ChatInterface() {
             <ChatMessage 
               key={message.id} 
               message={message} 
-              onLoadCircuit={loadCircuitFromCode}
+              onLoadCircuit={handleLoadCircuit}
             />
           ))}
           
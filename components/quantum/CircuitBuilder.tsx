@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { useToast } from '@/components/ui/toast';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Slider } from '@/components/ui/slider';
+import { Input } from '@/components/ui/input';
 import {
   Dialog,
   DialogContent,
@@ -13,11 +14,16 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { useQuantumStore, CircuitGate } from '@/lib/store';
-import { GATE_LIBRARY } from '@/lib/quantum/gates';
+import { GATE_LIBRARY, NON_UNITARY_OPS } from '@/lib/quantum/gates';
 import { LIMITS } from '@/lib/quantum/validators';
+import type { GateCondition } from '@/lib/quantum';
+import { ParamValue, parseParamValue, isSymbol, getCircuitParameters } from '@/lib/quantum/parameters';
+import type { CustomGateDefinition, SubcircuitGateDefinition } from '@/lib/quantum/custom-gates';
 import { cn } from '@/lib/utils';
 import {
   Trash2,
+  ChevronRight,
+  ChevronLeft,
   Play,
   RotateCcw,
   Plus,
@@ -58,6 +64,7 @@ const GATE_COLORS: Record<string, { bg: string; glow: string }> = {
   CCZ: { bg: 'bg-blue-600', glow: 'shadow-blue-600/30' },
   RCCX: { bg: 'bg-cyan-600', glow: 'shadow-cyan-600/30' },
   MEASURE: { bg: 'bg-gray-700', glow: 'shadow-gray-700/30' },
+  RESET: { bg: 'bg-slate-600', glow: 'shadow-slate-600/30' },
 };
 
 const GATE_DESCRIPTIONS: Record<string, string> = {
@@ -83,24 +90,189 @@ const GATE_DESCRIPTIONS: Record<string, string> = {
   Fredkin: 'Controlled-SWAP',
   CCZ: 'Three-qubit Z',
   RCCX: 'Relative-phase Toffoli',
+  MEASURE: 'Measure into classical bit',
+  RESET: 'Reset to |0⟩',
 };
 
+// Height of a qubit row plus the gap to the next one
+const WIRE_PITCH = 52;
+const INNER_CELL = 28;
+
+// Columns for a subcircuit's gates, each packed as far left as its wires allow
+function layoutSubcircuit(definition: SubcircuitGateDefinition): { gate: SubcircuitGateDefinition['gates'][number]; column: number }[] {
+  const free = new Array(definition.qubits).fill(0);
+  return definition.gates.map(gate => {
+    const column = Math.max(...gate.qubits.map(q => free[q]));
+    gate.qubits.forEach(q => { free[q] = column + 1; });
+    return { gate, column };
+  });
+}
+
+function formatEntry({ real, imag }: { real: number; imag: number }): string {
+  if (Math.abs(imag) < 1e-9) return real.toFixed(2);
+  if (Math.abs(real) < 1e-9) return `${imag.toFixed(2)}i`;
+  return `${real.toFixed(2)}${imag < 0 ? '-' : '+'}${Math.abs(imag).toFixed(2)}i`;
+}
+
+interface CustomGateBoxProps {
+  gate: CircuitGate;
+  definition: CustomGateDefinition;
+  expanded: boolean;
+  onToggle: () => void;
+  onRemove: () => void;
+  onCondition: () => void;
+}
+
+/**
+ * A custom gate as one box across its wires. Collapsed it shows the symbol;
+ * expanded it shows the subcircuit's gates (or the matrix) over the steps after it.
+ */
+function CustomGateBox({ gate, definition, expanded, onToggle, onRemove, onCondition }: CustomGateBoxProps) {
+  const top = Math.min(...gate.qubits);
+  const height = (Math.max(...gate.qubits) - top) * WIRE_PITCH + 40;
+  // Wire row of each of the gate's local qubits
+  const rowOf = (local: number) => (gate.qubits[local] - top) * WIRE_PITCH;
+
+  const layout = definition.kind === 'subcircuit' ? layoutSubcircuit(definition) : [];
+  const columns = Math.max(1, ...layout.map(l => l.column + 1));
+  const showMatrix = definition.kind === 'matrix' && definition.qubits <= 2;
+  const width = !expanded ? 40
+    : definition.kind === 'subcircuit' ? columns * INNER_CELL + 28
+    : showMatrix ? 2 ** definition.qubits * 44 + 28 : 96;
+
+  return (
+    <div
+      className={cn(
+        "absolute left-1 top-0 rounded-lg border-2 border-emerald-500 text-white font-mono",
+        "shadow-lg shadow-emerald-500/30 cursor-pointer transition-all duration-200",
+        expanded ? "z-20 bg-card text-foreground" : "z-10 bg-emerald-600 hover:shadow-xl"
+      )}
+      style={{ width, height }}
+      onClick={(e) => {
+        e.stopPropagation();
+        onRemove();
+      }}
+      onContextMenu={(e) => {
+        e.preventDefault();
+        onCondition();
+      }}
+      title={`${definition.description || definition.name}${gate.params ? ` (${gate.params.map(p => (isSymbol(p) ? p : p.toFixed(3))).join(', ')})` : ''} — click to remove, right-click to condition on a classical bit`}
+    >
+      {gate.condition && (
+        <span className="absolute -top-3 left-1/2 -translate-x-1/2 px-1 rounded bg-background border text-[9px] text-foreground whitespace-nowrap">
+          c{gate.condition.clbits.join(',c')}={gate.condition.value}
+        </span>
+      )}
+
+      {/* Local qubit order, which may differ from the wire order */}
+      {gate.qubits.length > 1 && gate.qubits.map((_, local) => (
+        <span
+          key={local}
+          className={cn("absolute left-0.5 text-[9px]", expanded ? "text-muted-foreground" : "text-white/70")}
+          style={{ top: rowOf(local) + 14 }}
+        >
+          {local}
+        </span>
+      ))}
+
+      {!expanded && (
+        <span className="absolute inset-x-0 top-1/2 -translate-y-1/2 text-center text-xs font-bold truncate px-1">
+          {definition.symbol || definition.name}
+        </span>
+      )}
+
+      {expanded && definition.kind === 'subcircuit' && layout.map(({ gate: inner, column }, i) => {
+        const rows = inner.qubits.map(rowOf);
+        return (
+          <React.Fragment key={i}>
+            {rows.length > 1 && (
+              <div
+                className="absolute w-px bg-foreground/60"
+                style={{ left: 16 + column * INNER_CELL + 11, top: Math.min(...rows) + 20, height: Math.max(...rows) - Math.min(...rows) }}
+              />
+            )}
+            {rows.map((row, k) => (
+              <span
+                key={k}
+                className={cn(
+                  "absolute flex items-center justify-center rounded text-[9px] font-bold",
+                  k === 0 ? "h-6 w-6 bg-emerald-600 text-white" : "h-2.5 w-2.5 m-[7px] rounded-full bg-foreground"
+                )}
+                style={{ left: 16 + column * INNER_CELL - 1, top: row + 8 }}
+              >
+                {k === 0 && (GATE_LIBRARY[inner.gate]?.symbol ?? inner.gate).slice(0, 3)}
+              </span>
+            ))}
+          </React.Fragment>
+        );
+      })}
+
+      {expanded && definition.kind === 'matrix' && (
+        showMatrix ? (
+          <div
+            className="absolute left-4 top-1 grid gap-x-1 text-[9px] text-foreground"
+            style={{ gridTemplateColumns: `repeat(${2 ** definition.qubits}, 40px)` }}
+          >
+            {definition.matrix.flat().map((entry, i) => <span key={i} className="truncate">{formatEntry(entry)}</span>)}
+          </div>
+        ) : (
+          <span className="absolute left-4 top-2 text-[10px] text-muted-foreground">
+            {2 ** definition.qubits}×{2 ** definition.qubits} unitary
+          </span>
+        )
+      )}
+
+      <button
+        className={cn(
+          "absolute bottom-0.5 right-0.5 rounded hover:bg-black/20",
+          expanded ? "text-muted-foreground" : "text-white/80"
+        )}
+        onClick={(e) => {
+          e.stopPropagation();
+          onToggle();
+        }}
+        title={expanded ? 'Collapse' : `Show what ${definition.name} contains`}
+      >
+        {expanded ? <ChevronLeft className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+      </button>
+    </div>
+  );
+}
+
 interface ParamDialogProps {
   open: boolean;
   onClose: () => void;
   gateName: string;
-  onConfirm: (params: number[]) => void;
+  onConfirm: (params: ParamValue[]) => void;
 }
 
 function ParamDialog({ open, onClose, gateName, onConfirm }: ParamDialogProps) {
   const gateInfo = GATE_LIBRARY[gateName];
   const paramNames = gateInfo?.params || ['θ'];
-  const [params, setParams] = useState<number[]>(new Array(paramNames.length).fill(Math.PI / 4));
+  const [params, setParams] = useState<ParamValue[]>(new Array(paramNames.length).fill(Math.PI / 4));
+  // Raw text per parameter; a number or a symbol name such as theta_0
+  const [texts, setTexts] = useState<string[]>(new Array(paramNames.length).fill((Math.PI / 4).toFixed(4)));
+  const isValid = texts.every(text => parseParamValue(text) !== null);
 
   const updateParam = (index: number, value: number) => {
     const newParams = [...params];
     newParams[index] = value;
     setParams(newParams);
+    const newTexts = [...texts];
+    newTexts[index] = value.toFixed(4);
+    setTexts(newTexts);
+  };
+
+  const updateText = (index: number, text: string) => {
+    const newTexts = [...texts];
+    newTexts[index] = text;
+    setTexts(newTexts);
+    const parsed = parseParamValue(text);
+    if (parsed !== null) {
+      const newParams = [...params];
+      newParams[index] = parsed;
+      setParams(newParams);
+    }
   };
 
   return (
@@ -110,23 +282,108 @@ function ParamDialog({ open, onClose, gateName, onConfirm }: ParamDialogProps) {
           <DialogTitle>{gateName} Parameters</DialogTitle>
         </DialogHeader>
         <div className="py-4 space-y-6">
-          {paramNames.map((name, i) => (
-            <div key={name}>
-              <label className="text-sm font-medium">{name}: {(params[i] / Math.PI).toFixed(2)}π</label>
-              <Slider
-                value={[params[i]]}
-                onValueChange={(v) => updateParam(i, v[0])}
-                min={0}
-                max={2 * Math.PI}
-                step={Math.PI / 16}
-                className="mt-2"
-              />
+          {paramNames.map((name, i) => {
+            const param = params[i];
+            return (
+              <div key={name}>
+                <div className="flex items-center justify-between gap-2">
+                  <label className="text-sm font-medium">
+                    {name}: {isSymbol(param) ? <span className="font-mono">{param}</span> : `${(param / Math.PI).toFixed(2)}π`}
+                  </label>
+                  <Input
+                    value={texts[i]}
+                    onChange={(e) => updateText(i, e.target.value)}
+                    placeholder="0.785 or theta_0"
+                    className={cn(
+                      "w-36 h-8 font-mono text-xs",
+                      parseParamValue(texts[i]) === null && "border-destructive"
+                    )}
+                  />
+                </div>
+                <Slider
+                  value={[isSymbol(param) ? 0 : param]}
+                  onValueChange={(v) => updateParam(i, v[0])}
+                  min={0}
+                  max={2 * Math.PI}
+                  step={Math.PI / 16}
+                  disabled={isSymbol(param)}
+                  className="mt-2"
+                />
+              </div>
+            );
+          })}
+          <p className="text-xs text-muted-foreground">
+            Type a name such as <span className="font-mono">theta_0</span> to make the angle a symbolic parameter.
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button disabled={!isValid} onClick={() => { onConfirm(params); onClose(); }}>Apply</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ConditionDialogProps {
+  gate: CircuitGate | null;
+  numClbits: number;
+  onClose: () => void;
+  onConfirm: (condition: GateCondition | null) => void;
+}
+
+function ConditionDialog({ gate, numClbits, onClose, onConfirm }: ConditionDialogProps) {
+  const [clbit, setClbit] = useState(gate?.condition?.clbits[0] ?? 0);
+  const [value, setValue] = useState(gate?.condition?.value ?? 1);
+
+  return (
+    <Dialog open={gate !== null} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Condition {gate?.gate} on a classical bit</DialogTitle>
+        </DialogHeader>
+        <div className="py-4 space-y-4">
+          <div>
+            <label className="text-sm font-medium">Classical bit</label>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {Array.from({ length: numClbits }).map((_, i) => (
+                <Button
+                  key={i}
+                  size="sm"
+                  variant={clbit === i ? 'default' : 'outline'}
+                  className="font-mono"
+                  onClick={() => setClbit(i)}
+                >
+                  c{i}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="text-sm font-medium">Fire when the bit is</label>
+            <div className="flex gap-2 mt-2">
+              {[0, 1].map(v => (
+                <Button
+                  key={v}
+                  size="sm"
+                  variant={value === v ? 'default' : 'outline'}
+                  className="font-mono"
+                  onClick={() => setValue(v)}
+                >
+                  {v}
+                </Button>
+              ))}
             </div>
-          ))}
+          </div>
         </div>
         <DialogFooter>
+          {gate?.condition && (
+            <Button variant="ghost" className="mr-auto" onClick={() => { onConfirm(null); onClose(); }}>
+              Remove condition
+            </Button>
+          )}
           <Button variant="outline" onClick={onClose}>Cancel</Button>
-          <Button onClick={() => { onConfirm(params); onClose(); }}>Apply</Button>
+          <Button onClick={() => { onConfirm({ clbits: [clbit], value }); onClose(); }}>Apply</Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -140,11 +397,15 @@ export function CircuitBuilder() {
     selectedGate,
     addGate,
     removeGate,
+    setGateCondition,
     clearCircuit,
     runSimulation,
     isRunning,
     initSimulator,
     setSelectedGate,
+    parameterBindings,
+    setParameterValue,
+    customGates,
   } = useQuantumStore();
   const toast = useToast();
 
@@ -155,6 +416,19 @@ export function CircuitBuilder() {
     step?: number;
   }>({ open: false, qubit: 0, gateName: '' });
 
+  const [conditionGate, setConditionGate] = useState<CircuitGate | null>(null);
+  // Custom gates opened up to show what they contain, by gate id
+  const [expandedGates, setExpandedGates] = useState<Set<string>>(new Set());
+
+  const toggleExpanded = (gateId: string) => {
+    setExpandedGates(prev => {
+      const next = new Set(prev);
+      if (next.has(gateId)) next.delete(gateId);
+      else next.add(gateId);
+      return next;
+    });
+  };
+
   const [zoom, setZoom] = useState(1);
   const [dragOver, setDragOver] = useState<{ qubit: number; step: number } | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -167,9 +441,30 @@ export function CircuitBuilder() {
 
   const cellSize = 48;
 
+  // Measurements write to the classical bit with the same index as the qubit
+  const placeNonUnitary = (opName: string, qubit: number, step?: number) => {
+    addGate(opName, [qubit], undefined, step, opName === 'MEASURE' ? [qubit] : undefined);
+  };
+
+  // Multi-qubit gates (custom ones included) take consecutive wires from the clicked one down
+  const placeOnWires = (gateName: string, arity: number, qubit: number, step?: number): boolean => {
+    if (qubit + arity > numQubits) {
+      toast.error("Invalid placement", `Not enough qubits below for a ${arity}-qubit gate.`);
+      return false;
+    }
+    addGate(gateName, Array.from({ length: arity }, (_, i) => qubit + i), undefined, step);
+    return true;
+  };
+
   const handleQubitClick = (qubit: number, step: number) => {
     if (!selectedGate) return;
 
+    if (NON_UNITARY_OPS[selectedGate]) {
+      placeNonUnitary(selectedGate, qubit, step);
+      setSelectedGate(null);
+      return;
+    }
+
     const gateInfo = GATE_LIBRARY[selectedGate];
     if (!gateInfo) return;
 
@@ -184,21 +479,7 @@ export function CircuitBuilder() {
       return;
     }
 
-    if (gateInfo.qubits === 1) {
-      addGate(selectedGate, [qubit], undefined, step);
-    } else if (gateInfo.qubits === 2) {
-      if (qubit + 1 >= numQubits) {
-        toast.error("Invalid placement", "Not enough qubits below for a 2-qubit gate.");
-        return;
-      }
-      addGate(selectedGate, [qubit, qubit + 1], undefined, step);
-    } else if (gateInfo.qubits === 3) {
-      if (qubit + 2 >= numQubits) {
-        toast.error("Invalid placement", "Not enough qubits below for a 3-qubit gate.");
-        return;
-      }
-      addGate(selectedGate, [qubit, qubit + 1, qubit + 2], undefined, step);
-    }
+    if (!placeOnWires(selectedGate, gateInfo.qubits, qubit, step)) return;
 
     setSelectedGate(null);
   };
@@ -217,7 +498,9 @@ export function CircuitBuilder() {
     e.stopPropagation();
     const gateName = e.dataTransfer.getData('gate');
 
-    if (gateName) {
+    if (gateName && NON_UNITARY_OPS[gateName]) {
+      placeNonUnitary(gateName, qubit, step);
+    } else if (gateName) {
       const gateInfo = GATE_LIBRARY[gateName];
       if (gateInfo) {
         if (gateInfo.params && gateInfo.params.length > 0) {
@@ -230,28 +513,22 @@ export function CircuitBuilder() {
           return;
         }
 
-        if (gateInfo.qubits === 1) {
-          addGate(gateName, [qubit], undefined, step);
-        } else if (gateInfo.qubits === 2) {
-          if (qubit + 1 >= numQubits) {
-            toast.error("Invalid placement", "Not enough qubits below for a 2-qubit gate.");
-            return;
-          }
-          addGate(gateName, [qubit, qubit + 1], undefined, step);
-        } else if (gateInfo.qubits === 3) {
-          if (qubit + 2 >= numQubits) {
-            toast.error("Invalid placement", "Not enough qubits below for a 3-qubit gate.");
-            return;
-          }
-          addGate(gateName, [qubit, qubit + 1, qubit + 2], undefined, step);
-        }
+        if (!placeOnWires(gateName, gateInfo.qubits, qubit, step)) return;
       }
     }
     setDragOver(null);
   };
 
-  const handleParamConfirm = (params: number[]) => {
-    addGate(paramDialog.gateName, [paramDialog.qubit], params, paramDialog.step);
+  const circuitParameters = getCircuitParameters(circuitGates);
+
+  const handleParamConfirm = (params: ParamValue[]) => {
+    const arity = GATE_LIBRARY[paramDialog.gateName]?.qubits ?? 1;
+    if (paramDialog.qubit + arity > numQubits) {
+      toast.error("Invalid placement", `Not enough qubits below for a ${arity}-qubit gate.`);
+      return;
+    }
+    const qubits = Array.from({ length: arity }, (_, i) => paramDialog.qubit + i);
+    addGate(paramDialog.gateName, qubits, params, paramDialog.step);
     setSelectedGate(null);
   };
 
@@ -391,7 +668,11 @@ export function CircuitBuilder() {
                   {/* Gate slots */}
                   {Array.from({ length: displaySteps }).map((_, step) => {
                     const gate = gatesByPosition.get(`${qubit}-${step}`);
-                    const isPrimaryQubit = gate?.qubits[0] === qubit;
+                    const customGate = gate && customGates.find(d => d.name === gate.gate);
+                    // Custom gates are one box drawn from their topmost wire
+                    const isPrimaryQubit = customGate
+                      ? Math.min(...gate.qubits) === qubit
+                      : gate?.qubits[0] === qubit;
                     const isDropTarget = dragOver?.qubit === qubit && dragOver?.step === step;
                     const gateColor = gate ? GATE_COLORS[gate.gate] : null;
 
@@ -411,7 +692,18 @@ export function CircuitBuilder() {
                         onDragLeave={handleDragLeave}
                         onDrop={(e) => handleDrop(e, qubit, step)}
                       >
-                        {gate && isPrimaryQubit && (
+                        {gate && customGate && isPrimaryQubit && (
+                          <CustomGateBox
+                            gate={gate}
+                            definition={customGate}
+                            expanded={expandedGates.has(gate.id)}
+                            onToggle={() => toggleExpanded(gate.id)}
+                            onRemove={() => removeGate(gate.id)}
+                            onCondition={() => setConditionGate(gate)}
+                          />
+                        )}
+
+                        {gate && !customGate && isPrimaryQubit && (
                           <div
                             className={cn(
                               "w-10 h-10 rounded-lg flex items-center justify-center",
@@ -426,17 +718,29 @@ export function CircuitBuilder() {
                               e.stopPropagation();
                               removeGate(gate.id);
                             }}
-                            title={GATE_DESCRIPTIONS[gate.gate] || gate.gate}
+                            onContextMenu={(e) => {
+                              e.preventDefault();
+                              setConditionGate(gate);
+                            }}
+                            title={`${GATE_DESCRIPTIONS[gate.gate] || gate.gate}${gate.params ? ` (${gate.params.map(p => (isSymbol(p) ? p : p.toFixed(3))).join(', ')})` : ''} — right-click to condition on a classical bit`}
                           >
+                            {gate.condition && (
+                              <span className="absolute -top-3 left-1/2 -translate-x-1/2 px-1 rounded bg-background border text-[9px] font-mono text-foreground whitespace-nowrap">
+                                c{gate.condition.clbits.join(',c')}={gate.condition.value}
+                              </span>
+                            )}
                             <span className="group-hover:hidden">
-                              {GATE_LIBRARY[gate.gate]?.symbol || gate.gate}
+                              {GATE_LIBRARY[gate.gate]?.symbol || NON_UNITARY_OPS[gate.gate]?.symbol || gate.gate}
+                              {gate.clbits && (
+                                <sub className="text-[10px] font-normal">c{gate.clbits[0]}</sub>
+                              )}
                             </span>
                             <Trash2 className="h-5 w-5 hidden group-hover:block text-white/90" />
                           </div>
                         )}
 
                         {/* Connection line for multi-qubit gates */}
-                        {gate && !isPrimaryQubit && (
+                        {gate && !customGate && !isPrimaryQubit && (
                           <div className={cn(
                             "w-4 h-4 rounded-full border-2 border-foreground bg-background",
                             "shadow-sm relative z-10"
@@ -444,7 +748,7 @@ export function CircuitBuilder() {
                         )}
 
                         {/* Vertical connection for multi-qubit gates */}
-                        {gate && gate.qubits.length > 1 && isPrimaryQubit && (
+                        {gate && !customGate && gate.qubits.length > 1 && isPrimaryQubit && (
                           <div
                             className="absolute left-1/2 w-[2px] bg-foreground -translate-x-1/2 z-0"
                             style={{
@@ -462,9 +766,59 @@ export function CircuitBuilder() {
                 <div className="w-10 text-sm text-muted-foreground font-mono">|0⟩</div>
               </div>
             ))}
+
+            {/* Classical register, one bit per qubit */}
+            <div className="flex items-center h-8 gap-2">
+              <div className="w-12 text-sm font-mono text-right pr-3 text-muted-foreground">
+                c[{numQubits}]
+              </div>
+              <div className="relative flex items-center" style={{ width: `${displaySteps * cellSize}px`, height: 8 }}>
+                <div className="absolute inset-x-0 top-0 h-px bg-muted-foreground/50" />
+                <div className="absolute inset-x-0 bottom-0 h-px bg-muted-foreground/50" />
+                {circuitGates
+                  .filter(g => g.gate === 'MEASURE')
+                  .map(g => (
+                    <span
+                      key={g.id}
+                      className="absolute text-[10px] font-mono text-muted-foreground -translate-x-1/2 -top-3"
+                      style={{ left: g.step * cellSize + cellSize / 2 }}
+                    >
+                      ▼{g.clbits?.[0]}
+                    </span>
+                  ))}
+              </div>
+            </div>
           </div>
         </div>
 
+        {/* Symbolic parameter bindings */}
+        {circuitParameters.length > 0 && (
+          <div className="pt-3 border-t flex-shrink-0 space-y-2">
+            {circuitParameters.map(name => {
+              const value = parameterBindings[name] ?? 0;
+              return (
+                <div key={name} className="flex items-center gap-3 text-xs">
+                  <span className="font-mono w-20 truncate" title={name}>{name}</span>
+                  <Slider
+                    value={[value]}
+                    onValueChange={(v) => {
+                      setParameterValue(name, v[0]);
+                      runSimulation();
+                    }}
+                    min={0}
+                    max={2 * Math.PI}
+                    step={Math.PI / 32}
+                    className="flex-1"
+                  />
+                  <span className="font-mono w-14 text-right text-muted-foreground">
+                    {(value / Math.PI).toFixed(2)}π
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {/* Controls */}
         <div className="flex items-center gap-2 pt-4 border-t flex-shrink-0">
           <Button
@@ -492,11 +846,20 @@ export function CircuitBuilder() {
         </div>
 
         <ParamDialog
+          key={`${paramDialog.gateName}-${paramDialog.qubit}-${paramDialog.step}`}
           open={paramDialog.open}
           onClose={() => setParamDialog({ ...paramDialog, open: false })}
           gateName={paramDialog.gateName}
           onConfirm={handleParamConfirm}
         />
+
+        <ConditionDialog
+          key={conditionGate?.id ?? 'none'}
+          gate={conditionGate}
+          numClbits={numQubits}
+          onClose={() => setConditionGate(null)}
+          onConfirm={(condition) => conditionGate && setGateCondition(conditionGate.id, condition)}
+        />
       </CardContent>
     </Card>
   );
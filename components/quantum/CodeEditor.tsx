@@ -1,16 +1,19 @@
 "use client";
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import Editor, { OnMount } from '@monaco-editor/react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import Editor, { OnMount, Monaco } from '@monaco-editor/react';
 import type { editor } from 'monaco-editor';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useQuantumStore } from '@/lib/store';
+import {
+  isOpenQASM, detectPythonFramework, parseCircuitDSL, QasmParseError, PythonParseError, DslParseError, SandboxError,
+} from '@/lib/quantum';
 import { getCodeAssistance } from '@/lib/ai/agent-core';
 import { cn } from '@/lib/utils';
 import { 
-  Play, Copy, Download, RotateCcw, Sparkles, Loader2, Send,
+  Play, Copy, Download, Upload, RotateCcw, Sparkles, Loader2, Send,
   ChevronRight, Bot, User, Code,
 } from 'lucide-react';
 
@@ -230,23 +233,75 @@ export function CodeEditor() {
   const [showAiSidebar, setShowAiSidebar] = useState(true);
   const [isRunning, setIsRunning] = useState(false);
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const [monaco, setMonaco] = useState<Monaco | null>(null);
+  // Code that failed static parsing but loaded in the sandbox; its markers are moot
+  const [sandboxedCode, setSandboxedCode] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // OpenQASM, Qiskit and Cirq are imported; anything else is read as simulator code
+  const language = isOpenQASM(code) ? 'plaintext' : detectPythonFramework(code) ? 'python' : 'typescript';
+  const diagnostics = useMemo(
+    () => (language === 'typescript' && code !== sandboxedCode ? parseCircuitDSL(code).diagnostics : []),
+    [code, language, sandboxedCode]
+  );
 
-  const handleEditorMount: OnMount = useCallback((editorInstance) => {
+  const handleEditorMount: OnMount = useCallback((editorInstance, monacoInstance) => {
     editorRef.current = editorInstance;
+    setMonaco(monacoInstance);
   }, []);
 
-  const handleRunCode = useCallback(() => {
+  // Underline what the circuit parser reports while the code is edited
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    if (!monaco || !model) return;
+    monaco.editor.setModelMarkers(model, 'circuit-code', diagnostics.map(d => ({
+      severity: d.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+      message: d.message,
+      startLineNumber: d.line,
+      startColumn: d.column,
+      endLineNumber: d.endLine,
+      endColumn: d.endColumn,
+    })));
+  }, [monaco, diagnostics]);
+
+  const loadCode = useCallback(async (source: string, success: string) => {
     setIsRunning(true);
     try {
-      loadCircuitFromCode(code);
-      setOutput('✓ Circuit loaded successfully!');
+      await loadCircuitFromCode(source);
+      const sandboxed = !isOpenQASM(source) && !detectPythonFramework(source)
+        && parseCircuitDSL(source).diagnostics.some(d => d.severity === 'error');
+      setSandboxedCode(sandboxed ? source : null);
+      setOutput(`✓ ${success}${sandboxed ? ' (ran in the sandbox)' : ''}`);
       setTimeout(() => setOutput(''), 3000);
     } catch (error) {
       setOutput(`✗ Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      // Parse errors (and sandbox syntax errors) point into the code; move the cursor there
+      const located = error instanceof QasmParseError || error instanceof PythonParseError
+        || error instanceof DslParseError || error instanceof SandboxError ? error : null;
+      if (located?.line !== undefined) {
+        editorRef.current?.revealLineInCenter(located.line);
+        editorRef.current?.setPosition({ lineNumber: located.line, column: located.column ?? 1 });
+      }
     } finally {
       setIsRunning(false);
     }
-  }, [code, loadCircuitFromCode]);
+  }, [loadCircuitFromCode]);
+
+  const handleRunCode = useCallback(() => {
+    loadCode(code, 'Circuit loaded successfully!');
+  }, [code, loadCode]);
+
+  const handleImportFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+    setCode(text);
+    const framework = detectPythonFramework(text);
+    const format = isOpenQASM(text) ? 'OpenQASM' : framework === 'qiskit' ? 'Qiskit' : framework === 'cirq' ? 'Cirq' : 'simulator';
+    loadCode(text, `Imported ${format} circuit from ${file.name}`);
+  }, [loadCode]);
 
   const handleApplyCode = useCallback((newCode: string) => {
     setCode(newCode);
@@ -263,12 +318,12 @@ export function CodeEditor() {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'quantum-circuit.ts';
+    a.download = `quantum-circuit.${language === 'plaintext' ? 'qasm' : language === 'python' ? 'py' : 'ts'}`;
     a.click();
     URL.revokeObjectURL(url);
     setOutput('✓ Downloaded');
     setTimeout(() => setOutput(''), 2000);
-  }, [code]);
+  }, [code, language]);
 
   const handleReset = useCallback(() => {
     setCode(DEFAULT_CODE);
@@ -300,6 +355,16 @@ export function CodeEditor() {
             <Button variant="ghost" size="icon" className="h-7 w-7" onClick={handleCopy} title="Copy">
               <Copy className="h-4 w-4" />
             </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".qasm,.py,.ts,.txt"
+              className="hidden"
+              onChange={handleImportFile}
+            />
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => fileInputRef.current?.click()} title="Import OpenQASM, Qiskit or Cirq">
+              <Upload className="h-4 w-4" />
+            </Button>
             <Button variant="ghost" size="icon" className="h-7 w-7" onClick={handleDownload} title="Download">
               <Download className="h-4 w-4" />
             </Button>
@@ -319,7 +384,7 @@ export function CodeEditor() {
           <div className="flex-1 border-b">
             <Editor
               height="100%"
-              defaultLanguage="typescript"
+              language={language}
               theme="vs-dark"
               value={code}
               onChange={(value) => setCode(value || '')}
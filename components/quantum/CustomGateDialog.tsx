@@ -0,0 +1,180 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { useQuantumStore } from '@/lib/store';
+import {
+  CustomGateDefinition,
+  MAX_CUSTOM_GATE_QUBITS,
+  parseMatrixText,
+  subcircuitFromCircuit,
+} from '@/lib/quantum/custom-gates';
+import { Trash2 } from 'lucide-react';
+
+const HADAMARD_TEXT = '0.70710678 0.70710678\n0.70710678 -0.70710678';
+
+interface CustomGateDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/** Defines a gate from the current circuit or from a matrix, and lists the gates defined so far */
+export function CustomGateDialog({ open, onClose }: CustomGateDialogProps) {
+  const { circuitGates, customGates, defineCustomGate, removeCustomGate } = useQuantumStore();
+  const [kind, setKind] = useState<CustomGateDefinition['kind']>('subcircuit');
+  const [name, setName] = useState('');
+  const [symbol, setSymbol] = useState('');
+  const [description, setDescription] = useState('');
+  const [matrixQubits, setMatrixQubits] = useState(1);
+  const [matrixText, setMatrixText] = useState(HADAMARD_TEXT);
+  const [error, setError] = useState<string | null>(null);
+
+  const orderedGates = [...circuitGates].sort((a, b) => a.step - b.step);
+  const draft = subcircuitFromCircuit(name.trim(), orderedGates);
+
+  const buildDefinition = (): CustomGateDefinition | null => {
+    const common = {
+      name: name.trim(),
+      ...(symbol.trim() ? { symbol: symbol.trim() } : {}),
+      ...(description.trim() ? { description: description.trim() } : {}),
+    };
+    if (kind === 'subcircuit') return { ...draft, ...common };
+
+    const matrix = parseMatrixText(matrixText);
+    if (!matrix) {
+      setError('Matrix entries must be numbers such as 1, -0.5, 0.5+0.5i or -i');
+      return null;
+    }
+    return { kind: 'matrix', ...common, qubits: matrixQubits, matrix };
+  };
+
+  const handleDefine = () => {
+    const definition = buildDefinition();
+    if (!definition) return;
+    try {
+      defineCustomGate(definition);
+      setError(null);
+      setName('');
+      setSymbol('');
+      setDescription('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not define the gate');
+    }
+  };
+
+  const handleRemove = (gateName: string) => {
+    try {
+      removeCustomGate(gateName);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not remove the gate');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Custom Gates</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex gap-2">
+            {(['subcircuit', 'matrix'] as const).map(k => (
+              <Button
+                key={k}
+                size="sm"
+                variant={kind === k ? 'default' : 'outline'}
+                onClick={() => { setKind(k); setError(null); }}
+              >
+                {k === 'subcircuit' ? 'From circuit' : 'From matrix'}
+              </Button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name, e.g. Oracle" className="col-span-2 font-mono" />
+            <Input value={symbol} onChange={(e) => setSymbol(e.target.value)} placeholder="Symbol" maxLength={4} className="font-mono" />
+            <Input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Description (optional)" className="col-span-3" />
+          </div>
+
+          {kind === 'subcircuit' ? (
+            <p className="text-xs text-muted-foreground">
+              {orderedGates.length === 0
+                ? 'Build the block in the circuit first; its gates become the new gate.'
+                : <>
+                    {orderedGates.length} gate{orderedGates.length === 1 ? '' : 's'} on {draft.qubits} qubit{draft.qubits === 1 ? '' : 's'}
+                    {draft.params && <> with parameters <span className="font-mono">{draft.params.join(', ')}</span></>}.
+                    Measurements, resets and conditions cannot be part of a gate.
+                  </>}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                <span>Qubits</span>
+                {Array.from({ length: MAX_CUSTOM_GATE_QUBITS }, (_, i) => i + 1).map(n => (
+                  <Button
+                    key={n}
+                    size="sm"
+                    variant={matrixQubits === n ? 'default' : 'outline'}
+                    className="h-7 w-7 p-0 font-mono"
+                    onClick={() => setMatrixQubits(n)}
+                  >
+                    {n}
+                  </Button>
+                ))}
+              </div>
+              <textarea
+                value={matrixText}
+                onChange={(e) => setMatrixText(e.target.value)}
+                rows={Math.min(2 ** matrixQubits, 8)}
+                spellCheck={false}
+                className="w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-xs shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              />
+              <p className="text-xs text-muted-foreground">
+                One row per line, {2 ** matrixQubits} entries each. The matrix must be unitary to 6 decimal places,
+                so write 1/√2 as 0.70710678.
+              </p>
+            </div>
+          )}
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+
+          {customGates.length > 0 && (
+            <div className="border-t pt-3 space-y-1">
+              {customGates.map(gate => (
+                <div key={gate.name} className="flex items-center gap-2 text-xs">
+                  <span className="font-mono font-semibold w-24 truncate">{gate.name}</span>
+                  <span className="text-muted-foreground flex-1 truncate">
+                    {gate.kind === 'matrix' ? 'Matrix' : `${gate.gates.length} gates`} · {gate.qubits} qubit{gate.qubits === 1 ? '' : 's'}
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleRemove(gate.name)} title={`Remove ${gate.name}`}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+          <Button
+            disabled={!name.trim() || (kind === 'subcircuit' && orderedGates.length === 0)}
+            onClick={handleDefine}
+          >
+            Define gate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,18 +1,22 @@
 "use client";
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { useToast } from '@/components/ui/toast';
 import { useQuantumStore } from '@/lib/store';
-import { GATE_LIBRARY } from '@/lib/quantum/gates';
+import { GATE_LIBRARY, NON_UNITARY_OPS } from '@/lib/quantum/gates';
 import { cn } from '@/lib/utils';
+import { CustomGateDialog } from './CustomGateDialog';
+import { Plus } from 'lucide-react';
 
 const GATE_CATEGORIES = {
   'Single Qubit': ['I', 'X', 'Y', 'Z', 'H', 'S', 'SDag', 'T', 'TDag', 'SX', 'SXDag'],
   'Rotations': ['Rx', 'Ry', 'Rz', 'Phase', 'U3'],
   'Two Qubit': ['CNOT', 'CZ', 'CH', 'SWAP', 'iSWAP', 'CPhase', 'RXX', 'RYY', 'RZZ'],
   'Three Qubit': ['Toffoli', 'Fredkin', 'CCZ', 'RCCX'],
+  'Measurement': ['MEASURE', 'RESET'],
 };
 
 const GATE_COLORS: Record<string, string> = {
@@ -45,10 +49,34 @@ const GATE_COLORS: Record<string, string> = {
   Fredkin: 'bg-teal-500',
   CCZ: 'bg-blue-600',
   RCCX: 'bg-cyan-600',
+  MEASURE: 'bg-gray-700',
+  RESET: 'bg-slate-600',
 };
 
+// Every user-defined gate shares one color
+const CUSTOM_GATE_COLOR = 'bg-emerald-600';
+
 export function GatePalette() {
-  const { selectedGate, setSelectedGate } = useQuantumStore();
+  const { selectedGate, setSelectedGate, customGates, loadCustomGates } = useQuantumStore();
+  const [showCustomDialog, setShowCustomDialog] = useState(false);
+  const { toast } = useToast();
+
+  // Gates defined in earlier sessions; ones that fail stay saved and are reported until dismissed
+  useEffect(() => {
+    const errors = loadCustomGates();
+    if (errors.length === 0) return;
+    toast({
+      type: 'error',
+      title: 'Could not restore saved custom gates',
+      message: errors.join('. '),
+      duration: 0,
+    });
+  }, [loadCustomGates, toast]);
+
+  const categories: [string, string[]][] = [
+    ...Object.entries(GATE_CATEGORIES),
+    ['Custom', customGates.map(g => g.name)],
+  ];
 
   return (
     <Card className="h-full">
@@ -57,14 +85,19 @@ export function GatePalette() {
       </CardHeader>
       <CardContent className="space-y-4">
         <TooltipProvider>
-          {Object.entries(GATE_CATEGORIES).map(([category, gates]) => (
+          {categories.map(([category, gates]) => (
             <div key={category}>
-              <h4 className="text-sm font-medium text-muted-foreground mb-2">
+              <h4 className="text-sm font-medium text-muted-foreground mb-2 flex items-center justify-between">
                 {category}
+                {category === 'Custom' && (
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setShowCustomDialog(true)} title="Define a custom gate">
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                )}
               </h4>
               <div className="grid grid-cols-4 gap-2">
                 {gates.map((gateName) => {
-                  const gateInfo = GATE_LIBRARY[gateName];
+                  const gateInfo = GATE_LIBRARY[gateName] ?? NON_UNITARY_OPS[gateName];
                   const isSelected = selectedGate === gateName;
 
                   return (
@@ -83,7 +116,7 @@ export function GatePalette() {
                             size="sm"
                             className={cn(
                               "h-10 w-full font-mono font-bold cursor-grab active:cursor-grabbing",
-                              isSelected && GATE_COLORS[gateName],
+                              isSelected && (GATE_COLORS[gateName] ?? CUSTOM_GATE_COLOR),
                               isSelected && "text-white border-0"
                             )}
                             onClick={() => setSelectedGate(isSelected ? null : gateName)}
@@ -114,6 +147,8 @@ export function GatePalette() {
             Click a gate to select, then click on the circuit to place it.
           </p>
         </div>
+
+        <CustomGateDialog open={showCustomDialog} onClose={() => setShowCustomDialog(false)} />
       </CardContent>
     </Card>
   );
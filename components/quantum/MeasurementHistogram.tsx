@@ -5,21 +5,59 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useQuantumStore } from '@/lib/store';
-import { BarChart3, Play, RefreshCw, Download, Info } from 'lucide-react';
+import type { NoiseModel } from '@/lib/quantum';
+import { LIMITS } from '@/lib/quantum/validators';
+import { BarChart3, Play, RefreshCw, Download, Info, Waves } from 'lucide-react';
 
 interface MeasurementResult {
   state: string;
   count: number;
   probability: number;
-  theoretical: number;
+  theoretical: number; // NaN when no single exact distribution exists
 }
 
+const NOISE_CHANNELS: { key: keyof NoiseModel; label: string }[] = [
+  { key: 'depolarizing', label: 'Depolarizing' },
+  { key: 'amplitude_damping', label: 'Amplitude damping' },
+  { key: 'phase_damping', label: 'Phase damping' },
+  { key: 'readout_error', label: 'Readout error' },
+];
+
 export function MeasurementHistogram() {
-  const { simulator, simulationResult, numQubits } = useQuantumStore();
+  const {
+    simulator,
+    simulationResult,
+    numQubits,
+    circuitGates,
+    noiseModel,
+    setNoiseModel,
+    backend,
+    setBackend,
+    runSimulation,
+  } = useQuantumStore();
   const [shots, setShots] = useState(1000);
   const [isRunning, setIsRunning] = useState(false);
   const [results, setResults] = useState<MeasurementResult[]>([]);
   const [showTheoretical, setShowTheoretical] = useState(true);
+  const [showNoise, setShowNoise] = useState(false);
+  const [keyOnClbits, setKeyOnClbits] = useState(false);
+
+  // Mid-circuit measurements make the final state one random branch, so counts
+  // come from per-shot trajectories and have no exact reference distribution
+  const hasMidCircuitMeasurement = circuitGates.some(g => g.gate === 'MEASURE' || g.gate === 'RESET');
+  const measuresClassicalBits = circuitGates.some(g => g.gate === 'MEASURE');
+
+  const updateNoiseRate = (key: keyof NoiseModel, value: number) => {
+    const next: NoiseModel = { ...noiseModel, [key]: Math.max(0, Math.min(1, value)) || undefined };
+    const isIdeal = NOISE_CHANNELS.every(channel => !next[channel.key]);
+    setNoiseModel(isIdeal ? null : next);
+    if (circuitGates.length > 0) runSimulation();
+  };
+
+  const toggleDensityMatrix = (enabled: boolean) => {
+    setBackend(enabled ? 'density_matrix' : 'statevector');
+    if (circuitGates.length > 0) runSimulation();
+  };
 
   // Calculate theoretical probabilities from state vector
   const theoreticalProbabilities = useMemo(() => {
@@ -44,21 +82,31 @@ export function MeasurementHistogram() {
     // Simulate measurement process with artificial delay for UX
     await new Promise(resolve => setTimeout(resolve, 500));
     
-    const counts: Record<string, number> = {};
     const probs = theoreticalProbabilities;
-    
-    // Monte Carlo simulation
-    for (let i = 0; i < shots; i++) {
-      const rand = Math.random();
-      let cumulative = 0;
-      
-      for (const { state, probability } of probs) {
-        cumulative += probability;
-        if (rand < cumulative) {
-          counts[state] = (counts[state] || 0) + 1;
-          break;
-        }
-      }
+
+    if (keyOnClbits && measuresClassicalBits && simulator && simulationResult) {
+      const newResults: MeasurementResult[] = Array.from(simulator.sampleClassical(shots).entries())
+        .map(([state, count]) => ({
+          state,
+          count,
+          probability: count / shots,
+          theoretical: NaN,
+        }))
+        .sort((a, b) => b.count - a.count);
+
+      setResults(newResults);
+      setIsRunning(false);
+      return;
+    }
+
+    // Sample from the simulator so the configured noise model is applied
+    const counts: Record<string, number> = {};
+    if (simulator && simulationResult) {
+      simulator.sample(shots).forEach((count, state) => {
+        counts[state] = count;
+      });
+    } else {
+      counts[probs[0].state] = shots;
     }
     
     // Convert to results array
@@ -68,7 +116,7 @@ export function MeasurementHistogram() {
         state,
         count: counts[state] || 0,
         probability: (counts[state] || 0) / shots,
-        theoretical: probability
+        theoretical: hasMidCircuitMeasurement ? NaN : probability
       }))
       .sort((a, b) => b.count - a.count);
     
@@ -82,7 +130,7 @@ export function MeasurementHistogram() {
     
     const csv = [
       'State,Count,Measured Probability,Theoretical Probability',
-      ...results.map(r => `${r.state},${r.count},${r.probability.toFixed(4)},${r.theoretical.toFixed(4)}`)
+      ...results.map(r => `${r.state},${r.count},${r.probability.toFixed(4)},${Number.isNaN(r.theoretical) ? '' : r.theoretical.toFixed(4)}`)
     ].join('\n');
     
     const blob = new Blob([csv], { type: 'text/csv' });
@@ -96,7 +144,7 @@ export function MeasurementHistogram() {
 
   // Find max for scaling bars
   const maxProbability = Math.max(
-    ...results.map(r => Math.max(r.probability, r.theoretical)),
+    ...results.map(r => Math.max(r.probability, r.theoretical || 0)),
     0.1
   );
 
@@ -135,6 +183,26 @@ export function MeasurementHistogram() {
             Measurement Results
           </CardTitle>
           <div className="flex items-center gap-2">
+            <Button
+              variant={noiseModel ? 'secondary' : 'ghost'}
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => setShowNoise(!showNoise)}
+              title="Noise model"
+            >
+              <Waves className="h-4 w-4" />
+            </Button>
+            {measuresClassicalBits && (
+              <Button
+                variant={keyOnClbits ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-7 px-2 text-xs font-mono"
+                onClick={() => { setKeyOnClbits(!keyOnClbits); setResults([]); }}
+                title={keyOnClbits ? 'Keyed on classical bits' : 'Keyed on final qubit states'}
+              >
+                {keyOnClbits ? 'c' : 'q'}
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="icon"
@@ -157,6 +225,39 @@ export function MeasurementHistogram() {
           </div>
         </div>
         
+        {/* Noise model */}
+        {showNoise && (
+          <div className="grid grid-cols-2 gap-2 mt-2 p-2 bg-muted/30 rounded">
+            {NOISE_CHANNELS.map(({ key, label }) => (
+              <label key={key} className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                {label}
+                <Input
+                  type="number"
+                  value={noiseModel?.[key] ?? 0}
+                  onChange={(e) => updateNoiseRate(key, parseFloat(e.target.value))}
+                  className="w-20 h-7 text-xs"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                />
+              </label>
+            ))}
+            <label
+              className="col-span-2 flex items-center gap-2 text-xs text-muted-foreground cursor-pointer"
+              title={`Exact mixed-state simulation, up to ${LIMITS.MAX_DENSITY_MATRIX_QUBITS} qubits`}
+            >
+              <input
+                type="checkbox"
+                checked={backend === 'density_matrix'}
+                onChange={(e) => toggleDensityMatrix(e.target.checked)}
+                disabled={numQubits > LIMITS.MAX_DENSITY_MATRIX_QUBITS}
+                className="rounded border-input"
+              />
+              Exact density-matrix simulation
+            </label>
+          </div>
+        )}
+
         {/* Controls */}
         <div className="flex items-center gap-2 mt-2">
           <div className="flex items-center gap-2 flex-1">
@@ -200,7 +301,9 @@ export function MeasurementHistogram() {
               {results.map((result) => (
                 <div key={result.state} className="space-y-1">
                   <div className="flex items-center justify-between text-xs">
-                    <span className="font-mono font-semibold">|{result.state}⟩</span>
+                    <span className="font-mono font-semibold">
+                      {keyOnClbits && measuresClassicalBits ? `c=${result.state}` : `|${result.state}⟩`}
+                    </span>
                     <span className="text-muted-foreground">
                       {result.count} ({(result.probability * 100).toFixed(1)}%)
                     </span>
@@ -212,7 +315,7 @@ export function MeasurementHistogram() {
                       style={{ width: `${(result.probability / maxProbability) * 100}%` }}
                     />
                     {/* Theoretical probability marker */}
-                    {showTheoretical && (
+                    {showTheoretical && !Number.isNaN(result.theoretical) && (
                       <div
                         className="absolute inset-y-0 w-0.5 bg-yellow-400 transition-all duration-300"
                         style={{ left: `${(result.theoretical / maxProbability) * 100}%` }}
@@ -1,14 +1,35 @@
 "use client";
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { useQuantumStore } from '@/lib/store';
 import { toString } from '@/lib/quantum/complex';
-import { BarChart3, Target } from 'lucide-react';
+import { BarChart3, Target, Sigma } from 'lucide-react';
 
 export function StateDisplay() {
-  const { simulationResult, numQubits, runMeasurement } = useQuantumStore();
+  const { simulator, simulationResult, numQubits, runMeasurement, _lastRunId } = useQuantumStore();
+  const [observable, setObservable] = useState('');
+  // Remembers which run and observable the shot estimate belongs to
+  const [estimate, setEstimate] = useState<{ observable: string; runId: number; value: number } | null>(null);
+
+  // Default to Z on qubit 0 until the user types an observable
+  const observableText = observable || `Z${'I'.repeat(numQubits - 1)}`;
+
+  const expectation = useMemo(() => {
+    if (!simulator || !simulationResult) return null;
+    try {
+      return { value: simulator.expectation(observableText), error: null };
+    } catch (error) {
+      return { value: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [simulator, simulationResult, observableText]);
+
+  const estimateFromShots = () => {
+    if (!simulator || expectation?.value === null) return;
+    setEstimate({ observable: observableText, runId: _lastRunId, value: simulator.expectation(observableText, 1000) });
+  };
 
   const stateEntries = useMemo(() => {
     if (!simulationResult?.sparseState) return [];
@@ -53,6 +74,9 @@ export function StateDisplay() {
     );
   }
 
+  // Density matrix results carry populations only, not amplitudes
+  const isMixedResult = simulationResult.purity !== undefined;
+
   return (
     <Card className="h-full overflow-hidden">
       <CardHeader className="pb-3">
@@ -73,7 +97,12 @@ export function StateDisplay() {
         <div>
           <h4 className="text-sm font-medium mb-3 flex items-center gap-2">
             <BarChart3 className="h-4 w-4" />
-            State Vector
+            {isMixedResult ? 'Density Matrix Diagonal' : 'State Vector'}
+            {simulationResult.purity !== undefined && (
+              <span className="ml-auto text-xs font-mono text-muted-foreground">
+                Tr(ρ²) = {simulationResult.purity.toFixed(3)}
+              </span>
+            )}
           </h4>
           <div className="space-y-2 max-h-48 overflow-y-auto">
             {stateEntries.map(entry => (
@@ -88,9 +117,11 @@ export function StateDisplay() {
                 <span className="text-xs font-mono w-24 text-right">
                   {(entry.probability * 100).toFixed(1)}%
                 </span>
-                <span className="text-xs font-mono w-32 text-muted-foreground">
-                  {toString(entry.amplitude, 3)}
-                </span>
+                {!isMixedResult && (
+                  <span className="text-xs font-mono w-32 text-muted-foreground">
+                    {toString(entry.amplitude, 3)}
+                  </span>
+                )}
               </div>
             ))}
           </div>
@@ -122,6 +153,42 @@ export function StateDisplay() {
           </div>
         )}
 
+        {/* Expectation Value */}
+        <div>
+          <h4 className="text-sm font-medium mb-3 flex items-center gap-2">
+            <Sigma className="h-4 w-4" />
+            Expectation Value
+          </h4>
+          <div className="flex items-center gap-2">
+            <Input
+              value={observable}
+              onChange={(e) => setObservable(e.target.value)}
+              placeholder={observableText}
+              className="h-8 font-mono text-xs flex-1"
+              title="Weighted Pauli strings, e.g. 0.5*ZZ - 0.3*XX (leftmost character is q0)"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 text-xs"
+              onClick={estimateFromShots}
+              disabled={!expectation || expectation.value === null}
+            >
+              1000 shots
+            </Button>
+          </div>
+          {expectation?.error ? (
+            <p className="text-xs text-destructive mt-2">{expectation.error}</p>
+          ) : expectation && (
+            <div className="flex items-center gap-4 mt-2 text-xs font-mono">
+              <span>⟨H⟩ = {expectation.value?.toFixed(4)}</span>
+              {estimate?.observable === observableText && estimate.runId === _lastRunId && (
+                <span className="text-muted-foreground">estimate: {estimate.value.toFixed(4)}</span>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* Bloch Coordinates */}
         {simulationResult.blochCoordinates && (
           <div>
@@ -0,0 +1,187 @@
+"use client";
+
+import React, { useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useQuantumStore } from '@/lib/store';
+import { runVQE, OptimizerName, VQEResult } from '@/lib/quantum/algorithms';
+import { getCircuitParameters } from '@/lib/quantum/parameters';
+import { TrendingDown, Play, Square } from 'lucide-react';
+
+const OPTIMIZERS: { id: OptimizerName; label: string }[] = [
+  { id: 'nelder-mead', label: 'Nelder-Mead' },
+  { id: 'spsa', label: 'SPSA' },
+  { id: 'cobyla', label: 'COBYLA' },
+];
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 140;
+
+function ConvergenceChart({ trace }: { trace: number[] }) {
+  if (trace.length < 2) {
+    return (
+      <div className="h-[140px] flex items-center justify-center text-xs text-muted-foreground">
+        Energy trace appears here while the optimizer runs
+      </div>
+    );
+  }
+
+  const min = Math.min(...trace);
+  const max = Math.max(...trace);
+  const span = max - min || 1;
+  const points = trace
+    .map((e, i) => {
+      const x = (i / (trace.length - 1)) * CHART_WIDTH;
+      const y = CHART_HEIGHT - ((e - min) / span) * (CHART_HEIGHT - 10) - 5;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-[140px] bg-muted/30 rounded">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={2} className="text-primary" />
+      <text x={4} y={12} className="fill-muted-foreground text-[9px] font-mono">{max.toFixed(4)}</text>
+      <text x={4} y={CHART_HEIGHT - 4} className="fill-muted-foreground text-[9px] font-mono">{min.toFixed(4)}</text>
+    </svg>
+  );
+}
+
+export function VQEPanel() {
+  const { circuitGates, numQubits, noiseModel, parameterBindings, setParameterValue, runSimulation } = useQuantumStore();
+  const [hamiltonian, setHamiltonian] = useState('');
+  const [optimizer, setOptimizer] = useState<OptimizerName>('nelder-mead');
+  const [maxIterations, setMaxIterations] = useState(150);
+  const [trace, setTrace] = useState<number[]>([]);
+  const [result, setResult] = useState<VQEResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const symbols = getCircuitParameters(circuitGates);
+  // Transverse-field Ising chain as a starting point
+  const defaultHamiltonian = [
+    ...Array.from({ length: numQubits - 1 }, (_, i) => `-1*${'I'.repeat(i)}ZZ${'I'.repeat(numQubits - i - 2)}`),
+    ...Array.from({ length: numQubits }, (_, i) => `-0.5*${'I'.repeat(i)}X${'I'.repeat(numQubits - i - 1)}`),
+  ].join(' ');
+  const hamiltonianText = hamiltonian || defaultHamiltonian;
+
+  const start = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    setResult(null);
+    setTrace([]);
+
+    try {
+      const vqe = await runVQE(
+        [...circuitGates].sort((a, b) => a.step - b.step),
+        numQubits,
+        hamiltonianText,
+        {
+          optimizer,
+          maxIterations,
+          initialParams: parameterBindings,
+          noiseModel: noiseModel ?? undefined,
+          signal: controller.signal,
+        },
+        progress => setTrace(prev => [...prev, progress.bestEnergy])
+      );
+      setResult(vqe);
+
+      // Load the optimum back into the circuit's parameter sliders
+      Object.entries(vqe.optimalParams).forEach(([name, value]) => setParameterValue(name, value));
+      runSimulation();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  return (
+    <Card className="h-full flex flex-col">
+      <CardHeader className="pb-3 flex-shrink-0">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <TrendingDown className="h-5 w-5 text-primary" />
+          VQE
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex-1 overflow-y-auto min-h-0 space-y-4">
+        <div className="space-y-2">
+          <label className="text-xs text-muted-foreground">Hamiltonian</label>
+          <Input
+            value={hamiltonian}
+            onChange={(e) => setHamiltonian(e.target.value)}
+            placeholder={hamiltonianText}
+            className="h-8 font-mono text-xs"
+            disabled={isRunning}
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <select
+            value={optimizer}
+            onChange={(e) => setOptimizer(e.target.value as OptimizerName)}
+            className="h-8 rounded-md border border-input bg-background px-2 text-xs flex-1"
+            disabled={isRunning}
+          >
+            {OPTIMIZERS.map(o => (
+              <option key={o.id} value={o.id}>{o.label}</option>
+            ))}
+          </select>
+          <Input
+            type="number"
+            value={maxIterations}
+            onChange={(e) => setMaxIterations(Math.max(1, Math.min(2000, parseInt(e.target.value) || 150)))}
+            className="w-20 h-8 text-xs"
+            title="Maximum iterations"
+            disabled={isRunning}
+          />
+          {isRunning ? (
+            <Button size="sm" variant="outline" className="gap-2" onClick={() => abortRef.current?.abort()}>
+              <Square className="h-4 w-4" />
+              Stop
+            </Button>
+          ) : (
+            <Button size="sm" className="gap-2" onClick={start} disabled={symbols.length === 0}>
+              <Play className="h-4 w-4" />
+              Run
+            </Button>
+          )}
+        </div>
+
+        {symbols.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            Add rotation gates with symbolic angles (e.g. <span className="font-mono">theta_0</span>) to build an ansatz.
+          </p>
+        )}
+
+        <ConvergenceChart trace={trace} />
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {result && (
+          <div className="space-y-2 text-xs font-mono">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">E_min</span>
+              <span>{result.energy.toFixed(6)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Evaluations</span>
+              <span>{result.evaluations}{result.converged ? '' : ' (not converged)'}</span>
+            </div>
+            {Object.entries(result.optimalParams).map(([name, value]) => (
+              <div key={name} className="flex justify-between">
+                <span className="text-muted-foreground">{name}</span>
+                <span>{value.toFixed(4)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,3 +5,4 @@ export { BlochSphere } from './BlochSphere';
 export { CodeEditor } from './CodeEditor';
 export { ChatInterface } from './ChatInterface';
 export { MeasurementHistogram } from './MeasurementHistogram';
+export { VQEPanel } from './VQEPanel';
@@ -261,6 +261,7 @@ export function useCircuitStorage() {
                 t: g.gate,
                 q: g.qubits,
                 p: g.params,
+                c: g.clbits,
             })),
         }));
 
@@ -283,11 +284,12 @@ export function useCircuitStorage() {
                 id: generateId(),
                 name: decoded.n || 'Imported Circuit',
                 numQubits: decoded.q || 2,
-                gates: (decoded.g || []).map((g: { t: string; q: number[]; p?: number[] }, i: number) => ({
+                gates: (decoded.g || []).map((g: { t: string; q: number[]; p?: (number | string)[]; c?: number[] }, i: number) => ({
                     id: `imported-${i}`,
                     gate: g.t,
                     qubits: g.q,
                     params: g.p,
+                    clbits: g.c,
                     step: i,
                 })),
                 createdAt: now,
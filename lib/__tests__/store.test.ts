@@ -0,0 +1,51 @@
+/**
+ * Quantum Store Tests
+ */
+import { useQuantumStore } from '../store';
+
+// runSimulation defers to a timer so the UI can show that it is running
+async function loadAndRun(code: string) {
+    await useQuantumStore.getState().loadCircuitFromCode(code);
+    jest.useFakeTimers();
+    try {
+        useQuantumStore.getState().runSimulation();
+        jest.runAllTimers();
+    } finally {
+        jest.useRealTimers();
+    }
+    return useQuantumStore.getState();
+}
+
+describe('loadCircuitFromCode', () => {
+    beforeEach(() => useQuantumStore.getState().reset());
+
+    test('binds imported Qiskit parameters to 0 so the circuit simulates', async () => {
+        const state = await loadAndRun(`
+from qiskit import QuantumCircuit
+from qiskit.circuit import Parameter
+
+theta = Parameter('theta')
+qc = QuantumCircuit(1)
+qc.h(0)
+qc.rz(theta, 0)
+`);
+
+        expect(state.parameterBindings).toEqual({ theta: 0 });
+        expect(state.simulationResult?.probabilities[0]).toBeCloseTo(0.5);
+    });
+
+    test('binds OpenQASM 3 inputs to 0 so the program simulates', async () => {
+        const state = await loadAndRun(`OPENQASM 3.0;
+include "stdgates.inc";
+input float theta;
+qubit[2] q;
+h q[0];
+rz(theta) q[0];
+cx q[0], q[1];
+`);
+
+        expect(state.parameterBindings).toEqual({ theta: 0 });
+        expect(state.simulationResult?.probabilities[0]).toBeCloseTo(0.5);
+        expect(state.simulationResult?.probabilities[3]).toBeCloseTo(0.5);
+    });
+});
@@ -0,0 +1,25 @@
+/**
+ * Circuit Exporter Tests
+ */
+import { exportToQSharp } from '../exporters';
+
+describe('exportToQSharp', () => {
+    test('declares each classical bit once and reassigns it on every measurement', () => {
+        const { code } = exportToQSharp({
+            numQubits: 2,
+            gates: [
+                { name: 'H', qubits: [0] },
+                { name: 'MEASURE', qubits: [0], clbits: [0] },
+                { name: 'X', qubits: [1], condition: { clbits: [0, 1], value: 1 } },
+                { name: 'MEASURE', qubits: [1], clbits: [0] },
+            ],
+        });
+
+        expect(code).toContain('        mutable c0 = Zero;\n        mutable c1 = Zero;\n');
+        expect(code.match(/mutable c0/g)).toHaveLength(1);
+        expect(code).toContain('        set c0 = M(qubits[0]);\n');
+        expect(code).toContain('        if c0 == One and c1 == Zero { X(qubits[1]); }\n');
+        expect(code).toContain('        set c0 = M(qubits[1]);\n');
+        expect(code).not.toContain('let c0');
+    });
+});
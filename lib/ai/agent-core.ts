@@ -508,38 +508,63 @@ async function callAIProvider(
 Current user skill level: ${skillLevel}
 Adjust your explanations accordingly.`;
   
-  let response: { content: string; circuitCode?: string };
+  const content = await callLLM(message, { provider, model, apiKey, history, systemPrompt });
   
-  switch (provider) {
+  return {
+    success: true,
+    content,
+    circuitCode: extractCode(content),
+  };
+}
+
+export interface LLMRequest {
+  provider: AIProvider;
+  apiKey?: string; // Optional for local OpenAI-compatible servers
+  model?: string;
+  baseUrl?: string; // Overrides the provider's public endpoint, e.g. http://localhost:11434/v1
+  systemPrompt: string;
+  history?: { role: string; content: string }[];
+  temperature?: number;
+  json?: boolean; // Ask for a single JSON object where the provider supports it
+}
+
+const DEFAULT_BASE_URLS: Record<AIProvider, string> = {
+  gemini: 'https://generativelanguage.googleapis.com/v1beta',
+  openai: 'https://api.openai.com/v1',
+  anthropic: 'https://api.anthropic.com/v1',
+};
+
+const DEFAULT_MODELS: Record<AIProvider, string> = {
+  gemini: 'gemini-2.0-flash-exp',
+  openai: 'gpt-4o',
+  anthropic: 'claude-sonnet-4-20250514',
+};
+
+/**
+ * Sends one message (after the system prompt and history) to a provider and
+ * returns the text of its reply. Shared by the quantum assistant and the
+ * logistics agent so every provider is called the same way.
+ */
+export async function callLLM(message: string, request: LLMRequest): Promise<string> {
+  const baseUrl = (request.baseUrl || DEFAULT_BASE_URLS[request.provider]).replace(/\/+$/, '');
+  const model = request.model || DEFAULT_MODELS[request.provider];
+  
+  switch (request.provider) {
     case 'gemini':
-      response = await callGemini(message, apiKey, history, systemPrompt, model);
-      break;
+      return callGemini(message, request, baseUrl, model);
     case 'openai':
-      response = await callOpenAI(message, apiKey, history, systemPrompt, model);
-      break;
+      return callOpenAI(message, request, baseUrl, model);
     case 'anthropic':
-      response = await callAnthropic(message, apiKey, history, systemPrompt, model);
-      break;
+      return callAnthropic(message, request, baseUrl, model);
     default:
       throw new Error('Unknown AI provider');
   }
-  
-  return {
-    success: true,
-    content: response.content,
-    circuitCode: response.circuitCode,
-  };
 }
 
-async function callGemini(
-  message: string,
-  apiKey: string,
-  history: { role: string; content: string }[],
-  systemPrompt: string,
-  model: string = 'gemini-2.0-flash-exp'
-): Promise<{ content: string; circuitCode?: string }> {
+async function callGemini(message: string, request: LLMRequest, baseUrl: string, model: string): Promise<string> {
+  const { apiKey, history = [], systemPrompt, temperature = 0.7, json } = request;
   const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+    `${baseUrl}/models/${model}:generateContent?key=${apiKey ?? ''}`,
     {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -553,8 +578,9 @@ async function callGemini(
           { role: 'user', parts: [{ text: message }] },
         ],
         generationConfig: {
-          temperature: 0.7,
-          maxOutputTokens: 4096,
+          temperature,
+          maxOutputTokens: json ? 8192 : 4096,
+          ...(json ? { responseMimeType: 'application/json' } : {}),
         },
       }),
     }
@@ -566,27 +592,16 @@ async function callGemini(
   }
   
   const data = await response.json();
-  const content = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-  const codeMatch = content.match(/```typescript\n([\s\S]*?)```/);
-  
-  return {
-    content,
-    circuitCode: codeMatch ? codeMatch[1].trim() : undefined,
-  };
+  return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
 }
 
-async function callOpenAI(
-  message: string,
-  apiKey: string,
-  history: { role: string; content: string }[],
-  systemPrompt: string,
-  model: string = 'gpt-4o'
-): Promise<{ content: string; circuitCode?: string }> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+async function callOpenAI(message: string, request: LLMRequest, baseUrl: string, model: string): Promise<string> {
+  const { apiKey, history = [], systemPrompt, temperature = 0.7, json } = request;
+  const response = await fetch(`${baseUrl}/chat/completions`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
     },
     body: JSON.stringify({
       model,
@@ -598,8 +613,9 @@ async function callOpenAI(
         })),
         { role: 'user', content: message },
       ],
-      temperature: 0.7,
-      max_tokens: 4096,
+      temperature,
+      max_tokens: json ? 8192 : 4096,
+      ...(json ? { response_format: { type: 'json_object' } } : {}),
     }),
   });
   
@@ -609,32 +625,22 @@ async function callOpenAI(
   }
   
   const data = await response.json();
-  const content = data.choices?.[0]?.message?.content || '';
-  const codeMatch = content.match(/```typescript\n([\s\S]*?)```/);
-  
-  return {
-    content,
-    circuitCode: codeMatch ? codeMatch[1].trim() : undefined,
-  };
+  return data.choices?.[0]?.message?.content || '';
 }
 
-async function callAnthropic(
-  message: string,
-  apiKey: string,
-  history: { role: string; content: string }[],
-  systemPrompt: string,
-  model: string = 'claude-sonnet-4-20250514'
-): Promise<{ content: string; circuitCode?: string }> {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
+async function callAnthropic(message: string, request: LLMRequest, baseUrl: string, model: string): Promise<string> {
+  const { apiKey, history = [], systemPrompt, temperature, json } = request;
+  const response = await fetch(`${baseUrl}/messages`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'x-api-key': apiKey,
+      'x-api-key': apiKey ?? '',
       'anthropic-version': '2023-06-01',
     },
     body: JSON.stringify({
       model,
-      max_tokens: 4096,
+      max_tokens: json ? 8192 : 4096,
+      ...(temperature !== undefined ? { temperature } : {}),
       system: systemPrompt,
       messages: [
         ...history.map(m => ({
@@ -652,13 +658,7 @@ async function callAnthropic(
   }
   
   const data = await response.json();
-  const content = data.content?.[0]?.text || '';
-  const codeMatch = content.match(/```typescript\n([\s\S]*?)```/);
-  
-  return {
-    content,
-    circuitCode: codeMatch ? codeMatch[1].trim() : undefined,
-  };
+  return data.content?.[0]?.text || '';
 }
 
 // Code assistant for inline help
@@ -708,25 +708,11 @@ User request: ${prompt}
 Respond with ONLY the code to add or modify. No explanations.`;
   
   try {
-    let response: { content: string };
-    
-    switch (provider) {
-      case 'gemini':
-        response = await callGemini(prompt, apiKey, [], systemPrompt, model);
-        break;
-      case 'openai':
-        response = await callOpenAI(prompt, apiKey, [], systemPrompt, model);
-        break;
-      case 'anthropic':
-        response = await callAnthropic(prompt, apiKey, [], systemPrompt, model);
-        break;
-      default:
-        throw new Error('Unknown provider');
-    }
+    const content = await callLLM(prompt, { provider, model, apiKey, systemPrompt });
     
     // Extract just the code
-    const codeMatch = response.content.match(/```(?:typescript)?\n?([\s\S]*?)```/);
-    return codeMatch ? codeMatch[1].trim() : response.content.trim();
+    const codeMatch = content.match(/```(?:typescript)?\n?([\s\S]*?)```/);
+    return codeMatch ? codeMatch[1].trim() : content.trim();
   } catch (error) {
     console.error('Code assistance error:', error);
     return `// Error getting AI assistance
@@ -446,11 +446,14 @@ sim.apply('CNOT', 1, 2);
 // Step 3: Bell measurement on qubits 0 and 1
 sim.apply('CNOT', 0, 1);
 sim.apply('H', 0);
+sim.measure(0, 0);
+sim.measure(1, 1);
 
-// After measurement, apply corrections to qubit 2:
+// Step 4: Classically-conditioned corrections on qubit 2
 // If qubit 1 = 1: Apply X to qubit 2
 // If qubit 0 = 1: Apply Z to qubit 2
-// (Simulated by conditional gates in real implementation)`;
+sim.applyIf({ clbits: [1], value: 1 }, 'X', 2);
+sim.applyIf({ clbits: [0], value: 1 }, 'Z', 2);`;
 
     return {
       success: true,
@@ -462,7 +465,7 @@ sim.apply('H', 0);
         { type: 'entanglement', description: 'Bell pair between qubits 1-2', timing: 'before' },
         { type: 'statevector', description: 'State transfer visualization', timing: 'after' },
       ],
-      nextSteps: ['Try teleporting different initial states', 'Add measurement and corrections', 'Explore superdense coding'],
+      nextSteps: ['Try teleporting different initial states', 'Verify qubit 2 in the Bloch sphere view', 'Explore superdense coding'],
     };
   }
 
@@ -546,8 +549,11 @@ sim.apply('H', 0);
     };
 
     Object.entries(gateMap).forEach(([key, gate]) => {
-      if (request.toLowerCase().includes(key)) {
+      if (!request.toLowerCase().includes(key)) return;
+      if (!['CNOT', 'CZ', 'SWAP'].includes(gate)) {
         code += `sim.apply('${gate}', 0);\n`;
+      } else if (numQubits >= 2) {
+        code += `sim.apply('${gate}', 0, 1);\n`;
       }
     });
 
@@ -3,12 +3,27 @@
  * Export circuits to Qiskit, Cirq, Q#, and other formats
  */
 
+import {
+  parseCircuitDSL,
+  expandSubcircuits,
+  getCustomGate,
+  magnitude,
+  multiply,
+  phase,
+  subtract,
+  type Complex,
+  type GateCondition,
+  type MatrixGateDefinition,
+  type ParamValue,
+} from '@/lib/quantum';
 import { CodeExport } from './types';
 
 interface Gate {
   name: string;
   qubits: number[];
-  params?: number[];
+  params?: ParamValue[]; // Symbols are written by name
+  clbits?: number[];
+  condition?: GateCondition;
 }
 
 interface CircuitData {
@@ -18,37 +33,78 @@ interface CircuitData {
 }
 
 /**
- * Parse TypeScript circuit code to extract gate operations
+ * Parse TypeScript circuit code to extract gate operations.
+ * Statements the parser reports as errors are left out rather than failing the export.
  */
 export function parseCircuitCode(code: string): CircuitData {
-  const gates: Gate[] = [];
-  
-  // Extract qubit count
-  const qubitMatch = code.match(/QuantumSimulator\((\d+)\)/);
-  const numQubits = qubitMatch ? parseInt(qubitMatch[1]) : 2;
-  
-  // Extract gate operations
-  const gatePattern = /sim\.apply\(['"](\w+)['"]\s*(?:,\s*(\d+))?(?:\s*,\s*(\d+))?\s*(?:,\s*\[([\d.,\s]+)\])?\)/g;
-  let match;
-  
-  while ((match = gatePattern.exec(code)) !== null) {
-    const gateName = match[1];
-    const qubit1 = match[2] ? parseInt(match[2]) : 0;
-    const qubit2 = match[3] ? parseInt(match[3]) : undefined;
-    const params = match[4] ? match[4].split(',').map(p => parseFloat(p.trim())) : undefined;
-    
-    const qubits = qubit2 !== undefined ? [qubit1, qubit2] : [qubit1];
-    gates.push({ name: gateName, qubits, params });
+  const { numQubits, gates } = parseCircuitDSL(code);
+  return { numQubits, gates: gates.map(({ gate, ...rest }) => ({ name: gate, ...rest })) };
+}
+
+/**
+ * Subcircuit gates are written out as the gates they contain; matrix gates
+ * stay whole and each exporter emits a definition for them where it can.
+ */
+function expandCustomGates(gates: Gate[]): Gate[] {
+  if (!gates.some(g => getCustomGate(g.name))) return gates;
+  return expandSubcircuits(gates.map(({ name, ...rest }) => ({ gate: name, ...rest })))
+    .map(({ gate, ...rest }) => ({ name: gate, ...rest }));
+}
+
+function matrixGate(name: string): MatrixGateDefinition | undefined {
+  const definition = getCustomGate(name);
+  return definition?.kind === 'matrix' ? definition : undefined;
+}
+
+function matrixGatesUsed(gates: Gate[]): MatrixGateDefinition[] {
+  const names = [...new Set(gates.map(g => g.name))];
+  return names.map(matrixGate).filter((d): d is MatrixGateDefinition => d !== undefined);
+}
+
+// Below this an entry of a gate matrix counts as zero
+const ZERO_TOLERANCE = 1e-12;
+
+interface EulerAngles {
+  theta: number;
+  phi: number;
+  lambda: number;
+}
+
+/**
+ * Angles with U = e^{iα} Rz(phi) Ry(theta) Rz(lambda), which is OpenQASM's
+ * U(theta, phi, lambda) up to global phase. Q# and OpenQASM have no way to
+ * apply a matrix, so a one-qubit matrix gate is written as these rotations;
+ * larger ones would need a KAK or Shannon decomposition and are refused.
+ */
+function eulerAngles(definition: MatrixGateDefinition): EulerAngles {
+  if (definition.qubits !== 1) {
+    throw new Error(`${definition.name} is a ${definition.qubits}-qubit matrix gate; only one-qubit matrix gates can be exported to Q# and OpenQASM`);
   }
-  
-  return { numQubits, gates };
+  const [[u00, u01], [u10, u11]] = definition.matrix;
+
+  // Dividing out √det leaves [[a, -b*], [b, a*]] with a = cos(theta/2) e^{-i(phi+lambda)/2}, b = sin(theta/2) e^{i(phi-lambda)/2}
+  const alpha = phase(subtract(multiply(u00, u11), multiply(u01, u10))) / 2;
+  const theta = 2 * Math.atan2(magnitude(u10), magnitude(u00));
+  // Either angle is undetermined when its entry vanishes; 0 picks one valid solution
+  const sum = magnitude(u00) > ZERO_TOLERANCE ? -2 * (phase(u00) - alpha) : 0;
+  const difference = magnitude(u10) > ZERO_TOLERANCE ? 2 * (phase(u10) - alpha) : 0;
+  return { theta, phi: (sum + difference) / 2, lambda: (sum - difference) / 2 };
+}
+
+function pythonComplex({ real, imag }: Complex): string {
+  return imag === 0 ? `${real}` : `${real}${imag < 0 ? '-' : '+'}${Math.abs(imag)}j`;
+}
+
+function pythonMatrix(definition: MatrixGateDefinition): string {
+  return `np.array([\n${definition.matrix.map(row => `    [${row.map(pythonComplex).join(', ')}],`).join('\n')}\n])`;
 }
 
 /**
  * Export to Qiskit (Python)
  */
 export function exportToQiskit(circuit: CircuitData): CodeExport {
-  const { numQubits, gates, name = 'quantum_circuit' } = circuit;
+  const { numQubits, name = 'quantum_circuit' } = circuit;
+  const gates = expandCustomGates(circuit.gates);
   
   let code = `"""
 Quantum Circuit - Exported from Quantum Simulator
@@ -66,13 +122,13 @@ cr = ClassicalRegister(${numQubits}, 'c')
 
 # Create the quantum circuit
 ${name} = QuantumCircuit(qr, cr)
-
+${qiskitMatrixGates(gates)}
 # Apply quantum gates
 `;
 
   gates.forEach(gate => {
     const qiskitGate = mapToQiskit(gate);
-    code += `${name}.${qiskitGate}\n`;
+    code += `${conditionToQiskit(`${name}.${qiskitGate}`, gate.condition, name, numQubits)}\n`;
   });
 
   code += `
@@ -120,9 +176,25 @@ python ${name}.py
   };
 }
 
+// Qiskit orders qubits little-endian, so UnitaryGate receives them reversed
+function qiskitMatrixGates(gates: Gate[]): string {
+  const definitions = matrixGatesUsed(gates);
+  if (definitions.length === 0) return '';
+  return `
+# Custom gates defined by a unitary matrix
+from qiskit.circuit.library import UnitaryGate
+${definitions.map(d => `${d.name}_gate = UnitaryGate(${pythonMatrix(d)}, label='${d.name}')`).join('\n')}
+`;
+}
+
 function mapToQiskit(gate: Gate): string {
-  const { name, qubits, params } = gate;
+  const { name, qubits, params, clbits } = gate;
   const q = qubits.map(q => `qr[${q}]`).join(', ');
+  const c = `cr[${clbits?.[0] ?? qubits[0]}]`;
+
+  if (matrixGate(name)) {
+    return `append(${name}_gate, [${[...qubits].reverse().map(q => `qr[${q}]`).join(', ')}])`;
+  }
   
   const gateMap: Record<string, string> = {
     'I': `id(${q})`,
@@ -143,16 +215,41 @@ function mapToQiskit(gate: Gate): string {
     'CCX': `ccx(${q})`,
     'Fredkin': `cswap(${q})`,
     'CSWAP': `cswap(${q})`,
+    'MEASURE': `measure(${q}, ${c})`,
+    'RESET': `reset(${q})`,
   };
   
   return gateMap[name] || `# Unknown gate: ${name}`;
 }
 
+/**
+ * Single bits and the whole register use c_if; any other subset of bits
+ * becomes nested if_test blocks, one per bit.
+ */
+function conditionToQiskit(statement: string, condition: GateCondition | undefined, circuitName: string, numClbits: number): string {
+  if (!condition) return statement;
+  const { clbits, value } = condition;
+
+  if (clbits.length === 1) {
+    return `${statement}.c_if(cr[${clbits[0]}], ${value})`;
+  }
+  if (clbits.length === numClbits && clbits.every((c, k) => c === k)) {
+    return `${statement}.c_if(cr, ${value})`;
+  }
+
+  let block = '';
+  clbits.forEach((clbit, k) => {
+    block += `${'    '.repeat(k)}with ${circuitName}.if_test((cr[${clbit}], ${(value >> k) & 1})):\n`;
+  });
+  return block + `${'    '.repeat(clbits.length)}${statement}`;
+}
+
 /**
  * Export to Cirq (Google's quantum framework)
  */
 export function exportToCirq(circuit: CircuitData): CodeExport {
-  const { numQubits, gates, name = 'circuit' } = circuit;
+  const { numQubits, name = 'circuit' } = circuit;
+  const gates = expandCustomGates(circuit.gates);
   
   let code = `"""
 Quantum Circuit - Exported from Quantum Simulator
@@ -160,20 +257,20 @@ Framework: Cirq (Google Quantum AI)
 """
 
 import cirq
-import numpy as np
+import numpy as np${gates.some(g => g.condition) ? '\nimport sympy' : ''}
 
 # Create qubits
 qubits = [cirq.LineQubit(i) for i in range(${numQubits})]
 
 # Build the circuit
 ${name} = cirq.Circuit()
-
+${cirqMatrixGates(gates)}
 # Apply quantum gates
 `;
 
   gates.forEach(gate => {
     const cirqGate = mapToCirq(gate);
-    code += `${name}.append(${cirqGate})\n`;
+    code += `${name}.append(${conditionToCirq(cirqGate, gate.condition)})\n`;
   });
 
   code += `
@@ -217,9 +314,20 @@ pip install cirq[contrib]
   };
 }
 
+function cirqMatrixGates(gates: Gate[]): string {
+  const definitions = matrixGatesUsed(gates);
+  if (definitions.length === 0) return '';
+  return `
+# Custom gates defined by a unitary matrix
+${definitions.map(d => `${d.name}_gate = cirq.MatrixGate(${pythonMatrix(d)}, name='${d.name}')`).join('\n')}
+`;
+}
+
 function mapToCirq(gate: Gate): string {
-  const { name, qubits, params } = gate;
+  const { name, qubits, params, clbits } = gate;
   const q = qubits.map(q => `qubits[${q}]`).join(', ');
+
+  if (matrixGate(name)) return `${name}_gate(${q})`;
   
   const gateMap: Record<string, string> = {
     'I': `cirq.I(${q})`,
@@ -240,16 +348,28 @@ function mapToCirq(gate: Gate): string {
     'CCX': `cirq.TOFFOLI(${q})`,
     'Fredkin': `cirq.FREDKIN(${q})`,
     'CSWAP': `cirq.FREDKIN(${q})`,
+    'MEASURE': `cirq.measure(${q}, key='c${clbits?.[0] ?? qubits[0]}')`,
+    'RESET': `cirq.reset(${q})`,
   };
   
   return gateMap[name] || `# Unknown gate: ${name}`;
 }
 
+/** Measurement keys are 'c<n>'; a required 0 needs a sympy comparison */
+function conditionToCirq(operation: string, condition: GateCondition | undefined): string {
+  if (!condition) return operation;
+  const controls = condition.clbits.map((clbit, k) =>
+    (condition.value >> k) & 1 ? `'c${clbit}'` : `sympy.Eq(sympy.Symbol('c${clbit}'), 0)`
+  );
+  return `${operation}.with_classical_controls(${controls.join(', ')})`;
+}
+
 /**
  * Export to Q# (Microsoft Quantum Development Kit)
  */
 export function exportToQSharp(circuit: CircuitData): CodeExport {
-  const { numQubits, gates, name = 'QuantumCircuit' } = circuit;
+  const { numQubits, name = 'QuantumCircuit' } = circuit;
+  const gates = expandCustomGates(circuit.gates);
   
   let code = `// Quantum Circuit - Exported from Quantum Simulator
 // Framework: Q# (Microsoft Quantum Development Kit)
@@ -260,18 +380,18 @@ namespace QuantumSimulator {
     open Microsoft.Quantum.Measurement;
     open Microsoft.Quantum.Math;
     
-    /// # Summary
+${qsharpMatrixGates(gates)}    /// # Summary
     /// Implements the quantum circuit
     operation ${name}() : Result[] {
         // Allocate ${numQubits} qubits
         use qubits = Qubit[${numQubits}];
         
-        // Apply quantum gates
+${qsharpClassicalBits(gates)}        // Apply quantum gates
 `;
 
   gates.forEach(gate => {
     const qsharpGate = mapToQSharp(gate);
-    code += `        ${qsharpGate}\n`;
+    code += `        ${conditionToQSharp(qsharpGate, gate.condition)}\n`;
   });
 
   code += `
@@ -340,9 +460,45 @@ dotnet run
   };
 }
 
+// One mutable result per classical bit, so measuring into a bit again reassigns it
+function qsharpClassicalBits(gates: Gate[]): string {
+  const clbits = new Set<number>();
+  for (const gate of gates) {
+    if (gate.name === 'MEASURE') clbits.add(gate.clbits?.[0] ?? gate.qubits[0]);
+    gate.condition?.clbits.forEach(clbit => clbits.add(clbit));
+  }
+  if (clbits.size === 0) return '';
+  return `        // Classical register; bits never measured read as Zero
+${[...clbits].sort((a, b) => a - b).map(clbit => `        mutable c${clbit} = Zero;`).join('\n')}
+        
+`;
+}
+
+// Q# has no implicit Int to Double conversion, so 0 must be written 0.0
+function qsharpDouble(value: number): string {
+  return Number.isInteger(value) ? value.toFixed(1) : `${value}`;
+}
+
+function qsharpMatrixGates(gates: Gate[]): string {
+  return matrixGatesUsed(gates).map(d => {
+    const { theta, phi, lambda } = eulerAngles(d);
+    return `    /// # Summary
+    /// ${d.name}, defined by a unitary matrix, as rotations (up to global phase)
+    operation ${d.name}(q : Qubit) : Unit {
+        Rz(${qsharpDouble(lambda)}, q);
+        Ry(${qsharpDouble(theta)}, q);
+        Rz(${qsharpDouble(phi)}, q);
+    }
+    
+`;
+  }).join('');
+}
+
 function mapToQSharp(gate: Gate): string {
   const { name, qubits, params } = gate;
   const q = qubits.map(q => `qubits[${q}]`).join(', ');
+
+  if (matrixGate(name)) return `${name}(${q});`;
   const q0 = `qubits[${qubits[0]}]`;
   const q1 = qubits[1] !== undefined ? `qubits[${qubits[1]}]` : '';
   const q2 = qubits[2] !== undefined ? `qubits[${qubits[2]}]` : '';
@@ -366,23 +522,34 @@ function mapToQSharp(gate: Gate): string {
     'CCX': `CCNOT(${q0}, ${q1}, ${q2});`,
     'Fredkin': `Controlled SWAP([${q0}], (${q1}, ${q2}));`,
     'CSWAP': `Controlled SWAP([${q0}], (${q1}, ${q2}));`,
+    'MEASURE': `set c${gate.clbits?.[0] ?? qubits[0]} = M(${q0});`,
+    'RESET': `Reset(${q0});`,
   };
   
   return gateMap[name] || `// Unknown gate: ${name}`;
 }
 
+function conditionToQSharp(statement: string, condition: GateCondition | undefined): string {
+  if (!condition) return statement;
+  const test = condition.clbits
+    .map((clbit, k) => `c${clbit} == ${(condition.value >> k) & 1 ? 'One' : 'Zero'}`)
+    .join(' and ');
+  return `if ${test} { ${statement} }`;
+}
+
 /**
  * Export to OpenQASM 3.0
  */
 export function exportToOpenQASM(circuit: CircuitData): CodeExport {
-  const { numQubits, gates, name = 'quantum_circuit' } = circuit;
+  const { numQubits, name = 'quantum_circuit' } = circuit;
+  const gates = expandCustomGates(circuit.gates);
   
   let code = `// Quantum Circuit - Exported from Quantum Simulator
 // Format: OpenQASM 3.0
 
 OPENQASM 3.0;
 include "stdgates.inc";
-
+${openQASMMatrixGates(gates)}
 // Declare quantum register
 qubit[${numQubits}] q;
 // Declare classical register for measurements
@@ -393,7 +560,7 @@ bit[${numQubits}] c;
 
   gates.forEach(gate => {
     const qasmGate = mapToOpenQASM(gate);
-    code += `${qasmGate}\n`;
+    code += `${conditionToOpenQASM(qasmGate, gate.condition, numQubits)}\n`;
   });
 
   code += `
@@ -424,9 +591,22 @@ circuit = QuantumCircuit.from_qasm_str(qasm_code)
   };
 }
 
+function openQASMMatrixGates(gates: Gate[]): string {
+  const definitions = matrixGatesUsed(gates);
+  if (definitions.length === 0) return '';
+  return `
+// Custom gates defined by a unitary matrix, as U rotations (up to global phase)
+${definitions.map(d => {
+    const { theta, phi, lambda } = eulerAngles(d);
+    return `gate ${d.name} a { U(${theta}, ${phi}, ${lambda}) a; }`;
+  }).join('\n')}
+`;
+}
+
 function mapToOpenQASM(gate: Gate): string {
   const { name, qubits, params } = gate;
   const q0 = `q[${qubits[0]}]`;
+  if (matrixGate(name)) return `${name} ${q0};`;
   const q1 = qubits[1] !== undefined ? `q[${qubits[1]}]` : '';
   const q2 = qubits[2] !== undefined ? `q[${qubits[2]}]` : '';
   
@@ -447,16 +627,31 @@ function mapToOpenQASM(gate: Gate): string {
     'SWAP': `swap ${q0}, ${q1};`,
     'Toffoli': `ccx ${q0}, ${q1}, ${q2};`,
     'CCX': `ccx ${q0}, ${q1}, ${q2};`,
+    'MEASURE': `c[${gate.clbits?.[0] ?? qubits[0]}] = measure ${q0};`,
+    'RESET': `reset ${q0};`,
   };
   
   return gateMap[name] || `// Unknown gate: ${name}`;
 }
 
+function conditionToOpenQASM(statement: string, condition: GateCondition | undefined, numClbits: number): string {
+  if (!condition) return statement;
+  const { clbits, value } = condition;
+
+  // bit[n] converts to an integer with c[0] as the least significant bit
+  if (clbits.length === numClbits && clbits.length > 1 && clbits.every((c, k) => c === k)) {
+    return `if (c == ${value}) ${statement}`;
+  }
+  const test = clbits.map((clbit, k) => `c[${clbit}] == ${(value >> k) & 1}`).join(' && ');
+  return `if (${test}) ${statement}`;
+}
+
 /**
  * Export to Pennylane (for quantum machine learning)
  */
 export function exportToPennylane(circuit: CircuitData): CodeExport {
-  const { numQubits, gates, name = 'quantum_circuit' } = circuit;
+  const { numQubits, name = 'quantum_circuit' } = circuit;
+  const gates = expandCustomGates(circuit.gates);
   
   let code = `"""
 Quantum Circuit - Exported from Quantum Simulator
@@ -468,7 +663,7 @@ from pennylane import numpy as np
 
 # Set up the device
 dev = qml.device('default.qubit', wires=${numQubits})
-
+${pennylaneMatrixGates(gates)}
 @qml.qnode(dev)
 def ${name}():
     """
@@ -478,7 +673,7 @@ def ${name}():
 
   gates.forEach(gate => {
     const pennylaneGate = mapToPennylane(gate);
-    code += `    ${pennylaneGate}\n`;
+    code += `    ${conditionToPennylane(pennylaneGate, gate.condition)}\n`;
   });
 
   code += `
@@ -501,7 +696,7 @@ def ${name}_probs():
 
   gates.forEach(gate => {
     const pennylaneGate = mapToPennylane(gate);
-    code += `    ${pennylaneGate}\n`;
+    code += `    ${conditionToPennylane(pennylaneGate, gate.condition)}\n`;
   });
 
   code += `    return qml.probs(wires=range(${numQubits}))
@@ -536,9 +731,20 @@ pip install amazon-braket-pennylane-plugin  # AWS Braket
   };
 }
 
+function pennylaneMatrixGates(gates: Gate[]): string {
+  const definitions = matrixGatesUsed(gates);
+  if (definitions.length === 0) return '';
+  return `
+# Custom gates defined by a unitary matrix
+${definitions.map(d => `${d.name}_matrix = ${pythonMatrix(d)}`).join('\n')}
+`;
+}
+
 function mapToPennylane(gate: Gate): string {
   const { name, qubits, params } = gate;
   const wires = qubits.length === 1 ? qubits[0] : `[${qubits.join(', ')}]`;
+
+  if (matrixGate(name)) return `qml.QubitUnitary(${name}_matrix, wires=${wires})`;
   
   const gateMap: Record<string, string> = {
     'I': `qml.Identity(wires=${wires})`,
@@ -559,11 +765,24 @@ function mapToPennylane(gate: Gate): string {
     'CCX': `qml.Toffoli(wires=${wires})`,
     'Fredkin': `qml.CSWAP(wires=${wires})`,
     'CSWAP': `qml.CSWAP(wires=${wires})`,
+    'MEASURE': `c${gate.clbits?.[0] ?? qubits[0]} = qml.measure(wires=${wires})`,
+    'RESET': `qml.measure(wires=${wires}, reset=True)`,
   };
   
   return gateMap[name] || `# Unknown gate: ${name}`;
 }
 
+/** Wraps qml.Op(args) as qml.cond(test, qml.Op)(args) using the mid-circuit measurement values */
+function conditionToPennylane(operation: string, condition: GateCondition | undefined): string {
+  if (!condition) return operation;
+  const call = operation.match(/^(qml\.\w+)\((.*)\)$/);
+  if (!call) return operation;
+  const test = condition.clbits
+    .map((clbit, k) => `(c${clbit} == ${(condition.value >> k) & 1})`)
+    .join(' & ');
+  return `qml.cond(${test}, ${call[1]})(${call[2]})`;
+}
+
 /**
  * Main export function - exports to specified language
  */
@@ -0,0 +1,118 @@
+/**
+ * Logistics Agent Tests
+ */
+import { parseLogisticsRequest } from '../agent';
+
+const generated = {
+    name: 'Hamburg run',
+    description: 'Two stops',
+    city: 'Hamburg, Germany',
+    nodes: [
+        { id: 'depot_1', type: 'depot', location: { lat: 53.55, lng: 9.99 } },
+        { id: 'cust_1', type: 'customer', location: { lat: 53.56, lng: 10.01 }, demand: 2, extra: 'dropped' },
+        { id: 'cust_2', type: 'customer', location: { lat: 53.54, lng: 9.97 }, demand: 1 },
+    ],
+    vehicles: [{ id: 'v_1', capacity: 15, startLocation: 'depot_1', color: '#00ff88' }],
+};
+
+// Stands in for a provider and records each request
+function stubFetch(reply: (url: string, body: Record<string, unknown>) => unknown) {
+    const calls: { url: string; init: RequestInit; body: Record<string, unknown> }[] = [];
+    global.fetch = jest.fn(async (url: string, init: RequestInit) => {
+        const body = JSON.parse(init.body as string);
+        calls.push({ url, init, body });
+        return { ok: true, json: async () => reply(url, body), text: async () => '' } as Response;
+    }) as unknown as typeof fetch;
+    return calls;
+}
+
+const openAIReply = (content: unknown) => () => ({
+    choices: [{ message: { content: typeof content === 'string' ? content : JSON.stringify(content) } }],
+});
+
+describe('parseLogisticsRequest', () => {
+    const originalFetch = global.fetch;
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+    afterEach(() => {
+        global.fetch = originalFetch;
+        jest.restoreAllMocks();
+    });
+
+    test('calls a local OpenAI-compatible server without an API key', async () => {
+        const calls = stubFetch(openAIReply(generated));
+        const problem = await parseLogisticsRequest('2 stops in Hamburg', {
+            provider: 'openai',
+            model: 'llama3',
+            baseUrl: 'http://localhost:11434/v1/',
+        });
+
+        expect(calls).toHaveLength(1);
+        expect(calls[0].url).toBe('http://localhost:11434/v1/chat/completions');
+        expect(calls[0].init.headers).not.toHaveProperty('Authorization');
+        expect(calls[0].body).toMatchObject({ model: 'llama3', response_format: { type: 'json_object' } });
+        expect(problem.name).toBe('Hamburg run');
+        expect(problem.nodes[1]).toEqual({ id: 'cust_1', type: 'customer', location: { lat: 53.56, lng: 10.01 }, demand: 2 });
+    });
+
+    test('uses the selected provider rather than always Gemini', async () => {
+        const calls = stubFetch(() => ({ content: [{ text: 'Here it is:\n```json\n' + JSON.stringify(generated) + '\n```' }] }));
+        const problem = await parseLogisticsRequest('2 stops in Hamburg', { provider: 'anthropic', apiKey: 'key' });
+
+        expect(calls[0].url).toBe('https://api.anthropic.com/v1/messages');
+        expect(calls[0].init.headers).toMatchObject({ 'x-api-key': 'key' });
+        expect(problem.vehicles).toEqual(generated.vehicles);
+    });
+
+    test('moves nodes placed far from the named city onto it', async () => {
+        // Frankfurt (Oder) with coordinates near Frankfurt am Main
+        stubFetch(openAIReply({ ...generated, city: 'Frankfurt (Oder), Germany' }));
+        const problem = await parseLogisticsRequest('2 stops in Frankfurt (Oder)', { provider: 'openai', apiKey: 'key' });
+
+        expect(problem.nodes[0].location.lat).toBeCloseTo(52.3471, 6);
+        expect(problem.nodes[1].location.lng - problem.nodes[0].location.lng).toBeCloseTo(0.02, 6);
+    });
+
+    test('rejects a city the gazetteer does not know instead of defaulting', async () => {
+        stubFetch(openAIReply({ ...generated, city: 'Atlantis' }));
+
+        await expect(parseLogisticsRequest('2 stops in Atlantis', { provider: 'openai', apiKey: 'key' }))
+            .rejects.toThrow('Unknown place "Atlantis"');
+    });
+
+    test('rejects JSON that does not match the schema instead of falling back to the mock', async () => {
+        const invalid = {
+            ...generated,
+            nodes: [{ id: 'depot_1', type: 'warehouse', location: { lat: 'north', lng: 9.99 } }],
+            vehicles: [{ id: 'v_1', capacity: 15 }],
+        };
+        stubFetch(openAIReply(invalid));
+        const error = await parseLogisticsRequest('7 stops in Berlin', { provider: 'openai', apiKey: 'key' }).catch(e => e);
+
+        expect(error.message).toMatch(/^AI response has an invalid problem structure: /);
+        expect(error.message).toMatch(/nodes\[0\]\.type must be depot, customer, pickup or delivery/);
+        expect(error.message).toMatch(/nodes\[0\]\.location\.lat must be a number/);
+        expect(error.message).toMatch(/vehicles\[0\]\.startLocation must be a non-empty string/);
+    });
+
+    test('reports provider failures and malformed JSON', async () => {
+        global.fetch = jest.fn(async () => ({ ok: false, text: async () => 'invalid api key' })) as unknown as typeof fetch;
+        await expect(parseLogisticsRequest('7 stops in Berlin', { provider: 'openai', apiKey: 'bad' }))
+            .rejects.toThrow('OpenAI API error: invalid api key');
+
+        stubFetch(openAIReply('{ "nodes": [ }'));
+        await expect(parseLogisticsRequest('7 stops in Berlin', { provider: 'openai', apiKey: 'key' }))
+            .rejects.toThrow(/^AI response is not valid JSON: /);
+    });
+
+    test('keeps well-typed problems with semantic issues for the validator to report', async () => {
+        const duplicated = { ...generated, nodes: [...generated.nodes, { ...generated.nodes[2], demand: -3 }] };
+        stubFetch(openAIReply(duplicated));
+        const problem = await parseLogisticsRequest('3 stops in Hamburg', { provider: 'openai', apiKey: 'key' });
+
+        expect(problem.nodes.map(n => n.id)).toEqual(['depot_1', 'cust_1', 'cust_2', 'cust_2']);
+        expect(problem.nodes[3].demand).toBe(-3);
+    });
+});
@@ -0,0 +1,120 @@
+/**
+ * Distance Matrix Tests
+ */
+import { LogisticsProblem } from '../types';
+import {
+    distance,
+    manhattanDistance,
+    createDistanceMatrix,
+    parseDistanceMatrix,
+    AVERAGE_SPEED_KMH,
+} from '../distance';
+import { solveVRP } from '../solver';
+
+const nodes: LogisticsProblem['nodes'] = [
+    { id: 'depot', type: 'depot', location: { lat: 53.55, lng: 10.0 } },
+    { id: 'a', type: 'customer', location: { lat: 53.58, lng: 10.0 } },
+    { id: 'b', type: 'customer', location: { lat: 53.57, lng: 10.05 } },
+];
+
+function problemWith(travel?: LogisticsProblem['travel']): LogisticsProblem {
+    return {
+        id: 'test',
+        name: 'Test',
+        description: '',
+        nodes,
+        vehicles: [{ id: 'v', capacity: 10, startLocation: 'depot' }],
+        travel,
+    };
+}
+
+describe('createDistanceMatrix', () => {
+    test('defaults to great-circle legs at the average speed', () => {
+        const matrix = createDistanceMatrix(problemWith());
+        const d = distance(nodes[0].location, nodes[2].location);
+
+        expect(matrix.distance('depot', 'b')).toBeCloseTo(d, 10);
+        expect(matrix.duration('depot', 'b')).toBeCloseTo((d / AVERAGE_SPEED_KMH) * 60, 10);
+        expect(matrix.distance('b', 'b')).toBe(0);
+    });
+
+    test('road model scales Manhattan distances by the detour factor', () => {
+        const matrix = createDistanceMatrix(problemWith({ kind: 'road', factor: 1.3, speedKmh: 30 }));
+        const d = manhattanDistance(nodes[0].location, nodes[2].location);
+
+        expect(d).toBeGreaterThan(distance(nodes[0].location, nodes[2].location));
+        expect(matrix.distance('depot', 'b')).toBeCloseTo(1.3 * d, 10);
+        expect(matrix.duration('depot', 'b')).toBeCloseTo((1.3 * d / 30) * 60, 10);
+        // Due north there is no east-west leg
+        expect(manhattanDistance(nodes[0].location, nodes[1].location)).toBeCloseTo(distance(nodes[0].location, nodes[1].location), 10);
+    });
+
+    test('rejects a matrix that misses a node', () => {
+        const travel = parseDistanceMatrix('from,to,distance\ndepot,a,3', 'csv');
+        expect(() => createDistanceMatrix(problemWith(travel))).toThrow(/no entry for b/);
+    });
+});
+
+describe('parseDistanceMatrix', () => {
+    test('reads JSON matrices, including asymmetric travel', () => {
+        const travel = parseDistanceMatrix(JSON.stringify({
+            ids: ['depot', 'a', 'b'],
+            distances: [[0, 2, 4], [3, 0, 1], [5, 1, 0]],
+            durations: [[0, 6, 9], [7, 0, 2], [10, 2, 0]],
+        }), 'json');
+        const matrix = createDistanceMatrix(problemWith(travel));
+
+        expect(matrix.distance('depot', 'a')).toBe(2);
+        expect(matrix.distance('a', 'depot')).toBe(3);
+        expect(matrix.duration('b', 'depot')).toBe(10);
+    });
+
+    test('reads CSV legs and mirrors one-way entries', () => {
+        const travel = parseDistanceMatrix([
+            'From, To, Distance, Duration',
+            'depot,a,2,5',
+            'depot,b,4,8',
+            'a,b,1,3',
+            'b,a,1.5,4',
+        ].join('\n'), 'csv');
+        const matrix = createDistanceMatrix(problemWith(travel));
+
+        expect(matrix.distance('a', 'depot')).toBe(2);
+        expect(matrix.duration('b', 'depot')).toBe(8);
+        expect(matrix.distance('b', 'a')).toBe(1.5);
+    });
+
+    test('derives durations from the speed when the file has none', () => {
+        const travel = parseDistanceMatrix('from,to,distance\ndepot,a,20\ndepot,b,10\na,b,5', 'csv');
+        const matrix = createDistanceMatrix(problemWith(travel));
+        expect(matrix.duration('depot', 'a')).toBeCloseTo((20 / AVERAGE_SPEED_KMH) * 60, 10);
+    });
+
+    test('rejects malformed files', () => {
+        expect(() => parseDistanceMatrix('from,to\ndepot,a', 'csv')).toThrow(/distance columns/);
+        expect(() => parseDistanceMatrix('from,to,distance\ndepot,a,-1', 'csv')).toThrow(/Invalid distance/);
+        expect(() => parseDistanceMatrix('from,to,distance\ndepot,a,1\na,b,1', 'csv')).toThrow(/no leg between depot and b/);
+        expect(() => parseDistanceMatrix('{"ids":["a","b"],"distances":[[0,1]]}', 'json')).toThrow(/2×2/);
+        expect(() => parseDistanceMatrix('not json', 'json')).toThrow(/valid JSON/);
+    });
+
+    test('rejects empty cells instead of reading them as free legs', () => {
+        expect(() => parseDistanceMatrix('from,to,distance\ndepot,a,', 'csv')).toThrow('Missing distance in distance matrix');
+        expect(() => parseDistanceMatrix('from,to,distance,duration\ndepot,a,5, ', 'csv')).toThrow('Missing duration in distance matrix');
+        expect(() => parseDistanceMatrix('{"ids":["a","b"],"distances":[[0,""],[1,0]]}', 'json')).toThrow('Missing distances in distance matrix');
+        expect(() => parseDistanceMatrix('{"ids":["a","b"],"distances":[[0,null],[1,0]]}', 'json')).toThrow('Missing distances in distance matrix');
+        expect(() => parseDistanceMatrix('{"ids":["a","b"],"distances":[[0,true],[1,0]]}', 'json')).toThrow(/Invalid distances/);
+    });
+});
+
+describe('solveVRP with a distance matrix', () => {
+    test('measures routes with the supplied legs', async () => {
+        // Either tour costs 12 on these roads, far from the few km the coordinates suggest
+        const travel = parseDistanceMatrix('from,to,distance\ndepot,a,10\ndepot,b,1\na,b,1', 'csv');
+        const result = await solveVRP(problemWith(travel), () => {}, { seed: 1 });
+
+        expect(result.totalCost).toBeCloseTo(12, 10);
+        expect(result.routes[0].totalDistance).toBeCloseTo(12, 10);
+        expect(result.baselineCost).toBeCloseTo(12, 10);
+    });
+});
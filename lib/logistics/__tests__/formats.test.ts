@@ -0,0 +1,220 @@
+/**
+ * Import/Export Format Tests
+ */
+import { LogisticsProblem } from '../types';
+import {
+    parseStopsCsv,
+    stopsToCsv,
+    routesToCsv,
+    parseRoutesCsv,
+    toGeoJSON,
+    fromGeoJSON,
+    parseVrp,
+    toVrp,
+    parseVrpSolution,
+    toVrpSolution,
+    importFile,
+} from '../formats';
+import { createDistanceMatrix } from '../distance';
+import { solveVRP } from '../solver';
+
+const problem: LogisticsProblem = {
+    id: 'test',
+    name: 'Test',
+    description: 'Four stops, "quoted"',
+    nodes: [
+        { id: 'depot', name: 'Hub, North', type: 'depot', location: { lat: 53.55, lng: 10.0 } },
+        { id: 'a', type: 'customer', location: { lat: 53.58, lng: 10.0 }, demand: 3, timeWindow: { start: 0, end: 120 } },
+        { id: 'b', type: 'customer', location: { lat: 53.57, lng: 10.05 }, demand: 2 },
+        { id: 'c', type: 'customer', location: { lat: 53.53, lng: 9.97 }, demand: 4 },
+        { id: 'd', type: 'customer', location: { lat: 53.52, lng: 10.04 }, demand: 1 },
+    ],
+    vehicles: [
+        { id: 'v0', capacity: 6, startLocation: 'depot' },
+        { id: 'v1', capacity: 6, startLocation: 'depot' },
+    ],
+};
+
+// Depot plus four customers on a plane
+const VRP = `NAME : toy-n5-k2
+COMMENT : "Toy instance"
+TYPE : CVRP
+DIMENSION : 5
+EDGE_WEIGHT_TYPE : EUC_2D
+CAPACITY : 10
+NODE_COORD_SECTION
+1 0 0
+2 0 10
+3 10 0
+4 0 -10
+5 -7 7
+DEMAND_SECTION
+1 0
+2 4
+3 5
+4 3
+5 6
+DEPOT_SECTION
+ 1
+ -1
+EOF
+`;
+
+describe('CSV stops', () => {
+    test('round-trips nodes, quoted names and time windows', () => {
+        const imported = parseStopsCsv(stopsToCsv(problem), { vehicles: 2, capacity: 6 });
+
+        expect(imported.nodes).toEqual(problem.nodes);
+        expect(imported.vehicles.map(v => [v.capacity, v.startLocation])).toEqual([[6, 'depot'], [6, 'depot']]);
+    });
+
+    test('accepts common column names and sizes a default fleet', () => {
+        const imported = parseStopsCsv([
+            'Name,Type,Latitude,Longitude,Quantity',
+            'Hub,depot,53.55,10.0,',
+            'Shop,,53.56,10.01,5',
+            'Cafe,customer,53.54,9.99,7',
+        ].join('\n'));
+
+        expect(imported.nodes.map(n => [n.id, n.type, n.demand])).toEqual([
+            ['stop_0', 'depot', undefined],
+            ['stop_1', 'customer', 5],
+            ['stop_2', 'customer', 7],
+        ]);
+        expect(imported.vehicles).toHaveLength(4);
+        expect(imported.vehicles[0].capacity).toBe(7);
+    });
+
+    test('rejects files it cannot map', () => {
+        expect(() => parseStopsCsv('id,x,y\na,1,2')).toThrow(/lat and lng/);
+        expect(() => parseStopsCsv('id,lat,lng\na,53.5,10')).toThrow(/depot/);
+        expect(() => parseStopsCsv('id,type,lat,lng\na,depot,north,10')).toThrow(/line 2: lat "north"/);
+        expect(() => parseStopsCsv('id,type,lat,lng\na,warehouse,53.5,10')).toThrow(/unknown type/);
+    });
+});
+
+describe('CSV routes', () => {
+    test('round-trips a solution and recomputes its cost', async () => {
+        const solution = await solveVRP(problem, () => {}, { seed: 7, maxIterations: 300 });
+        const imported = parseRoutesCsv(routesToCsv(problem, solution), problem);
+
+        expect(imported.routes.map(r => r.stops)).toEqual(solution.routes.map(r => r.stops));
+        expect(imported.totalCost).toBeCloseTo(solution.totalCost, 9);
+        expect(imported.unassignedNodes).toEqual([]);
+    });
+
+    test('rejects unknown vehicles and nodes', () => {
+        expect(() => parseRoutesCsv('vehicle_id,sequence,node_id\nv9,1,a', problem)).toThrow(/unknown vehicle "v9"/);
+        expect(() => parseRoutesCsv('vehicle_id,sequence,node_id\nv0,1,z', problem)).toThrow(/unknown node "z"/);
+    });
+});
+
+describe('GeoJSON', () => {
+    test('round-trips a problem, its fleet and its routes', async () => {
+        const solution = await solveVRP(problem, () => {}, { seed: 7, maxIterations: 300 });
+        const json = JSON.parse(JSON.stringify(toGeoJSON(problem, solution)));
+        const imported = fromGeoJSON(json);
+
+        expect(json.features.filter((f: { geometry: { type: string } }) => f.geometry.type === 'LineString'))
+            .toHaveLength(solution.routes.length);
+        expect(imported.problem.nodes.map(n => [n.id, n.type, n.demand, n.location])).toEqual(
+            problem.nodes.map(n => [n.id, n.type, n.demand, n.location])
+        );
+        expect(imported.problem.vehicles).toEqual(problem.vehicles);
+        expect(imported.solution?.totalCost).toBeCloseTo(solution.totalCost, 9);
+    });
+
+    test('imports plain point collections with a generated fleet', () => {
+        const { problem: imported, solution } = fromGeoJSON({
+            type: 'FeatureCollection',
+            features: [
+                { type: 'Feature', geometry: { type: 'Point', coordinates: [10, 53.55] }, properties: { type: 'depot' } },
+                { type: 'Feature', geometry: { type: 'Point', coordinates: [10.02, 53.56] }, properties: { demand: 2 } },
+            ],
+        });
+
+        expect(imported.nodes[1]).toEqual({ id: 'stop_1', type: 'customer', location: { lat: 53.56, lng: 10.02 }, demand: 2 });
+        expect(imported.vehicles.every(v => v.startLocation === 'stop_0')).toBe(true);
+        expect(solution).toBeUndefined();
+        expect(() => fromGeoJSON({ type: 'Feature' })).toThrow(/FeatureCollection/);
+    });
+});
+
+describe('CVRPLIB', () => {
+    test('reads EUC_2D instances with rounded distances', () => {
+        const imported = parseVrp(VRP);
+        const matrix = createDistanceMatrix(imported);
+
+        expect(imported.nodes.map(n => n.type)).toEqual(['depot', 'customer', 'customer', 'customer', 'customer']);
+        expect(imported.nodes.map(n => n.demand)).toEqual([undefined, 4, 5, 3, 6]);
+        expect(imported.vehicles).toHaveLength(2);
+        expect(imported.vehicles[0].capacity).toBe(10);
+        expect(matrix.distance('1', '5')).toBe(10); // nint(9.899)
+        expect(matrix.distance('2', '3')).toBe(14); // nint(14.142)
+    });
+
+    test('reads explicit lower-triangular weights', () => {
+        const imported = parseVrp([
+            'NAME : tri', 'TYPE : CVRP', 'DIMENSION : 3', 'CAPACITY : 5',
+            'EDGE_WEIGHT_TYPE : EXPLICIT', 'EDGE_WEIGHT_FORMAT : LOWER_ROW',
+            'EDGE_WEIGHT_SECTION', '4', '6 3',
+            'DEMAND_SECTION', '1 0', '2 2', '3 2',
+            'DEPOT_SECTION', '1', '-1', 'EOF',
+        ].join('\n'));
+        const matrix = createDistanceMatrix(imported);
+
+        expect(matrix.distance('1', '2')).toBe(4);
+        expect(matrix.distance('3', '1')).toBe(6);
+        expect(matrix.distance('2', '3')).toBe(3);
+        expect(imported.vehicles).toHaveLength(1);
+    });
+
+    test('round-trips a problem and its solution', async () => {
+        const exportable = { ...problem, nodes: problem.nodes.map(n => ({ ...n, timeWindow: undefined })) };
+        const imported = parseVrp(toVrp(exportable));
+        const original = createDistanceMatrix(exportable);
+        const matrix = createDistanceMatrix(imported);
+
+        expect(matrix.distance('2', '4')).toBeCloseTo(original.distance('a', 'c'), 6);
+        expect(imported.vehicles).toHaveLength(2);
+
+        const solution = await solveVRP(exportable, () => {}, { seed: 7, maxIterations: 300 });
+        const sol = toVrpSolution(exportable, solution);
+        expect(sol).toMatch(/^Route #1: [1-4]/);
+        expect(parseVrpSolution(sol, exportable).totalCost).toBeCloseTo(solution.totalCost, 9);
+    });
+
+    test('keeps exported positions and zero demands on re-import', () => {
+        // Berlin, well away from the box plane coordinates are drawn in
+        const berlin = {
+            ...problem,
+            nodes: problem.nodes.map((n, i) => ({
+                ...n,
+                timeWindow: undefined,
+                location: { lat: n.location.lat - 1.03, lng: n.location.lng + 3.4 },
+                ...(i === 1 ? { demand: 0 } : {}),
+            })),
+        };
+        const imported = parseVrp(toVrp(berlin));
+
+        expect(imported.nodes.map(n => n.location)).toEqual(berlin.nodes.map(n => n.location));
+        expect(imported.nodes[1].demand).toBe(0);
+    });
+
+    test('refuses what CVRPLIB cannot express', () => {
+        expect(() => toVrp(problem)).toThrow(/time windows/);
+        expect(() => parseVrp('NAME : x\nDIMENSION : 3')).toThrow(/CAPACITY/);
+        expect(() => parseVrpSolution('Route #1: 9', parseVrp(VRP))).toThrow(/unknown customer 9/);
+    });
+});
+
+describe('importFile', () => {
+    test('dispatches on the file extension', () => {
+        expect(importFile('toy.vrp', VRP).problem.name).toBe('toy-n5-k2');
+        expect(importFile('stops.csv', stopsToCsv(problem)).problem.nodes).toHaveLength(5);
+        expect(importFile('routes.csv', 'vehicle_id,sequence,node_id\nv0,1,a', problem).solution?.routes[0].stops)
+            .toEqual(['depot', 'a', 'depot']);
+        expect(() => importFile('toy.sol', 'Route #1: 1')).toThrow(/\.vrp instance/);
+        expect(() => importFile('notes.txt', '')).toThrow(/Unsupported/);
+    });
+});
@@ -0,0 +1,73 @@
+/**
+ * Gazetteer Tests
+ */
+import { normalizePlace, searchPlaces, resolvePlace, findPlaceInText, formatPlace } from '../gazetteer';
+import { parseLogisticsRequest } from '../agent';
+
+describe('resolvePlace', () => {
+    test('matches names, local spellings and misspellings', () => {
+        expect(normalizePlace('Frankfurt (Oder)')).toBe('frankfurt oder');
+        expect(resolvePlace('München').name).toBe('Munich');
+        expect(resolvePlace('Koeln').name).toBe('Cologne');
+        expect(resolvePlace('Hamburgg').name).toBe('Hamburg');
+        expect(resolvePlace('Dusseldrof').name).toBe('Düsseldorf');
+    });
+
+    test('prefers the larger namesake unless the name is qualified', () => {
+        expect(resolvePlace('Frankfurt').name).toBe('Frankfurt am Main');
+        expect(resolvePlace('Frankfurt an der Oder').name).toBe('Frankfurt (Oder)');
+        expect(resolvePlace('Frankfurt/Oder').name).toBe('Frankfurt (Oder)');
+        expect(resolvePlace('Portland').admin).toBe('Oregon');
+        expect(resolvePlace('Portland, ME').admin).toBe('Maine');
+        expect(resolvePlace('London, Canada').country).toBe('CA');
+    });
+
+    test('lists the alternatives for an ambiguous name', () => {
+        const matches = searchPlaces('Springfield');
+        expect(matches.map(m => m.city.adminCode)).toEqual(['MO', 'MA', 'IL']);
+        expect(matches.every(m => m.score === 1)).toBe(true);
+        expect(formatPlace(matches[2].city)).toBe('Springfield, Illinois, United States');
+    });
+
+    test('throws for unknown places, suggesting a close name', () => {
+        expect(() => resolvePlace('Atlantis')).toThrow('Unknown place "Atlantis"');
+        expect(() => resolvePlace('Hambugrer')).toThrow(/Did you mean Hamburg, Germany\?/);
+        expect(() => resolvePlace('Portland, Texas')).toThrow(/Unknown place/);
+    });
+});
+
+describe('findPlaceInText', () => {
+    test('finds the city a request is about', () => {
+        expect(findPlaceInText('Optimize routes for 4 trucks delivering to 20 locations in Hamburg')?.name).toBe('Hamburg');
+        expect(findPlaceInText('Route 6 vans across Frankfurt (Oder) today')?.name).toBe('Frankfurt (Oder)');
+        expect(findPlaceInText('20 stops in Portland, Maine with 3 vans')?.admin).toBe('Maine');
+        expect(findPlaceInText('deliver 30 parcels in new york')?.name).toBe('New York');
+        expect(findPlaceInText('deliver 30 parcels around berlni')?.name).toBe('Berlin');
+    });
+
+    test('ignores common words and returns null when no place is named', () => {
+        expect(findPlaceInText('a nice route for 5 trucks')).toBeNull();
+        expect(findPlaceInText('Optimize routes for 5 trucks in the evening')).toBeNull();
+    });
+
+    test('throws for a named place it does not know', () => {
+        expect(() => findPlaceInText('Deliver 20 packages in Atlantis')).toThrow('Unknown place "Atlantis"');
+    });
+});
+
+describe('parseLogisticsRequest without an API key', () => {
+    beforeEach(() => jest.spyOn(console, 'log').mockImplementation(() => {}));
+    afterEach(() => jest.restoreAllMocks());
+
+    test('places the depot at the resolved city', async () => {
+        const problem = await parseLogisticsRequest('12 stops with 2 vans in Frankfurt an der Oder');
+        const depot = problem.nodes.find(n => n.type === 'depot')!;
+
+        expect(depot.location).toEqual({ lat: 52.3471, lng: 14.5506 });
+        expect(problem.name).toBe('Frankfurt (Oder) Logistics Optimization');
+    });
+
+    test('rejects an unknown city instead of defaulting to Hamburg', async () => {
+        await expect(parseLogisticsRequest('12 stops in Atlantis')).rejects.toThrow(/Unknown place/);
+    });
+});
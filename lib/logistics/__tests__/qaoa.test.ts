@@ -0,0 +1,69 @@
+/**
+ * QAOA Solver Tests
+ */
+import { LogisticsProblem } from '../types';
+import { solveQAOA, canSolveWithQAOA, qaoaQubitCount } from '../qaoa';
+import { distance } from '../solver';
+
+function makeProblem(numCustomers: number): LogisticsProblem {
+    const offsets = [[0.02, 0.01], [0.03, -0.02], [-0.01, -0.03], [-0.02, 0.02], [0.01, 0.04]];
+    return {
+        id: 'test',
+        name: 'Test',
+        description: '',
+        nodes: [
+            { id: 'depot', type: 'depot', location: { lat: 53.55, lng: 10.0 } },
+            ...offsets.slice(0, numCustomers).map(([dLat, dLng], i) => ({
+                id: `c${i}`,
+                type: 'customer' as const,
+                location: { lat: 53.55 + dLat, lng: 10.0 + dLng },
+            })),
+        ],
+        vehicles: [{ id: 'v1', capacity: 10, startLocation: 'depot' }],
+    };
+}
+
+function permutations(items: number[]): number[][] {
+    if (items.length <= 1) return [items];
+    return items.flatMap((item, i) =>
+        permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest])
+    );
+}
+
+describe('solveQAOA', () => {
+    test('finds the shortest tour for three customers', async () => {
+        const problem = makeProblem(3);
+        const depot = problem.nodes[0];
+        const customers = problem.nodes.slice(1);
+        const optimal = Math.min(...permutations([0, 1, 2]).map(order => {
+            const path = [depot, ...order.map(c => customers[c]), depot];
+            return path.slice(1).reduce((sum, node, i) => sum + distance(path[i].location, node.location), 0);
+        }));
+
+        const progress: number[] = [];
+        const result = await solveQAOA(problem, state => progress.push(state.iteration), { maxIterations: 30, shots: 4096 });
+
+        expect(result.solver).toBe('qaoa');
+        expect(result.routes).toHaveLength(1);
+        expect(result.routes[0].stops[0]).toBe('depot');
+        expect([...result.routes[0].stops].sort()).toEqual(['c0', 'c1', 'c2', 'depot', 'depot']);
+        expect(result.totalCost).toBeCloseTo(optimal, 6);
+        expect(progress.length).toBeGreaterThan(1);
+    });
+
+    test('refuses instances that need too many qubits', async () => {
+        const problem = makeProblem(5);
+        expect(qaoaQubitCount(problem)).toBe(25);
+        expect(canSolveWithQAOA(problem)).toBe(false);
+        await expect(solveQAOA(problem, () => {})).rejects.toThrow(/qubits/);
+    });
+
+    test('refuses pickup-and-delivery problems', async () => {
+        const problem = makeProblem(2);
+        problem.nodes[1] = { ...problem.nodes[1], type: 'pickup', pairedWith: 'c1' };
+        problem.nodes[2] = { ...problem.nodes[2], type: 'delivery', pairedWith: 'c0' };
+
+        expect(canSolveWithQAOA(problem)).toBe(false);
+        await expect(solveQAOA(problem, () => {})).rejects.toThrow(/pickup-and-delivery/);
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * QUBO / Ising Encoding Tests
+ */
+import { LogisticsProblem, Vehicle } from '../types';
+import {
+    createQubo,
+    addQuboTerm,
+    addQuboPenalty,
+    evaluateQubo,
+    quboToIsing,
+    toQubo,
+    quboQubitCount,
+    decodeRoutes,
+    isFeasibleAssignment,
+} from '../qubo';
+
+function makeProblem(numCustomers: number, vehicles: Vehicle[]): LogisticsProblem {
+    const offsets = [[0.02, 0.01], [0.03, -0.02], [-0.01, -0.03], [-0.02, 0.02]];
+    return {
+        id: 'test',
+        name: 'Test',
+        description: '',
+        nodes: [
+            { id: 'depot', type: 'depot', location: { lat: 53.55, lng: 10.0 } },
+            ...offsets.slice(0, numCustomers).map(([dLat, dLng], i) => ({
+                id: `c${i}`,
+                type: 'customer' as const,
+                location: { lat: 53.55 + dLat, lng: 10.0 + dLng },
+            })),
+        ],
+        vehicles,
+    };
+}
+
+function allBitstrings(n: number): string[] {
+    return Array.from({ length: Math.pow(2, n) }, (_, x) => x.toString(2).padStart(n, '0'));
+}
+
+const toBits = (bits: string) => Array.from(bits, Number);
+
+describe('QUBO', () => {
+    test('Ising form has the same energy as the QUBO', () => {
+        const qubo = createQubo(3);
+        addQuboTerm(qubo, 0, 0, 1.5);
+        addQuboTerm(qubo, 2, 1, -2);
+        addQuboPenalty(qubo, [0, 1, 2], 0.7);
+        const ising = quboToIsing(qubo);
+
+        for (const bits of allBitstrings(3)) {
+            const z = toBits(bits).map(b => 1 - 2 * b);
+            let spinEnergy = ising.offset;
+            for (let i = 0; i < 3; i++) {
+                spinEnergy += ising.h[i] * z[i];
+                for (let j = i + 1; j < 3; j++) spinEnergy += ising.J[i][j] * z[i] * z[j];
+            }
+            expect(spinEnergy).toBeCloseTo(evaluateQubo(qubo, toBits(bits)), 8);
+        }
+    });
+});
+
+describe('toQubo', () => {
+    test('feasible assignments cost their route length and the minimum is the best tour', () => {
+        const problem = makeProblem(3, [{ id: 'v1', capacity: 10, startLocation: 'depot' }]);
+        const encoding = toQubo(problem);
+        expect(encoding.numQubits).toBe(9);
+        expect(quboQubitCount(problem)).toBe(9);
+
+        let best = { energy: Infinity, bits: '' };
+        let bestFeasible = Infinity;
+        for (const bits of allBitstrings(encoding.numQubits)) {
+            const energy = evaluateQubo(encoding.qubo, toBits(bits));
+            if (energy < best.energy) best = { energy, bits };
+
+            if (isFeasibleAssignment(problem, encoding, bits)) {
+                const routes = decodeRoutes(problem, encoding, bits);
+                expect(energy).toBeCloseTo(routes[0].totalDistance, 8);
+                bestFeasible = Math.min(bestFeasible, energy);
+            }
+        }
+
+        expect(isFeasibleAssignment(problem, encoding, best.bits)).toBe(true);
+        expect(best.energy).toBeCloseTo(bestFeasible, 8);
+    });
+
+    test('capacity forces customers onto separate vehicles', () => {
+        const problem = makeProblem(2, [
+            { id: 'v1', capacity: 1, startLocation: 'depot' },
+            { id: 'v2', capacity: 1, startLocation: 'depot' },
+        ]);
+        const encoding = toQubo(problem);
+        // One slot per vehicle for two customers, plus one slack bit each
+        expect(encoding.numQubits).toBe(6);
+        expect(encoding.variables.filter(v => v.kind === 'slack')).toHaveLength(2);
+
+        let best = { energy: Infinity, bits: '' };
+        for (const bits of allBitstrings(encoding.numQubits)) {
+            const energy = evaluateQubo(encoding.qubo, toBits(bits));
+            if (energy < best.energy) best = { energy, bits };
+        }
+
+        const routes = decodeRoutes(problem, encoding, best.bits);
+        expect(routes.map(r => r.stops.length)).toEqual([3, 3]);
+        expect(routes.map(r => r.totalLoad)).toEqual([1, 1]);
+    });
+
+    test('feasible energies include per-km rates and fixed costs', () => {
+        const problem = makeProblem(2, [
+            { id: 'v1', capacity: 10, startLocation: 'depot', costPerKm: 2 },
+            { id: 'v2', capacity: 10, startLocation: 'depot', costPerKm: 0.5, fixedCost: 4 },
+        ]);
+        const encoding = toQubo(problem);
+
+        let feasible = 0;
+        for (const bits of allBitstrings(encoding.numQubits)) {
+            if (!isFeasibleAssignment(problem, encoding, bits)) continue;
+            const routes = decodeRoutes(problem, encoding, bits);
+            const cost = routes.reduce((sum, r) => sum + r.totalCost, 0);
+            expect(evaluateQubo(encoding.qubo, toBits(bits))).toBeCloseTo(cost, 8);
+            feasible++;
+        }
+        expect(feasible).toBeGreaterThan(0);
+    });
+
+    test('decoder keeps the first slot of a customer assigned twice', () => {
+        const problem = makeProblem(2, [{ id: 'v1', capacity: 10, startLocation: 'depot' }]);
+        const encoding = toQubo(problem);
+        // Variables are (c0,p0) (c0,p1) (c1,p0) (c1,p1): c0 in both slots
+        const bits = '1100';
+
+        expect(isFeasibleAssignment(problem, encoding, bits)).toBe(false);
+        expect(decodeRoutes(problem, encoding, bits)[0].stops).toEqual(['depot', 'c0', 'depot']);
+        expect(decodeRoutes(problem, encoding, '0110')[0].stops).toEqual(['depot', 'c1', 'c0', 'depot']);
+    });
+});
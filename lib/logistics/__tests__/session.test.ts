@@ -0,0 +1,116 @@
+/**
+ * Solver Session Tests
+ */
+import { LogisticsProblem } from '../types';
+import { createSolverSession, SolverEvent, SolverSession } from '../session';
+
+const offsets = [[0.01, 0.02], [0.03, -0.01], [-0.02, 0.03], [-0.01, -0.02], [0.02, 0.04], [-0.03, 0.01]];
+
+const problem: LogisticsProblem = {
+    id: 'test',
+    name: 'Test',
+    description: '',
+    nodes: [
+        { id: 'depot', type: 'depot', location: { lat: 53.55, lng: 10.0 } },
+        ...offsets.map(([dLat, dLng], i) => ({
+            id: `c${i}`,
+            type: 'customer' as const,
+            location: { lat: 53.55 + dLat, lng: 10.0 + dLng },
+        })),
+    ],
+    vehicles: [
+        { id: 'v0', capacity: 10, startLocation: 'depot' },
+        { id: 'v1', capacity: 10, startLocation: 'depot' },
+    ],
+};
+
+// Collects events and lets a test react to them or wait for a given type
+function recorder(react: (event: SolverEvent, session: SolverSession) => void = () => {}) {
+    const events: SolverEvent[] = [];
+    const waiters: { type: SolverEvent['type']; resolve: (event: SolverEvent) => void }[] = [];
+
+    const session = createSolverSession(event => {
+        events.push(event);
+        react(event, session);
+        for (const waiter of waiters.filter(w => w.type === event.type)) {
+            waiters.splice(waiters.indexOf(waiter), 1);
+            waiter.resolve(event);
+        }
+    });
+
+    const next = (type: SolverEvent['type']) => new Promise<SolverEvent>(resolve => waiters.push({ type, resolve }));
+    return { session, events, next };
+}
+
+describe('createSolverSession', () => {
+    test('streams progress and finishes with the result', async () => {
+        const { session, events, next } = recorder();
+        const done = next('done');
+        session.handle({ type: 'start', problem, options: { seed: 3, maxIterations: 300 } });
+
+        const event = await done;
+        expect(event.type === 'done' && event.result.status).toBe('completed');
+        expect(events.filter(e => e.type === 'progress').length).toBeGreaterThan(2);
+    });
+
+    test('pauses with the best routes so far and resumes from them', async () => {
+        const { session, events, next } = recorder((event, s) => {
+            if (event.type === 'progress' && event.state.iteration >= 150 && !events.some(e => e.type === 'paused')) {
+                s.handle({ type: 'pause' });
+            }
+        });
+        const paused = next('paused');
+        session.handle({ type: 'start', problem, options: { seed: 3, maxIterations: 600 } });
+
+        const pausedEvent = await paused;
+        if (pausedEvent.type !== 'paused') throw new Error('expected a paused event');
+        expect(pausedEvent.result.status).toBe('cancelled');
+        const pausedAt = events.filter(e => e.type === 'progress').length;
+        const lastBefore = events[pausedAt - 1];
+        if (lastBefore.type !== 'progress') throw new Error('expected progress before pausing');
+
+        const done = next('done');
+        session.handle({ type: 'resume' });
+        const doneEvent = await done;
+        if (doneEvent.type !== 'done') throw new Error('expected a done event');
+
+        // Iterations continue from the pause and the result is no worse than the paused routes
+        const resumed = events.slice(pausedAt + 1).filter(e => e.type === 'progress');
+        expect(resumed[0].type === 'progress' && resumed[0].state.iteration).toBe(lastBefore.state.iteration);
+        expect(resumed[0].type === 'progress' && resumed[0].state.temp).toBeCloseTo(lastBefore.state.temp, 8);
+        expect(doneEvent.result.totalCost).toBeLessThanOrEqual(pausedEvent.result.totalCost + 1e-9);
+        expect(doneEvent.result.routes.flatMap(r => r.stops.slice(1, -1)).sort()).toEqual(offsets.map((_, i) => `c${i}`));
+    });
+
+    test('cancels a running solve without a result', async () => {
+        const { session, events, next } = recorder((event, s) => {
+            if (event.type === 'progress' && event.state.iteration >= 60) s.handle({ type: 'cancel' });
+        });
+        const cancelled = next('cancelled');
+        session.handle({ type: 'start', problem, options: { maxIterations: 3000 } });
+
+        await cancelled;
+        expect(events.some(e => e.type === 'done')).toBe(false);
+    });
+
+    test('ignores a superseded run after a restart', async () => {
+        const { session, events, next } = recorder();
+        const done = next('done');
+        session.handle({ type: 'start', problem, options: { maxIterations: 3000 } });
+        session.handle({ type: 'start', problem, options: { maxIterations: 90 } });
+
+        await done;
+        await new Promise(r => setTimeout(r, 50));
+        expect(events.filter(e => e.type === 'done' || e.type === 'cancelled')).toHaveLength(1);
+        expect(events.filter(e => e.type === 'progress').every(e => e.type === 'progress' && e.state.iteration <= 90)).toBe(true);
+    });
+
+    test('reports solver errors', async () => {
+        const { session, next } = recorder();
+        const error = next('error');
+        session.handle({ type: 'start', problem: { ...problem, nodes: problem.nodes.slice(1) } });
+
+        const event = await error;
+        expect(event.type === 'error' && event.message).toMatch(/depot/);
+    });
+});
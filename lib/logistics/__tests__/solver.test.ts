@@ -0,0 +1,294 @@
+/**
+ * CVRPTW Cost and Feasibility Tests
+ */
+import { LogisticsProblem, LogisticsNode, Vehicle } from '../types';
+import { evaluateRoute, routeCost, solveVRP, greedyBaseline, distance, AVERAGE_SPEED_KMH, DEFAULT_PENALTIES, CoolingSchedule } from '../solver';
+
+const depot: LogisticsNode = { id: 'depot', type: 'depot', location: { lat: 53.55, lng: 10.0 } };
+
+function customer(id: string, dLat: number, dLng: number, extra: Partial<LogisticsNode> = {}): LogisticsNode {
+    return { id, type: 'customer', location: { lat: 53.55 + dLat, lng: 10.0 + dLng }, ...extra };
+}
+
+function problemWith(nodes: LogisticsNode[], capacities: number[]): LogisticsProblem {
+    return {
+        id: 'test',
+        name: 'Test',
+        description: '',
+        nodes: [depot, ...nodes],
+        vehicles: capacities.map((capacity, i) => ({ id: `v${i}`, capacity, startLocation: 'depot' })),
+    };
+}
+
+describe('evaluateRoute', () => {
+    const a = customer('a', 0.05, 0, { demand: 3 });
+    const b = customer('b', 0.05, 0.05, { demand: 4 });
+    const nodesMap = new Map([depot, a, b].map(n => [n.id, n]));
+    const vehicle = { id: 'v', capacity: 5, startLocation: 'depot' };
+
+    test('reports overload against the vehicle capacity', () => {
+        const evaluation = evaluateRoute(vehicle, ['depot', 'a', 'b', 'depot'], nodesMap);
+        expect(evaluation.load).toBe(7);
+        expect(evaluation.feasibility.overload).toBe(2);
+        expect(evaluation.feasibility.feasible).toBe(false);
+        expect(routeCost(evaluation)).toBeCloseTo(evaluation.distance + 2 * DEFAULT_PENALTIES.capacity, 8);
+    });
+
+    test('waits for early windows and measures lateness', () => {
+        const travel = (x: LogisticsNode, y: LogisticsNode) => (distance(x.location, y.location) / AVERAGE_SPEED_KMH) * 60;
+        const early = { ...a, demand: 1, timeWindow: { start: 60, end: 90 } };
+        const late = { ...b, demand: 1, timeWindow: { start: 0, end: 61 } };
+        const map = new Map([depot, early, late].map(n => [n.id, n]));
+
+        const evaluation = evaluateRoute(vehicle, ['depot', 'a', 'b', 'depot'], map);
+        const arrivalAtB = 60 + travel(early, late);
+
+        expect(evaluation.feasibility.lateStops).toEqual(['b']);
+        expect(evaluation.feasibility.lateness).toBeCloseTo(arrivalAtB - 61, 6);
+        expect(evaluation.feasibility.duration).toBeCloseTo(arrivalAtB + travel(late, depot), 6);
+    });
+
+    test('applies route distance and time limits', () => {
+        const evaluation = evaluateRoute(vehicle, ['depot', 'a', 'depot'], nodesMap, { maxDistance: 5, maxTime: 10 });
+        expect(evaluation.feasibility.excessDistance).toBeCloseTo(evaluation.distance - 5, 8);
+        expect(evaluation.feasibility.excessTime).toBeGreaterThan(0);
+    });
+});
+
+describe('solveVRP', () => {
+    test('returns routes within capacity with real loads', async () => {
+        const nodes = [
+            customer('c1', 0.01, 0.01, { demand: 3 }),
+            customer('c2', 0.02, -0.01, { demand: 3 }),
+            customer('c3', -0.01, 0.02, { demand: 3 }),
+            customer('c4', -0.02, -0.02, { demand: 3 }),
+        ];
+        const result = await solveVRP(problemWith(nodes, [6, 6]), () => {});
+
+        expect(result.unassignedNodes).toEqual([]);
+        for (const route of result.routes) {
+            expect(route.totalLoad).toBeLessThanOrEqual(6);
+            expect(route.feasibility?.feasible).toBe(true);
+        }
+        expect(result.routes.reduce((sum, r) => sum + r.totalLoad, 0)).toBe(12);
+    });
+
+    test('lists customers that no vehicle can serve feasibly', async () => {
+        const nodes = [
+            customer('small', 0.01, 0.01, { demand: 2 }),
+            customer('huge', 0.02, 0.02, { demand: 50 }),
+        ];
+        const result = await solveVRP(problemWith(nodes, [10]), () => {});
+
+        expect(result.unassignedNodes).toEqual(['huge']);
+        expect(result.routes[0].stops).toEqual(['depot', 'small', 'depot']);
+    });
+});
+
+describe('SolverOptions', () => {
+    const offsets = [[0.01, 0.02], [0.03, -0.01], [-0.02, 0.03], [-0.01, -0.02], [0.02, 0.04], [-0.03, 0.01], [0.04, 0.02], [-0.02, -0.04]];
+    const problem = problemWith(offsets.map(([dLat, dLng], i) => customer(`c${i}`, dLat, dLng, { demand: 2 })), [10, 10]);
+
+    test.each<CoolingSchedule>(['geometric', 'linear', 'adaptive'])('the same seed reproduces the %s run', async (schedule) => {
+        const first = await solveVRP(problem, () => {}, { seed: 7, schedule });
+        const second = await solveVRP(problem, () => {}, { seed: 7, schedule });
+
+        expect(second.routes.map(r => r.stops)).toEqual(first.routes.map(r => r.stops));
+        expect(second.totalCost).toBe(first.totalCost);
+    });
+
+    test('matches the recorded solution for seed 42', async () => {
+        const result = await solveVRP(problem, () => {}, { seed: 42 });
+
+        expect(result.routes.map(r => r.stops)).toEqual([
+            ['depot', 'c3', 'c7', 'c5', 'c2', 'depot'],
+            ['depot', 'c0', 'c4', 'c6', 'c1', 'depot'],
+        ]);
+        expect(result.totalCost).toBeCloseTo(23.359394808, 6);
+    });
+
+    test('linear cooling reaches zero temperature at the iteration budget', async () => {
+        const temps: number[] = [];
+        await solveVRP(problem, state => temps.push(state.temp), { seed: 1, schedule: 'linear', maxIterations: 300 });
+        expect(temps[0]).toBe(500);
+        expect(temps[temps.length - 1]).toBeCloseTo(0, 10);
+    });
+
+    test('stops at the time budget', async () => {
+        const iterations: number[] = [];
+        await solveVRP(problem, state => iterations.push(state.iteration), { seed: 1, timeBudgetMs: 0 });
+        expect(iterations[iterations.length - 1]).toBe(1);
+    });
+
+    test('rejects move probabilities that sum to zero', async () => {
+        await expect(solveVRP(problem, () => {}, {
+            moveProbabilities: { relocate: 0, swap: 0, twoOpt: 0, orOpt: 0 },
+        })).rejects.toThrow(/Move probabilities/);
+    });
+
+    test('starts from an initial solution and places customers it leaves out', async () => {
+        const result = await solveVRP(problem, () => {}, {
+            maxIterations: 0,
+            initialSolution: [['c0', 'c1', 'c2', 'c3'], ['c4', 'c5', 'c6', 'unknown']],
+        });
+
+        expect(result.routes.map(r => r.stops)).toEqual([
+            ['depot', 'c0', 'c1', 'c2', 'c3', 'depot'],
+            ['depot', 'c4', 'c5', 'c6', 'c7', 'depot'],
+        ]);
+    });
+
+    test('returns the best solution so far when aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const result = await solveVRP(problem, () => {}, { seed: 1, signal: controller.signal });
+
+        expect(result.status).toBe('cancelled');
+        expect(result.routes.flatMap(r => r.stops.slice(1, -1))).toHaveLength(8);
+    });
+});
+
+describe('multi-depot fleets', () => {
+    const north: LogisticsNode = { id: 'north', type: 'depot', location: { lat: 53.65, lng: 10.0 } };
+    const south: LogisticsNode = { id: 'south', type: 'depot', location: { lat: 53.45, lng: 10.0 } };
+    const northCustomers = [customer('n1', 0.11, 0.01), customer('n2', 0.09, -0.01), customer('n3', 0.1, 0.02)];
+    const southCustomers = [customer('s1', -0.11, 0.01), customer('s2', -0.09, -0.01), customer('s3', -0.1, -0.02)];
+
+    function fleetProblem(vehicles: Vehicle[]): LogisticsProblem {
+        return {
+            id: 'fleet',
+            name: 'Fleet',
+            description: '',
+            nodes: [north, south, ...northCustomers, ...southCustomers],
+            vehicles,
+        };
+    }
+
+    test('charges the per-km rate and the fixed cost only when the vehicle is used', () => {
+        const vehicle = { id: 'v', capacity: 10, startLocation: 'north', costPerKm: 2, fixedCost: 30 };
+        const nodesMap = new Map([north, ...northCustomers].map(n => [n.id, n]));
+
+        const used = evaluateRoute(vehicle, ['north', 'n1', 'north'], nodesMap);
+        const idle = evaluateRoute(vehicle, ['north', 'north'], nodesMap);
+
+        expect(used.cost).toBeCloseTo(2 * used.distance + 30, 8);
+        expect(idle.cost).toBe(0);
+    });
+
+    test('serves each cluster from its own depot', async () => {
+        const problem = fleetProblem([
+            { id: 'vn', capacity: 10, startLocation: 'north' },
+            { id: 'vs', capacity: 10, startLocation: 'south' },
+        ]);
+        const result = await solveVRP(problem, () => {}, { seed: 5 });
+
+        const [fromNorth, fromSouth] = result.routes;
+        expect(fromNorth.stops[0]).toBe('north');
+        expect(fromNorth.stops.slice(1, -1).sort()).toEqual(['n1', 'n2', 'n3']);
+        expect(fromSouth.stops.slice(1, -1).sort()).toEqual(['s1', 's2', 's3']);
+        expect(result.totalCost).toBeLessThanOrEqual(result.baselineCost + 1e-9);
+    });
+
+    test('open routes finish at their end depot in the solver and the baseline', async () => {
+        const problem = fleetProblem([{ id: 'shuttle', capacity: 10, startLocation: 'north', endLocation: 'south' }]);
+        const result = await solveVRP(problem, () => {}, { seed: 5 });
+        const baseline = greedyBaseline(problem);
+
+        for (const route of [result.routes[0], baseline.routes[0]]) {
+            expect(route.stops[0]).toBe('north');
+            expect(route.stops[route.stops.length - 1]).toBe('south');
+            expect(route.stops).toHaveLength(8);
+        }
+        // Sweeping north to south passes each customer once
+        expect(result.routes[0].stops.slice(1, 4).sort()).toEqual(['n1', 'n2', 'n3']);
+    });
+
+    test('leaves costly vehicles idle when a cheaper one can do the work', async () => {
+        const problem = fleetProblem([
+            { id: 'truck', capacity: 10, startLocation: 'north', fixedCost: 500 },
+            { id: 'van', capacity: 10, startLocation: 'north', costPerKm: 1.5 },
+            { id: 'limo', capacity: 10, startLocation: 'north', costPerKm: 20 },
+        ]);
+        const result = await solveVRP(problem, () => {}, { seed: 5 });
+
+        expect(result.routes.map(r => r.stops.length)).toEqual([2, 8, 2]);
+        expect(result.totalCost).toBeCloseTo(1.5 * result.routes[1].totalDistance, 8);
+        expect(result.routes[1].totalCost).toBeCloseTo(result.totalCost, 8);
+    });
+
+    test('the baseline prices routes with the same vehicle costs', () => {
+        const problem = fleetProblem([
+            { id: 'vn', capacity: 3, startLocation: 'north', costPerKm: 2, fixedCost: 10 },
+            { id: 'vs', capacity: 3, startLocation: 'south', costPerKm: 0.5 },
+        ]);
+        const baseline = greedyBaseline(problem);
+
+        const expected = baseline.routes.reduce((sum, r, i) =>
+            sum + r.totalDistance * [2, 0.5][i] + (i === 0 ? 10 : 0), 0);
+        expect(baseline.totalCost).toBeCloseTo(expected, 8);
+        expect(baseline.routes.map(r => r.stops[0])).toEqual(['north', 'south']);
+    });
+
+    test('rejects vehicles at unknown locations', async () => {
+        const problem = fleetProblem([{ id: 'lost', capacity: 10, startLocation: 'north', endLocation: 'west' }]);
+        await expect(solveVRP(problem, () => {})).rejects.toThrow(/lost ends at unknown location west/);
+        expect(greedyBaseline(problem).totalCost).toBe(Infinity);
+    });
+});
+
+describe('pickup and delivery', () => {
+    const pair = (i: number, pickup: [number, number], drop: [number, number], demand: number): LogisticsNode[] => [
+        customer(`p${i}`, pickup[0], pickup[1], { type: 'pickup', demand, pairedWith: `d${i}` }),
+        customer(`d${i}`, drop[0], drop[1], { type: 'delivery', demand, pairedWith: `p${i}` }),
+    ];
+    const nodes = [
+        ...pair(1, [0.02, 0.01], [0.04, 0.03], 4),
+        ...pair(2, [-0.02, 0.01], [-0.04, 0.02], 4),
+        ...pair(3, [0.01, -0.03], [0.03, -0.05], 3),
+        ...pair(4, [-0.01, -0.02], [-0.03, -0.04], 3),
+    ];
+    const nodesMap = new Map([depot, ...nodes].map(n => [n.id, n]));
+    const vehicle = { id: 'v', capacity: 5, startLocation: 'depot' };
+
+    test('load rises at pickups and falls at deliveries', () => {
+        const sequential = evaluateRoute(vehicle, ['depot', 'p1', 'd1', 'p2', 'd2', 'depot'], nodesMap);
+        const stacked = evaluateRoute(vehicle, ['depot', 'p1', 'p2', 'd1', 'd2', 'depot'], nodesMap);
+
+        expect(sequential.load).toBe(8);
+        expect(sequential.feasibility.feasible).toBe(true);
+        expect(stacked.feasibility.overload).toBe(3);
+    });
+
+    test('flags deliveries before their pickup and pairs split across routes', () => {
+        const reversed = evaluateRoute(vehicle, ['depot', 'd1', 'p1', 'depot'], nodesMap);
+        const split = evaluateRoute(vehicle, ['depot', 'p1', 'depot'], nodesMap);
+
+        expect(reversed.feasibility.unpairedStops).toEqual(['d1', 'p1']);
+        expect(split.feasibility.unpairedStops).toEqual(['p1']);
+        expect(routeCost(split)).toBeCloseTo(split.distance + DEFAULT_PENALTIES.precedence, 8);
+    });
+
+    test('solveVRP serves each pair in order on one vehicle', async () => {
+        const result = await solveVRP(problemWith(nodes, [5, 5]), () => {}, { seed: 11 });
+
+        expect(result.unassignedNodes).toEqual([]);
+        for (const route of result.routes) {
+            expect(route.feasibility?.feasible).toBe(true);
+            for (let i = 1; i <= 4; i++) {
+                if (!route.stops.includes(`p${i}`)) continue;
+                expect(route.stops.indexOf(`d${i}`)).toBeGreaterThan(route.stops.indexOf(`p${i}`));
+            }
+        }
+        expect(result.routes.flatMap(r => r.stops.slice(1, -1))).toHaveLength(8);
+    });
+
+    test('the greedy baseline keeps pairs together within capacity', () => {
+        const baseline = greedyBaseline(problemWith(nodes, [5, 5]));
+
+        for (const route of baseline.routes) {
+            expect(route.feasibility?.unpairedStops).toEqual([]);
+            expect(route.feasibility?.overload).toBe(0);
+        }
+        expect(baseline.routes.flatMap(r => r.stops.slice(1, -1)).sort()).toEqual(nodes.map(n => n.id).sort());
+    });
+});
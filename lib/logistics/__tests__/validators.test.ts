@@ -0,0 +1,132 @@
+/**
+ * Logistics Problem Validator Tests
+ */
+import { LogisticsProblem } from '../types';
+import { validateProblem, repairProblem, ProblemIssueCodes } from '../validators';
+import { solveVRP } from '../solver';
+
+const problem: LogisticsProblem = {
+    id: 'test',
+    name: 'Test',
+    description: 'Four stops around Hamburg',
+    nodes: [
+        { id: 'depot', type: 'depot', location: { lat: 53.55, lng: 10.0 } },
+        { id: 'a', type: 'customer', location: { lat: 53.58, lng: 10.0 }, demand: 3, timeWindow: { start: 0, end: 120 } },
+        { id: 'b', type: 'customer', location: { lat: 53.57, lng: 10.05 }, demand: 2 },
+        { id: 'p', type: 'pickup', location: { lat: 53.53, lng: 9.97 }, demand: 2, pairedWith: 'd' },
+        { id: 'd', type: 'delivery', location: { lat: 53.52, lng: 10.04 }, demand: 2, pairedWith: 'p' },
+    ],
+    vehicles: [
+        { id: 'v0', capacity: 6, startLocation: 'depot' },
+        { id: 'v1', capacity: 6, startLocation: 'depot' },
+    ],
+};
+
+const codes = (p: LogisticsProblem) => validateProblem(p).issues.map(i => i.code);
+
+describe('validateProblem', () => {
+    test('accepts a well-formed problem', () => {
+        expect(validateProblem(problem)).toEqual({ valid: true, issues: [] });
+    });
+
+    test('reports structural errors with codes and paths', () => {
+        const broken: LogisticsProblem = {
+            ...problem,
+            nodes: [
+                ...problem.nodes,
+                { id: 'a', type: 'customer', location: { lat: NaN, lng: 10 }, demand: -2 },
+                { id: 'e', type: 'customer', location: { lat: 53.5, lng: 10.1 }, timeWindow: { start: 90, end: 30 } },
+            ],
+            vehicles: [{ id: 'v0', capacity: 0, startLocation: 'nowhere', costPerKm: -1 }],
+        };
+        const result = validateProblem(broken);
+
+        expect(result.valid).toBe(false);
+        expect(codes(broken)).toEqual(expect.arrayContaining([
+            ProblemIssueCodes.DUPLICATE_NODE_ID,
+            ProblemIssueCodes.INVALID_LOCATION,
+            ProblemIssueCodes.INVALID_DEMAND,
+            ProblemIssueCodes.INVALID_TIME_WINDOW,
+            ProblemIssueCodes.INVALID_CAPACITY,
+            ProblemIssueCodes.INVALID_COST,
+            ProblemIssueCodes.UNKNOWN_START_LOCATION,
+        ]));
+        expect(result.issues.find(i => i.code === ProblemIssueCodes.DUPLICATE_NODE_ID)?.path).toBe('nodes[5].id');
+    });
+
+    test('flags broken pickup-and-delivery pairs', () => {
+        const unpaired = { ...problem, nodes: problem.nodes.filter(n => n.id !== 'd') };
+        const mismatched = { ...problem, nodes: problem.nodes.map(n => (n.id === 'd' ? { ...n, demand: 5 } : n)) };
+
+        expect(codes(unpaired)).toContain(ProblemIssueCodes.INVALID_PAIR);
+        expect(validateProblem(unpaired).valid).toBe(false);
+        expect(validateProblem(mismatched).issues).toEqual([
+            expect.objectContaining({ severity: 'warning', code: ProblemIssueCodes.PAIR_DEMAND_MISMATCH }),
+        ]);
+    });
+
+    test('warns about capacity shortfalls and far-away stops without failing', () => {
+        const tight: LogisticsProblem = {
+            ...problem,
+            nodes: [...problem.nodes, { id: 'far', type: 'customer', location: { lat: 48.14, lng: 11.58 }, demand: 4 }],
+            vehicles: [{ id: 'v0', capacity: 5, startLocation: 'depot' }],
+        };
+        const result = validateProblem(tight);
+
+        expect(result.valid).toBe(true);
+        expect(result.issues.map(i => i.code)).toEqual(expect.arrayContaining([
+            ProblemIssueCodes.DEMAND_EXCEEDS_FLEET,
+            ProblemIssueCodes.DISTANT_LOCATION,
+        ]));
+        expect(result.issues.every(i => i.severity === 'warning')).toBe(true);
+    });
+
+    test('requires stops that fit in some vehicle and a depot', () => {
+        const heavy = { ...problem, nodes: problem.nodes.map(n => (n.id === 'b' ? { ...n, demand: 9 } : n)) };
+        const noDepot = { ...problem, nodes: problem.nodes.filter(n => n.type !== 'depot') };
+
+        expect(codes(heavy)).toContain(ProblemIssueCodes.STOP_EXCEEDS_CAPACITY);
+        expect(codes(noDepot)).toContain(ProblemIssueCodes.NO_DEPOT);
+        expect(codes({ ...problem, nodes: [] })).toContain(ProblemIssueCodes.NO_NODES);
+    });
+});
+
+describe('repairProblem', () => {
+    beforeEach(() => jest.spyOn(console, 'log').mockImplementation(() => {}));
+    afterEach(() => jest.restoreAllMocks());
+
+    test('repairs what it can and leaves the input untouched', () => {
+        const broken: LogisticsProblem = {
+            ...problem,
+            nodes: [
+                ...problem.nodes,
+                { id: 'a', type: 'customer', location: { lat: 53.56, lng: 9.95 }, demand: -2 },
+                { id: 'x', type: 'customer', location: { lat: 91, lng: 10 } },
+            ],
+            vehicles: [
+                { id: 'v0', capacity: 0, startLocation: 'nowhere' },
+                { id: 'v0', capacity: 6, startLocation: 'depot', endLocation: 'mars' },
+            ],
+        };
+        const snapshot = JSON.stringify(broken);
+        const { problem: repaired, repairs } = repairProblem(broken);
+
+        expect(JSON.stringify(broken)).toBe(snapshot);
+        expect(validateProblem(repaired).issues.filter(i => i.severity === 'error')).toEqual([]);
+        expect(repaired.nodes.map(n => n.id)).toEqual(['depot', 'a', 'b', 'p', 'd', 'a_2']);
+        expect(repaired.nodes[5].demand).toBe(2);
+        expect(repaired.vehicles.map(v => v.id)).toEqual(['v0', 'v0_2']);
+        expect(repaired.vehicles[0]).toMatchObject({ capacity: 6, startLocation: 'depot' });
+        expect(repaired.vehicles[1].endLocation).toBeUndefined();
+        expect(repairs.length).toBeGreaterThanOrEqual(6);
+    });
+
+    test('adds a vehicle so an empty fleet can be solved', async () => {
+        const { problem: repaired } = repairProblem({ ...problem, vehicles: [] });
+        const solution = await solveVRP(repaired, () => {}, { seed: 7, maxIterations: 300 });
+
+        expect(repaired.vehicles).toHaveLength(1);
+        expect(solution.routes.flatMap(r => r.stops).filter(id => id !== 'depot').sort())
+            .toEqual(['a', 'b', 'd', 'p']);
+    });
+});
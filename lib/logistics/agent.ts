@@ -1,34 +1,27 @@
 import { LogisticsProblem, LogisticsNode, Vehicle } from './types';
+import { City, findPlaceInText, resolvePlace } from './gazetteer';
+import { distance } from './distance';
+import { callLLM } from '../ai/agent-core';
+import { AIProvider } from '../ai/types';
 
 interface AgentOptions {
     apiKey?: string;
-    provider?: 'gemini' | 'openai' | 'anthropic';
+    provider?: AIProvider;
     model?: string;
+    baseUrl?: string; // An OpenAI-compatible local server needs no API key
 }
 
-// City coordinates database
-const CITY_COORDS: Record<string, { lat: number; lng: number }> = {
-    'hamburg': { lat: 53.5511, lng: 9.9937 },
-    'berlin': { lat: 52.5200, lng: 13.4050 },
-    'munich': { lat: 48.1351, lng: 11.5820 },
-    'frankfurt': { lat: 50.1109, lng: 8.6821 },
-    'cologne': { lat: 50.9375, lng: 6.9603 },
-    'düsseldorf': { lat: 51.2277, lng: 6.7735 },
-    'stuttgart': { lat: 48.7758, lng: 9.1829 },
-    'dortmund': { lat: 51.5136, lng: 7.4653 },
-    'essen': { lat: 51.4556, lng: 7.0116 },
-    'leipzig': { lat: 51.3397, lng: 12.3731 },
-    'bremen': { lat: 53.0793, lng: 8.8017 },
-    'dresden': { lat: 51.0504, lng: 13.7373 },
-    'hannover': { lat: 52.3759, lng: 9.7320 },
-    'nuremberg': { lat: 49.4521, lng: 11.0767 },
-    'london': { lat: 51.5074, lng: -0.1278 },
-    'paris': { lat: 48.8566, lng: 2.3522 },
-    'amsterdam': { lat: 52.3676, lng: 4.9041 },
-    'new york': { lat: 40.7128, lng: -74.0060 },
-    'los angeles': { lat: 34.0522, lng: -118.2437 },
-    'chicago': { lat: 41.8781, lng: -87.6298 },
-};
+// The JSON object the model is asked for
+interface GeneratedProblem {
+    name?: string;
+    description?: string;
+    city?: string;
+    nodes: LogisticsNode[];
+    vehicles: Vehicle[];
+}
+
+// Model coordinates further than this from the gazetteer's city centre are moved there
+const CITY_TOLERANCE_KM = 30;
 
 // System prompt for the Logistics Agent
 const LOGISTICS_SYSTEM_PROMPT = `
@@ -38,9 +31,12 @@ Output ONLY a valid JSON object with this exact structure:
 {
   "name": "Short problem name",
   "description": "Brief summary",
+  "city": "Hamburg, Germany",
   "nodes": [
     { "id": "depot_1", "name": "Central Depot", "type": "depot", "location": { "lat": 53.55, "lng": 9.99 } },
-    { "id": "cust_1", "name": "Customer 1", "type": "customer", "location": { "lat": 53.56, "lng": 10.01 }, "demand": 2 }
+    { "id": "cust_1", "name": "Customer 1", "type": "customer", "location": { "lat": 53.56, "lng": 10.01 }, "demand": 2 },
+    { "id": "pick_1", "name": "Supplier A", "type": "pickup", "location": { "lat": 53.53, "lng": 9.95 }, "demand": 3, "pairedWith": "drop_1" },
+    { "id": "drop_1", "name": "Shop 1", "type": "delivery", "location": { "lat": 53.58, "lng": 10.04 }, "demand": 3, "pairedWith": "pick_1" }
   ],
   "vehicles": [
     { "id": "v_1", "capacity": 15, "startLocation": "depot_1", "color": "#00ff88" }
@@ -48,75 +44,182 @@ Output ONLY a valid JSON object with this exact structure:
 }
 
 Rules:
-1. Use real city coordinates for the specified city
+1. Set "city" to the city the request is about with its country, disambiguated where needed (e.g. "Frankfurt (Oder), Germany"), and use its real coordinates
 2. Generate customers with random coordinates spread around the city center (within ~20km radius)
-3. Ensure exactly ONE depot at the city center
+3. Use ONE depot at the city center unless the request names several warehouses or depots; give each vehicle the startLocation of its depot, and an endLocation only if it finishes elsewhere
 4. Use vibrant, distinct hex colors for each vehicle: #00ff88, #00ccff, #ff00cc, #ffcc00, #ff3333, #a855f7
 5. Set realistic capacity (10-25) per vehicle
 6. Set demand (1-5) per customer
 7. If number of stops/locations not specified, default to 20
 8. If number of vehicles/trucks not specified, default to 4
+9. For mixed fleets, set "costPerKm" (default 1) and "fixedCost" (default 0) per vehicle type
+10. Use "customer" nodes for orders shipped from the depot. When goods are collected somewhere and dropped elsewhere (e.g. "collect from 5 suppliers and deliver to 12 shops"), create one "delivery" node per drop-off and one "pickup" node for it at its supplier's location, with the same demand and "pairedWith" pointing at each other
 `;
 
 export async function parseLogisticsRequest(
     query: string,
     options: AgentOptions = {}
 ): Promise<LogisticsProblem> {
-    const { apiKey, provider = 'gemini', model = 'gemini-2.0-flash-exp' } = options;
+    const { apiKey, provider = 'gemini', model, baseUrl } = options;
 
-    if (!apiKey) {
+    if (!apiKey && !baseUrl) {
         console.log("No API key provided, using intelligent mock for:", query);
         return generateMockProblem(query);
     }
 
-    try {
-        const response = await fetch(
-            `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-            {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    contents: [
-                        { role: 'user', parts: [{ text: LOGISTICS_SYSTEM_PROMPT + "\n\nUser request: " + query }] }
-                    ],
-                    generationConfig: {
-                        responseMimeType: "application/json",
-                        temperature: 0.7
-                    }
-                })
-            }
-        );
-
-        if (!response.ok) {
-            throw new Error(`API error: ${response.status}`);
-        }
+    // Provider, JSON and schema errors reach the caller rather than turning into mock data
+    const text = await callLLM("User request: " + query, {
+        provider,
+        apiKey,
+        model,
+        baseUrl,
+        systemPrompt: LOGISTICS_SYSTEM_PROMPT,
+        temperature: 0.7,
+        json: true
+    });
 
-        const data = await response.json();
-        const jsonText = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) {
+        throw new Error("No content returned from AI");
+    }
 
-        if (!jsonText) {
-            throw new Error("No content returned from AI");
-        }
+    const parsed = validateGeneratedProblem(parseJsonObject(text));
+
+    // Resolve the city offline rather than trusting the model's coordinates for it
+    const nodes = parsed.city ? anchorToCity(parsed.nodes, resolvePlace(parsed.city)) : parsed.nodes;
+
+    return {
+        id: crypto.randomUUID(),
+        name: parsed.name || 'AI Generated Problem',
+        description: parsed.description || `Generated by ${provider}`,
+        nodes,
+        vehicles: parsed.vehicles
+    };
+}
 
-        const parsed = JSON.parse(jsonText);
+// Models without a JSON mode may wrap the object in prose or a code fence
+function parseJsonObject(text: string): unknown {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start < 0 || end < start) {
+        throw new Error("AI response contains no JSON object");
+    }
+    try {
+        return JSON.parse(text.slice(start, end + 1));
+    } catch (e) {
+        throw new Error(`AI response is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+    }
+}
+
+/**
+ * Checks the model's JSON against the GeneratedProblem schema (field types
+ * only) and copies out known fields. Every mismatch is reported, by path, in
+ * one error. Whether the problem makes sense is left to validateProblem,
+ * whose issues and repairs are shown before solving.
+ */
+function validateGeneratedProblem(data: unknown): GeneratedProblem {
+    const errors: string[] = [];
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+        typeof value === 'object' && value !== null && !Array.isArray(value);
+    const string = (value: unknown, path: string) => {
+        if (typeof value !== 'string' || !value) errors.push(`${path} must be a non-empty string`);
+        return String(value);
+    };
+    const optionalString = (value: unknown, path: string) => {
+        if (value !== undefined && typeof value !== 'string') errors.push(`${path} must be a string`);
+        return typeof value === 'string' ? value : undefined;
+    };
+    const number = (value: unknown, path: string) => {
+        if (typeof value !== 'number' || Number.isNaN(value)) errors.push(`${path} must be a number`);
+        return value as number;
+    };
+    const optionalNumber = (value: unknown, path: string) =>
+        value === undefined ? undefined : number(value, path);
+    const array = (value: unknown, path: string) => {
+        if (!Array.isArray(value) || value.length === 0) errors.push(`${path} must be a non-empty array`);
+        return Array.isArray(value) ? value : [];
+    };
+    const object = (value: unknown, path: string) => {
+        if (!isObject(value)) errors.push(`${path} must be an object`);
+        return isObject(value) ? value : {};
+    };
 
-        // Validate structure
-        if (!parsed.nodes || !parsed.vehicles || parsed.nodes.length === 0) {
-            throw new Error("Invalid problem structure");
+    const root = object(data, 'response');
+
+    const nodes: LogisticsNode[] = array(root.nodes, 'nodes').map((raw: unknown, i: number) => {
+        const path = `nodes[${i}]`;
+        const n = object(raw, path);
+        if (!['depot', 'customer', 'pickup', 'delivery'].includes(n.type as string)) {
+            errors.push(`${path}.type must be depot, customer, pickup or delivery`);
+        }
+        const location = object(n.location, `${path}.location`);
+        const node: LogisticsNode = {
+            id: string(n.id, `${path}.id`),
+            name: optionalString(n.name, `${path}.name`),
+            type: n.type as LogisticsNode['type'],
+            location: { lat: number(location.lat, `${path}.location.lat`), lng: number(location.lng, `${path}.location.lng`) },
+            demand: optionalNumber(n.demand, `${path}.demand`),
+            pairedWith: optionalString(n.pairedWith, `${path}.pairedWith`)
+        };
+        if (n.timeWindow !== undefined) {
+            const window = object(n.timeWindow, `${path}.timeWindow`);
+            node.timeWindow = { start: number(window.start, `${path}.timeWindow.start`), end: number(window.end, `${path}.timeWindow.end`) };
         }
+        return node;
+    });
 
+    const vehicles: Vehicle[] = array(root.vehicles, 'vehicles').map((raw: unknown, i: number) => {
+        const path = `vehicles[${i}]`;
+        const v = object(raw, path);
         return {
-            id: crypto.randomUUID(),
-            name: parsed.name || 'AI Generated Problem',
-            description: parsed.description || 'Generated by Gemini AI',
-            nodes: parsed.nodes,
-            vehicles: parsed.vehicles
+            id: string(v.id, `${path}.id`),
+            capacity: number(v.capacity, `${path}.capacity`),
+            startLocation: string(v.startLocation, `${path}.startLocation`),
+            endLocation: optionalString(v.endLocation, `${path}.endLocation`),
+            costPerKm: optionalNumber(v.costPerKm, `${path}.costPerKm`),
+            fixedCost: optionalNumber(v.fixedCost, `${path}.fixedCost`),
+            color: optionalString(v.color, `${path}.color`)
         };
+    });
 
-    } catch (e) {
-        console.error("AI Parse failed, falling back to mock:", e);
-        return generateMockProblem(query);
+    const name = optionalString(root.name, 'name');
+    const description = optionalString(root.description, 'description');
+    const city = optionalString(root.city, 'city');
+
+    if (errors.length > 0) {
+        const more = errors.length > 5 ? ` (and ${errors.length - 5} more)` : '';
+        throw new Error(`AI response has an invalid problem structure: ${errors.slice(0, 5).join('; ')}${more}`);
     }
+
+    // Drop optional fields the model left out rather than carrying undefined
+    const compact = <T extends object>(value: T): T =>
+        Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+
+    return {
+        name,
+        description,
+        city,
+        nodes: nodes.map(compact),
+        vehicles: vehicles.map(compact)
+    };
+}
+
+// Shifts generated nodes so their depots are centred on the city, keeping their layout
+function anchorToCity(nodes: LogisticsNode[], city: City): LogisticsNode[] {
+    const placed = nodes.filter(n => Math.abs(n.location.lat) <= 90 && Math.abs(n.location.lng) <= 180);
+    const depots = placed.filter(n => n.type === 'depot');
+    const anchor = depots.length > 0 ? depots : placed;
+    if (anchor.length === 0) return nodes;
+    const center = {
+        lat: anchor.reduce((sum, n) => sum + n.location.lat, 0) / anchor.length,
+        lng: anchor.reduce((sum, n) => sum + n.location.lng, 0) / anchor.length
+    };
+
+    if (distance(center, city) <= CITY_TOLERANCE_KM) return nodes;
+
+    return nodes.map(n => ({
+        ...n,
+        location: { lat: n.location.lat - center.lat + city.lat, lng: n.location.lng - center.lng + city.lng }
+    }));
 }
 
 // Intelligent mock generator that parses the query
@@ -151,17 +254,10 @@ function generateMockProblem(query: string): LogisticsProblem {
         }
     }
 
-    // Detect city
-    let cityCenter = CITY_COORDS['hamburg']; // Default
-    let cityName = 'Hamburg';
-
-    for (const [city, coords] of Object.entries(CITY_COORDS)) {
-        if (lower.includes(city)) {
-            cityCenter = coords;
-            cityName = city.charAt(0).toUpperCase() + city.slice(1);
-            break;
-        }
-    }
+    // Detect city; one that is named but unknown throws. Requests naming no place get the Hamburg demo
+    const city = findPlaceInText(query) ?? resolvePlace('Hamburg');
+    const cityCenter = { lat: city.lat, lng: city.lng };
+    const cityName = city.name;
 
     const nodes: LogisticsNode[] = [];
 
@@ -173,9 +269,8 @@ function generateMockProblem(query: string): LogisticsProblem {
         location: { lat: cityCenter.lat, lng: cityCenter.lng }
     });
 
-    // Generate customers in realistic clusters
-    for (let i = 0; i < numCustomers; i++) {
-        // Create some clustering effect
+    // Scatter around the centre in realistic clusters
+    const randomLocation = () => {
         const cluster = Math.floor(Math.random() * 5);
         const clusterOffset = {
             lat: (cluster % 3 - 1) * 0.05,
@@ -184,16 +279,45 @@ function generateMockProblem(query: string): LogisticsProblem {
 
         const dLat = (Math.random() - 0.5) * 0.15 + clusterOffset.lat;
         const dLng = (Math.random() - 0.5) * 0.3 + clusterOffset.lng;
+        return { lat: cityCenter.lat + dLat, lng: cityCenter.lng + dLng };
+    };
+
+    // "collect from 5 suppliers": every stop becomes a delivery paired with a pickup at one of them
+    const supplierMatch = lower.match(/(?:collect|pick\s*up)\w*\s+(?:from\s+)?(\d+)/i);
+    const suppliers = supplierMatch
+        ? Array.from({ length: Math.min(20, Math.max(1, parseInt(supplierMatch[1]))) }, randomLocation)
+        : [];
 
+    for (let i = 0; i < numCustomers; i++) {
+        const demand = Math.floor(Math.random() * 4) + 1;
+
+        if (suppliers.length === 0) {
+            nodes.push({
+                id: `cust_${i}`,
+                name: `Delivery ${i + 1}`,
+                type: 'customer',
+                location: randomLocation(),
+                demand
+            });
+            continue;
+        }
+
+        const supplier = i % suppliers.length;
+        nodes.push({
+            id: `pick_${i}`,
+            name: `Supplier ${supplier + 1} → Shop ${i + 1}`,
+            type: 'pickup',
+            location: suppliers[supplier],
+            demand,
+            pairedWith: `drop_${i}`
+        });
         nodes.push({
-            id: `cust_${i}`,
-            name: `Delivery ${i + 1}`,
-            type: 'customer',
-            location: {
-                lat: cityCenter.lat + dLat,
-                lng: cityCenter.lng + dLng
-            },
-            demand: Math.floor(Math.random() * 4) + 1
+            id: `drop_${i}`,
+            name: `Shop ${i + 1}`,
+            type: 'delivery',
+            location: randomLocation(),
+            demand,
+            pairedWith: `pick_${i}`
         });
     }
 
@@ -212,7 +336,9 @@ function generateMockProblem(query: string): LogisticsProblem {
     return {
         id: crypto.randomUUID(),
         name: `${cityName} Logistics Optimization`,
-        description: `Optimizing ${numVehicles} vehicle routes for ${numCustomers} delivery stops in ${cityName}`,
+        description: suppliers.length > 0
+            ? `Optimizing ${numVehicles} vehicle routes collecting from ${suppliers.length} suppliers for ${numCustomers} deliveries in ${cityName}`
+            : `Optimizing ${numVehicles} vehicle routes for ${numCustomers} delivery stops in ${cityName}`,
         nodes,
         vehicles
     };
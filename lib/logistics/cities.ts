@@ -0,0 +1,237 @@
+/**
+ * Bundled world cities for offline geocoding: city centres with
+ * approximate city-proper populations. Aliases cover local and
+ * English spellings and common short forms.
+ */
+
+export interface City {
+    name: string;
+    country: string; // ISO 3166-1 alpha-2
+    admin?: string; // State or region
+    adminCode?: string; // Postal abbreviation where one is customary
+    lat: number;
+    lng: number;
+    population: number;
+    aliases?: string[];
+}
+
+export const COUNTRIES: Record<string, string[]> = {
+    AE: ['United Arab Emirates', 'UAE'],
+    AR: ['Argentina'],
+    AT: ['Austria', 'Österreich'],
+    AU: ['Australia'],
+    BE: ['Belgium', 'Belgique', 'België'],
+    BR: ['Brazil', 'Brasil'],
+    CA: ['Canada'],
+    CH: ['Switzerland', 'Schweiz', 'Suisse'],
+    CL: ['Chile'],
+    CN: ['China'],
+    CO: ['Colombia'],
+    CZ: ['Czech Republic', 'Czechia'],
+    DE: ['Germany', 'Deutschland'],
+    DK: ['Denmark', 'Danmark'],
+    EG: ['Egypt'],
+    ES: ['Spain', 'España'],
+    FI: ['Finland', 'Suomi'],
+    FR: ['France'],
+    GB: ['United Kingdom', 'UK', 'Great Britain', 'England', 'Scotland', 'Wales'],
+    GR: ['Greece'],
+    HU: ['Hungary'],
+    IE: ['Ireland'],
+    IN: ['India'],
+    IT: ['Italy', 'Italia'],
+    JP: ['Japan'],
+    KE: ['Kenya'],
+    KR: ['South Korea', 'Korea'],
+    LU: ['Luxembourg'],
+    MX: ['Mexico', 'México'],
+    NG: ['Nigeria'],
+    NL: ['Netherlands', 'Holland', 'Nederland'],
+    NO: ['Norway', 'Norge'],
+    NZ: ['New Zealand'],
+    PL: ['Poland', 'Polska'],
+    PT: ['Portugal'],
+    RU: ['Russia'],
+    SE: ['Sweden', 'Sverige'],
+    SG: ['Singapore'],
+    TH: ['Thailand'],
+    TR: ['Turkey', 'Türkiye'],
+    US: ['United States', 'USA', 'US', 'America'],
+    VE: ['Venezuela'],
+    ZA: ['South Africa'],
+};
+
+export const CITIES: City[] = [
+    // Germany
+    { name: 'Berlin', country: 'DE', admin: 'Berlin', lat: 52.5200, lng: 13.4050, population: 3677000 },
+    { name: 'Hamburg', country: 'DE', admin: 'Hamburg', lat: 53.5511, lng: 9.9937, population: 1853000 },
+    { name: 'Munich', country: 'DE', admin: 'Bavaria', lat: 48.1351, lng: 11.5820, population: 1488000, aliases: ['München', 'Muenchen'] },
+    { name: 'Cologne', country: 'DE', admin: 'North Rhine-Westphalia', lat: 50.9375, lng: 6.9603, population: 1084000, aliases: ['Köln', 'Koeln'] },
+    { name: 'Frankfurt am Main', country: 'DE', admin: 'Hesse', lat: 50.1109, lng: 8.6821, population: 773000, aliases: ['Frankfurt', 'Frankfurt/Main', 'Frankfurt a.M.', 'Frankfurt Main'] },
+    { name: 'Frankfurt (Oder)', country: 'DE', admin: 'Brandenburg', lat: 52.3471, lng: 14.5506, population: 57000, aliases: ['Frankfurt', 'Frankfurt an der Oder', 'Frankfurt/Oder', 'Frankfurt Oder'] },
+    { name: 'Stuttgart', country: 'DE', admin: 'Baden-Württemberg', lat: 48.7758, lng: 9.1829, population: 632000 },
+    { name: 'Düsseldorf', country: 'DE', admin: 'North Rhine-Westphalia', lat: 51.2277, lng: 6.7735, population: 620000, aliases: ['Dusseldorf', 'Duesseldorf'] },
+    { name: 'Leipzig', country: 'DE', admin: 'Saxony', lat: 51.3397, lng: 12.3731, population: 616000 },
+    { name: 'Dortmund', country: 'DE', admin: 'North Rhine-Westphalia', lat: 51.5136, lng: 7.4653, population: 593000 },
+    { name: 'Essen', country: 'DE', admin: 'North Rhine-Westphalia', lat: 51.4556, lng: 7.0116, population: 584000 },
+    { name: 'Bremen', country: 'DE', admin: 'Bremen', lat: 53.0793, lng: 8.8017, population: 577000 },
+    { name: 'Dresden', country: 'DE', admin: 'Saxony', lat: 51.0504, lng: 13.7373, population: 563000 },
+    { name: 'Hanover', country: 'DE', admin: 'Lower Saxony', lat: 52.3759, lng: 9.7320, population: 545000, aliases: ['Hannover'] },
+    { name: 'Nuremberg', country: 'DE', admin: 'Bavaria', lat: 49.4521, lng: 11.0767, population: 523000, aliases: ['Nürnberg', 'Nuernberg'] },
+    { name: 'Duisburg', country: 'DE', admin: 'North Rhine-Westphalia', lat: 51.4344, lng: 6.7623, population: 502000 },
+    { name: 'Bochum', country: 'DE', admin: 'North Rhine-Westphalia', lat: 51.4818, lng: 7.2162, population: 365000 },
+    { name: 'Wuppertal', country: 'DE', admin: 'North Rhine-Westphalia', lat: 51.2562, lng: 7.1508, population: 358000 },
+    { name: 'Bielefeld', country: 'DE', admin: 'North Rhine-Westphalia', lat: 52.0302, lng: 8.5325, population: 334000 },
+    { name: 'Bonn', country: 'DE', admin: 'North Rhine-Westphalia', lat: 50.7374, lng: 7.0982, population: 331000 },
+    { name: 'Münster', country: 'DE', admin: 'North Rhine-Westphalia', lat: 51.9607, lng: 7.6261, population: 317000, aliases: ['Munster', 'Muenster'] },
+    { name: 'Mannheim', country: 'DE', admin: 'Baden-Württemberg', lat: 49.4875, lng: 8.4660, population: 311000 },
+    { name: 'Karlsruhe', country: 'DE', admin: 'Baden-Württemberg', lat: 49.0069, lng: 8.4037, population: 308000 },
+    { name: 'Augsburg', country: 'DE', admin: 'Bavaria', lat: 48.3705, lng: 10.8978, population: 296000 },
+    { name: 'Wiesbaden', country: 'DE', admin: 'Hesse', lat: 50.0782, lng: 8.2398, population: 278000 },
+    { name: 'Kiel', country: 'DE', admin: 'Schleswig-Holstein', lat: 54.3233, lng: 10.1228, population: 247000 },
+    { name: 'Aachen', country: 'DE', admin: 'North Rhine-Westphalia', lat: 50.7753, lng: 6.0839, population: 249000 },
+    { name: 'Halle (Saale)', country: 'DE', admin: 'Saxony-Anhalt', lat: 51.4969, lng: 11.9688, population: 238000, aliases: ['Halle', 'Halle an der Saale', 'Halle Saale'] },
+    { name: 'Halle (Westfalen)', country: 'DE', admin: 'North Rhine-Westphalia', lat: 52.0606, lng: 8.3597, population: 22000, aliases: ['Halle', 'Halle Westfalen', 'Halle Westf.'] },
+    { name: 'Magdeburg', country: 'DE', admin: 'Saxony-Anhalt', lat: 52.1205, lng: 11.6276, population: 237000 },
+    { name: 'Freiburg im Breisgau', country: 'DE', admin: 'Baden-Württemberg', lat: 47.9990, lng: 7.8421, population: 231000, aliases: ['Freiburg'] },
+    { name: 'Lübeck', country: 'DE', admin: 'Schleswig-Holstein', lat: 53.8655, lng: 10.6866, population: 216000, aliases: ['Lubeck', 'Luebeck'] },
+    { name: 'Rostock', country: 'DE', admin: 'Mecklenburg-Vorpommern', lat: 54.0924, lng: 12.0991, population: 209000 },
+    { name: 'Mainz', country: 'DE', admin: 'Rhineland-Palatinate', lat: 49.9929, lng: 8.2473, population: 218000 },
+    { name: 'Kassel', country: 'DE', admin: 'Hesse', lat: 51.3127, lng: 9.4797, population: 201000 },
+    { name: 'Erfurt', country: 'DE', admin: 'Thuringia', lat: 50.9848, lng: 11.0299, population: 214000 },
+    { name: 'Saarbrücken', country: 'DE', admin: 'Saarland', lat: 49.2402, lng: 6.9969, population: 180000, aliases: ['Saarbrucken', 'Saarbruecken'] },
+    { name: 'Potsdam', country: 'DE', admin: 'Brandenburg', lat: 52.3906, lng: 13.0645, population: 183000 },
+    { name: 'Regensburg', country: 'DE', admin: 'Bavaria', lat: 49.0134, lng: 12.1016, population: 153000 },
+    { name: 'Würzburg', country: 'DE', admin: 'Bavaria', lat: 49.7913, lng: 9.9534, population: 127000, aliases: ['Wurzburg', 'Wuerzburg'] },
+    { name: 'Heidelberg', country: 'DE', admin: 'Baden-Württemberg', lat: 49.3988, lng: 8.6724, population: 159000 },
+    { name: 'Offenbach am Main', country: 'DE', admin: 'Hesse', lat: 50.0956, lng: 8.7761, population: 131000, aliases: ['Offenbach'] },
+    { name: 'Neustadt an der Weinstraße', country: 'DE', admin: 'Rhineland-Palatinate', lat: 49.3539, lng: 8.1350, population: 53000, aliases: ['Neustadt', 'Neustadt an der Weinstrasse'] },
+    { name: 'Brandenburg an der Havel', country: 'DE', admin: 'Brandenburg', lat: 52.4125, lng: 12.5316, population: 73000, aliases: ['Brandenburg'] },
+
+    // Rest of Europe
+    { name: 'London', country: 'GB', admin: 'England', lat: 51.5074, lng: -0.1278, population: 8982000 },
+    { name: 'Birmingham', country: 'GB', admin: 'England', lat: 52.4862, lng: -1.8904, population: 1145000 },
+    { name: 'Manchester', country: 'GB', admin: 'England', lat: 53.4808, lng: -2.2426, population: 553000 },
+    { name: 'Glasgow', country: 'GB', admin: 'Scotland', lat: 55.8642, lng: -4.2518, population: 635000 },
+    { name: 'Edinburgh', country: 'GB', admin: 'Scotland', lat: 55.9533, lng: -3.1883, population: 527000 },
+    { name: 'Liverpool', country: 'GB', admin: 'England', lat: 53.4084, lng: -2.9916, population: 498000 },
+    { name: 'Bristol', country: 'GB', admin: 'England', lat: 51.4545, lng: -2.5879, population: 467000 },
+    { name: 'Leeds', country: 'GB', admin: 'England', lat: 53.8008, lng: -1.5491, population: 793000 },
+    { name: 'Cambridge', country: 'GB', admin: 'England', lat: 52.2053, lng: 0.1218, population: 145000 },
+    { name: 'Dublin', country: 'IE', lat: 53.3498, lng: -6.2603, population: 592000 },
+    { name: 'Paris', country: 'FR', admin: 'Île-de-France', lat: 48.8566, lng: 2.3522, population: 2161000 },
+    { name: 'Marseille', country: 'FR', admin: "Provence-Alpes-Côte d'Azur", lat: 43.2965, lng: 5.3698, population: 870000, aliases: ['Marseilles'] },
+    { name: 'Lyon', country: 'FR', admin: 'Auvergne-Rhône-Alpes', lat: 45.7640, lng: 4.8357, population: 516000, aliases: ['Lyons'] },
+    { name: 'Toulouse', country: 'FR', admin: 'Occitanie', lat: 43.6047, lng: 1.4442, population: 479000 },
+    { name: 'Nice', country: 'FR', admin: "Provence-Alpes-Côte d'Azur", lat: 43.7102, lng: 7.2620, population: 342000 },
+    { name: 'Strasbourg', country: 'FR', admin: 'Grand Est', lat: 48.5734, lng: 7.7521, population: 284000 },
+    { name: 'Bordeaux', country: 'FR', admin: 'Nouvelle-Aquitaine', lat: 44.8378, lng: -0.5792, population: 257000 },
+    { name: 'Amsterdam', country: 'NL', admin: 'North Holland', lat: 52.3676, lng: 4.9041, population: 873000 },
+    { name: 'Rotterdam', country: 'NL', admin: 'South Holland', lat: 51.9244, lng: 4.4777, population: 651000 },
+    { name: 'The Hague', country: 'NL', admin: 'South Holland', lat: 52.0705, lng: 4.3007, population: 545000, aliases: ['Den Haag', "'s-Gravenhage"] },
+    { name: 'Utrecht', country: 'NL', admin: 'Utrecht', lat: 52.0907, lng: 5.1214, population: 357000 },
+    { name: 'Brussels', country: 'BE', lat: 50.8503, lng: 4.3517, population: 1209000, aliases: ['Bruxelles', 'Brussel'] },
+    { name: 'Antwerp', country: 'BE', admin: 'Flanders', lat: 51.2194, lng: 4.4025, population: 530000, aliases: ['Antwerpen', 'Anvers'] },
+    { name: 'Luxembourg', country: 'LU', lat: 49.6116, lng: 6.1319, population: 128000 },
+    { name: 'Vienna', country: 'AT', lat: 48.2082, lng: 16.3738, population: 1920000, aliases: ['Wien'] },
+    { name: 'Graz', country: 'AT', admin: 'Styria', lat: 47.0707, lng: 15.4395, population: 291000 },
+    { name: 'Salzburg', country: 'AT', admin: 'Salzburg', lat: 47.8095, lng: 13.0550, population: 155000 },
+    { name: 'Zurich', country: 'CH', admin: 'Zurich', lat: 47.3769, lng: 8.5417, population: 421000, aliases: ['Zürich', 'Zuerich'] },
+    { name: 'Geneva', country: 'CH', admin: 'Geneva', lat: 46.2044, lng: 6.1432, population: 203000, aliases: ['Genève', 'Genf'] },
+    { name: 'Basel', country: 'CH', admin: 'Basel-Stadt', lat: 47.5596, lng: 7.5886, population: 178000, aliases: ['Bâle'] },
+    { name: 'Bern', country: 'CH', admin: 'Bern', lat: 46.9480, lng: 7.4474, population: 134000, aliases: ['Berne'] },
+    { name: 'Copenhagen', country: 'DK', lat: 55.6761, lng: 12.5683, population: 644000, aliases: ['København', 'Kobenhavn'] },
+    { name: 'Stockholm', country: 'SE', lat: 59.3293, lng: 18.0686, population: 975000 },
+    { name: 'Gothenburg', country: 'SE', lat: 57.7089, lng: 11.9746, population: 583000, aliases: ['Göteborg', 'Goteborg'] },
+    { name: 'Oslo', country: 'NO', lat: 59.9139, lng: 10.7522, population: 697000 },
+    { name: 'Helsinki', country: 'FI', lat: 60.1699, lng: 24.9384, population: 656000, aliases: ['Helsingfors'] },
+    { name: 'Warsaw', country: 'PL', lat: 52.2297, lng: 21.0122, population: 1794000, aliases: ['Warszawa'] },
+    { name: 'Kraków', country: 'PL', lat: 50.0647, lng: 19.9450, population: 780000, aliases: ['Krakow', 'Cracow'] },
+    { name: 'Wrocław', country: 'PL', lat: 51.1079, lng: 17.0385, population: 641000, aliases: ['Wroclaw', 'Breslau'] },
+    { name: 'Gdańsk', country: 'PL', lat: 54.3520, lng: 18.6466, population: 470000, aliases: ['Gdansk', 'Danzig'] },
+    { name: 'Szczecin', country: 'PL', lat: 53.4285, lng: 14.5528, population: 396000, aliases: ['Stettin'] },
+    { name: 'Słubice', country: 'PL', lat: 52.3503, lng: 14.5606, population: 16000, aliases: ['Slubice'] },
+    { name: 'Prague', country: 'CZ', lat: 50.0755, lng: 14.4378, population: 1309000, aliases: ['Praha', 'Prag'] },
+    { name: 'Budapest', country: 'HU', lat: 47.4979, lng: 19.0402, population: 1752000 },
+    { name: 'Madrid', country: 'ES', admin: 'Community of Madrid', lat: 40.4168, lng: -3.7038, population: 3223000 },
+    { name: 'Barcelona', country: 'ES', admin: 'Catalonia', lat: 41.3851, lng: 2.1734, population: 1620000 },
+    { name: 'Valencia', country: 'ES', admin: 'Valencian Community', lat: 39.4699, lng: -0.3763, population: 792000, aliases: ['València'] },
+    { name: 'Seville', country: 'ES', admin: 'Andalusia', lat: 37.3891, lng: -5.9845, population: 684000, aliases: ['Sevilla'] },
+    { name: 'Córdoba', country: 'ES', admin: 'Andalusia', lat: 37.8882, lng: -4.7794, population: 326000, aliases: ['Cordoba', 'Cordova'] },
+    { name: 'Santiago de Compostela', country: 'ES', admin: 'Galicia', lat: 42.8782, lng: -8.5448, population: 98000, aliases: ['Santiago'] },
+    { name: 'Lisbon', country: 'PT', lat: 38.7223, lng: -9.1393, population: 545000, aliases: ['Lisboa'] },
+    { name: 'Porto', country: 'PT', lat: 41.1579, lng: -8.6291, population: 232000, aliases: ['Oporto'] },
+    { name: 'Rome', country: 'IT', admin: 'Lazio', lat: 41.9028, lng: 12.4964, population: 2873000, aliases: ['Roma'] },
+    { name: 'Milan', country: 'IT', admin: 'Lombardy', lat: 45.4642, lng: 9.1900, population: 1352000, aliases: ['Milano'] },
+    { name: 'Naples', country: 'IT', admin: 'Campania', lat: 40.8518, lng: 14.2681, population: 959000, aliases: ['Napoli'] },
+    { name: 'Turin', country: 'IT', admin: 'Piedmont', lat: 45.0703, lng: 7.6869, population: 848000, aliases: ['Torino'] },
+    { name: 'Athens', country: 'GR', lat: 37.9838, lng: 23.7275, population: 664000, aliases: ['Athina'] },
+    { name: 'Istanbul', country: 'TR', lat: 41.0082, lng: 28.9784, population: 15460000 },
+    { name: 'Moscow', country: 'RU', lat: 55.7558, lng: 37.6173, population: 12506000, aliases: ['Moskva'] },
+    { name: 'Saint Petersburg', country: 'RU', lat: 59.9311, lng: 30.3609, population: 5384000, aliases: ['St. Petersburg', 'St Petersburg'] },
+
+    // North America
+    { name: 'New York', country: 'US', admin: 'New York', adminCode: 'NY', lat: 40.7128, lng: -74.0060, population: 8336000, aliases: ['New York City', 'NYC'] },
+    { name: 'Los Angeles', country: 'US', admin: 'California', adminCode: 'CA', lat: 34.0522, lng: -118.2437, population: 3899000, aliases: ['LA'] },
+    { name: 'Chicago', country: 'US', admin: 'Illinois', adminCode: 'IL', lat: 41.8781, lng: -87.6298, population: 2746000 },
+    { name: 'Houston', country: 'US', admin: 'Texas', adminCode: 'TX', lat: 29.7604, lng: -95.3698, population: 2304000 },
+    { name: 'Phoenix', country: 'US', admin: 'Arizona', adminCode: 'AZ', lat: 33.4484, lng: -112.0740, population: 1608000 },
+    { name: 'Philadelphia', country: 'US', admin: 'Pennsylvania', adminCode: 'PA', lat: 39.9526, lng: -75.1652, population: 1603000 },
+    { name: 'San Antonio', country: 'US', admin: 'Texas', adminCode: 'TX', lat: 29.4241, lng: -98.4936, population: 1434000 },
+    { name: 'San Diego', country: 'US', admin: 'California', adminCode: 'CA', lat: 32.7157, lng: -117.1611, population: 1386000 },
+    { name: 'Dallas', country: 'US', admin: 'Texas', adminCode: 'TX', lat: 32.7767, lng: -96.7970, population: 1304000 },
+    { name: 'San Francisco', country: 'US', admin: 'California', adminCode: 'CA', lat: 37.7749, lng: -122.4194, population: 873000, aliases: ['SF'] },
+    { name: 'Seattle', country: 'US', admin: 'Washington', adminCode: 'WA', lat: 47.6062, lng: -122.3321, population: 737000 },
+    { name: 'Denver', country: 'US', admin: 'Colorado', adminCode: 'CO', lat: 39.7392, lng: -104.9903, population: 715000 },
+    { name: 'Washington', country: 'US', admin: 'District of Columbia', adminCode: 'DC', lat: 38.9072, lng: -77.0369, population: 689000, aliases: ['Washington DC', 'Washington D.C.'] },
+    { name: 'Boston', country: 'US', admin: 'Massachusetts', adminCode: 'MA', lat: 42.3601, lng: -71.0589, population: 675000 },
+    { name: 'Atlanta', country: 'US', admin: 'Georgia', adminCode: 'GA', lat: 33.7490, lng: -84.3880, population: 498000 },
+    { name: 'Miami', country: 'US', admin: 'Florida', adminCode: 'FL', lat: 25.7617, lng: -80.1918, population: 442000 },
+    { name: 'Portland', country: 'US', admin: 'Oregon', adminCode: 'OR', lat: 45.5152, lng: -122.6784, population: 652000 },
+    { name: 'Portland', country: 'US', admin: 'Maine', adminCode: 'ME', lat: 43.6591, lng: -70.2568, population: 68000 },
+    { name: 'Springfield', country: 'US', admin: 'Missouri', adminCode: 'MO', lat: 37.2090, lng: -93.2923, population: 169000 },
+    { name: 'Springfield', country: 'US', admin: 'Massachusetts', adminCode: 'MA', lat: 42.1015, lng: -72.5898, population: 155000 },
+    { name: 'Springfield', country: 'US', admin: 'Illinois', adminCode: 'IL', lat: 39.7817, lng: -89.6501, population: 114000 },
+    { name: 'Birmingham', country: 'US', admin: 'Alabama', adminCode: 'AL', lat: 33.5186, lng: -86.8104, population: 200000 },
+    { name: 'Cambridge', country: 'US', admin: 'Massachusetts', adminCode: 'MA', lat: 42.3736, lng: -71.1097, population: 118000 },
+    { name: 'Paris', country: 'US', admin: 'Texas', adminCode: 'TX', lat: 33.6609, lng: -95.5555, population: 25000 },
+    { name: 'Toronto', country: 'CA', admin: 'Ontario', adminCode: 'ON', lat: 43.6532, lng: -79.3832, population: 2794000 },
+    { name: 'Montreal', country: 'CA', admin: 'Quebec', adminCode: 'QC', lat: 45.5017, lng: -73.5673, population: 1762000, aliases: ['Montréal'] },
+    { name: 'Vancouver', country: 'CA', admin: 'British Columbia', adminCode: 'BC', lat: 49.2827, lng: -123.1207, population: 662000 },
+    { name: 'London', country: 'CA', admin: 'Ontario', adminCode: 'ON', lat: 42.9849, lng: -81.2453, population: 422000 },
+    { name: 'Mexico City', country: 'MX', lat: 19.4326, lng: -99.1332, population: 9209000, aliases: ['Ciudad de México', 'CDMX'] },
+
+    // South America
+    { name: 'São Paulo', country: 'BR', lat: -23.5505, lng: -46.6333, population: 12325000, aliases: ['Sao Paulo'] },
+    { name: 'Rio de Janeiro', country: 'BR', lat: -22.9068, lng: -43.1729, population: 6748000, aliases: ['Rio'] },
+    { name: 'Buenos Aires', country: 'AR', lat: -34.6037, lng: -58.3816, population: 3076000 },
+    { name: 'Córdoba', country: 'AR', lat: -31.4201, lng: -64.1888, population: 1391000, aliases: ['Cordoba'] },
+    { name: 'Santiago', country: 'CL', lat: -33.4489, lng: -70.6693, population: 5614000, aliases: ['Santiago de Chile'] },
+    { name: 'Bogotá', country: 'CO', lat: 4.7110, lng: -74.0721, population: 7181000, aliases: ['Bogota'] },
+    { name: 'Valencia', country: 'VE', lat: 10.1620, lng: -68.0077, population: 717000 },
+
+    // Asia, Africa and Oceania
+    { name: 'Tokyo', country: 'JP', lat: 35.6762, lng: 139.6503, population: 13960000 },
+    { name: 'Osaka', country: 'JP', lat: 34.6937, lng: 135.5023, population: 2752000 },
+    { name: 'Seoul', country: 'KR', lat: 37.5665, lng: 126.9780, population: 9776000 },
+    { name: 'Beijing', country: 'CN', lat: 39.9042, lng: 116.4074, population: 21540000, aliases: ['Peking'] },
+    { name: 'Shanghai', country: 'CN', lat: 31.2304, lng: 121.4737, population: 24870000 },
+    { name: 'Shenzhen', country: 'CN', lat: 22.5431, lng: 114.0579, population: 17560000 },
+    { name: 'Hong Kong', country: 'CN', lat: 22.3193, lng: 114.1694, population: 7482000 },
+    { name: 'Singapore', country: 'SG', lat: 1.3521, lng: 103.8198, population: 5686000 },
+    { name: 'Bangkok', country: 'TH', lat: 13.7563, lng: 100.5018, population: 10539000 },
+    { name: 'Mumbai', country: 'IN', lat: 19.0760, lng: 72.8777, population: 12442000, aliases: ['Bombay'] },
+    { name: 'Delhi', country: 'IN', lat: 28.7041, lng: 77.1025, population: 11034000, aliases: ['New Delhi'] },
+    { name: 'Bengaluru', country: 'IN', lat: 12.9716, lng: 77.5946, population: 8443000, aliases: ['Bangalore'] },
+    { name: 'Dubai', country: 'AE', lat: 25.2048, lng: 55.2708, population: 3331000 },
+    { name: 'Cairo', country: 'EG', lat: 30.0444, lng: 31.2357, population: 9540000 },
+    { name: 'Lagos', country: 'NG', lat: 6.5244, lng: 3.3792, population: 8048000 },
+    { name: 'Nairobi', country: 'KE', lat: -1.2921, lng: 36.8219, population: 4397000 },
+    { name: 'Johannesburg', country: 'ZA', lat: -26.2041, lng: 28.0473, population: 5635000 },
+    { name: 'Cape Town', country: 'ZA', lat: -33.9249, lng: 18.4241, population: 4618000 },
+    { name: 'Sydney', country: 'AU', admin: 'New South Wales', adminCode: 'NSW', lat: -33.8688, lng: 151.2093, population: 5312000 },
+    { name: 'Melbourne', country: 'AU', admin: 'Victoria', adminCode: 'VIC', lat: -37.8136, lng: 144.9631, population: 5078000 },
+    { name: 'Perth', country: 'AU', admin: 'Western Australia', adminCode: 'WA', lat: -31.9505, lng: 115.8605, population: 2125000 },
+    { name: 'Perth', country: 'GB', admin: 'Scotland', lat: 56.3950, lng: -3.4308, population: 47000 },
+    { name: 'Auckland', country: 'NZ', lat: -36.8485, lng: 174.7633, population: 1657000 },
+];
@@ -0,0 +1,176 @@
+import { GeoLocation, LogisticsProblem, TravelModel } from './types';
+
+// Haversine distance in kilometers
+export function distance(a: GeoLocation, b: GeoLocation): number {
+    const R = 6371;
+    const dLat = (b.lat - a.lat) * (Math.PI / 180);
+    const dLon = (b.lng - a.lng) * (Math.PI / 180);
+    const lat1 = a.lat * (Math.PI / 180);
+    const lat2 = b.lat * (Math.PI / 180);
+
+    const x = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+        Math.sin(dLon / 2) * Math.sin(dLon / 2) * Math.cos(lat1) * Math.cos(lat2);
+    const c = 2 * Math.atan2(Math.sqrt(x), Math.sqrt(1 - x));
+    return R * c;
+}
+
+// Travel time model for time windows and maxTime when no durations are given
+export const AVERAGE_SPEED_KMH = 40;
+
+// North-south plus east-west legs, the east-west one at the mean latitude
+export function manhattanDistance(a: GeoLocation, b: GeoLocation): number {
+    const midLat = (a.lat + b.lat) / 2;
+    return distance(a, { lat: b.lat, lng: a.lng }) + distance({ lat: midLat, lng: a.lng }, { lat: midLat, lng: b.lng });
+}
+
+/** Precomputed travel between every pair of nodes in a problem */
+export interface DistanceMatrix {
+    distance: (from: string, to: string) => number; // km
+    duration: (from: string, to: string) => number; // Minutes
+}
+
+/**
+ * Builds the matrix for problem.travel (haversine by default) once, so the
+ * solver looks legs up instead of recomputing them. Unknown node IDs fall
+ * back to zero, matching how routes skip unknown stops.
+ */
+export function createDistanceMatrix(problem: LogisticsProblem): DistanceMatrix {
+    const model: TravelModel = problem.travel ?? { kind: 'haversine' };
+    const ids = problem.nodes.map(n => n.id);
+    const index = new Map(ids.map((id, i) => [id, i]));
+    const n = ids.length;
+    const distances = new Float64Array(n * n);
+    const durations = new Float64Array(n * n);
+
+    if (model.kind === 'matrix') {
+        const source = new Map(model.ids.map((id, i) => [id, i]));
+        for (let i = 0; i < n; i++) {
+            for (let j = 0; j < n; j++) {
+                if (i === j) continue;
+                const a = source.get(ids[i]);
+                const b = source.get(ids[j]);
+                if (a === undefined || b === undefined) {
+                    throw new Error(`Distance matrix has no entry for ${a === undefined ? ids[i] : ids[j]}`);
+                }
+                distances[i * n + j] = model.distances[a][b];
+                durations[i * n + j] = model.durations
+                    ? model.durations[a][b]
+                    : (model.distances[a][b] / (model.speedKmh ?? AVERAGE_SPEED_KMH)) * 60;
+            }
+        }
+    } else {
+        const metric = model.kind === 'road' && model.metric !== 'haversine' ? manhattanDistance : distance;
+        const factor = model.kind === 'road' ? model.factor ?? 1 : 1;
+        const speed = model.speedKmh ?? AVERAGE_SPEED_KMH;
+        for (let i = 0; i < n; i++) {
+            for (let j = 0; j < n; j++) {
+                if (i === j) continue;
+                const d = metric(problem.nodes[i].location, problem.nodes[j].location) * factor;
+                distances[i * n + j] = d;
+                durations[i * n + j] = (d / speed) * 60;
+            }
+        }
+    }
+
+    const lookup = (values: Float64Array) => (from: string, to: string) => {
+        const a = index.get(from);
+        const b = index.get(to);
+        return a === undefined || b === undefined ? 0 : values[a * n + b];
+    };
+
+    return { distance: lookup(distances), duration: lookup(durations) };
+}
+
+// Non-negative finite numbers only; travel can be asymmetric. An empty cell
+// would convert to 0 and make the leg free, so it is reported as missing
+function checkEntry(value: unknown, what: string): number {
+    if (value === undefined || value === null || (typeof value === 'string' && value.trim() === '')) {
+        throw new Error(`Missing ${what} in distance matrix`);
+    }
+    const number = typeof value === 'number' || typeof value === 'string' ? Number(value) : NaN;
+    if (!Number.isFinite(number) || number < 0) {
+        throw new Error(`Invalid ${what} in distance matrix: ${value}`);
+    }
+    return number;
+}
+
+function checkSquare(rows: unknown, size: number, what: string): number[][] {
+    if (!Array.isArray(rows) || rows.length !== size || rows.some(row => !Array.isArray(row) || row.length !== size)) {
+        throw new Error(`Distance matrix ${what} must be a ${size}×${size} array`);
+    }
+    return rows.map(row => row.map((value: unknown) => checkEntry(value, what)));
+}
+
+/**
+ * Reads a user-supplied matrix file.
+ * JSON: { "ids": [...], "distances": [[km]], "durations"?: [[min]] }.
+ * CSV: one leg per line with a header of from,to,distance and optionally
+ * duration; a leg given in one direction only is used both ways.
+ */
+export function parseDistanceMatrix(text: string, format: 'csv' | 'json'): Extract<TravelModel, { kind: 'matrix' }> {
+    if (format === 'json') {
+        let data: { ids?: unknown; distances?: unknown; durations?: unknown };
+        try {
+            data = JSON.parse(text);
+        } catch {
+            throw new Error("Distance matrix is not valid JSON");
+        }
+        if (!Array.isArray(data.ids) || data.ids.some(id => typeof id !== 'string')) {
+            throw new Error("Distance matrix needs an \"ids\" array of node IDs");
+        }
+        const ids = data.ids as string[];
+        return {
+            kind: 'matrix',
+            ids,
+            distances: checkSquare(data.distances, ids.length, 'distances'),
+            durations: data.durations === undefined ? undefined : checkSquare(data.durations, ids.length, 'durations'),
+        };
+    }
+
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+    const header = (lines.shift() ?? '').split(',').map(h => h.trim().toLowerCase());
+    const column = (name: string) => header.indexOf(name);
+    if (column('from') < 0 || column('to') < 0 || column('distance') < 0) {
+        throw new Error("Distance matrix CSV needs from, to and distance columns");
+    }
+    const hasDuration = column('duration') >= 0;
+
+    const legs = lines.map((line, i) => {
+        const cells = line.split(',').map(c => c.trim());
+        if (cells.length < header.length) {
+            throw new Error(`Distance matrix CSV line ${i + 2} has ${cells.length} of ${header.length} columns`);
+        }
+        return {
+            from: cells[column('from')],
+            to: cells[column('to')],
+            distance: checkEntry(cells[column('distance')], 'distance'),
+            duration: hasDuration ? checkEntry(cells[column('duration')], 'duration') : undefined,
+        };
+    });
+
+    const ids = [...new Set(legs.flatMap(leg => [leg.from, leg.to]))];
+    const index = new Map(ids.map((id, i) => [id, i]));
+    const square = () => ids.map((_, i) => ids.map((__, j) => (i === j ? 0 : NaN)));
+    const distances = square();
+    const durations = hasDuration ? square() : undefined;
+
+    for (const leg of legs) {
+        const a = index.get(leg.from)!;
+        const b = index.get(leg.to)!;
+        distances[a][b] = leg.distance;
+        if (durations) durations[a][b] = leg.duration!;
+    }
+
+    for (let a = 0; a < ids.length; a++) {
+        for (let b = 0; b < ids.length; b++) {
+            if (!Number.isNaN(distances[a][b])) continue;
+            if (Number.isNaN(distances[b][a])) {
+                throw new Error(`Distance matrix CSV has no leg between ${ids[a]} and ${ids[b]}`);
+            }
+            distances[a][b] = distances[b][a];
+            if (durations) durations[a][b] = durations[b][a];
+        }
+    }
+
+    return { kind: 'matrix', ids, distances, durations };
+}
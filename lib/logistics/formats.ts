@@ -0,0 +1,649 @@
+import { GeoLocation, LogisticsNode, LogisticsProblem, LogisticsSolution, Route, Vehicle } from './types';
+import { buildRoute, isStop } from './solver';
+import { createDistanceMatrix } from './distance';
+
+const VEHICLE_COLORS = ['#00ff88', '#00ccff', '#ff00cc', '#ffcc00', '#ff3333', '#a855f7', '#ec4899', '#06b6d4', '#8b5cf6', '#f59e0b'];
+
+// Where plane-coordinate instances (CVRPLIB) are drawn on the map
+const PLANE_CENTER: GeoLocation = { lat: 53.55, lng: 10.0 };
+const PLANE_SPAN_DEG = 0.3;
+// Not part of TSPLIB: marks DISPLAY_DATA_SECTION as longitude and latitude, as toVrp writes it
+const GEO_DISPLAY_KEY = 'DISPLAY_COORDINATES';
+const GEO_DISPLAY_VALUE = 'WGS84_LNG_LAT';
+
+export interface ImportedProblem {
+    problem: LogisticsProblem;
+    solution?: LogisticsSolution;
+}
+
+// Fleet for formats that only list stops
+export interface FleetOptions {
+    vehicles?: number; // Defaults to 4
+    capacity?: number; // Defaults to an even share of the total demand plus 20%
+}
+
+/** Routes for a problem from customer IDs per vehicle, in vehicle order */
+function toSolution(problem: LogisticsProblem, stopsPerVehicle: string[][]): LogisticsSolution {
+    const nodesMap = new Map(problem.nodes.map(n => [n.id, n]));
+    const matrix = createDistanceMatrix(problem);
+    const routes: Route[] = problem.vehicles.map((vehicle, i) => buildRoute(
+        vehicle,
+        [vehicle.startLocation, ...(stopsPerVehicle[i] ?? []), vehicle.endLocation ?? vehicle.startLocation],
+        nodesMap,
+        problem.constraints,
+        matrix
+    ));
+    const visited = new Set(stopsPerVehicle.flat());
+
+    return {
+        routes,
+        totalCost: routes.reduce((sum, r) => sum + r.totalCost, 0),
+        unassignedNodes: problem.nodes.filter(n => isStop(n) && !visited.has(n.id)).map(n => n.id),
+        status: 'completed',
+    };
+}
+
+function makeFleet(depots: string[], demands: number[], options: FleetOptions): Vehicle[] {
+    const count = options.vehicles ?? 4;
+    const total = demands.reduce((sum, d) => sum + d, 0);
+    const capacity = options.capacity ?? Math.max(1, ...demands, Math.ceil((total / count) * 1.2));
+
+    return Array.from({ length: count }, (_, i) => ({
+        id: `vehicle_${i}`,
+        capacity,
+        startLocation: depots[i % depots.length],
+        color: VEHICLE_COLORS[i % VEHICLE_COLORS.length],
+    }));
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+// Rows of fields; handles quoted fields with commas, quotes and line breaks
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(field.trim());
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(field.trim());
+            if (row.some(f => f.length > 0)) rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    row.push(field.trim());
+    if (row.some(f => f.length > 0)) rows.push(row);
+
+    return rows;
+}
+
+function csvField(value: string | number | undefined): string {
+    if (value === undefined) return '';
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Header lookup accepting common spellings; -1 when absent
+function columnIndex(header: string[], ...names: string[]): number {
+    const normalized = header.map(h => h.toLowerCase().replace(/[\s-]+/g, '_'));
+    return normalized.findIndex(h => names.includes(h));
+}
+
+const NODE_TYPES: LogisticsNode['type'][] = ['depot', 'customer', 'pickup', 'delivery'];
+
+/**
+ * Reads a stop list: one row per node with lat and lng columns, plus optional
+ * id, name, type (depot, customer, pickup or delivery), demand, window_start,
+ * window_end and paired_with. At least one row must be a depot.
+ */
+export function parseStopsCsv(text: string, options: FleetOptions = {}): LogisticsProblem {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) {
+        throw new Error("CSV is empty");
+    }
+
+    const col = {
+        id: columnIndex(header, 'id', 'stop_id', 'node_id'),
+        name: columnIndex(header, 'name', 'label'),
+        type: columnIndex(header, 'type', 'kind'),
+        lat: columnIndex(header, 'lat', 'latitude'),
+        lng: columnIndex(header, 'lng', 'lon', 'long', 'longitude'),
+        demand: columnIndex(header, 'demand', 'quantity'),
+        windowStart: columnIndex(header, 'window_start', 'tw_start', 'ready_time'),
+        windowEnd: columnIndex(header, 'window_end', 'tw_end', 'due_time'),
+        pairedWith: columnIndex(header, 'paired_with', 'pair'),
+    };
+    if (col.lat < 0 || col.lng < 0) {
+        throw new Error("CSV needs lat and lng columns");
+    }
+
+    const cell = (row: string[], index: number) => (index >= 0 ? row[index] ?? '' : '');
+    const number = (row: string[], index: number, line: number, what: string) => {
+        const raw = cell(row, index);
+        if (raw === '') return undefined;
+        const value = Number(raw);
+        if (!Number.isFinite(value)) {
+            throw new Error(`CSV line ${line}: ${what} "${raw}" is not a number`);
+        }
+        return value;
+    };
+
+    const nodes: LogisticsNode[] = rows.map((row, i) => {
+        const line = i + 2;
+        const type = (cell(row, col.type).toLowerCase() || 'customer') as LogisticsNode['type'];
+        if (!NODE_TYPES.includes(type)) {
+            throw new Error(`CSV line ${line}: unknown type "${cell(row, col.type)}"`);
+        }
+        const lat = number(row, col.lat, line, 'lat');
+        const lng = number(row, col.lng, line, 'lng');
+        if (lat === undefined || lng === undefined) {
+            throw new Error(`CSV line ${line}: missing coordinates`);
+        }
+
+        const node: LogisticsNode = { id: cell(row, col.id) || `stop_${i}`, type, location: { lat, lng } };
+        const name = cell(row, col.name);
+        if (name) node.name = name;
+        const demand = number(row, col.demand, line, 'demand');
+        if (demand !== undefined && type !== 'depot') node.demand = demand;
+        const start = number(row, col.windowStart, line, 'window_start');
+        const end = number(row, col.windowEnd, line, 'window_end');
+        if (start !== undefined || end !== undefined) node.timeWindow = { start: start ?? 0, end: end ?? Infinity };
+        const pairedWith = cell(row, col.pairedWith);
+        if (pairedWith) node.pairedWith = pairedWith;
+        return node;
+    });
+
+    const depots = nodes.filter(n => n.type === 'depot').map(n => n.id);
+    if (depots.length === 0) {
+        throw new Error("CSV needs at least one row with type depot");
+    }
+
+    return {
+        id: crypto.randomUUID(),
+        name: 'Imported stops',
+        description: `${nodes.length - depots.length} stops from CSV`,
+        nodes,
+        vehicles: makeFleet(depots, nodes.filter(isStop).map(n => n.demand || 1), options),
+    };
+}
+
+export function stopsToCsv(problem: LogisticsProblem): string {
+    const header = 'id,name,type,lat,lng,demand,window_start,window_end,paired_with';
+    const rows = problem.nodes.map(n => [
+        n.id,
+        n.name,
+        n.type,
+        n.location.lat,
+        n.location.lng,
+        n.demand,
+        n.timeWindow?.start,
+        n.timeWindow && Number.isFinite(n.timeWindow.end) ? n.timeWindow.end : undefined,
+        n.pairedWith,
+    ].map(csvField).join(','));
+    return [header, ...rows].join('\n') + '\n';
+}
+
+// One row per visit: vehicle_id, sequence (from 0 at the start location), node_id, lat, lng
+export function routesToCsv(problem: LogisticsProblem, solution: LogisticsSolution): string {
+    const nodesMap = new Map(problem.nodes.map(n => [n.id, n]));
+    const rows = solution.routes.flatMap(route => route.stops.map((id, sequence) => {
+        const node = nodesMap.get(id);
+        return [route.vehicleId, sequence, id, node?.location.lat, node?.location.lng].map(csvField).join(',');
+    }));
+    return ['vehicle_id,sequence,node_id,lat,lng', ...rows].join('\n') + '\n';
+}
+
+/** Reads routes written by routesToCsv, or any vehicle_id/sequence/node_id table, for an existing problem */
+export function parseRoutesCsv(text: string, problem: LogisticsProblem): LogisticsSolution {
+    const [header, ...rows] = parseCsv(text);
+    const col = {
+        vehicle: columnIndex(header ?? [], 'vehicle_id', 'vehicle'),
+        sequence: columnIndex(header ?? [], 'sequence', 'seq', 'order'),
+        node: columnIndex(header ?? [], 'node_id', 'stop_id', 'id'),
+    };
+    if (col.vehicle < 0 || col.sequence < 0 || col.node < 0) {
+        throw new Error("Routes CSV needs vehicle_id, sequence and node_id columns");
+    }
+
+    const stops = problem.vehicles.map(() => [] as { sequence: number; id: string }[]);
+    rows.forEach((row, i) => {
+        const vehicleIdx = problem.vehicles.findIndex(v => v.id === row[col.vehicle]);
+        if (vehicleIdx < 0) {
+            throw new Error(`Routes CSV line ${i + 2}: unknown vehicle "${row[col.vehicle]}"`);
+        }
+        const node = problem.nodes.find(n => n.id === row[col.node]);
+        if (!node) {
+            throw new Error(`Routes CSV line ${i + 2}: unknown node "${row[col.node]}"`);
+        }
+        if (isStop(node)) stops[vehicleIdx].push({ sequence: Number(row[col.sequence]), id: node.id });
+    });
+
+    return toSolution(problem, stops.map(list => list.sort((a, b) => a.sequence - b.sequence).map(s => s.id)));
+}
+
+// ---------------------------------------------------------------------------
+// GeoJSON
+// ---------------------------------------------------------------------------
+
+interface Feature {
+    type: 'Feature';
+    geometry: { type: 'Point'; coordinates: number[] } | { type: 'LineString'; coordinates: number[][] };
+    properties: Record<string, unknown>;
+}
+
+export interface LogisticsFeatureCollection {
+    type: 'FeatureCollection';
+    features: Feature[];
+    // Foreign members carrying what has no geometry
+    name?: string;
+    description?: string;
+    vehicles?: Vehicle[];
+}
+
+/**
+ * Nodes become Point features and solution routes LineString features with
+ * the visited node IDs in `stops`. Vehicles travel as a foreign member.
+ */
+export function toGeoJSON(problem: LogisticsProblem, solution?: LogisticsSolution | null): LogisticsFeatureCollection {
+    const nodesMap = new Map(problem.nodes.map(n => [n.id, n]));
+    const points: Feature[] = problem.nodes.map(n => ({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [n.location.lng, n.location.lat] },
+        properties: {
+            id: n.id,
+            name: n.name,
+            type: n.type,
+            demand: n.demand,
+            windowStart: n.timeWindow?.start,
+            windowEnd: n.timeWindow?.end,
+            pairedWith: n.pairedWith,
+        },
+    }));
+    const lines: Feature[] = (solution?.routes ?? []).map(route => ({
+        type: 'Feature',
+        geometry: {
+            type: 'LineString',
+            coordinates: route.stops
+                .map(id => nodesMap.get(id))
+                .filter((n): n is LogisticsNode => !!n)
+                .map(n => [n.location.lng, n.location.lat]),
+        },
+        properties: {
+            vehicleId: route.vehicleId,
+            stops: route.stops,
+            totalDistance: route.totalDistance,
+            totalLoad: route.totalLoad,
+            totalCost: route.totalCost,
+            color: route.color,
+        },
+    }));
+
+    return {
+        type: 'FeatureCollection',
+        name: problem.name,
+        description: problem.description,
+        vehicles: problem.vehicles,
+        features: [...points, ...lines],
+    };
+}
+
+/** Reads a FeatureCollection: Points are nodes, LineStrings with `stops` are routes */
+export function fromGeoJSON(json: unknown, options: FleetOptions = {}): ImportedProblem {
+    const collection = json as Partial<LogisticsFeatureCollection>;
+    if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+        throw new Error("GeoJSON must be a FeatureCollection");
+    }
+
+    const nodes: LogisticsNode[] = [];
+    const routeFeatures: Feature[] = [];
+    collection.features.forEach((feature, i) => {
+        if (feature?.geometry?.type === 'LineString') {
+            routeFeatures.push(feature);
+            return;
+        }
+        if (feature?.geometry?.type !== 'Point') return;
+
+        const [lng, lat] = feature.geometry.coordinates;
+        const p = feature.properties ?? {};
+        const type = NODE_TYPES.includes(p.type as LogisticsNode['type']) ? p.type as LogisticsNode['type'] : 'customer';
+        const node: LogisticsNode = { id: String(p.id ?? `stop_${i}`), type, location: { lat, lng } };
+        if (typeof p.name === 'string') node.name = p.name;
+        if (typeof p.demand === 'number') node.demand = p.demand;
+        if (typeof p.windowStart === 'number' || typeof p.windowEnd === 'number') {
+            node.timeWindow = {
+                start: typeof p.windowStart === 'number' ? p.windowStart : 0,
+                end: typeof p.windowEnd === 'number' ? p.windowEnd : Infinity,
+            };
+        }
+        if (typeof p.pairedWith === 'string') node.pairedWith = p.pairedWith;
+        nodes.push(node);
+    });
+
+    const depots = nodes.filter(n => n.type === 'depot').map(n => n.id);
+    if (depots.length === 0) {
+        throw new Error("GeoJSON needs at least one Point with type depot");
+    }
+
+    const problem: LogisticsProblem = {
+        id: crypto.randomUUID(),
+        name: collection.name ?? 'Imported GeoJSON',
+        description: collection.description ?? `${nodes.length - depots.length} stops from GeoJSON`,
+        nodes,
+        vehicles: Array.isArray(collection.vehicles) && collection.vehicles.length > 0
+            ? collection.vehicles
+            : makeFleet(depots, nodes.filter(isStop).map(n => n.demand || 1), options),
+    };
+
+    const stopLists = routeFeatures.filter(f => Array.isArray(f.properties?.stops));
+    if (stopLists.length === 0) return { problem };
+
+    const nodeIds = new Set(nodes.filter(isStop).map(n => n.id));
+    const perVehicle = problem.vehicles.map(vehicle => {
+        const feature = stopLists.find(f => f.properties.vehicleId === vehicle.id);
+        return ((feature?.properties.stops ?? []) as string[]).filter(id => nodeIds.has(id));
+    });
+    return { problem, solution: toSolution(problem, perVehicle) };
+}
+
+// ---------------------------------------------------------------------------
+// TSPLIB / CVRPLIB
+// ---------------------------------------------------------------------------
+
+// Node order in .vrp/.sol files: depots first, as CVRPLIB numbers the depot 1
+function vrpOrder(problem: LogisticsProblem): LogisticsNode[] {
+    return [...problem.nodes.filter(n => n.type === 'depot'), ...problem.nodes.filter(isStop)];
+}
+
+// (row, column) pairs in the order an EDGE_WEIGHT_FORMAT lists them
+function edgeWeightCells(format: string, n: number): [number, number][] {
+    const cells: [number, number][] = [];
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+            const keep =
+                format === 'FULL_MATRIX' ||
+                (format === 'LOWER_ROW' && j < i) ||
+                (format === 'LOWER_DIAG_ROW' && j <= i) ||
+                (format === 'UPPER_ROW' && j > i) ||
+                (format === 'UPPER_DIAG_ROW' && j >= i);
+            if (keep) cells.push([i, j]);
+        }
+    }
+    if (cells.length === 0 && n > 0) {
+        throw new Error(`Unsupported EDGE_WEIGHT_FORMAT ${format}`);
+    }
+    return cells;
+}
+
+/**
+ * Reads a TSPLIB/CVRPLIB .vrp instance. Supports EUC_2D, CEIL_2D and
+ * EXPLICIT edge weights; distances are kept exactly as the benchmark
+ * defines them (EUC_2D rounded to the nearest integer) via a 'matrix'
+ * travel model. Plane coordinates are drawn in a small box on the map;
+ * display data that toVrp marked as longitude and latitude stays where it
+ * is. Nodes keep their file numbers as IDs.
+ */
+export function parseVrp(text: string): LogisticsProblem {
+    const spec: Record<string, string> = {};
+    const sections: Record<string, number[][]> = {};
+    let section: string | null = null;
+
+    for (const raw of text.split(/\r?\n/)) {
+        const line = raw.trim();
+        if (!line) continue;
+        if (line === 'EOF') break;
+
+        const keyValue = line.match(/^([A-Z_]+)\s*:\s*(.*)$/);
+        if (keyValue) {
+            spec[keyValue[1]] = keyValue[2].trim();
+            section = null;
+        } else if (/^[A-Z_]+_SECTION$/.test(line)) {
+            section = line;
+            sections[section] = [];
+        } else if (section) {
+            sections[section].push(line.split(/\s+/).map(Number));
+        }
+    }
+
+    const n = Number(spec.DIMENSION);
+    if (!Number.isInteger(n) || n < 2) {
+        throw new Error("VRP file needs a DIMENSION of at least 2");
+    }
+    const capacity = Number(spec.CAPACITY);
+    if (!(capacity > 0)) {
+        throw new Error("VRP file needs a positive CAPACITY");
+    }
+
+    const byIndex = (rows: number[][] | undefined) => {
+        const values = new Map<number, number[]>();
+        for (const row of rows ?? []) values.set(row[0], row.slice(1));
+        return values;
+    };
+    const coords = byIndex(sections.NODE_COORD_SECTION ?? sections.DISPLAY_DATA_SECTION);
+    const demands = byIndex(sections.DEMAND_SECTION);
+    const depotIndices = (sections.DEPOT_SECTION ?? []).flat().filter(v => v > 0);
+    if (depotIndices.length === 0) depotIndices.push(1);
+
+    // Travel distances as the instance defines them
+    const weightType = spec.EDGE_WEIGHT_TYPE ?? 'EUC_2D';
+    const distances = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+    if (weightType === 'EXPLICIT') {
+        const values = (sections.EDGE_WEIGHT_SECTION ?? []).flat();
+        const cells = edgeWeightCells(spec.EDGE_WEIGHT_FORMAT ?? 'FULL_MATRIX', n);
+        if (values.length < cells.length) {
+            throw new Error(`VRP file has ${values.length} of ${cells.length} edge weights`);
+        }
+        cells.forEach(([i, j], k) => {
+            distances[i][j] = values[k];
+            if (spec.EDGE_WEIGHT_FORMAT !== 'FULL_MATRIX') distances[j][i] = values[k];
+        });
+    } else if (weightType === 'EUC_2D' || weightType === 'CEIL_2D') {
+        const round = weightType === 'EUC_2D' ? Math.round : Math.ceil;
+        for (let i = 0; i < n; i++) {
+            for (let j = 0; j < n; j++) {
+                const a = coords.get(i + 1);
+                const b = coords.get(j + 1);
+                if (!a || !b) {
+                    throw new Error(`VRP file has no coordinates for node ${a ? j + 1 : i + 1}`);
+                }
+                distances[i][j] = round(Math.hypot(a[0] - b[0], a[1] - b[1]));
+            }
+        }
+    } else {
+        throw new Error(`Unsupported EDGE_WEIGHT_TYPE ${weightType}`);
+    }
+
+    // Files written by toVrp carry real positions for every node
+    const geographic = spec[GEO_DISPLAY_KEY] === GEO_DISPLAY_VALUE && !sections.NODE_COORD_SECTION &&
+        Array.from({ length: n }, (_, i) => coords.get(i + 1)).every(p => p && Math.abs(p[1]) <= 90 && Math.abs(p[0]) <= 180);
+
+    // Otherwise fit plane coordinates (or a circle when there are none) into the map box
+    const plane = Array.from({ length: n }, (_, i) =>
+        coords.get(i + 1) ?? [Math.cos((2 * Math.PI * i) / n), Math.sin((2 * Math.PI * i) / n)]
+    );
+    const xs = plane.map(p => p[0]);
+    const ys = plane.map(p => p[1]);
+    const midX = (Math.min(...xs) + Math.max(...xs)) / 2;
+    const midY = (Math.min(...ys) + Math.max(...ys)) / 2;
+    const scale = PLANE_SPAN_DEG / (Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) || 1);
+    const lngScale = scale / Math.cos(PLANE_CENTER.lat * (Math.PI / 180));
+
+    const ids = Array.from({ length: n }, (_, i) => String(i + 1));
+    const nodes: LogisticsNode[] = ids.map((id, i) => {
+        const isDepot = depotIndices.includes(i + 1);
+        const node: LogisticsNode = {
+            id,
+            type: isDepot ? 'depot' : 'customer',
+            location: geographic ? { lat: plane[i][1], lng: plane[i][0] } : {
+                lat: PLANE_CENTER.lat + (plane[i][1] - midY) * scale,
+                lng: PLANE_CENTER.lng + (plane[i][0] - midX) * lngScale,
+            },
+        };
+        const demand = demands.get(i + 1)?.[0];
+        if (!isDepot && demand !== undefined) node.demand = demand;
+        return node;
+    });
+
+    // Fleet size: explicit VEHICLES, the "-k5" naming convention, the comment, or the demand lower bound
+    const name = spec.NAME ?? 'CVRPLIB instance';
+    const totalDemand = nodes.reduce((sum, node) => sum + (node.demand ?? 0), 0);
+    const vehicleCount = Number(spec.VEHICLES) ||
+        Number(name.match(/-k(\d+)/i)?.[1]) ||
+        Number(spec.COMMENT?.match(/(?:trucks|vehicles)\D*(\d+)/i)?.[1]) ||
+        Math.max(1, Math.ceil(totalDemand / capacity));
+
+    return {
+        id: crypto.randomUUID(),
+        name,
+        description: spec.COMMENT?.replace(/^"|"$/g, '') ?? `${n - depotIndices.length} customers from CVRPLIB`,
+        nodes,
+        vehicles: Array.from({ length: vehicleCount }, (_, i) => ({
+            id: `vehicle_${i}`,
+            capacity,
+            startLocation: ids[depotIndices[i % depotIndices.length] - 1],
+            color: VEHICLE_COLORS[i % VEHICLE_COLORS.length],
+        })),
+        travel: { kind: 'matrix', ids, distances },
+    };
+}
+
+/**
+ * Writes a CVRPLIB .vrp file with an explicit distance matrix, so any travel
+ * model round-trips, and node positions as display data parseVrp reads back.
+ * Nodes are renumbered depots first; the fleet is reduced to its count and
+ * largest capacity. Pickup-and-delivery pairs and
+ * time windows have no CVRPLIB form and are rejected.
+ */
+export function toVrp(problem: LogisticsProblem): string {
+    if (problem.nodes.some(n => n.type === 'pickup' || n.type === 'delivery')) {
+        throw new Error("CVRPLIB files cannot hold pickup-and-delivery pairs");
+    }
+    if (problem.nodes.some(n => n.timeWindow)) {
+        throw new Error("CVRPLIB files cannot hold time windows");
+    }
+
+    const ordered = vrpOrder(problem);
+    const matrix = createDistanceMatrix(problem);
+    const depots = ordered.filter(n => n.type === 'depot');
+    const round = (value: number) => Number(value.toFixed(6));
+
+    return [
+        `NAME : ${problem.name.replace(/\s+/g, '-')}`,
+        `COMMENT : "${problem.description.replace(/"/g, "'")}"`,
+        'TYPE : CVRP',
+        `DIMENSION : ${ordered.length}`,
+        `VEHICLES : ${problem.vehicles.length}`,
+        `CAPACITY : ${Math.max(0, ...problem.vehicles.map(v => v.capacity))}`,
+        'EDGE_WEIGHT_TYPE : EXPLICIT',
+        'EDGE_WEIGHT_FORMAT : FULL_MATRIX',
+        'DISPLAY_DATA_TYPE : TWOD_DISPLAY',
+        `${GEO_DISPLAY_KEY} : ${GEO_DISPLAY_VALUE}`,
+        'EDGE_WEIGHT_SECTION',
+        ...ordered.map(a => ordered.map(b => round(matrix.distance(a.id, b.id))).join(' ')),
+        'DISPLAY_DATA_SECTION',
+        ...ordered.map((node, i) => `${i + 1} ${node.location.lng} ${node.location.lat}`),
+        'DEMAND_SECTION',
+        ...ordered.map((node, i) => `${i + 1} ${node.type === 'depot' ? 0 : node.demand ?? 1}`),
+        'DEPOT_SECTION',
+        ...depots.map((_, i) => ` ${i + 1}`),
+        ' -1',
+        'EOF',
+        '',
+    ].join('\n');
+}
+
+/** Reads a CVRPLIB .sol file ("Route #1: 3 7 2", customers numbered from 1 after the depot) */
+export function parseVrpSolution(text: string, problem: LogisticsProblem): LogisticsSolution {
+    const ordered = vrpOrder(problem);
+    const depotCount = ordered.filter(n => n.type === 'depot').length;
+    const routes = text.split(/\r?\n/)
+        .map(line => line.match(/^\s*Route\s*#?\s*\d+\s*:\s*(.*)$/i))
+        .filter((match): match is RegExpMatchArray => !!match)
+        .map(match => match[1].trim().split(/\s+/).filter(Boolean).map(value => {
+            // .sol numbers count from the depot as 0
+            const node = ordered[Number(value) + depotCount - 1];
+            if (!node || !isStop(node)) {
+                throw new Error(`Solution refers to unknown customer ${value}`);
+            }
+            return node.id;
+        }));
+
+    if (routes.length > problem.vehicles.length) {
+        throw new Error(`Solution has ${routes.length} routes for ${problem.vehicles.length} vehicles`);
+    }
+    return toSolution(problem, routes);
+}
+
+export function toVrpSolution(problem: LogisticsProblem, solution: LogisticsSolution): string {
+    const ordered = vrpOrder(problem);
+    const depotCount = ordered.filter(n => n.type === 'depot').length;
+    const number = new Map(ordered.map((n, i) => [n.id, i - depotCount + 1]));
+
+    const lines = solution.routes
+        .map(route => route.stops.filter(id => (number.get(id) ?? 0) > 0).map(id => number.get(id)))
+        .filter(stops => stops.length > 0)
+        .map((stops, i) => `Route #${i + 1}: ${stops.join(' ')}`);
+    return [...lines, `Cost ${Number(solution.totalCost.toFixed(6))}`, ''].join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Files
+// ---------------------------------------------------------------------------
+
+/**
+ * Imports a dropped or uploaded file by extension: .csv (stops, or routes
+ * for `current` when it has a sequence column), .geojson/.json, .vrp, and
+ * .sol (routes for `current`).
+ */
+export function importFile(name: string, text: string, current?: LogisticsProblem | null): ImportedProblem {
+    const extension = name.toLowerCase().split('.').pop();
+
+    switch (extension) {
+        case 'csv': {
+            const header = parseCsv(text)[0] ?? [];
+            if (columnIndex(header, 'sequence', 'seq', 'order') >= 0) {
+                if (!current) throw new Error("Load a problem before importing routes");
+                return { problem: current, solution: parseRoutesCsv(text, current) };
+            }
+            return { problem: parseStopsCsv(text) };
+        }
+        case 'geojson':
+        case 'json': {
+            let json: unknown;
+            try {
+                json = JSON.parse(text);
+            } catch {
+                throw new Error(`${name} is not valid JSON`);
+            }
+            return fromGeoJSON(json);
+        }
+        case 'vrp':
+            return { problem: parseVrp(text) };
+        case 'sol':
+            if (!current) throw new Error("Load the .vrp instance before its solution");
+            return { problem: current, solution: parseVrpSolution(text, current) };
+        default:
+            throw new Error(`Unsupported file type: ${name}`);
+    }
+}
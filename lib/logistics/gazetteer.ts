@@ -0,0 +1,161 @@
+import { City, CITIES, COUNTRIES } from './cities';
+
+export type { City } from './cities';
+
+export interface PlaceMatch {
+    city: City;
+    score: number; // 1 for an exact name or alias, less for fuzzy matches
+}
+
+// Fuzzy matches below this similarity are not considered the same place
+const MIN_SCORE = 0.8;
+
+// Words that introduce a place in requests like "20 stops in Hamburg"
+const PLACE_PREPOSITION = /\b(?:in|around|across|near|throughout|within)\s+/gi;
+
+/** Lowercase, without diacritics or punctuation: "Frankfurt (Oder)" → "frankfurt oder" */
+export function normalizePlace(text: string): string {
+    return text
+        .replace(/ß/g, 'ss')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim();
+}
+
+// Names and aliases of every city, normalized once
+const INDEX = new Map<string, City[]>();
+for (const city of CITIES) {
+    for (const name of new Set([city.name, ...(city.aliases ?? [])].map(normalizePlace))) {
+        INDEX.set(name, [...(INDEX.get(name) ?? []), city]);
+    }
+}
+const LONGEST_NAME = Math.max(...[...INDEX.keys()].map(name => name.split(' ').length));
+
+// Optimal string alignment distance: edits plus adjacent transpositions
+function editDistance(a: string, b: string): number {
+    const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[a.length][b.length];
+}
+
+function similarity(a: string, b: string): number {
+    return a === b ? 1 : 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+// "Maine", "ME", "Germany" or "DE" after the comma in "Portland, Maine"
+function matchesQualifier(city: City, qualifier: string): boolean {
+    const names = [city.country, ...(COUNTRIES[city.country] ?? []), city.admin, city.adminCode];
+    return names.some(name => name !== undefined && normalizePlace(name) === qualifier);
+}
+
+export function formatPlace(city: City): string {
+    const country = COUNTRIES[city.country]?.[0] ?? city.country;
+    return city.admin && city.admin !== city.name ? `${city.name}, ${city.admin}, ${country}` : `${city.name}, ${country}`;
+}
+
+/**
+ * Ranks the gazetteer against a place name, optionally qualified by region
+ * or country after a comma ("Springfield, IL"). Equal scores go to the
+ * larger city, so a bare "Frankfurt" means Frankfurt am Main.
+ */
+export function searchPlaces(query: string, limit = 5): PlaceMatch[] {
+    const [place, ...qualifiers] = query.split(',').map(normalizePlace);
+    if (!place) return [];
+
+    const matches: PlaceMatch[] = [];
+    for (const [name, cities] of INDEX) {
+        const score = similarity(place, name);
+        if (score < MIN_SCORE) continue;
+        for (const city of cities) {
+            if (!qualifiers.every(q => !q || matchesQualifier(city, q))) continue;
+            const existing = matches.find(m => m.city === city);
+            if (!existing) matches.push({ city, score });
+            else existing.score = Math.max(existing.score, score);
+        }
+    }
+
+    return matches
+        .sort((a, b) => b.score - a.score || b.city.population - a.city.population)
+        .slice(0, limit);
+}
+
+/** The best match for a place name; throws when nothing in the gazetteer is close enough */
+export function resolvePlace(query: string): City {
+    const [best] = searchPlaces(query, 1);
+    if (best) return best.city;
+
+    // Suggest the closest name regardless of the qualifier, if any is remotely similar
+    const place = normalizePlace(query.split(',')[0]);
+    let suggestion: City | null = null;
+    let suggestionScore = 0.5;
+    for (const [name, cities] of INDEX) {
+        const score = similarity(place, name);
+        if (score > suggestionScore) {
+            suggestionScore = score;
+            suggestion = cities[0];
+        }
+    }
+
+    throw new Error(suggestion
+        ? `Unknown place "${query.trim()}". Did you mean ${formatPlace(suggestion)}?`
+        : `Unknown place "${query.trim()}"`);
+}
+
+/**
+ * Finds the city a free-text request is about. Place names are matched
+ * word by word, longest first; a capitalized phrase after "in", "around"
+ * etc. that matches no city raises an error rather than being ignored.
+ * Returns null when the text names no place at all.
+ */
+export function findPlaceInText(text: string): City | null {
+    const words = [...text.matchAll(/[\p{L}\p{N}][\p{L}\p{N}.'()/-]*/gu)];
+
+    for (let size = Math.min(LONGEST_NAME, words.length); size >= 1; size--) {
+        for (let i = 0; i + size <= words.length; i++) {
+            const window = words.slice(i, i + size);
+            // Proper nouns only, so "a nice route" is not Nice
+            if (!/^\p{Lu}/u.test(window[0][0])) continue;
+            const cities = INDEX.get(normalizePlace(window.map(w => w[0]).join(' ')));
+            if (!cities) continue;
+
+            // "Portland, Maine": a qualifier right after the name picks among namesakes
+            const end = window[size - 1].index! + window[size - 1][0].length;
+            const qualifier = text.slice(end).match(/^\s*,\s*([\p{L}. ]+)/u)?.[1].trim().split(/\s+/) ?? [];
+            let candidates = cities;
+            for (let n = Math.min(3, qualifier.length); n >= 1 && candidates === cities; n--) {
+                const qualified = cities.filter(city => matchesQualifier(city, normalizePlace(qualifier.slice(0, n).join(' '))));
+                if (qualified.length > 0) candidates = qualified;
+            }
+            return candidates.reduce((a, b) => (b.population > a.population ? b : a));
+        }
+    }
+
+    for (const match of text.matchAll(PLACE_PREPOSITION)) {
+        const rest = text.slice(match.index! + match[0].length);
+        const phrase = rest.match(/^\p{Lu}[\p{L}.'-]*(?:[ -]\p{Lu}[\p{L}.'-]*)*(?:,\s*\p{L}[\p{L} .]*)?/u)?.[0];
+        if (phrase) return resolvePlace(phrase);
+
+        // Lowercase requests: exact names first ("in new york"), then one misspelt word if it matches well
+        const following = rest.match(/^[\p{L}' -]+/u)?.[0].trim().split(/\s+/) ?? [];
+        for (let n = Math.min(LONGEST_NAME, following.length); n >= 1; n--) {
+            const cities = INDEX.get(normalizePlace(following.slice(0, n).join(' ')));
+            if (cities) return cities.reduce((a, b) => (b.population > a.population ? b : a));
+        }
+        const [best] = following[0] ? searchPlaces(following[0], 1) : [];
+        if (best) return best.city;
+    }
+
+    return null;
+}
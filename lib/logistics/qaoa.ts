@@ -0,0 +1,182 @@
+import { QuantumSimulator, minimize } from '@/lib/quantum';
+import { LogisticsProblem, Route } from './types';
+import { SolverResult, SolverProgress, greedyBaseline, buildRoute } from './solver';
+import { createDistanceMatrix } from './distance';
+import { Ising, QuboEncoding, toQubo, quboQubitCount, decodeRoutes, isFeasibleAssignment } from './qubo';
+
+/**
+ * Largest register the QAOA mode will simulate. A single vehicle needs m²
+ * qubits for m customers, so this allows a tour of up to four customers.
+ */
+export const QAOA_MAX_QUBITS = 16;
+
+export interface QAOAOptions {
+    layers?: number; // QAOA depth p
+    maxIterations?: number;
+    shots?: number; // Samples drawn from the optimized state
+    signal?: AbortSignal;
+}
+
+export function qaoaQubitCount(problem: LogisticsProblem): number {
+    return quboQubitCount(problem);
+}
+
+export function canSolveWithQAOA(problem: LogisticsProblem): boolean {
+    const qubits = qaoaQubitCount(problem);
+    return problem.vehicles.length > 0 &&
+        problem.nodes.some(n => n.type === 'depot') &&
+        !problem.nodes.some(n => n.type === 'pickup' || n.type === 'delivery') &&
+        qubits > 0 && qubits <= QAOA_MAX_QUBITS;
+}
+
+/**
+ * Diagonal of the cost Hamiltonian H_C = offset + Σ h_i Z_i + Σ J_ij Z_i Z_j,
+ * with qubit 0 as the most significant bit of the basis index
+ */
+function costDiagonal(ising: Ising): number[] {
+    const n = ising.h.length;
+    return Array.from({ length: Math.pow(2, n) }, (_, index) => {
+        const z = Array.from({ length: n }, (_, q) => ((index >> (n - 1 - q)) & 1 ? -1 : 1));
+        let energy = ising.offset;
+        for (let i = 0; i < n; i++) {
+            energy += ising.h[i] * z[i];
+            for (let j = i + 1; j < n; j++) energy += ising.J[i][j] * z[i] * z[j];
+        }
+        return energy;
+    });
+}
+
+// Alternating cost layers e^{-iγH_C} and transverse-field mixers e^{-iβΣX}
+function runCircuit(cost: number[], numQubits: number, gammas: number[], betas: number[]): QuantumSimulator {
+    const sim = new QuantumSimulator(numQubits);
+    for (let q = 0; q < numQubits; q++) sim.apply('H', q);
+
+    gammas.forEach((gamma, layer) => {
+        sim.applyDiagonalPhase(cost.map(e => gamma * e));
+        for (let q = 0; q < numQubits; q++) sim.apply('Rx', [2 * betas[layer]], q);
+    });
+
+    return sim;
+}
+
+/**
+ * Fallback when no sample is a valid assignment: each customer goes to the
+ * vehicle that sampled it most often, ordered by its average slot there.
+ */
+function repairRoutes(problem: LogisticsProblem, encoding: QuboEncoding, samples: Map<string, number>): Route[] {
+    const nodesMap = new Map(problem.nodes.map(n => [n.id, n]));
+    const matrix = createDistanceMatrix(problem);
+    const weight = new Map<string, number>(); // `${vehicle}/${customer}` → sample count
+    const positionSum = new Map<string, number>();
+
+    samples.forEach((count, bits) => {
+        encoding.variables.forEach((variable, i) => {
+            if (variable.kind !== 'visit' || bits[i] !== '1') return;
+            const key = `${variable.vehicleId}/${variable.customerId}`;
+            weight.set(key, (weight.get(key) ?? 0) + count);
+            positionSum.set(key, (positionSum.get(key) ?? 0) + count * variable.position);
+        });
+    });
+
+    const customers = problem.nodes.filter(n => n.type === 'customer');
+    const byVehicle = new Map<string, { id: string; position: number }[]>();
+    for (const customer of customers) {
+        const best = problem.vehicles.reduce((a, b) =>
+            (weight.get(`${b.id}/${customer.id}`) ?? 0) > (weight.get(`${a.id}/${customer.id}`) ?? 0) ? b : a
+        );
+        const key = `${best.id}/${customer.id}`;
+        const stops = byVehicle.get(best.id) ?? [];
+        stops.push({ id: customer.id, position: (positionSum.get(key) ?? 0) / (weight.get(key) || 1) });
+        byVehicle.set(best.id, stops);
+    }
+
+    return problem.vehicles.map(vehicle => {
+        const stops = (byVehicle.get(vehicle.id) ?? []).sort((a, b) => a.position - b.position).map(s => s.id);
+        const end = vehicle.endLocation ?? vehicle.startLocation;
+        return buildRoute(vehicle, [vehicle.startLocation, ...stops, end], nodesMap, problem.constraints, matrix);
+    });
+}
+
+/**
+ * Routes via QAOA on the state-vector simulator.
+ * The problem is encoded with toQubo(), converted to a diagonal Ising cost
+ * Hamiltonian, and the layer angles are tuned with Nelder-Mead on ⟨H_C⟩. The
+ * cheapest feasible assignment among the final samples is returned.
+ */
+export async function solveQAOA(
+    problem: LogisticsProblem,
+    onProgress: (state: SolverProgress) => void,
+    options: QAOAOptions = {}
+): Promise<SolverResult> {
+    const { layers = 2, maxIterations = 60, shots = 1024, signal } = options;
+
+    if (!problem.nodes.some(n => n.type === 'depot')) {
+        throw new Error("No depot found in problem");
+    }
+    if (problem.vehicles.length === 0) {
+        throw new Error("No vehicle available for the tour");
+    }
+    if (problem.nodes.some(n => n.type === 'pickup' || n.type === 'delivery')) {
+        throw new Error("QAOA does not support pickup-and-delivery pairs");
+    }
+    if (!canSolveWithQAOA(problem)) {
+        throw new Error(`QAOA needs ${qaoaQubitCount(problem)} qubits; at most ${QAOA_MAX_QUBITS} are supported`);
+    }
+
+    const encoding = toQubo(problem);
+    // Work in units of the longest leg so the angle scale does not depend on the city
+    const scale = encoding.maxLeg;
+    const cost = costDiagonal(encoding.ising).map(e => e / scale);
+
+    // Linear ramp, as in a discretized anneal
+    const x0 = [
+        ...Array.from({ length: layers }, (_, l) => 0.4 * (l + 1) / layers),
+        ...Array.from({ length: layers }, (_, l) => 0.4 * (1 - l / layers)),
+    ];
+    const energy = (x: number[]) =>
+        runCircuit(cost, encoding.numQubits, x.slice(0, layers), x.slice(layers)).diagonalExpectation(cost);
+
+    onProgress({ iteration: 0, cost: energy(x0) * scale, temp: 0, bestCost: Infinity });
+
+    const optimized = await minimize(
+        energy,
+        x0,
+        'nelder-mead',
+        { maxIterations, initialStep: 0.2, signal },
+        step => onProgress({
+            iteration: step.iteration,
+            cost: step.value * scale,
+            temp: 0,
+            bestCost: step.bestValue * scale,
+        })
+    );
+
+    const samples = runCircuit(cost, encoding.numQubits, optimized.x.slice(0, layers), optimized.x.slice(layers))
+        .sample(shots);
+
+    const routesCost = (routes: Route[]) => routes.reduce((sum, r) => sum + r.totalCost, 0);
+
+    let routes: Route[] | null = null;
+    for (const bits of samples.keys()) {
+        if (!isFeasibleAssignment(problem, encoding, bits)) continue;
+        const candidate = decodeRoutes(problem, encoding, bits);
+        if (!routes || routesCost(candidate) < routesCost(routes)) routes = candidate;
+    }
+    routes = routes ?? repairRoutes(problem, encoding, samples);
+
+    const totalCost = routesCost(routes);
+    onProgress({ iteration: optimized.trace.length, cost: totalCost, temp: 0, bestCost: totalCost });
+
+    const baselineCost = greedyBaseline(problem).totalCost;
+    const improvement = baselineCost - totalCost;
+
+    return {
+        routes,
+        totalCost,
+        status: 'completed',
+        baselineCost,
+        improvement,
+        improvementPercent: (improvement / baselineCost) * 100,
+        solver: 'qaoa'
+    };
+}
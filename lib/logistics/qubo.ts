@@ -0,0 +1,323 @@
+import { LogisticsProblem, LogisticsNode, Route } from './types';
+import { buildRoute } from './solver';
+import { createDistanceMatrix } from './distance';
+
+/**
+ * Quadratic unconstrained binary optimization problem:
+ * E(x) = offset + Σ_i Q[i][i]·x_i + Σ_{i<j} Q[i][j]·x_i·x_j
+ * Only the upper triangle of Q is used.
+ */
+export interface Qubo {
+    size: number;
+    Q: number[][];
+    offset: number;
+}
+
+/**
+ * The same energy over spins z_i = ±1 (z = 1 - 2x):
+ * E(z) = offset + Σ_i h_i·z_i + Σ_{i<j} J_ij·z_i·z_j
+ */
+export interface Ising {
+    h: number[];
+    J: number[][];
+    offset: number;
+}
+
+export function createQubo(size: number): Qubo {
+    return {
+        size,
+        Q: Array.from({ length: size }, () => new Array(size).fill(0)),
+        offset: 0,
+    };
+}
+
+/** Adds w·x_i·x_j (w·x_i when i === j) */
+export function addQuboTerm(qubo: Qubo, i: number, j: number, w: number): void {
+    const [a, b] = i <= j ? [i, j] : [j, i];
+    qubo.Q[a][b] += w;
+}
+
+/** Adds weight·(target - Σ_{i∈vars} x_i)² */
+export function addQuboPenalty(qubo: Qubo, vars: number[], weight: number, target = 1): void {
+    addWeightedQuboPenalty(qubo, vars.map(index => ({ index, coefficient: 1 })), weight, target);
+}
+
+/** Adds weight·(target - Σ a_i·x_i)², e.g. a capacity equality with slack bits */
+export function addWeightedQuboPenalty(
+    qubo: Qubo,
+    terms: { index: number; coefficient: number }[],
+    weight: number,
+    target: number
+): void {
+    // x² = x for binaries, so the square expands to t² + Σ(a_i² - 2t·a_i)x_i + 2Σ_{i<j} a_i·a_j·x_i·x_j
+    qubo.offset += weight * target * target;
+    terms.forEach((a, k) => {
+        addQuboTerm(qubo, a.index, a.index, weight * (a.coefficient * a.coefficient - 2 * target * a.coefficient));
+        for (let l = k + 1; l < terms.length; l++) {
+            addQuboTerm(qubo, a.index, terms[l].index, 2 * weight * a.coefficient * terms[l].coefficient);
+        }
+    });
+}
+
+export function evaluateQubo(qubo: Qubo, bits: ArrayLike<number>): number {
+    let energy = qubo.offset;
+    for (let i = 0; i < qubo.size; i++) {
+        if (!bits[i]) continue;
+        for (let j = i; j < qubo.size; j++) {
+            if (bits[j]) energy += qubo.Q[i][j];
+        }
+    }
+    return energy;
+}
+
+export function quboToIsing(qubo: Qubo): Ising {
+    const n = qubo.size;
+    const h = new Array(n).fill(0);
+    const J = Array.from({ length: n }, () => new Array(n).fill(0));
+    let offset = qubo.offset;
+
+    for (let i = 0; i < n; i++) {
+        // x_i = (1 - z_i) / 2
+        const a = qubo.Q[i][i];
+        offset += a / 2;
+        h[i] -= a / 2;
+
+        for (let j = i + 1; j < n; j++) {
+            // x_i x_j = (1 - z_i - z_j + z_i z_j) / 4
+            const b = qubo.Q[i][j];
+            if (b === 0) continue;
+            offset += b / 4;
+            h[i] -= b / 4;
+            h[j] -= b / 4;
+            J[i][j] += b / 4;
+        }
+    }
+
+    return { h, J, offset };
+}
+
+/** What one qubit of a routing encoding stands for */
+export type QuboVariable =
+    | { kind: 'visit'; vehicleId: string; customerId: string; position: number }
+    | { kind: 'slack'; vehicleId: string; weight: number }; // Unused capacity, binary-weighted
+
+export interface QuboEncoding {
+    qubo: Qubo;
+    ising: Ising;
+    numQubits: number;
+    variables: QuboVariable[];
+    maxLeg: number; // Costliest leg at its vehicle's costPerKm; the default penalties scale with it
+}
+
+export interface QuboOptions {
+    penalty?: number; // Weight of the visit-once and slot constraints
+    capacityPenalty?: number; // Weight per unit of capacity violation
+}
+
+interface VehicleLayout {
+    positions: number; // Route slots, capped by how many customers could fit
+    slackWeights: number[]; // Empty when capacity can never bind
+}
+
+function totalDemand(customers: LogisticsNode[]): number {
+    return customers.reduce((sum, c) => sum + (c.demand || 1), 0);
+}
+
+// Binary weights 1, 2, 4, … whose subset sums cover exactly 0..max
+function slackWeights(max: number): number[] {
+    const bound = Math.floor(max);
+    if (bound <= 0) return [];
+    const bits = Math.floor(Math.log2(bound)) + 1;
+    const weights = Array.from({ length: bits - 1 }, (_, k) => Math.pow(2, k));
+    weights.push(bound - (Math.pow(2, bits - 1) - 1));
+    return weights;
+}
+
+function layout(problem: LogisticsProblem): VehicleLayout[] {
+    const customers = problem.nodes.filter(n => n.type === 'customer');
+    const demand = totalDemand(customers);
+    const minDemand = Math.min(...customers.map(c => c.demand || 1));
+
+    return problem.vehicles.map(vehicle => {
+        if (vehicle.capacity >= demand) {
+            return { positions: customers.length, slackWeights: [] };
+        }
+        return {
+            positions: Math.min(customers.length, Math.floor(vehicle.capacity / minDemand)),
+            slackWeights: slackWeights(vehicle.capacity),
+        };
+    });
+}
+
+/** Qubits toQubo() would need, without building the matrix */
+export function quboQubitCount(problem: LogisticsProblem): number {
+    const customers = problem.nodes.filter(n => n.type === 'customer').length;
+    return layout(problem).reduce((sum, v) => sum + customers * v.positions + v.slackWeights.length, 0);
+}
+
+/**
+ * Encodes a routing instance as a QUBO over position slots.
+ * Qubit (v, c, p) is 1 when vehicle v visits customer c as its p-th stop.
+ * Penalties enforce that every customer is visited exactly once, that a slot
+ * holds at most one customer, that routes have no gaps, and that each
+ * vehicle's load plus its slack equals its capacity. Feasible assignments
+ * have energy equal to their total vehicle cost: distance at each vehicle's
+ * costPerKm, plus the fixedCost of every vehicle that serves a customer.
+ */
+export function toQubo(problem: LogisticsProblem, options: QuboOptions = {}): QuboEncoding {
+    if (problem.nodes.some(n => n.type === 'pickup' || n.type === 'delivery')) {
+        throw new Error("The QUBO encoding has no pickup-and-delivery precedence; use the annealing solver");
+    }
+    const nodesMap = new Map(problem.nodes.map(n => [n.id, n]));
+    const depot = problem.nodes.find(n => n.type === 'depot');
+    const customers = problem.nodes.filter(n => n.type === 'customer');
+    const layouts = layout(problem);
+    const matrix = createDistanceMatrix(problem);
+
+    const legs = customers.map(a => customers.map(b => matrix.distance(a.id, b.id)));
+    const endpoints = problem.vehicles.map(vehicle => {
+        const start = nodesMap.get(vehicle.startLocation) ?? depot;
+        const end = nodesMap.get(vehicle.endLocation ?? vehicle.startLocation) ?? start;
+        if (!start || !end) {
+            throw new Error(`Vehicle ${vehicle.id} has no start location`);
+        }
+        return {
+            out: customers.map(c => matrix.distance(start.id, c.id)),
+            back: customers.map(c => matrix.distance(c.id, end.id)),
+        };
+    });
+    const rates = problem.vehicles.map(vehicle => vehicle.costPerKm ?? 1);
+    const maxLeg = Math.max(0, ...legs.flat(), ...endpoints.flatMap(e => [...e.out, ...e.back])) *
+        Math.max(1, ...rates) || 1;
+    const maxFixed = Math.max(0, ...problem.vehicles.map(vehicle => vehicle.fixedCost ?? 0));
+    // Dropping a customer saves at most two legs and a fixed cost, so the penalty must exceed that
+    const penalty = options.penalty ?? 3 * maxLeg + maxFixed;
+    const capacityPenalty = options.capacityPenalty ?? penalty;
+
+    // Assign qubit indices: visit slots for each vehicle, then its slack bits
+    const variables: QuboVariable[] = [];
+    const visit: number[][][] = layouts.map((vehicleLayout, v) =>
+        customers.map(c =>
+            Array.from({ length: vehicleLayout.positions }, (_, position) => {
+                variables.push({ kind: 'visit', vehicleId: problem.vehicles[v].id, customerId: c.id, position });
+                return variables.length - 1;
+            })
+        )
+    );
+    const slack: number[][] = layouts.map((vehicleLayout, v) =>
+        vehicleLayout.slackWeights.map(weight => {
+            variables.push({ kind: 'slack', vehicleId: problem.vehicles[v].id, weight });
+            return variables.length - 1;
+        })
+    );
+
+    const qubo = createQubo(variables.length);
+    const m = customers.length;
+
+    // Every customer exactly once across all vehicles and slots
+    for (let c = 0; c < m; c++) {
+        addQuboPenalty(qubo, visit.flatMap(vehicle => vehicle[c]), penalty);
+    }
+
+    layouts.forEach(({ positions }, v) => {
+        const x = visit[v];
+        const rate = rates[v];
+        const out = endpoints[v].out.map(d => d * rate);
+        const back = endpoints[v].back.map(d => d * rate);
+
+        for (let p = 0; p < positions; p++) {
+            // At most one customer per slot
+            for (let c = 0; c < m; c++) {
+                for (let d = c + 1; d < m; d++) addQuboTerm(qubo, x[c][p], x[d][p], penalty);
+            }
+
+            if (p + 1 < positions) {
+                // No gaps: slot p+1 filled while slot p is empty
+                for (let c = 0; c < m; c++) {
+                    addQuboTerm(qubo, x[c][p + 1], x[c][p + 1], penalty);
+                    for (let d = 0; d < m; d++) addQuboTerm(qubo, x[c][p + 1], x[d][p], -penalty);
+                }
+            }
+
+            for (let c = 0; c < m; c++) {
+                // Routes have no gaps, so a filled first slot means the vehicle is used
+                if (p === 0) addQuboTerm(qubo, x[c][0], x[c][0], out[c] + (problem.vehicles[v].fixedCost ?? 0));
+
+                // Return leg from c, cancelled if another stop follows
+                addQuboTerm(qubo, x[c][p], x[c][p], back[c]);
+                if (p + 1 < positions) {
+                    for (let d = 0; d < m; d++) {
+                        addQuboTerm(qubo, x[c][p], x[d][p + 1], (c === d ? 0 : legs[c][d] * rate) - back[c]);
+                    }
+                }
+            }
+        }
+
+        if (slack[v].length > 0) {
+            const load = customers.flatMap((c, ci) =>
+                x[ci].map(index => ({ index, coefficient: c.demand || 1 }))
+            );
+            const spare = slack[v].map((index, k) => ({ index, coefficient: layouts[v].slackWeights[k] }));
+            addWeightedQuboPenalty(qubo, [...load, ...spare], capacityPenalty, problem.vehicles[v].capacity);
+        }
+    });
+
+    return { qubo, ising: quboToIsing(qubo), numQubits: variables.length, variables, maxLeg };
+}
+
+// Customer IDs per vehicle in slot order; a slot with several customers keeps the first
+function assignments(encoding: QuboEncoding, bits: string): Map<string, { customerId: string; position: number }[]> {
+    const byVehicle = new Map<string, { customerId: string; position: number }[]>();
+    encoding.variables.forEach((variable, i) => {
+        if (variable.kind !== 'visit' || bits[i] !== '1') return;
+        const stops = byVehicle.get(variable.vehicleId) ?? [];
+        stops.push({ customerId: variable.customerId, position: variable.position });
+        byVehicle.set(variable.vehicleId, stops);
+    });
+    byVehicle.forEach(stops => stops.sort((a, b) => a.position - b.position));
+    return byVehicle;
+}
+
+/**
+ * Reads a measured bitstring (qubit 0 first) back into one route per vehicle.
+ * Customers assigned more than once keep their first slot; unassigned ones are left out.
+ */
+export function decodeRoutes(problem: LogisticsProblem, encoding: QuboEncoding, bits: string): Route[] {
+    const nodesMap = new Map(problem.nodes.map(n => [n.id, n]));
+    const matrix = createDistanceMatrix(problem);
+    const byVehicle = assignments(encoding, bits);
+    const seen = new Set<string>();
+
+    return problem.vehicles.map(vehicle => {
+        const customerIds: string[] = [];
+        let lastPosition = -1;
+        for (const { customerId, position } of byVehicle.get(vehicle.id) ?? []) {
+            if (position === lastPosition || seen.has(customerId)) continue;
+            seen.add(customerId);
+            customerIds.push(customerId);
+            lastPosition = position;
+        }
+        const end = vehicle.endLocation ?? vehicle.startLocation;
+        return buildRoute(vehicle, [vehicle.startLocation, ...customerIds, end], nodesMap, problem.constraints, matrix);
+    });
+}
+
+/** True when the bitstring satisfies every routing constraint (slack bits are ignored) */
+export function isFeasibleAssignment(problem: LogisticsProblem, encoding: QuboEncoding, bits: string): boolean {
+    const nodesMap = new Map(problem.nodes.map(n => [n.id, n]));
+    const byVehicle = assignments(encoding, bits);
+    const visited: string[] = [];
+
+    for (const vehicle of problem.vehicles) {
+        const stops = byVehicle.get(vehicle.id) ?? [];
+        // Slots must be 0, 1, 2, … with exactly one customer each
+        if (stops.some((stop, i) => stop.position !== i)) return false;
+
+        const load = totalDemand(stops.map(s => nodesMap.get(s.customerId)!));
+        if (load > vehicle.capacity) return false;
+        visited.push(...stops.map(s => s.customerId));
+    }
+
+    const customers = problem.nodes.filter(n => n.type === 'customer');
+    return visited.length === customers.length && new Set(visited).size === customers.length;
+}
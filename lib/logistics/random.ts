@@ -0,0 +1,24 @@
+// Uniform source on [0, 1), interchangeable with Math.random
+export type RandomSource = () => number;
+
+// Mulberry32: tiny, fast and good enough for search heuristics
+export function createRng(seed: number): RandomSource {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Fisher-Yates shuffle into a new array
+export function shuffle<T>(items: T[], random: RandomSource): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
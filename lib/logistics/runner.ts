@@ -0,0 +1,27 @@
+import { LogisticsProblem } from './types';
+import { SessionOptions, SolverCommand, SolverEvent } from './session';
+
+export interface SolverRunner {
+    start: (problem: LogisticsProblem, options?: SessionOptions) => void;
+    pause: () => void;
+    resume: () => void;
+    cancel: () => void;
+    terminate: () => void;
+}
+
+// Main-thread handle on a solver worker; events arrive through onEvent
+export function createSolverRunner(onEvent: (event: SolverEvent) => void): SolverRunner {
+    const worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<SolverEvent>) => onEvent(e.data);
+    worker.onerror = (e) => onEvent({ type: 'error', message: e.message });
+
+    const send = (command: SolverCommand) => worker.postMessage(command);
+
+    return {
+        start: (problem, options) => send({ type: 'start', problem, options }),
+        pause: () => send({ type: 'pause' }),
+        resume: () => send({ type: 'resume' }),
+        cancel: () => send({ type: 'cancel' }),
+        terminate: () => worker.terminate(),
+    };
+}
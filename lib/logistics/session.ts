@@ -0,0 +1,133 @@
+import { LogisticsProblem } from './types';
+import { solveVRP, SolverOptions, SolverProgress, SolverResult, DEFAULT_SOLVER_OPTIONS } from './solver';
+
+// Options that survive structured cloning into a worker
+export type SessionOptions = Omit<SolverOptions, 'signal' | 'initialSolution'>;
+
+export type SolverCommand =
+    | { type: 'start'; problem: LogisticsProblem; options?: SessionOptions }
+    | { type: 'pause' }
+    | { type: 'resume' }
+    | { type: 'cancel' };
+
+export type SolverEvent =
+    | { type: 'progress'; state: SolverProgress }
+    | { type: 'paused'; result: SolverResult } // Best routes so far; 'resume' continues from them
+    | { type: 'done'; result: SolverResult }
+    | { type: 'cancelled' }
+    | { type: 'error'; message: string };
+
+interface Checkpoint {
+    routes: string[][]; // Customer IDs per vehicle
+    iteration: number;
+    temperature: number;
+}
+
+export interface SolverSession {
+    handle: (command: SolverCommand) => void;
+}
+
+/**
+ * Drives solveVRP from start/pause/resume/cancel commands, reporting through
+ * `post`. Pausing stops the current run and keeps its best routes, cooling
+ * temperature and iteration count; resuming starts a new run from there with
+ * the remaining iteration budget. Runs are numbered so a stale run that
+ * finishes after a restart or cancel is ignored.
+ */
+export function createSolverSession(post: (event: SolverEvent) => void): SolverSession {
+    let problem: LogisticsProblem | null = null;
+    let options: SessionOptions = {};
+    let controller: AbortController | null = null;
+    let checkpoint: Checkpoint | null = null;
+    let pauseRequested = false;
+    let runId = 0;
+
+    const run = async (from: Checkpoint | null) => {
+        if (!problem) return;
+        const id = ++runId;
+        const offset = from?.iteration ?? 0;
+        const maxIterations = options.maxIterations ?? DEFAULT_SOLVER_OPTIONS.maxIterations;
+        let last: SolverProgress = {
+            iteration: offset,
+            cost: Infinity,
+            temp: from?.temperature ?? options.initialTemperature ?? DEFAULT_SOLVER_OPTIONS.initialTemperature,
+            bestCost: Infinity,
+        };
+
+        controller = new AbortController();
+        pauseRequested = false;
+
+        try {
+            const result = await solveVRP(
+                problem,
+                state => {
+                    if (id !== runId) return;
+                    last = { ...state, iteration: state.iteration + offset };
+                    post({ type: 'progress', state: last });
+                },
+                {
+                    ...options,
+                    maxIterations: Math.max(0, maxIterations - offset),
+                    initialTemperature: last.temp,
+                    initialSolution: from?.routes,
+                    signal: controller.signal,
+                }
+            );
+            if (id !== runId) return;
+            controller = null;
+
+            if (result.status === 'cancelled' && pauseRequested) {
+                checkpoint = {
+                    routes: result.routes.map(r => r.stops.slice(1, -1)),
+                    iteration: last.iteration,
+                    temperature: last.temp,
+                };
+                post({ type: 'paused', result });
+            } else if (result.status === 'cancelled') {
+                post({ type: 'cancelled' });
+            } else {
+                post({ type: 'done', result });
+            }
+        } catch (err) {
+            if (id !== runId) return;
+            controller = null;
+            post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+        }
+    };
+
+    const handle = (command: SolverCommand) => {
+        switch (command.type) {
+            case 'start':
+                controller?.abort();
+                problem = command.problem;
+                options = command.options ?? {};
+                checkpoint = null;
+                run(null);
+                break;
+
+            case 'pause':
+                if (!controller) return;
+                pauseRequested = true;
+                controller.abort();
+                break;
+
+            case 'resume':
+                if (controller || !checkpoint) return;
+                run(checkpoint);
+                checkpoint = null;
+                break;
+
+            case 'cancel':
+                if (controller) {
+                    pauseRequested = false;
+                    controller.abort();
+                } else if (checkpoint) {
+                    checkpoint = null;
+                    post({ type: 'cancelled' });
+                }
+                break;
+        }
+    };
+
+    return { handle };
+}
@@ -1,51 +1,249 @@
-import { LogisticsProblem, LogisticsSolution, Route, LogisticsNode, GeoLocation } from './types';
-
-// Haversine distance in kilometers
-function distance(a: GeoLocation, b: GeoLocation): number {
-    const R = 6371;
-    const dLat = (b.lat - a.lat) * (Math.PI / 180);
-    const dLon = (b.lng - a.lng) * (Math.PI / 180);
-    const lat1 = a.lat * (Math.PI / 180);
-    const lat2 = b.lat * (Math.PI / 180);
-
-    const x = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-        Math.sin(dLon / 2) * Math.sin(dLon / 2) * Math.cos(lat1) * Math.cos(lat2);
-    const c = 2 * Math.atan2(Math.sqrt(x), Math.sqrt(1 - x));
-    return R * c;
+import {
+    LogisticsProblem,
+    LogisticsSolution,
+    Route,
+    RouteFeasibility,
+    LogisticsNode,
+    GeoLocation,
+    SolverMode,
+    Vehicle
+} from './types';
+import { RandomSource, createRng, shuffle } from './random';
+import { DistanceMatrix, createDistanceMatrix, distance, AVERAGE_SPEED_KMH } from './distance';
+
+export { distance, AVERAGE_SPEED_KMH } from './distance';
+
+// Cost added per unit of each constraint violation
+export interface PenaltyWeights {
+    capacity: number; // Per unit of overload
+    lateness: number; // Per minute late
+    distance: number; // Per km over maxDistance
+    time: number; // Per minute over maxTime
+    precedence: number; // Per pickup or delivery not served in order with its pair
+}
+
+export const DEFAULT_PENALTIES: PenaltyWeights = {
+    capacity: 100,
+    lateness: 5,
+    distance: 10,
+    time: 5,
+    precedence: 100,
+};
+
+// Every node a vehicle visits on behalf of someone: customers, pickups and deliveries
+export function isStop(node: LogisticsNode): boolean {
+    return node.type !== 'depot';
+}
+
+/**
+ * Stops grouped into what must travel together: a pickup followed by its
+ * delivery, or a single customer. Half-pairs whose partner is missing stand alone.
+ */
+export function stopUnits(problem: LogisticsProblem): string[][] {
+    const nodesMap = new Map(problem.nodes.map(n => [n.id, n]));
+    const units: string[][] = [];
+
+    for (const node of problem.nodes) {
+        if (!isStop(node)) continue;
+        const partner = node.pairedWith ? nodesMap.get(node.pairedWith) : undefined;
+        const paired = partner?.pairedWith === node.id &&
+            ((node.type === 'pickup' && partner.type === 'delivery') ||
+                (node.type === 'delivery' && partner.type === 'pickup'));
+
+        if (!paired) {
+            units.push([node.id]);
+        } else if (node.type === 'pickup') {
+            units.push([node.id, partner.id]);
+        }
+    }
+
+    return units;
+}
+
+export interface RouteEvaluation {
+    distance: number;
+    load: number; // Demand handled: customer orders plus picked-up goods
+    cost: number; // Vehicle operating cost, before penalties
+    feasibility: RouteFeasibility;
+}
+
+// Operating cost of driving `km` with a vehicle; the fixed cost applies only to used vehicles
+export function vehicleCost(vehicle: Vehicle, km: number, used: boolean): number {
+    return km * (vehicle.costPerKm ?? 1) + (used ? vehicle.fixedCost ?? 0 : 0);
+}
+
+/**
+ * Walks a stop sequence, tracking load, arrival times and constraint violations.
+ * Legs come from `matrix` when given, otherwise great-circle at AVERAGE_SPEED_KMH.
+ */
+export function evaluateRoute(
+    vehicle: Vehicle,
+    stops: string[],
+    nodesMap: Map<string, LogisticsNode>,
+    constraints: LogisticsProblem['constraints'] = {},
+    matrix?: DistanceMatrix
+): RouteEvaluation {
+    let totalDistance = 0;
+    let load = 0;
+    let time = 0;
+    let lateness = 0;
+    let used = false;
+    const lateStops: string[] = [];
+    const unpairedStops: string[] = [];
+    const position = new Map(stops.map((id, i) => [id, i]));
+
+    // Customer orders leave the depot on board; pickups add to the load until delivered
+    let onboard = stops.reduce((sum, id) => {
+        const node = nodesMap.get(id);
+        return node?.type === 'customer' ? sum + (node.demand || 1) : sum;
+    }, 0);
+    let peak = onboard;
+
+    for (let i = 0; i < stops.length; i++) {
+        const node = nodesMap.get(stops[i]);
+        if (!node) continue;
+
+        const prev = i > 0 ? nodesMap.get(stops[i - 1]) : undefined;
+        if (prev && matrix) {
+            totalDistance += matrix.distance(prev.id, node.id);
+            time += matrix.duration(prev.id, node.id);
+        } else if (prev) {
+            const d = distance(prev.location, node.location);
+            totalDistance += d;
+            time += (d / AVERAGE_SPEED_KMH) * 60;
+        }
+
+        if (!isStop(node)) continue;
+        const demand = node.demand || 1;
+        used = true;
+
+        if (node.type === 'pickup') {
+            load += demand;
+            onboard += demand;
+            peak = Math.max(peak, onboard);
+            const partner = node.pairedWith ? position.get(node.pairedWith) : undefined;
+            if (partner === undefined || partner < i) unpairedStops.push(node.id);
+        } else if (node.type === 'delivery') {
+            onboard -= demand;
+            const partner = node.pairedWith ? position.get(node.pairedWith) : undefined;
+            if (partner === undefined || partner > i) unpairedStops.push(node.id);
+        } else {
+            load += demand;
+            onboard -= demand;
+        }
+
+        if (node.timeWindow) {
+            if (time < node.timeWindow.start) time = node.timeWindow.start;
+            if (time > node.timeWindow.end) {
+                lateness += time - node.timeWindow.end;
+                lateStops.push(node.id);
+            }
+        }
+    }
+
+    const overload = Math.max(0, peak - vehicle.capacity);
+    const excessDistance = Math.max(0, totalDistance - (constraints.maxDistance ?? Infinity));
+    const excessTime = Math.max(0, time - (constraints.maxTime ?? Infinity));
+
+    return {
+        distance: totalDistance,
+        load,
+        cost: vehicleCost(vehicle, totalDistance, used),
+        feasibility: {
+            feasible: overload === 0 && lateness === 0 && excessDistance === 0 && excessTime === 0 &&
+                unpairedStops.length === 0,
+            overload,
+            lateness,
+            lateStops,
+            excessDistance,
+            excessTime,
+            unpairedStops,
+            duration: time,
+        },
+    };
+}
+
+// Operating cost plus weighted constraint violations
+export function routeCost(evaluation: RouteEvaluation, penalties: PenaltyWeights = DEFAULT_PENALTIES): number {
+    const f = evaluation.feasibility;
+    return evaluation.cost +
+        penalties.capacity * f.overload +
+        penalties.lateness * f.lateness +
+        penalties.distance * f.excessDistance +
+        penalties.time * f.excessTime +
+        penalties.precedence * f.unpairedStops.length;
+}
+
+// Distance, load, feasibility and map segments for a fixed sequence of node IDs
+export function buildRoute(
+    vehicle: Vehicle,
+    stops: string[],
+    nodesMap: Map<string, LogisticsNode>,
+    constraints?: LogisticsProblem['constraints'],
+    matrix?: DistanceMatrix
+): Route {
+    const evaluation = evaluateRoute(vehicle, stops, nodesMap, constraints, matrix);
+    const segments: { from: GeoLocation; to: GeoLocation }[] = [];
+
+    for (let i = 0; i < stops.length - 1; i++) {
+        const u = nodesMap.get(stops[i]);
+        const v = nodesMap.get(stops[i + 1]);
+        if (u && v) segments.push({ from: u.location, to: v.location });
+    }
+
+    return {
+        vehicleId: vehicle.id,
+        stops,
+        totalDistance: evaluation.distance,
+        totalLoad: evaluation.load,
+        totalCost: evaluation.cost,
+        segments,
+        color: vehicle.color || '#ff0000',
+        feasibility: evaluation.feasibility
+    };
 }
 
 type VRPSolutionState = string[][];
 
-// Greedy Nearest Neighbor baseline
-function greedyBaseline(problem: LogisticsProblem): { routes: Route[]; totalCost: number } {
+// Greedy Nearest Neighbor baseline: each vehicle fills up from its own start and finishes at its own end
+export function greedyBaseline(problem: LogisticsProblem): { routes: Route[]; totalCost: number } {
     const nodesMap = new Map(problem.nodes.map(n => [n.id, n]));
-    const customers = problem.nodes.filter(n => n.type === 'customer').map(n => n.id);
+    const customers = problem.nodes.filter(isStop).map(n => n.id);
     const vehicles = problem.vehicles;
-    const depot = problem.nodes.find(n => n.type === 'depot');
 
-    if (!depot) {
+    if (!problem.nodes.some(n => n.type === 'depot') || findUnknownEndpoint(problem, nodesMap)) {
         return { routes: [], totalCost: Infinity };
     }
 
+    const matrix = createDistanceMatrix(problem);
     const assigned = new Set<string>();
     const routes: Route[] = [];
-    let totalCost = 0;
 
     vehicles.forEach((vehicle) => {
-        const route: string[] = [depot.id];
-        let currentPos = depot.location;
-        let load = 0;
+        const route: string[] = [vehicle.startLocation];
+        let currentId = vehicle.startLocation;
+        // Customer orders are loaded at the start, so each one raises the load up to here as well
+        let onboard = 0;
+        let peak = 0;
+
+        const fits = (node: LogisticsNode) => {
+            const demand = node.demand || 1;
+            if (node.type === 'customer') return peak + demand <= vehicle.capacity;
+            if (node.type === 'pickup') return Math.max(peak, onboard + demand) <= vehicle.capacity;
+            // A delivery only follows its own pickup on this route
+            return node.type === 'delivery' && !!node.pairedWith && route.includes(node.pairedWith);
+        };
 
         while (true) {
-            // Find nearest unassigned customer
+            // Find nearest unassigned stop that fits
             let nearest: string | null = null;
             let nearestDist = Infinity;
 
             for (const custId of customers) {
                 if (assigned.has(custId)) continue;
                 const cust = nodesMap.get(custId)!;
-                const d = distance(currentPos, cust.location);
-                if (d < nearestDist && load + (cust.demand || 1) <= vehicle.capacity) {
+                const d = matrix.distance(currentId, custId);
+                if (d < nearestDist && fits(cust)) {
                     nearestDist = d;
                     nearest = custId;
                 }
@@ -56,72 +254,232 @@ function greedyBaseline(problem: LogisticsProblem): { routes: Route[]; totalCost
             route.push(nearest);
             assigned.add(nearest);
             const custNode = nodesMap.get(nearest)!;
-            currentPos = custNode.location;
-            load += custNode.demand || 1;
-        }
-
-        route.push(depot.id);
-
-        // Calculate segments and distance
-        let routeDistance = 0;
-        const segments: { from: GeoLocation; to: GeoLocation }[] = [];
-
-        for (let i = 0; i < route.length - 1; i++) {
-            const from = nodesMap.get(route[i])!;
-            const to = nodesMap.get(route[i + 1])!;
-            const d = distance(from.location, to.location);
-            routeDistance += d;
-            segments.push({ from: from.location, to: to.location });
+            currentId = nearest;
+
+            const demand = custNode.demand || 1;
+            if (custNode.type === 'customer') {
+                peak += demand;
+            } else if (custNode.type === 'pickup') {
+                onboard += demand;
+                peak = Math.max(peak, onboard);
+            } else {
+                onboard -= demand;
+            }
         }
 
-        totalCost += routeDistance;
+        route.push(vehicle.endLocation ?? vehicle.startLocation);
 
         routes.push({
-            vehicleId: vehicle.id,
-            stops: route,
-            totalDistance: routeDistance,
-            totalLoad: load,
-            segments,
+            ...buildRoute(vehicle, route, nodesMap, problem.constraints, matrix),
             color: vehicle.color || '#888888'
         });
     });
 
-    return { routes, totalCost };
+    return { routes, totalCost: routes.reduce((sum, r) => sum + r.totalCost, 0) };
 }
 
-function generateInitialSolution(problem: LogisticsProblem): VRPSolutionState {
-    const customers = problem.nodes.filter(n => n.type === 'customer').map(n => n.id);
+// First vehicle start or end that is not a node of the problem, as a message
+function findUnknownEndpoint(problem: LogisticsProblem, nodesMap: Map<string, LogisticsNode>): string | null {
+    for (const vehicle of problem.vehicles) {
+        if (!nodesMap.has(vehicle.startLocation)) {
+            return `Vehicle ${vehicle.id} starts at unknown location ${vehicle.startLocation}`;
+        }
+        if (vehicle.endLocation && !nodesMap.has(vehicle.endLocation)) {
+            return `Vehicle ${vehicle.id} ends at unknown location ${vehicle.endLocation}`;
+        }
+    }
+    return null;
+}
+
+function generateInitialSolution(problem: LogisticsProblem, random: RandomSource): VRPSolutionState {
     const vehicles = problem.vehicles;
     const routes: string[][] = Array(vehicles.length).fill(null).map(() => []);
 
-    // Shuffle customers for randomness
-    const shuffled = [...customers].sort(() => Math.random() - 0.5);
+    // Shuffle customers for randomness; pickup-delivery pairs stay together and in order
+    const shuffled = shuffle(stopUnits(problem), random);
 
-    shuffled.forEach((custId, idx) => {
+    shuffled.forEach((unit, idx) => {
         const vehicleIdx = idx % vehicles.length;
-        routes[vehicleIdx].push(custId);
+        routes[vehicleIdx].push(...unit);
     });
 
     return routes;
 }
 
+// Starts from given routes; stops they leave out join their pair's route or the route with the fewest stops
+function seedSolution(problem: LogisticsProblem, initial: string[][]): VRPSolutionState {
+    const known = new Set(problem.nodes.filter(isStop).map(n => n.id));
+    const placed = new Set<string>();
+
+    const routes = problem.vehicles.map((_, idx) => (initial[idx] ?? []).filter(id => {
+        if (!known.has(id) || placed.has(id)) return false;
+        placed.add(id);
+        return true;
+    }));
+
+    for (const unit of stopUnits(problem)) {
+        const missing = unit.filter(id => !placed.has(id));
+        if (missing.length === 0) continue;
+        const host = routes.find(route => unit.some(id => route.includes(id))) ??
+            routes.reduce((a, b) => (b.length < a.length ? b : a));
+        host.push(...missing);
+    }
+
+    return routes;
+}
+
+export interface SolverProgress {
+    iteration: number;
+    cost: number;
+    temp: number;
+    bestCost: number;
+}
+
 export interface SolverResult extends LogisticsSolution {
     baselineCost: number;
     improvement: number;
     improvementPercent: number;
+    solver: SolverMode;
+}
+
+export type CoolingSchedule = 'geometric' | 'linear' | 'adaptive';
+
+// Relative weights of the neighbourhood moves; normalized before use
+export interface MoveProbabilities {
+    relocate: number;
+    swap: number;
+    twoOpt: number;
+    orOpt: number;
+    pairRelocate: number; // Moves a pickup and its delivery together; unused without pairs
+}
+
+export interface SolverOptions {
+    seed?: number; // Same seed and options reproduce the same solution
+    initialTemperature?: number;
+    schedule?: CoolingSchedule;
+    coolingRate?: number; // Per-iteration factor for geometric and adaptive cooling
+    maxIterations?: number;
+    timeBudgetMs?: number; // Stops early once exceeded; runs are then no longer reproducible
+    reheatAfter?: number; // Adaptive: iterations without a new best before reheating
+    reheatTemperature?: number; // Adaptive: fraction of the initial temperature to reheat to
+    moveProbabilities?: Partial<MoveProbabilities>;
+    penalties?: Partial<PenaltyWeights>;
+    initialSolution?: string[][]; // Stop IDs per vehicle to start from, e.g. a paused run's best routes
+    signal?: AbortSignal; // Checked every 30 iterations; the best solution so far is returned as 'cancelled'
+}
+
+export const DEFAULT_SOLVER_OPTIONS = {
+    initialTemperature: 500,
+    schedule: 'geometric' as CoolingSchedule,
+    coolingRate: 0.997,
+    maxIterations: 3000,
+    reheatAfter: 300,
+    reheatTemperature: 0.5,
+    moveProbabilities: { relocate: 0.4, swap: 0.3, twoOpt: 0.2, orOpt: 0.1, pairRelocate: 0.2 } as MoveProbabilities,
+};
+
+/**
+ * Removes customers from infeasible routes (cheapest removal first), then
+ * re-inserts each one at the cheapest position that keeps its route feasible.
+ * A pickup and its delivery on the same route are removed and re-inserted
+ * together. Stops that fit nowhere are returned as unassigned.
+ */
+function enforceFeasibility(
+    state: VRPSolutionState,
+    evaluate: (customerIds: string[], vehicleIdx: number) => RouteEvaluation,
+    cost: (customerIds: string[], vehicleIdx: number) => number,
+    pairs: string[][]
+): { state: VRPSolutionState; unassigned: string[] } {
+    const partners = new Map(pairs.flatMap(([pickup, delivery]) => [[pickup, delivery], [delivery, pickup]]));
+    const next = state.map(r => [...r]);
+    const dropped = new Set<string>();
+
+    next.forEach((route, idx) => {
+        while (route.length > 0 && !evaluate(route, idx).feasibility.feasible) {
+            let removal: string[] = [];
+            let cheapest = Infinity;
+            for (const id of route) {
+                const partner = partners.get(id);
+                const unit = partner && route.includes(partner) ? [id, partner] : [id];
+                const c = cost(route.filter(other => !unit.includes(other)), idx);
+                if (c < cheapest) {
+                    cheapest = c;
+                    removal = unit;
+                }
+            }
+            for (const id of removal) {
+                route.splice(route.indexOf(id), 1);
+                dropped.add(id);
+            }
+        }
+    });
+
+    // Rejoin dropped pairs so they go back in as pickup then delivery
+    const units: string[][] = [];
+    for (const id of dropped) {
+        const partner = partners.get(id);
+        if (!partner || !dropped.has(partner)) {
+            units.push([id]);
+        } else if (!units.some(unit => unit.includes(partner))) {
+            units.push(pairs.find(pair => pair.includes(id))!);
+        }
+    }
+
+    const unassigned: string[] = [];
+    for (const unit of units) {
+        let best: { idx: number; route: string[]; delta: number } | null = null;
+        for (let idx = 0; idx < next.length; idx++) {
+            const route = next[idx];
+            const before = evaluate(route, idx).cost;
+            for (const candidate of insertions(route, unit)) {
+                const evaluation = evaluate(candidate, idx);
+                const delta = evaluation.cost - before;
+                if (evaluation.feasibility.feasible && (!best || delta < best.delta)) {
+                    best = { idx, route: candidate, delta };
+                }
+            }
+        }
+
+        if (best) {
+            next[best.idx] = best.route;
+        } else {
+            unassigned.push(...unit);
+        }
+    }
+
+    return { state: next, unassigned };
+}
+
+// Every way to insert a unit into a route while keeping the unit's own order
+function insertions(route: string[], unit: string[]): string[][] {
+    if (unit.length === 0) return [route];
+    const [first, ...rest] = unit;
+    const result: string[][] = [];
+    for (let pos = 0; pos <= route.length; pos++) {
+        const head = [...route.slice(0, pos), first];
+        for (const tail of insertions(route.slice(pos), rest)) result.push([...head, ...tail]);
+    }
+    return result;
 }
 
 export async function solveVRP(
     problem: LogisticsProblem,
-    onProgress: (state: { iteration: number; cost: number; temp: number; bestCost: number }) => void
+    onProgress: (state: SolverProgress) => void,
+    options: SolverOptions = {}
 ): Promise<SolverResult> {
     const nodesMap = new Map(problem.nodes.map(n => [n.id, n]));
     const vehicles = problem.vehicles;
-    const depot = problem.nodes.find(n => n.type === 'depot');
 
-    if (!depot) {
+    if (!problem.nodes.some(n => n.type === 'depot')) {
         throw new Error("No depot found in problem");
     }
+    const unknownEndpoint = findUnknownEndpoint(problem, nodesMap);
+    if (unknownEndpoint) {
+        throw new Error(unknownEndpoint);
+    }
+
+    // Every leg is looked up from here on instead of recomputed
+    const matrix = createDistanceMatrix(problem);
 
     // Calculate baseline first
     const baseline = greedyBaseline(problem);
@@ -134,142 +492,201 @@ export async function solveVRP(
         return [start, ...customerIds, end];
     };
 
-    const getCost = (state: VRPSolutionState) => {
-        let cost = 0;
-        state.forEach((routeCusts, idx) => {
-            const fullPath = getFullOrbit(routeCusts, idx);
-            for (let i = 0; i < fullPath.length - 1; i++) {
-                const u = nodesMap.get(fullPath[i]);
-                const v = nodesMap.get(fullPath[i + 1]);
-                if (u && v) cost += distance(u.location, v.location);
-            }
-        });
-        return cost;
-    };
+    const penalties = { ...DEFAULT_PENALTIES, ...options.penalties };
+    const {
+        initialTemperature,
+        schedule,
+        coolingRate,
+        maxIterations: maxIter,
+        reheatAfter,
+        reheatTemperature,
+    } = { ...DEFAULT_SOLVER_OPTIONS, ...options };
+    const random = options.seed !== undefined ? createRng(options.seed) : Math.random;
+
+    const pairs = stopUnits(problem).filter(unit => unit.length === 2);
+
+    // Cumulative thresholds for picking a move type
+    const moves = { ...DEFAULT_SOLVER_OPTIONS.moveProbabilities, ...options.moveProbabilities };
+    const pairWeight = pairs.length > 0 ? moves.pairRelocate : 0;
+    const moveTotal = moves.relocate + moves.swap + moves.twoOpt + moves.orOpt + pairWeight;
+    if (!(moveTotal > 0)) {
+        throw new Error("Move probabilities must sum to a positive number");
+    }
+    const relocateUpTo = moves.relocate / moveTotal;
+    const swapUpTo = relocateUpTo + moves.swap / moveTotal;
+    const twoOptUpTo = swapUpTo + moves.twoOpt / moveTotal;
+    const orOptUpTo = twoOptUpTo + moves.orOpt / moveTotal;
+
+    const evaluate = (customerIds: string[], vehicleIdx: number) =>
+        evaluateRoute(vehicles[vehicleIdx], getFullOrbit(customerIds, vehicleIdx), nodesMap, problem.constraints, matrix);
 
-    const newState = (currentState: VRPSolutionState): VRPSolutionState => {
+    const routeCostOf = (customerIds: string[], vehicleIdx: number) =>
+        routeCost(evaluate(customerIds, vehicleIdx), penalties);
+
+    // CVRPTW objective: distance plus weighted capacity, time-window and route-limit violations
+    const getCost = (state: VRPSolutionState) =>
+        state.reduce((cost, routeCusts, idx) => cost + routeCostOf(routeCusts, idx), 0);
+
+    // Returns the neighbour and the routes it touched, so only those are re-evaluated
+    const newState = (currentState: VRPSolutionState): { next: VRPSolutionState; changed: number[] } => {
         const next = currentState.map(r => [...r]);
-        const moveType = Math.random();
+        const changed: number[] = [];
+        const moveType = random();
 
-        if (moveType < 0.4) {
+        if (moveType < relocateUpTo) {
             // Relocate
-            const r1 = Math.floor(Math.random() * next.length);
+            const r1 = Math.floor(random() * next.length);
             if (next[r1].length > 0) {
-                const cIdx = Math.floor(Math.random() * next[r1].length);
+                const cIdx = Math.floor(random() * next[r1].length);
                 const cust = next[r1].splice(cIdx, 1)[0];
-                const r2 = Math.floor(Math.random() * next.length);
-                const insertPos = Math.floor(Math.random() * (next[r2].length + 1));
+                const r2 = Math.floor(random() * next.length);
+                const insertPos = Math.floor(random() * (next[r2].length + 1));
                 next[r2].splice(insertPos, 0, cust);
+                changed.push(r1, r2);
             }
-        } else if (moveType < 0.7) {
+        } else if (moveType < swapUpTo) {
             // Inter-route swap
-            const r1 = Math.floor(Math.random() * next.length);
-            const r2 = Math.floor(Math.random() * next.length);
+            const r1 = Math.floor(random() * next.length);
+            const r2 = Math.floor(random() * next.length);
             if (next[r1].length > 0 && next[r2].length > 0) {
-                const c1Idx = Math.floor(Math.random() * next[r1].length);
-                const c2Idx = Math.floor(Math.random() * next[r2].length);
+                const c1Idx = Math.floor(random() * next[r1].length);
+                const c2Idx = Math.floor(random() * next[r2].length);
                 const temp = next[r1][c1Idx];
                 next[r1][c1Idx] = next[r2][c2Idx];
                 next[r2][c2Idx] = temp;
+                changed.push(r1, r2);
             }
-        } else if (moveType < 0.9) {
+        } else if (moveType < twoOptUpTo) {
             // Intra-route 2-opt
-            const r = Math.floor(Math.random() * next.length);
+            const r = Math.floor(random() * next.length);
             if (next[r].length > 2) {
-                const i = Math.floor(Math.random() * (next[r].length - 1));
-                const j = i + 1 + Math.floor(Math.random() * (next[r].length - i - 1));
+                const i = Math.floor(random() * (next[r].length - 1));
+                const j = i + 1 + Math.floor(random() * (next[r].length - i - 1));
                 // Reverse segment
                 const segment = next[r].slice(i, j + 1).reverse();
                 next[r].splice(i, segment.length, ...segment);
+                changed.push(r);
             }
-        } else {
+        } else if (pairs.length === 0 || moveType < orOptUpTo) {
             // Or-opt: move sequence of 2-3 customers
-            const r = Math.floor(Math.random() * next.length);
+            const r = Math.floor(random() * next.length);
             if (next[r].length > 3) {
-                const seqLen = 2 + Math.floor(Math.random() * 2);
-                const start = Math.floor(Math.random() * (next[r].length - seqLen));
+                const seqLen = 2 + Math.floor(random() * 2);
+                const start = Math.floor(random() * (next[r].length - seqLen));
                 const seq = next[r].splice(start, seqLen);
-                const insertPos = Math.floor(Math.random() * (next[r].length + 1));
+                const insertPos = Math.floor(random() * (next[r].length + 1));
                 next[r].splice(insertPos, 0, ...seq);
+                changed.push(r);
+            }
+        } else {
+            // Pair relocate: reinsert a pickup and its delivery, in order, on one route
+            const [pickup, delivery] = pairs[Math.floor(random() * pairs.length)];
+            for (const id of [pickup, delivery]) {
+                const r = next.findIndex(route => route.includes(id));
+                if (r >= 0) {
+                    next[r].splice(next[r].indexOf(id), 1);
+                    changed.push(r);
+                }
             }
+            const r = Math.floor(random() * next.length);
+            const pickupPos = Math.floor(random() * (next[r].length + 1));
+            const deliveryPos = pickupPos + 1 + Math.floor(random() * (next[r].length - pickupPos + 1));
+            next[r].splice(pickupPos, 0, pickup);
+            next[r].splice(deliveryPos, 0, delivery);
+            changed.push(r);
         }
 
-        return next;
+        return { next, changed };
     };
 
-    let current = generateInitialSolution(problem);
-    let currentCost = getCost(current);
+    const sum = (costs: number[]) => costs.reduce((total, c) => total + c, 0);
+
+    let current = options.initialSolution
+        ? seedSolution(problem, options.initialSolution)
+        : generateInitialSolution(problem, random);
+    let currentCosts = current.map(routeCostOf);
+    let currentCost = sum(currentCosts);
     let best = current;
     let bestCost = currentCost;
-    let temp = 500;
-    const coolingRate = 0.997;
-    const maxIter = 3000;
+    let temp = initialTemperature;
+    let sinceImprovement = 0;
+    const startedAt = Date.now();
+    let iterations = maxIter;
+    let cancelled = false;
 
     // Initial progress
     onProgress({ iteration: 0, cost: currentCost, temp, bestCost });
 
     for (let i = 0; i < maxIter; i++) {
-        const neighbor = newState(current);
-        const neighborCost = getCost(neighbor);
+        const { next: neighbor, changed } = newState(current);
+        const neighborCosts = [...currentCosts];
+        for (const idx of changed) neighborCosts[idx] = routeCostOf(neighbor[idx], idx);
+        const neighborCost = sum(neighborCosts);
         const delta = neighborCost - currentCost;
 
-        if (delta < 0 || Math.random() < Math.exp(-delta / temp)) {
+        sinceImprovement++;
+        if (delta < 0 || random() < Math.exp(-delta / temp)) {
             current = neighbor;
+            currentCosts = neighborCosts;
             currentCost = neighborCost;
 
             if (currentCost < bestCost) {
                 best = current.map(r => [...r]);
                 bestCost = currentCost;
+                sinceImprovement = 0;
             }
         }
 
-        temp *= coolingRate;
+        if (schedule === 'linear') {
+            temp = initialTemperature * (1 - (i + 1) / maxIter);
+        } else {
+            temp *= coolingRate;
+            // Adaptive: escape a stalled search by raising the temperature again
+            if (schedule === 'adaptive' && sinceImprovement >= reheatAfter) {
+                temp = Math.max(temp, initialTemperature * reheatTemperature);
+                sinceImprovement = 0;
+            }
+        }
 
         if (i % 30 === 0) {
             onProgress({ iteration: i, cost: currentCost, temp, bestCost });
             await new Promise(r => setTimeout(r, 1));
+
+            if (options.signal?.aborted) {
+                iterations = i + 1;
+                cancelled = true;
+                break;
+            }
+            if (options.timeBudgetMs !== undefined && Date.now() - startedAt >= options.timeBudgetMs) {
+                iterations = i + 1;
+                break;
+            }
         }
     }
 
     // Final progress
-    onProgress({ iteration: maxIter, cost: bestCost, temp, bestCost });
+    onProgress({ iteration: iterations, cost: bestCost, temp, bestCost });
 
-    // Build final routes
-    const finalRoutes: Route[] = best.map((custIds, idx) => {
-        const fullIds = getFullOrbit(custIds, idx);
-        const vehicle = vehicles[idx];
-
-        let d = 0;
-        const segments: { from: GeoLocation; to: GeoLocation }[] = [];
-
-        for (let i = 0; i < fullIds.length - 1; i++) {
-            const u = nodesMap.get(fullIds[i]);
-            const v = nodesMap.get(fullIds[i + 1]);
-            if (u && v) {
-                d += distance(u.location, v.location);
-                segments.push({ from: u.location, to: v.location });
-            }
-        }
+    // Penalties only discourage violations, so repair whatever is still infeasible
+    const repaired = enforceFeasibility(best, evaluate, routeCostOf, pairs);
 
-        return {
-            vehicleId: vehicle.id,
-            stops: fullIds,
-            totalDistance: d,
-            totalLoad: custIds.length,
-            segments,
-            color: vehicle.color || '#ff0000'
-        };
-    });
+    // Build final routes
+    const finalRoutes: Route[] = repaired.state.map((custIds, idx) =>
+        buildRoute(vehicles[idx], getFullOrbit(custIds, idx), nodesMap, problem.constraints, matrix)
+    );
+    const totalCost = getCost(repaired.state);
 
-    const improvement = baselineCost - bestCost;
+    const improvement = baselineCost - totalCost;
     const improvementPercent = (improvement / baselineCost) * 100;
 
     return {
         routes: finalRoutes,
-        totalCost: bestCost,
-        status: 'completed',
+        totalCost,
+        unassignedNodes: repaired.unassigned,
+        status: cancelled ? 'cancelled' : 'completed',
         baselineCost,
         improvement,
-        improvementPercent
+        improvementPercent,
+        solver: 'annealing'
     };
 }
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { LogisticsProblem, LogisticsSolution, SolverState, UIState, LogisticsNode } from './types';
+import { LogisticsProblem, LogisticsSolution, SolverState, SolverMode, UIState, LogisticsNode, TravelModel } from './types';
 
 interface LogisticsStore {
     // Problem State
@@ -10,14 +10,19 @@ interface LogisticsStore {
     // Solver State
     solution: LogisticsSolution | null;
     solverState: SolverState;
+    solverMode: SolverMode;
+    comparison: Partial<Record<SolverMode | 'greedy', number>>; // Best cost per method for the current problem
 
     // UI State
     ui: UIState;
 
     // Actions
     setProblem: (problem: LogisticsProblem) => void;
+    setTravelModel: (travel: TravelModel | undefined) => void;
     setSolution: (solution: LogisticsSolution) => void;
     updateSolverState: (update: Partial<SolverState>) => void;
+    setSolverMode: (mode: SolverMode) => void;
+    recordResult: (mode: SolverMode, cost: number, baselineCost: number) => void;
     setLoading: (loading: boolean) => void;
     setError: (error: string | null) => void;
 
@@ -30,6 +35,7 @@ interface LogisticsStore {
 
 const DEFAULT_SOLVER_STATE: SolverState = {
     isRunning: false,
+    isPaused: false,
     iteration: 0,
     temperature: 500,
     currentCost: 0,
@@ -51,9 +57,16 @@ export const useLogisticsStore = create<LogisticsStore>((set) => ({
 
     solution: null,
     solverState: DEFAULT_SOLVER_STATE,
+    solverMode: 'annealing',
+    comparison: {},
     ui: DEFAULT_UI_STATE,
 
-    setProblem: (problem) => set({ problem, error: null }),
+    setProblem: (problem) => set({ problem, error: null, comparison: {} }),
+
+    // Costs under another travel model are not comparable, so the comparison starts over
+    setTravelModel: (travel) => set((state) => state.problem
+        ? { problem: { ...state.problem, travel }, comparison: {} }
+        : {}),
 
     setSolution: (solution) => set({ solution }),
 
@@ -76,6 +89,12 @@ export const useLogisticsStore = create<LogisticsStore>((set) => ({
         };
     }),
 
+    setSolverMode: (solverMode) => set({ solverMode }),
+
+    recordResult: (mode, cost, baselineCost) => set((state) => ({
+        comparison: { ...state.comparison, [mode]: cost, greedy: baselineCost },
+    })),
+
     setLoading: (isLoading) => set({ isLoading }),
 
     setError: (error) => set({ error }),
@@ -90,6 +109,7 @@ export const useLogisticsStore = create<LogisticsStore>((set) => ({
         problem: null,
         solution: null,
         solverState: DEFAULT_SOLVER_STATE,
+        comparison: {},
         error: null,
         isLoading: false,
     }),
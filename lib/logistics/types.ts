@@ -7,19 +7,32 @@ export interface LogisticsNode {
     id: string;
     name?: string;
     location: GeoLocation;
-    type: 'depot' | 'customer';
-    demand?: number; // For capacity constraints
-    timeWindow?: { start: number; end: number }; // For time window constraints
+    type: 'depot' | 'customer' | 'pickup' | 'delivery';
+    demand?: number; // For capacity constraints; loaded at a pickup, unloaded at its delivery
+    pairedWith?: string; // Pickup: its delivery's node ID; delivery: its pickup's node ID
+    timeWindow?: { start: number; end: number }; // Minutes after the vehicle departs; early arrivals wait
 }
 
 export interface Vehicle {
     id: string;
     capacity: number;
     startLocation: string; // Node ID
-    endLocation?: string; // Node ID
+    endLocation?: string; // Node ID; defaults to startLocation, another depot makes an open route
+    costPerKm?: number; // Defaults to 1, so costs read as km
+    fixedCost?: number; // Charged once when the vehicle serves any customer
     color?: string; // For visualization
 }
 
+/**
+ * How travel between nodes is measured. 'road' takes the Manhattan (or
+ * great-circle) distance times a detour factor; 'matrix' uses distances in
+ * km and durations in minutes from a file, rows and columns in `ids` order.
+ */
+export type TravelModel =
+    | { kind: 'haversine'; speedKmh?: number }
+    | { kind: 'road'; metric?: 'manhattan' | 'haversine'; factor?: number; speedKmh?: number }
+    | { kind: 'matrix'; ids: string[]; distances: number[][]; durations?: number[][]; speedKmh?: number };
+
 export interface LogisticsProblem {
     id: string;
     name: string;
@@ -27,9 +40,21 @@ export interface LogisticsProblem {
     nodes: LogisticsNode[];
     vehicles: Vehicle[];
     constraints?: {
-        maxDistance?: number;
-        maxTime?: number;
+        maxDistance?: number; // km per route
+        maxTime?: number; // Minutes per route, including waiting
     };
+    travel?: TravelModel; // Defaults to haversine at AVERAGE_SPEED_KMH
+}
+
+export interface RouteFeasibility {
+    feasible: boolean;
+    overload: number; // Demand above the vehicle's capacity
+    lateness: number; // Minutes past time-window ends, summed over stops
+    lateStops: string[];
+    excessDistance: number; // km beyond constraints.maxDistance
+    excessTime: number; // Minutes beyond constraints.maxTime
+    unpairedStops: string[]; // Pickups and deliveries not served in order on the same route as their pair
+    duration: number; // Minutes from departure to return
 }
 
 export interface Route {
@@ -37,12 +62,17 @@ export interface Route {
     stops: string[]; // Order of Node IDs
     totalDistance: number;
     totalLoad: number;
+    totalCost: number; // totalDistance × costPerKm, plus fixedCost when used
     segments?: { from: GeoLocation; to: GeoLocation }[]; // For 3D drawing
     color: string;
+    feasibility?: RouteFeasibility;
 }
 
+export type SolverMode = 'annealing' | 'qaoa';
+
 export interface SolverState {
     isRunning: boolean;
+    isPaused: boolean;
     iteration: number;
     temperature: number;
     currentCost: number;
@@ -55,7 +85,7 @@ export interface LogisticsSolution {
     routes: Route[];
     totalCost: number;
     unassignedNodes?: string[];
-    status: 'optimizing' | 'completed' | 'failed';
+    status: 'optimizing' | 'completed' | 'cancelled' | 'failed'; // 'cancelled': stopped early, routes are the best so far
 }
 
 export interface UIState {
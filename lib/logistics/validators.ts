@@ -0,0 +1,397 @@
+/**
+ * Logistics Problem Validators
+ * Checks a LogisticsProblem before solving and suggests automatic repairs
+ */
+
+import { LogisticsNode, LogisticsProblem, Vehicle } from './types';
+import { distance } from './distance';
+
+// Issue codes
+export const ProblemIssueCodes = {
+    NO_NODES: 'NO_NODES',
+    NO_DEPOT: 'NO_DEPOT',
+    NO_VEHICLES: 'NO_VEHICLES',
+    DUPLICATE_NODE_ID: 'DUPLICATE_NODE_ID',
+    DUPLICATE_VEHICLE_ID: 'DUPLICATE_VEHICLE_ID',
+    INVALID_LOCATION: 'INVALID_LOCATION',
+    DISTANT_LOCATION: 'DISTANT_LOCATION',
+    INVALID_DEMAND: 'INVALID_DEMAND',
+    INVALID_TIME_WINDOW: 'INVALID_TIME_WINDOW',
+    INVALID_PAIR: 'INVALID_PAIR',
+    PAIR_DEMAND_MISMATCH: 'PAIR_DEMAND_MISMATCH',
+    INVALID_CAPACITY: 'INVALID_CAPACITY',
+    INVALID_COST: 'INVALID_COST',
+    UNKNOWN_START_LOCATION: 'UNKNOWN_START_LOCATION',
+    UNKNOWN_END_LOCATION: 'UNKNOWN_END_LOCATION',
+    STOP_EXCEEDS_CAPACITY: 'STOP_EXCEEDS_CAPACITY',
+    DEMAND_EXCEEDS_FLEET: 'DEMAND_EXCEEDS_FLEET',
+    TRAVEL_MATRIX_INCOMPLETE: 'TRAVEL_MATRIX_INCOMPLETE',
+} as const;
+
+export type ProblemIssueCode = typeof ProblemIssueCodes[keyof typeof ProblemIssueCodes];
+
+export interface ProblemRepair {
+    description: string;
+    apply: (problem: LogisticsProblem) => LogisticsProblem; // Returns a repaired copy
+}
+
+export interface ProblemIssue {
+    severity: 'error' | 'warning'; // Errors make the problem unsolvable or its routes infeasible
+    code: ProblemIssueCode;
+    message: string;
+    path?: string; // e.g. "nodes[3].demand"
+    repair?: ProblemRepair;
+}
+
+export interface ProblemValidation {
+    valid: boolean; // No errors; warnings may remain
+    issues: ProblemIssue[];
+}
+
+// Configuration limits
+export const LIMITS = {
+    MAX_DEPOT_DISTANCE_KM: 500, // Stops further from every depot are probably misplaced
+} as const;
+
+const isStop = (node: LogisticsNode) => node.type !== 'depot';
+const demandOf = (node: LogisticsNode) => node.demand || 1; // As the solver counts it
+
+// Copies with one node or vehicle replaced
+function updateNode(problem: LogisticsProblem, index: number, update: (node: LogisticsNode) => LogisticsNode): LogisticsProblem {
+    return { ...problem, nodes: problem.nodes.map((n, i) => (i === index ? update(n) : n)) };
+}
+
+function updateVehicle(problem: LogisticsProblem, index: number, update: (vehicle: Vehicle) => Vehicle): LogisticsProblem {
+    return { ...problem, vehicles: problem.vehicles.map((v, i) => (i === index ? update(v) : v)) };
+}
+
+function omit<T extends object, K extends keyof T>(value: T, key: K): Omit<T, K> {
+    const copy = { ...value };
+    delete copy[key];
+    return copy;
+}
+
+function uniqueId(base: string, taken: Set<string>): string {
+    let suffix = 2;
+    while (taken.has(`${base}_${suffix}`)) suffix++;
+    return `${base}_${suffix}`;
+}
+
+function validLocation(node: LogisticsNode): boolean {
+    const { lat, lng } = node.location ?? {};
+    return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+function checkNodes(problem: LogisticsProblem, issues: ProblemIssue[]): void {
+    const seen = new Set<string>();
+    const ids = new Set(problem.nodes.map(n => n.id));
+
+    problem.nodes.forEach((node, i) => {
+        const path = `nodes[${i}]`;
+
+        if (seen.has(node.id)) {
+            const id = uniqueId(node.id, ids);
+            issues.push({
+                severity: 'error',
+                code: ProblemIssueCodes.DUPLICATE_NODE_ID,
+                message: `Node ID "${node.id}" is used more than once`,
+                path: `${path}.id`,
+                repair: { description: `Rename the duplicate to "${id}"`, apply: p => updateNode(p, i, n => ({ ...n, id })) },
+            });
+        }
+        seen.add(node.id);
+
+        if (!validLocation(node)) {
+            issues.push({
+                severity: 'error',
+                code: ProblemIssueCodes.INVALID_LOCATION,
+                message: `Node "${node.id}" has invalid coordinates`,
+                path: `${path}.location`,
+                repair: isStop(node)
+                    ? { description: `Remove stop "${node.id}"`, apply: p => ({ ...p, nodes: p.nodes.filter((_, j) => j !== i) }) }
+                    : undefined,
+            });
+        }
+
+        if (node.demand !== undefined && (!Number.isFinite(node.demand) || node.demand < 0)) {
+            const fixed = Number.isFinite(node.demand) ? Math.abs(node.demand) : undefined;
+            issues.push({
+                severity: 'error',
+                code: ProblemIssueCodes.INVALID_DEMAND,
+                message: `Node "${node.id}" has demand ${node.demand}; demand must be zero or more`,
+                path: `${path}.demand`,
+                repair: {
+                    description: fixed !== undefined ? `Set the demand to ${fixed}` : 'Use the default demand of 1',
+                    apply: p => updateNode(p, i, n => ({ ...n, demand: fixed })),
+                },
+            });
+        }
+
+        const window = node.timeWindow;
+        if (window && !(window.start >= 0 && window.end >= window.start)) {
+            const start = Math.max(0, Math.min(window.start, window.end));
+            const end = Math.max(window.start, window.end, start);
+            issues.push({
+                severity: 'error',
+                code: ProblemIssueCodes.INVALID_TIME_WINDOW,
+                message: `Node "${node.id}" has time window ${window.start}–${window.end}`,
+                path: `${path}.timeWindow`,
+                repair: Number.isFinite(start) && !Number.isNaN(end)
+                    ? { description: `Use ${start}–${end}`, apply: p => updateNode(p, i, n => ({ ...n, timeWindow: { start, end } })) }
+                    : undefined,
+            });
+        }
+    });
+}
+
+// Pickups and deliveries must point at each other; anything else is not a pair
+function checkPairs(problem: LogisticsProblem, issues: ProblemIssue[]): void {
+    const byId = new Map(problem.nodes.map(n => [n.id, n]));
+
+    problem.nodes.forEach((node, i) => {
+        const path = `nodes[${i}]`;
+        const partner = node.pairedWith !== undefined ? byId.get(node.pairedWith) : undefined;
+
+        if (node.type === 'pickup' || node.type === 'delivery') {
+            const expected = node.type === 'pickup' ? 'delivery' : 'pickup';
+            if (partner?.type === expected && partner.pairedWith === node.id) {
+                if (node.type === 'delivery' && demandOf(node) !== demandOf(partner)) {
+                    issues.push({
+                        severity: 'warning',
+                        code: ProblemIssueCodes.PAIR_DEMAND_MISMATCH,
+                        message: `Delivery "${node.id}" drops ${demandOf(node)} but its pickup "${partner.id}" loads ${demandOf(partner)}`,
+                        path: `${path}.demand`,
+                        repair: {
+                            description: `Set the delivery's demand to ${demandOf(partner)}`,
+                            apply: p => updateNode(p, i, n => ({ ...n, demand: partner.demand })),
+                        },
+                    });
+                }
+                return;
+            }
+            issues.push({
+                severity: 'error',
+                code: ProblemIssueCodes.INVALID_PAIR,
+                message: node.pairedWith === undefined
+                    ? `${node.type === 'pickup' ? 'Pickup' : 'Delivery'} "${node.id}" has no paired ${expected}`
+                    : `${node.type === 'pickup' ? 'Pickup' : 'Delivery'} "${node.id}" is paired with "${node.pairedWith}", which is not its ${expected}`,
+                path: `${path}.pairedWith`,
+                repair: {
+                    description: `Serve "${node.id}" as an ordinary customer`,
+                    apply: p => updateNode(p, i, n => ({ ...omit(n, 'pairedWith'), type: 'customer' })),
+                },
+            });
+        } else if (node.pairedWith !== undefined) {
+            issues.push({
+                severity: 'warning',
+                code: ProblemIssueCodes.INVALID_PAIR,
+                message: `${node.type === 'depot' ? 'Depot' : 'Customer'} "${node.id}" has a pairedWith, which only pickups and deliveries use`,
+                path: `${path}.pairedWith`,
+                repair: { description: 'Remove pairedWith', apply: p => updateNode(p, i, n => omit(n, 'pairedWith')) },
+            });
+        }
+    });
+}
+
+function checkVehicles(problem: LogisticsProblem, issues: ProblemIssue[]): void {
+    const depots = problem.nodes.filter(n => n.type === 'depot');
+    const depotIds = new Set(depots.map(n => n.id));
+    const vehicleIds = new Set(problem.vehicles.map(v => v.id));
+    const seen = new Set<string>();
+    const validCapacities = problem.vehicles.map(v => v.capacity).filter(c => Number.isFinite(c) && c > 0);
+    const maxStopDemand = Math.max(1, ...problem.nodes.filter(isStop).map(demandOf));
+
+    if (problem.vehicles.length === 0) {
+        const capacity = Math.max(maxStopDemand, problem.nodes.filter(isStop).reduce((sum, n) => sum + demandOf(n), 0));
+        issues.push({
+            severity: 'error',
+            code: ProblemIssueCodes.NO_VEHICLES,
+            message: 'The problem has no vehicles',
+            path: 'vehicles',
+            repair: depots.length > 0
+                ? {
+                    description: `Add one vehicle with capacity ${capacity} at "${depots[0].id}"`,
+                    apply: p => ({ ...p, vehicles: [{ id: 'vehicle_0', capacity, startLocation: depots[0].id }] }),
+                }
+                : undefined,
+        });
+    }
+
+    problem.vehicles.forEach((vehicle, i) => {
+        const path = `vehicles[${i}]`;
+
+        if (seen.has(vehicle.id)) {
+            const id = uniqueId(vehicle.id, vehicleIds);
+            issues.push({
+                severity: 'error',
+                code: ProblemIssueCodes.DUPLICATE_VEHICLE_ID,
+                message: `Vehicle ID "${vehicle.id}" is used more than once`,
+                path: `${path}.id`,
+                repair: { description: `Rename the duplicate to "${id}"`, apply: p => updateVehicle(p, i, v => ({ ...v, id })) },
+            });
+        }
+        seen.add(vehicle.id);
+
+        if (!Number.isFinite(vehicle.capacity) || vehicle.capacity <= 0) {
+            const capacity = validCapacities.length > 0 ? Math.max(...validCapacities) : maxStopDemand;
+            issues.push({
+                severity: 'error',
+                code: ProblemIssueCodes.INVALID_CAPACITY,
+                message: `Vehicle "${vehicle.id}" has capacity ${vehicle.capacity}; capacity must be positive`,
+                path: `${path}.capacity`,
+                repair: { description: `Set the capacity to ${capacity}`, apply: p => updateVehicle(p, i, v => ({ ...v, capacity })) },
+            });
+        }
+
+        for (const key of ['costPerKm', 'fixedCost'] as const) {
+            const value = vehicle[key];
+            if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+                issues.push({
+                    severity: 'error',
+                    code: ProblemIssueCodes.INVALID_COST,
+                    message: `Vehicle "${vehicle.id}" has ${key} ${value}; costs must be zero or more`,
+                    path: `${path}.${key}`,
+                    repair: { description: `Use the default ${key}`, apply: p => updateVehicle(p, i, v => omit(v, key)) },
+                });
+            }
+        }
+
+        if (!depotIds.has(vehicle.startLocation)) {
+            issues.push({
+                severity: 'error',
+                code: ProblemIssueCodes.UNKNOWN_START_LOCATION,
+                message: `Vehicle "${vehicle.id}" starts at "${vehicle.startLocation}", which is not a depot`,
+                path: `${path}.startLocation`,
+                repair: depots.length > 0
+                    ? { description: `Start at "${depots[0].id}"`, apply: p => updateVehicle(p, i, v => ({ ...v, startLocation: depots[0].id })) }
+                    : undefined,
+            });
+        }
+
+        if (vehicle.endLocation !== undefined && !depotIds.has(vehicle.endLocation)) {
+            issues.push({
+                severity: 'error',
+                code: ProblemIssueCodes.UNKNOWN_END_LOCATION,
+                message: `Vehicle "${vehicle.id}" ends at "${vehicle.endLocation}", which is not a depot`,
+                path: `${path}.endLocation`,
+                repair: { description: 'Return to the start depot', apply: p => updateVehicle(p, i, v => omit(v, 'endLocation')) },
+            });
+        }
+    });
+}
+
+// Capacity checks only once every vehicle has a usable capacity
+function checkFleetCapacity(problem: LogisticsProblem, issues: ProblemIssue[]): void {
+    const capacities = problem.vehicles.map(v => v.capacity);
+    if (capacities.length === 0 || capacities.some(c => !Number.isFinite(c) || c <= 0)) return;
+
+    const largest = capacities.indexOf(Math.max(...capacities));
+    const stops = problem.nodes.filter(isStop);
+    const heaviest = stops.reduce<LogisticsNode | null>((a, n) => (!a || demandOf(n) > demandOf(a) ? n : a), null);
+    if (heaviest && demandOf(heaviest) > capacities[largest]) {
+        const needed = demandOf(heaviest);
+        issues.push({
+            severity: 'error',
+            code: ProblemIssueCodes.STOP_EXCEEDS_CAPACITY,
+            message: `Stop "${heaviest.id}" needs ${needed}, more than any vehicle carries (${capacities[largest]})`,
+            path: `vehicles[${largest}].capacity`,
+            repair: {
+                description: `Raise "${problem.vehicles[largest].id}" to capacity ${needed}`,
+                apply: p => updateVehicle(p, largest, v => ({ ...v, capacity: needed })),
+            },
+        });
+        return;
+    }
+
+    // Deliveries are loaded at their pickups, so only customers and pickups count towards the total
+    const total = stops.filter(n => n.type !== 'delivery').reduce((sum, n) => sum + demandOf(n), 0);
+    const fleet = capacities.reduce((sum, c) => sum + c, 0);
+    if (total > fleet) {
+        const scale = total / fleet;
+        issues.push({
+            severity: 'warning',
+            code: ProblemIssueCodes.DEMAND_EXCEEDS_FLEET,
+            message: `Total demand ${total} exceeds the fleet's capacity of ${fleet}; some routes will be overloaded`,
+            path: 'vehicles',
+            repair: {
+                description: `Scale every vehicle's capacity by ${scale.toFixed(2)}×`,
+                apply: p => ({ ...p, vehicles: p.vehicles.map(v => ({ ...v, capacity: Math.ceil(v.capacity * scale) })) }),
+            },
+        });
+    }
+}
+
+function checkDistances(problem: LogisticsProblem, issues: ProblemIssue[]): void {
+    const depots = problem.nodes.filter(n => n.type === 'depot' && validLocation(n));
+    if (depots.length === 0) return;
+
+    problem.nodes.forEach((node, i) => {
+        if (!isStop(node) || !validLocation(node)) return;
+        const nearest = Math.min(...depots.map(d => distance(d.location, node.location)));
+        if (nearest > LIMITS.MAX_DEPOT_DISTANCE_KM) {
+            issues.push({
+                severity: 'warning',
+                code: ProblemIssueCodes.DISTANT_LOCATION,
+                message: `Stop "${node.id}" is ${Math.round(nearest)} km from the nearest depot`,
+                path: `nodes[${i}].location`,
+            });
+        }
+    });
+
+    const travel = problem.travel;
+    if (travel?.kind === 'matrix') {
+        const covered = new Set(travel.ids);
+        const missing = problem.nodes.filter(n => !covered.has(n.id)).map(n => n.id);
+        if (missing.length > 0) {
+            issues.push({
+                severity: 'error',
+                code: ProblemIssueCodes.TRAVEL_MATRIX_INCOMPLETE,
+                message: `The distance matrix has no entry for ${missing.slice(0, 3).join(', ')}${missing.length > 3 ? ` and ${missing.length - 3} more` : ''}`,
+                path: 'travel',
+                repair: { description: 'Use great-circle distances instead', apply: p => omit(p, 'travel') },
+            });
+        }
+    }
+}
+
+/**
+ * Validate a problem, collecting every issue rather than stopping at the
+ * first. Checks that depend on earlier ones (fleet capacity needs valid
+ * capacities) are skipped until those pass.
+ */
+export function validateProblem(problem: LogisticsProblem): ProblemValidation {
+    const issues: ProblemIssue[] = [];
+
+    if (problem.nodes.length === 0) {
+        issues.push({ severity: 'error', code: ProblemIssueCodes.NO_NODES, message: 'The problem has no nodes', path: 'nodes' });
+    } else if (!problem.nodes.some(n => n.type === 'depot')) {
+        issues.push({ severity: 'error', code: ProblemIssueCodes.NO_DEPOT, message: 'The problem has no depot', path: 'nodes' });
+    }
+
+    checkNodes(problem, issues);
+    checkPairs(problem, issues);
+    checkVehicles(problem, issues);
+    checkFleetCapacity(problem, issues);
+    checkDistances(problem, issues);
+
+    return { valid: !issues.some(i => i.severity === 'error'), issues };
+}
+
+/**
+ * Apply suggested repairs one at a time, re-validating after each, until
+ * nothing repairable is left. Returns the repaired copy and what was done.
+ */
+export function repairProblem(problem: LogisticsProblem): { problem: LogisticsProblem; repairs: string[] } {
+    const repairs: string[] = [];
+    let current = problem;
+
+    // Each repair removes its issue; the cap only guards against repairs that undo each other
+    for (let step = 0; step < 10 * (problem.nodes.length + problem.vehicles.length + 1); step++) {
+        const issue = validateProblem(current).issues.find(i => i.repair);
+        if (!issue?.repair) break;
+        current = issue.repair.apply(current);
+        repairs.push(`${issue.message}: ${issue.repair.description.charAt(0).toLowerCase()}${issue.repair.description.slice(1)}`);
+    }
+
+    return { problem: current, repairs };
+}
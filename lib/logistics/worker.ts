@@ -0,0 +1,8 @@
+/// <reference lib="webworker" />
+// Web Worker entry: runs solver sessions off the main thread so the map stays responsive
+import { createSolverSession, SolverCommand } from './session';
+
+const scope = self as unknown as DedicatedWorkerGlobalScope;
+const session = createSolverSession(event => scope.postMessage(event));
+
+scope.onmessage = (e: MessageEvent<SolverCommand>) => session.handle(e.data);
@@ -0,0 +1,244 @@
+/**
+ * Custom Gate Registry Tests
+ */
+import {
+    defineGate,
+    removeGate,
+    getCustomGates,
+    expandSubcircuits,
+    subcircuitMatrix,
+    subcircuitFromCircuit,
+    serializeCustomGates,
+    restoreCustomGates,
+    parseMatrixText,
+    SubcircuitGateDefinition,
+} from '../custom-gates';
+import { GATE_LIBRARY, H, CNOT } from '../gates';
+import { complex } from '../complex';
+import { matrixMultiply, tensorProduct, identity } from '../matrix';
+import { QuantumSimulator } from '../simulator';
+import { parseCircuitDSL } from '../dsl';
+import { parseOpenQASM } from '../qasm';
+import { exportToQiskit, exportToOpenQASM, exportToQSharp } from '@/lib/ai/exporters';
+
+const bell: SubcircuitGateDefinition = {
+    kind: 'subcircuit',
+    name: 'Bell',
+    qubits: 2,
+    gates: [
+        { gate: 'H', qubits: [0] },
+        { gate: 'CNOT', qubits: [0, 1] },
+    ],
+};
+
+function expectMatrixClose(actual: { real: number; imag: number }[][], expected: { real: number; imag: number }[][]) {
+    expect(actual.length).toBe(expected.length);
+    actual.forEach((row, i) => row.forEach((entry, j) => {
+        expect(entry.real).toBeCloseTo(expected[i][j].real, 10);
+        expect(entry.imag).toBeCloseTo(expected[i][j].imag, 10);
+    }));
+}
+
+afterEach(() => {
+    // Users before the gates they are built from
+    [...getCustomGates()].reverse().forEach(d => removeGate(d.name));
+});
+
+describe('defineGate', () => {
+    test('registers matrix gates that the simulator applies', () => {
+        defineGate({ kind: 'matrix', name: 'MyX', qubits: 1, matrix: [[complex(0), complex(1)], [complex(1), complex(0)]] });
+
+        expect(GATE_LIBRARY.MyX.symbol).toBe('MyX');
+        const sim = new QuantumSimulator(1);
+        sim.apply('MyX', 0);
+        expect(sim.getProbabilities()[1]).toBeCloseTo(1);
+    });
+
+    test('rejects non-unitary matrices, wrong shapes and built-in names', () => {
+        const notUnitary = [[complex(1), complex(1)], [complex(0), complex(1)]];
+        expect(() => defineGate({ kind: 'matrix', name: 'Shear', qubits: 1, matrix: notUnitary })).toThrow(/not unitary/);
+        expect(() => defineGate({ kind: 'matrix', name: 'Small', qubits: 2, matrix: H })).toThrow(/must be 4×4/);
+        expect(() => defineGate({ kind: 'matrix', name: 'H', qubits: 1, matrix: H })).toThrow(/built-in/);
+        expect(() => defineGate({ kind: 'matrix', name: '2bad', qubits: 1, matrix: H })).toThrow(/Gate name/);
+        expect(getCustomGates()).toEqual([]);
+    });
+
+    test('composes subcircuits into their unitary', () => {
+        defineGate(bell);
+
+        const expected = matrixMultiply(CNOT, tensorProduct(H, identity(2)));
+        expectMatrixClose(subcircuitMatrix(bell), expected);
+
+        const sim = new QuantumSimulator(3);
+        sim.apply('Bell', 2, 0);
+        const probs = sim.getProbabilities();
+        expect(probs[0]).toBeCloseTo(0.5);
+        expect(probs[0b101]).toBeCloseTo(0.5);
+    });
+
+    test('binds subcircuit parameters when applied', () => {
+        defineGate({
+            kind: 'subcircuit',
+            name: 'Flip',
+            qubits: 1,
+            params: ['theta'],
+            gates: [{ gate: 'Rx', qubits: [0], params: ['theta'] }],
+        });
+
+        const sim = new QuantumSimulator(1);
+        sim.apply('Flip', [Math.PI], 0);
+        expect(sim.getProbabilities()[1]).toBeCloseTo(1);
+        expect(parseCircuitDSL(`const sim = new QuantumSimulator(1);\nsim.apply('Flip', [0.5], 0);`).diagnostics).toEqual([]);
+    });
+
+    test('validates the gates inside a subcircuit', () => {
+        const withMeasure = { ...bell, name: 'Bad', gates: [{ gate: 'MEASURE', qubits: [0] }] };
+        expect(() => defineGate(withMeasure)).toThrow('Bad, gate 1: MEASURE is not unitary and cannot be part of a gate');
+        expect(() => defineGate({ ...bell, name: 'Wide', qubits: 1 })).toThrow(/Wide, gate 2/);
+        expect(() => defineGate({ ...bell, name: 'Angle', gates: [{ gate: 'Rz', qubits: [0], params: ['phi'] }] })).toThrow(/one of Angle's parameters/);
+    });
+});
+
+describe('composition', () => {
+    test('expands nested subcircuits onto the circuit qubits', () => {
+        defineGate(bell);
+        defineGate({
+            kind: 'subcircuit',
+            name: 'Pairs',
+            qubits: 3,
+            params: ['t'],
+            gates: [
+                { gate: 'Bell', qubits: [2, 0] },
+                { gate: 'Rz', qubits: [1], params: ['t'] },
+            ],
+        });
+
+        const condition = { clbits: [0], value: 1 };
+        expect(expandSubcircuits([{ gate: 'Pairs', qubits: [3, 4, 5], params: ['gamma'], condition }])).toEqual([
+            { gate: 'H', qubits: [5], condition },
+            { gate: 'CNOT', qubits: [5, 3], condition },
+            { gate: 'Rz', qubits: [4], params: ['gamma'], condition },
+        ]);
+    });
+
+    test('refuses to remove gates that others are built from, and cycles', () => {
+        defineGate(bell);
+        defineGate({ kind: 'subcircuit', name: 'Outer', qubits: 2, gates: [{ gate: 'Bell', qubits: [0, 1] }] });
+
+        expect(() => removeGate('Bell')).toThrow('Bell is used by Outer; remove those first');
+        expect(() => defineGate({ ...bell, gates: [{ gate: 'Outer', qubits: [0, 1] }] })).toThrow(/Outer already contains Bell/);
+        expect(() => removeGate('CNOT')).toThrow(/built-in/);
+    });
+
+    test('drafts a subcircuit from circuit gates', () => {
+        const draft = subcircuitFromCircuit('Block', [
+            { gate: 'H', qubits: [2] },
+            { gate: 'CPhase', qubits: [3, 2], params: ['phi'] },
+        ]);
+
+        expect(draft).toEqual({
+            kind: 'subcircuit',
+            name: 'Block',
+            qubits: 2,
+            params: ['phi'],
+            gates: [
+                { gate: 'H', qubits: [0] },
+                { gate: 'CPhase', qubits: [1, 0], params: ['phi'] },
+            ],
+        });
+        expect(defineGate(draft).params).toEqual(['phi']);
+    });
+});
+
+describe('persistence', () => {
+    test('round-trips definitions and skips invalid ones', () => {
+        defineGate(bell);
+        defineGate({ kind: 'matrix', name: 'Had', qubits: 1, matrix: H });
+        const json = serializeCustomGates();
+        [...getCustomGates()].reverse().forEach(d => removeGate(d.name));
+
+        const zero = { kind: 'matrix', name: 'Zero', qubits: 1, matrix: [[], []] };
+        const { defined, errors, skipped } = restoreCustomGates(JSON.stringify([...JSON.parse(json), zero]));
+
+        expect(defined).toEqual(['Bell', 'Had']);
+        expect(errors).toEqual(['Zero acts on 1 qubit(s), so its matrix must be 2×2']);
+        expect(skipped).toEqual([zero]);
+        expect(getCustomGates().map(d => d.kind)).toEqual(['subcircuit', 'matrix']);
+        expect(restoreCustomGates('{')).toMatchObject({ errors: ['Saved custom gates are not valid JSON'], skipped: null });
+    });
+
+    test('parses typed matrices', () => {
+        expect(parseMatrixText('1 0\n0 -i')).toEqual([[complex(1), complex(0)], [complex(0), complex(0, -1)]]);
+        expect(parseMatrixText('0.5+0.5i, 0.5-0.5i\n.5-.5i 0.5+.5j')).toEqual([
+            [complex(0.5, 0.5), complex(0.5, -0.5)],
+            [complex(0.5, -0.5), complex(0.5, 0.5)],
+        ]);
+        expect(parseMatrixText('1 x')).toBeNull();
+    });
+});
+
+describe('exporters', () => {
+    test('decompose subcircuits and define matrix gates', () => {
+        defineGate(bell);
+        defineGate({ kind: 'matrix', name: 'Had', qubits: 1, matrix: H });
+        defineGate({ kind: 'matrix', name: 'Swap2', qubits: 2, matrix: GATE_LIBRARY.SWAP.matrix as typeof H });
+        const circuit = {
+            numQubits: 2,
+            gates: [
+                { name: 'Bell', qubits: [1, 0] },
+                { name: 'Had', qubits: [0] },
+                { name: 'Swap2', qubits: [0, 1] },
+            ],
+        };
+
+        const qiskit = exportToQiskit(circuit).code;
+        expect(qiskit).toContain('quantum_circuit.h(qr[1])\nquantum_circuit.cx(qr[1], qr[0])');
+        expect(qiskit).toContain("Had_gate = UnitaryGate(np.array([\n    [0.7071067811865475, 0.7071067811865475],");
+        expect(qiskit).toContain('quantum_circuit.append(Swap2_gate, [qr[1], qr[0]])');
+
+        const qasm = exportToOpenQASM({ ...circuit, gates: circuit.gates.slice(0, 2) }).code;
+        expect(qasm).toContain('h q[1];\ncx q[1], q[0];');
+        expect(qasm).toContain('gate Had a { U(1.5707963267948966, 0, 3.141592653589793) a; }');
+        expect(qasm).toContain('Had q[0];');
+    });
+
+    test('write one-qubit matrix gates to OpenQASM as U rotations equal up to global phase', () => {
+        const [S, T, X] = [GATE_LIBRARY.S.matrix, GATE_LIBRARY.T.matrix, GATE_LIBRARY.X.matrix] as (typeof H)[];
+        const matrices = {
+            Had: H,
+            Mixer: matrixMultiply(S, matrixMultiply(H, T)), // No zero entries
+            Flip: X, // Diagonal vanishes
+            Phase8: T, // Off-diagonal vanishes
+            PhasedHad: H.map(row => row.map(({ real, imag }) => complex(-imag, real))), // i·H
+        };
+
+        for (const [name, matrix] of Object.entries(matrices)) {
+            defineGate({ kind: 'matrix', name, qubits: 1, matrix });
+            const { gates } = parseOpenQASM(exportToOpenQASM({ numQubits: 1, gates: [{ name, qubits: [0] }] }).code);
+            const exported = subcircuitMatrix({ kind: 'subcircuit', name: 'Exported', qubits: 1, gates: gates.filter(g => g.gate !== 'MEASURE') });
+
+            // Global phase taken from the largest entry
+            const [i, j] = matrix[0][0].real ** 2 + matrix[0][0].imag ** 2 > 0.25 ? [0, 0] : [1, 0];
+            const { real: a, imag: b } = exported[i][j];
+            const { real: c, imag: d } = matrix[i][j];
+            const norm = c * c + d * d;
+            const phase = complex((a * c + b * d) / norm, (b * c - a * d) / norm);
+            expectMatrixClose(exported, matrix.map(row => row.map(({ real, imag }) => complex(
+                real * phase.real - imag * phase.imag,
+                real * phase.imag + imag * phase.real
+            ))));
+        }
+    });
+
+    test('write one-qubit matrix gates to Q# as rotations and refuse larger ones', () => {
+        defineGate({ kind: 'matrix', name: 'Had', qubits: 1, matrix: H });
+        const qsharp = exportToQSharp({ numQubits: 1, gates: [{ name: 'Had', qubits: [0] }] }).code;
+        expect(qsharp).toContain('operation Had(q : Qubit) : Unit {\n        Rz(3.141592653589793, q);\n        Ry(1.5707963267948966, q);\n        Rz(0.0, q);\n    }');
+        expect(qsharp).toContain('        Had(qubits[0]);');
+
+        defineGate({ kind: 'matrix', name: 'Swap2', qubits: 2, matrix: GATE_LIBRARY.SWAP.matrix as typeof H });
+        const swap = { numQubits: 2, gates: [{ name: 'Swap2', qubits: [0, 1] }] };
+        expect(() => exportToQSharp(swap)).toThrow('Swap2 is a 2-qubit matrix gate; only one-qubit matrix gates can be exported to Q# and OpenQASM');
+        expect(() => exportToOpenQASM(swap)).toThrow(/only one-qubit matrix gates/);
+    });
+});
@@ -0,0 +1,71 @@
+import { DensityMatrixSimulator } from '../density-matrix';
+import { QuantumSimulator } from '../simulator';
+import { amplitudeDampingKraus } from '../noise';
+
+describe('DensityMatrixSimulator', () => {
+    test('matches the state vector simulator for pure states', () => {
+        const dm = new DensityMatrixSimulator(2);
+        const sv = new QuantumSimulator(2);
+        for (const sim of [dm, sv]) {
+            sim.apply('H', 0);
+            sim.apply('Ry', [0.7], 1);
+            sim.apply('CNOT', 0, 1);
+        }
+
+        const dmProbs = dm.getProbabilities();
+        sv.getProbabilities().forEach((p, i) => expect(dmProbs[i]).toBeCloseTo(p));
+
+        const dmBloch = dm.getBlochCoordinates(1);
+        const svBloch = sv.getBlochCoordinates(1);
+        expect(dmBloch.x).toBeCloseTo(svBloch.x);
+        expect(dmBloch.y).toBeCloseTo(svBloch.y);
+        expect(dmBloch.z).toBeCloseTo(svBloch.z);
+        expect(dm.getPurity()).toBeCloseTo(1);
+    });
+
+    test('entangled qubit has a shrunken Bloch vector', () => {
+        const dm = new DensityMatrixSimulator(2);
+        dm.apply('H', 0);
+        dm.apply('CNOT', 0, 1);
+
+        const { x, y, z } = dm.getBlochCoordinates(0);
+        expect(Math.sqrt(x * x + y * y + z * z)).toBeCloseTo(0);
+    });
+
+    test('depolarizing noise reduces purity exactly', () => {
+        const dm = new DensityMatrixSimulator({ numQubits: 1, noiseModel: { depolarizing: 0.3 } });
+        dm.apply('H', 0);
+
+        // Bloch vector shrinks by 1 - 4p/3
+        const { x } = dm.getBlochCoordinates(0);
+        expect(x).toBeCloseTo(1 - 0.4);
+        expect(dm.getPurity()).toBeLessThan(1);
+    });
+
+    test('applies Kraus channels directly', () => {
+        const dm = new DensityMatrixSimulator(1);
+        dm.apply('X', 0);
+        dm.applyKrausChannel(amplitudeDampingKraus(0.25), 0);
+
+        const probs = dm.getProbabilities();
+        expect(probs[0]).toBeCloseTo(0.25);
+        expect(probs[1]).toBeCloseTo(0.75);
+    });
+
+    test('reset is an exact channel', () => {
+        const dm = new DensityMatrixSimulator(2);
+        dm.apply('H', 0);
+        dm.apply('CNOT', 0, 1);
+        dm.reset(0);
+
+        // Resetting half of a Bell pair leaves the partner maximally mixed
+        const probs = dm.getProbabilities();
+        expect(probs[0]).toBeCloseTo(0.5);
+        expect(probs[1]).toBeCloseTo(0.5);
+        expect(dm.getBlochCoordinates(0).z).toBeCloseTo(1);
+    });
+
+    test('rejects registers that are too large', () => {
+        expect(() => new DensityMatrixSimulator(16)).toThrow();
+    });
+});
@@ -0,0 +1,188 @@
+/**
+ * Simulator Code Parser Tests
+ */
+import { parseCircuitDSL, DslParseError } from '../dsl';
+import { parseCircuitCode } from '@/lib/ai/exporters';
+
+function errors(source: string) {
+    return parseCircuitDSL(source).diagnostics.filter(d => d.severity === 'error');
+}
+
+describe('parseCircuitDSL', () => {
+    test('reads straight-line simulator code', () => {
+        const circuit = parseCircuitDSL(`
+import { QuantumSimulator } from '@/lib/quantum';
+
+// Bell pair with a teleportation-style correction
+const sim = new QuantumSimulator(3);
+sim.apply('H', 0);
+sim.apply('CNOT', 0, 1);
+sim.apply('Rz', [Math.PI / 4], 2);
+sim.measure(0);
+sim.measure(1, 2);
+sim.applyIf({ clbits: [2], value: 1 }, 'X', 2);
+sim.reset(0);
+`);
+
+        expect(circuit.diagnostics).toEqual([]);
+        expect(circuit.numQubits).toBe(3);
+        expect(circuit.gates).toEqual([
+            { gate: 'H', qubits: [0] },
+            { gate: 'CNOT', qubits: [0, 1] },
+            { gate: 'Rz', qubits: [2], params: [Math.PI / 4] },
+            { gate: 'MEASURE', qubits: [0], clbits: [0] },
+            { gate: 'MEASURE', qubits: [1], clbits: [2] },
+            { gate: 'X', qubits: [2], condition: { clbits: [2], value: 1 } },
+            { gate: 'RESET', qubits: [0] },
+        ]);
+    });
+
+    test('evaluates variables, constant expressions and multi-line calls', () => {
+        const circuit = parseCircuitDSL(`
+const n = 2 + 1
+const sim = new QuantumSimulator({ numQubits: n })
+const theta = Math.PI / 4, half = theta / 2
+let target = n - 1
+sim.apply(
+    'U3',
+    [theta, -half, Math.sqrt(4) * half],
+    target,
+)
+sim.apply('Phase', ['gamma'], 0)
+sim.execute({ gate: 'CZ', qubits: [0, target] })
+`);
+
+        expect(circuit.diagnostics).toEqual([]);
+        expect(circuit.numQubits).toBe(3);
+        expect(circuit.gates).toEqual([
+            { gate: 'U3', qubits: [2], params: [Math.PI / 4, -Math.PI / 8, Math.PI / 4] },
+            { gate: 'Phase', qubits: [0], params: ['gamma'] },
+            { gate: 'CZ', qubits: [0, 2] },
+        ]);
+    });
+
+    test('unrolls for loops, for...of, array callbacks and if statements', () => {
+        const unrolled = parseCircuitDSL(`
+const sim = new QuantumSimulator(3);
+for (let i = 0; i < 3; i++) {
+    for (let j = i + 1; j < 3; j++) {
+        if (j === 2) continue;
+        sim.apply('CPhase', [Math.PI / 2 ** (j - i)], j, i);
+    }
+}
+for (const q of [0, 1, 2]) sim.measure(q);
+[...Array(3).keys()].reverse().forEach(q => sim.reset(q));
+Array.from({ length: 2 }, (_, i) => i * 2).map((q: number) => { sim.apply('X', q); return q; });
+`);
+
+        expect(unrolled.diagnostics).toEqual([]);
+        expect(unrolled.gates.map(g => [g.gate, ...g.qubits])).toEqual([
+            ['CPhase', 1, 0],
+            ['MEASURE', 0], ['MEASURE', 1], ['MEASURE', 2],
+            ['RESET', 2], ['RESET', 1], ['RESET', 0],
+            ['X', 0], ['X', 2],
+        ]);
+        expect(unrolled.gates[0].params).toEqual([Math.PI / 2]);
+    });
+
+    test('reports unknown gates, bad qubits and wrong arities at their position', () => {
+        const source = [
+            'const sim = new QuantumSimulator(2);',
+            "sim.apply('Foo', 0);",
+            "sim.apply('H', 2);",
+            "sim.apply('CNOT', 0);",
+            "sim.apply('CNOT', 1, 1);",
+            "sim.apply('Rx', 0);",
+            "sim.apply('H', 0);",
+        ].join('\n');
+        const circuit = parseCircuitDSL(source);
+
+        expect(circuit.gates).toEqual([{ gate: 'H', qubits: [0] }]);
+        expect(circuit.diagnostics.map(d => [d.line, d.message])).toEqual([
+            [2, 'Unknown gate "Foo"'],
+            [3, 'Qubit 2 is out of range for a 2-qubit simulator'],
+            [4, 'CNOT acts on 2 qubits, found 1'],
+            [5, 'Qubit 1 is used twice'],
+            [6, 'Rx takes 1 parameter (θ), found 0'],
+        ]);
+        // Ranges cover the offending argument
+        expect(circuit.diagnostics[0]).toMatchObject({ line: 2, column: 11, endLine: 2, endColumn: 16 });
+        expect(circuit.diagnostics[1]).toMatchObject({ column: 16, endColumn: 17 });
+    });
+
+    test('reports syntax errors and keeps parsing after them', () => {
+        const circuit = parseCircuitDSL(`const sim = new QuantumSimulator(2);
+sim.apply('H', 0
+sim.apply('X', 1);
+while (true) {}
+`);
+
+        expect(circuit.gates).toEqual([]);
+        expect(circuit.diagnostics.map(d => [d.line, d.message])).toEqual([
+            [3, 'Expected "," or ")", found "sim"'],
+            [4, '"while" is not supported in circuit code'],
+        ]);
+        expect(errors('const x = "open\nconst y = 1;')[0].message).toBe('Unterminated string');
+        expect(errors('const [a] = [1];')[0].message).toMatch(/Destructuring/);
+    });
+
+    test('explains values that are only known at run time', () => {
+        const [outcome] = errors(`
+const sim = new QuantumSimulator(2);
+const result = sim.measure(0);
+if (result.outcome === 1) sim.apply('X', 1);
+`);
+        expect(outcome.message).toMatch(/sim\.applyIf/);
+        expect(outcome.line).toBe(4);
+
+        expect(errors(`const sim = new QuantumSimulator(2);\nsim.apply('H', q);`)[0].message).toBe('"q" is not defined');
+        expect(errors(`for (let i = 0; ; i++) {}`)[0].message).toMatch(/more than 10000 times/);
+    });
+
+    test('rejects array lengths that would allocate on every keystroke', () => {
+        expect(errors('const a = new Array(2 ** 32);')[0].message).toBe('Arrays can hold at most 10000 items, found a length of 4294967296');
+        expect(errors('const a = Array.from({ length: 1e8 }, (_, i) => i);')[0].message).toMatch(/at most 10000 items/);
+        expect(errors('const a = Array(2 ** 32);')[0].message).toMatch(/at most 10000 items/);
+        expect(errors('const a = new Array(10000);')).toEqual([]);
+    });
+
+    test('warns about parameters written after the qubits but still reads them', () => {
+        const circuit = parseCircuitDSL(`
+const sim = new QuantumSimulator(1);
+sim.apply('Rx', 0, Math.PI);
+sim.apply('Ry', 0, [0.5]);
+`);
+
+        expect(circuit.gates).toEqual([
+            { gate: 'Rx', qubits: [0], params: [Math.PI] },
+            { gate: 'Ry', qubits: [0], params: [0.5] },
+        ]);
+        expect(circuit.diagnostics.map(d => d.severity)).toEqual(['warning', 'warning']);
+    });
+
+    test('DslParseError points at the first error', () => {
+        const { diagnostics } = parseCircuitDSL(`const sim = new QuantumSimulator(2);\nsim.apply('H', 5);`);
+        const error = new DslParseError(diagnostics);
+
+        expect(error.line).toBe(2);
+        expect(error.column).toBe(16);
+        expect(error.message).toBe('Line 2, column 16: Qubit 5 is out of range for a 2-qubit simulator');
+    });
+});
+
+describe('parseCircuitCode', () => {
+    test('shares the parser and names gates for the exporters', () => {
+        const circuit = parseCircuitCode(`
+const sim = new QuantumSimulator(2);
+for (let q = 0; q < 2; q++) sim.apply('Ry', [Math.PI / 2], q);
+sim.measure(1);
+`);
+
+        expect(circuit.numQubits).toBe(2);
+        expect(circuit.gates).toEqual([
+            { name: 'Ry', qubits: [0], params: [Math.PI / 2] },
+            { name: 'Ry', qubits: [1], params: [Math.PI / 2] },
+            { name: 'MEASURE', qubits: [1], clbits: [1] },
+        ]);
+    });
+});
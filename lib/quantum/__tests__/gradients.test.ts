@@ -0,0 +1,84 @@
+/**
+ * Parameter-shift Gradient Tests
+ */
+import { gradient } from '../algorithms/gradients';
+import { ParametricGate } from '../parameters';
+import { ErrorCodes } from '../validators';
+
+// Small deterministic PRNG so failures are reproducible
+function lcg(seed: number) {
+    let state = seed;
+    return () => {
+        state = (state * 1664525 + 1013904223) % 4294967296;
+        return state / 4294967296;
+    };
+}
+
+const ROTATIONS = ['Rx', 'Ry', 'Rz', 'Phase'];
+
+function randomCircuit(rand: () => number, numQubits: number, depth: number): ParametricGate[] {
+    const circuit: ParametricGate[] = [];
+    for (let layer = 0; layer < depth; layer++) {
+        for (let q = 0; q < numQubits; q++) {
+            circuit.push({ gate: 'H', qubits: [q] });
+            const gate = ROTATIONS[Math.floor(rand() * ROTATIONS.length)];
+            circuit.push({ gate, qubits: [q], params: [`t${layer}_${q}`] });
+        }
+        for (let q = 0; q < numQubits - 1; q++) {
+            circuit.push({ gate: 'RZZ', qubits: [q, q + 1], params: [`z${layer}_${q}`] });
+            circuit.push({ gate: 'CNOT', qubits: [q, q + 1] });
+        }
+    }
+    return circuit;
+}
+
+describe('gradient', () => {
+    test.each([1, 2, 3, 4])('parameter-shift matches finite differences (seed %i)', (seed) => {
+        const rand = lcg(seed);
+        const circuit = randomCircuit(rand, 3, 2);
+        const params = Object.fromEntries(
+            circuit.flatMap(g => g.params ?? []).map(name => [name, rand() * 2 * Math.PI])
+        );
+        const observable = '0.7*ZZI - 0.4*XIY + 0.2*IZX';
+
+        const shift = gradient(circuit, observable, params);
+        const fd = gradient(circuit, observable, params, { method: 'finite-difference', epsilon: 1e-5 });
+
+        expect(Object.keys(shift)).toEqual(Object.keys(params));
+        for (const name of Object.keys(params)) {
+            expect(shift[name]).toBeCloseTo(fd[name], 5);
+        }
+    });
+
+    test('matches the analytic derivative of a single rotation', () => {
+        // ⟨Z⟩ after Ry(θ)|0⟩ is cos θ
+        const theta = 0.8;
+        const grad = gradient([{ gate: 'Ry', qubits: [0], params: ['theta'] }], 'Z', { theta });
+        expect(grad.theta).toBeCloseTo(-Math.sin(theta), 10);
+    });
+
+    test('accumulates a symbol shared by several gates', () => {
+        // Rx(θ)Rx(θ) = Rx(2θ), so d⟨Z⟩/dθ = -2 sin 2θ
+        const theta = 0.3;
+        const circuit = [
+            { gate: 'Rx', qubits: [0], params: ['theta'] },
+            { gate: 'Rx', qubits: [0], params: ['theta'] },
+        ];
+        expect(gradient(circuit, 'Z', { theta }).theta).toBeCloseTo(-2 * Math.sin(2 * theta), 10);
+    });
+
+    test('rejects gates without a shift rule', () => {
+        const circuit = [{ gate: 'U3', qubits: [0], params: ['a', 0, 0] }];
+        expect(() => gradient(circuit, 'Z', { a: 0.1 })).toThrow(
+            expect.objectContaining({ code: ErrorCodes.INVALID_GATE_PARAMS })
+        );
+        // Finite differences still work
+        expect(Number.isFinite(gradient(circuit, 'Z', { a: 0.1 }, { method: 'finite-difference' }).a)).toBe(true);
+    });
+
+    test('rejects unbound parameters', () => {
+        expect(() => gradient([{ gate: 'Rz', qubits: [0], params: ['phi'] }], 'X', {})).toThrow(
+            expect.objectContaining({ code: ErrorCodes.UNBOUND_PARAMETER })
+        );
+    });
+});
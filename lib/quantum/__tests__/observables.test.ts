@@ -0,0 +1,70 @@
+/**
+ * Pauli Observable Tests
+ */
+import { parsePauliSum } from '../observables';
+import { QuantumSimulator } from '../simulator';
+import { DensityMatrixSimulator } from '../density-matrix';
+import { QuantumValidationError } from '../validators';
+
+describe('Pauli observables', () => {
+    test('parses weighted Pauli sums', () => {
+        expect(parsePauliSum('0.5*ZZI - 0.3*XIX')).toEqual([
+            { coefficient: 0.5, pauli: 'ZZI' },
+            { coefficient: -0.3, pauli: 'XIX' },
+        ]);
+        expect(parsePauliSum('ZZ + 1e-3 YY')).toEqual([
+            { coefficient: 1, pauli: 'ZZ' },
+            { coefficient: 1e-3, pauli: 'YY' },
+        ]);
+        expect(() => parsePauliSum('0.5*ZQ')).toThrow(QuantumValidationError);
+    });
+
+    test('exact expectation values of a Bell state', () => {
+        const sim = new QuantumSimulator(2);
+        sim.apply('H', 0);
+        sim.apply('CNOT', 0, 1);
+
+        expect(sim.expectation('ZZ')).toBeCloseTo(1);
+        expect(sim.expectation('XX')).toBeCloseTo(1);
+        expect(sim.expectation('YY')).toBeCloseTo(-1);
+        expect(sim.expectation('ZI')).toBeCloseTo(0);
+        expect(sim.expectation('0.5*ZZ - 0.25*YY + 2*II')).toBeCloseTo(2.75);
+    });
+
+    test('Y expectation follows the phase of the state', () => {
+        const sim = new QuantumSimulator(1);
+        sim.apply('H', 0);
+        sim.apply('S', 0); // |+i⟩
+        expect(sim.expectation('Y')).toBeCloseTo(1);
+        expect(sim.expectation('X')).toBeCloseTo(0);
+    });
+
+    test('shot-based estimate converges to the exact value', () => {
+        const sim = new QuantumSimulator(2);
+        sim.apply('Ry', [1.1], 0);
+        sim.apply('CNOT', 0, 1);
+        sim.apply('Rx', [0.4], 1);
+
+        const observable = '0.7*ZZ - 0.4*XX + 0.2*YI';
+        const exact = sim.expectation(observable);
+        expect(sim.expectation(observable, 20000)).toBeCloseTo(exact, 1);
+    });
+
+    test('density matrix backend agrees with the state vector', () => {
+        const sv = new QuantumSimulator(3);
+        const dm = new DensityMatrixSimulator(3);
+        for (const sim of [sv, dm]) {
+            sim.apply('H', 0);
+            sim.apply('Ry', [0.8], 1);
+            sim.apply('CNOT', 0, 2);
+            sim.apply('S', 2);
+        }
+        const observable = '0.5*ZZI - 0.3*XIX + 0.9*XIY';
+        expect(dm.expectation(observable)).toBeCloseTo(sv.expectation(observable));
+    });
+
+    test('rejects Pauli strings of the wrong length', () => {
+        const sim = new QuantumSimulator(2);
+        expect(() => sim.expectation('ZZZ')).toThrow(QuantumValidationError);
+    });
+});
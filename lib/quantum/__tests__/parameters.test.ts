@@ -0,0 +1,46 @@
+/**
+ * Symbolic Parameter Tests
+ */
+import { bind, getCircuitParameters, parseParamValue } from '../parameters';
+import { QuantumSimulator } from '../simulator';
+import { QuantumValidationError } from '../validators';
+
+describe('symbolic parameters', () => {
+    const ansatz = [
+        { gate: 'Ry', qubits: [0], params: ['theta_0'] },
+        { gate: 'RZZ', qubits: [0, 1], params: ['theta_1'] },
+        { gate: 'U3', qubits: [1], params: ['theta_0', 0, Math.PI] },
+    ];
+
+    test('parses numbers and symbol names', () => {
+        expect(parseParamValue('1.5')).toBe(1.5);
+        expect(parseParamValue(' theta_0 ')).toBe('theta_0');
+        expect(parseParamValue('2theta')).toBeNull();
+        expect(parseParamValue('')).toBeNull();
+    });
+
+    test('lists symbols in order of first appearance', () => {
+        expect(getCircuitParameters(ansatz)).toEqual(['theta_0', 'theta_1']);
+    });
+
+    test('bind produces a concrete circuit', () => {
+        const bound = bind(ansatz, { theta_0: Math.PI, theta_1: 0.5 });
+        expect(bound[0].params).toEqual([Math.PI]);
+        expect(bound[2].params).toEqual([Math.PI, 0, Math.PI]);
+
+        const sim = new QuantumSimulator(2);
+        bound.forEach(op => sim.execute(op));
+        // Ry(π) then U3(π, 0, π) flip both qubits
+        expect(sim.getProbabilities()[2]).toBeCloseTo(0);
+        expect(sim.getProbabilities()[3]).toBeCloseTo(1);
+    });
+
+    test('rebinding does not mutate the template', () => {
+        bind(ansatz, { theta_0: 1, theta_1: 2 });
+        expect(ansatz[0].params).toEqual(['theta_0']);
+    });
+
+    test('throws on unbound symbols', () => {
+        expect(() => bind(ansatz, { theta_0: 1 })).toThrow(QuantumValidationError);
+    });
+});
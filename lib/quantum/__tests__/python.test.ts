@@ -0,0 +1,182 @@
+/**
+ * Qiskit and Cirq Importer Tests
+ */
+import { parsePythonCircuit, detectPythonFramework, PythonParseError } from '../python';
+import { exportToQiskit, exportToCirq } from '@/lib/ai/exporters';
+
+function errorOf(source: string): PythonParseError {
+    try {
+        parsePythonCircuit(source);
+    } catch (e) {
+        expect(e).toBeInstanceOf(PythonParseError);
+        return e as PythonParseError;
+    }
+    throw new Error('Should have thrown');
+}
+
+describe('Qiskit snippets', () => {
+    test('reads circuit construction, gates and measurements', () => {
+        const circuit = parsePythonCircuit(`
+from qiskit import QuantumCircuit
+import numpy as np
+
+qc = QuantumCircuit(3, 3)
+q = 2
+qc.h(0)
+qc.cx(0, 1)
+qc.rz(np.pi / 4, q)
+qc.u(np.pi, 0, -np.pi / 2, 1)
+qc.barrier()
+qc.measure([0, 1], [0, 1])
+print(qc.draw('text'))
+`);
+
+        expect(circuit.framework).toBe('qiskit');
+        expect(circuit.numQubits).toBe(3);
+        expect(circuit.numClbits).toBe(3);
+        expect(circuit.gates).toEqual([
+            { gate: 'H', qubits: [0] },
+            { gate: 'CNOT', qubits: [0, 1] },
+            { gate: 'Rz', qubits: [2], params: [Math.PI / 4] },
+            { gate: 'U3', qubits: [1], params: [Math.PI, 0, -Math.PI / 2] },
+            { gate: 'MEASURE', qubits: [0], clbits: [0] },
+            { gate: 'MEASURE', qubits: [1], clbits: [1] },
+        ]);
+    });
+
+    test('keeps unassigned angles symbolic and decomposes gates outside the library', () => {
+        const { gates } = parsePythonCircuit(`
+qc = QuantumCircuit(2)
+theta = Parameter('theta')
+qc.ry(theta, 0)
+qc.rz(phi, 1)
+qc.cy(0, 1)
+qc.h(range(2))
+`);
+
+        expect(gates.map(g => [g.gate, ...(g.params ?? [])])).toEqual([
+            ['Ry', 'theta'], ['Rz', 'phi'], ['SDag'], ['CNOT'], ['S'], ['H'], ['H'],
+        ]);
+    });
+
+    test('reads registers, c_if and nested if_test blocks', () => {
+        const circuit = parsePythonCircuit(`
+qr = QuantumRegister(2, 'q')
+anc = QuantumRegister(1, 'a')
+cr = ClassicalRegister(2, 'c')
+qc = QuantumCircuit(qr, anc, cr)
+qc.measure(qr, cr)
+qc.x(anc[0]).c_if(cr, 3)
+with qc.if_test((cr[0], 1)):
+    with qc.if_test((cr[1], 0)):
+        qc.z(qr[1])
+    qc.reset(qr[0])
+qc.h(qr[0])
+`);
+
+        expect(circuit.numQubits).toBe(3);
+        expect(circuit.gates.slice(2)).toEqual([
+            { gate: 'X', qubits: [2], condition: { clbits: [0, 1], value: 3 } },
+            { gate: 'Z', qubits: [1], condition: { clbits: [0, 1], value: 1 } },
+            { gate: 'RESET', qubits: [0], condition: { clbits: [0], value: 1 } },
+            { gate: 'H', qubits: [0] },
+        ]);
+    });
+
+    test('reads back what exportToQiskit writes', () => {
+        const gates = [
+            { name: 'H', qubits: [0] },
+            { name: 'Rx', qubits: [2], params: [0.5] },
+            { name: 'MEASURE', qubits: [0], clbits: [0] },
+            { name: 'X', qubits: [2], condition: { clbits: [0], value: 1 } },
+            { name: 'CZ', qubits: [1, 2], condition: { clbits: [0, 1], value: 1 } },
+        ];
+        const circuit = parsePythonCircuit(exportToQiskit({ numQubits: 3, gates }).code);
+
+        expect(circuit.gates).toEqual(gates.map(({ name, ...rest }) => ({ gate: name, ...rest })));
+    });
+});
+
+describe('Cirq snippets', () => {
+    test('reads LineQubit ranges, gates and measurement keys', () => {
+        const circuit = parsePythonCircuit(`
+import cirq
+
+q = cirq.LineQubit.range(3)
+a, b = cirq.LineQubit.range(2)
+circuit = cirq.Circuit([cirq.H(q[0]), cirq.CNOT(q[0], q[1])])
+circuit.append(cirq.rx(0.25)(q[2]))
+circuit.append((cirq.T**-1).on(b))
+circuit.append(cirq.measure(*q, key='result'))
+result = cirq.Simulator().run(circuit, repetitions=100)
+`);
+
+        expect(circuit.framework).toBe('cirq');
+        expect(circuit.numQubits).toBe(3);
+        expect(circuit.gates).toEqual([
+            { gate: 'H', qubits: [0] },
+            { gate: 'CNOT', qubits: [0, 1] },
+            { gate: 'Rx', qubits: [2], params: [0.25] },
+            { gate: 'TDag', qubits: [1] },
+            { gate: 'MEASURE', qubits: [0], clbits: [0] },
+            { gate: 'MEASURE', qubits: [1], clbits: [1] },
+            { gate: 'MEASURE', qubits: [2], clbits: [2] },
+        ]);
+    });
+
+    test('reads back what exportToCirq writes, including classical controls', () => {
+        const gates = [
+            { name: 'H', qubits: [0] },
+            { name: 'Ry', qubits: [1], params: [1.5] },
+            { name: 'MEASURE', qubits: [0], clbits: [1] },
+            { name: 'X', qubits: [2], condition: { clbits: [1], value: 1 } },
+            { name: 'CZ', qubits: [0, 2], condition: { clbits: [1, 0], value: 1 } },
+            { name: 'Toffoli', qubits: [0, 1, 2] },
+        ];
+        const circuit = parsePythonCircuit(exportToCirq({ numQubits: 3, gates }).code);
+
+        expect(circuit.gates).toEqual(gates.map(({ name, ...rest }) => ({ gate: name, ...rest })));
+    });
+
+    test('applies gates to each qubit and builds circuits from comprehensions', () => {
+        const { gates, numQubits } = parsePythonCircuit(`
+qubits = [cirq.LineQubit(i) for i in range(2)]
+circuit = cirq.Circuit(cirq.H.on_each(qubits), (cirq.X ** 0.5)(qubits[1]))
+circuit.append([cirq.reset(qubits[0]), cirq.SWAP(*qubits)])
+`);
+
+        expect(numQubits).toBe(2);
+        expect(gates.map(g => [g.gate, ...g.qubits])).toEqual([['H', 0], ['H', 1], ['SX', 1], ['RESET', 0], ['SWAP', 0, 1]]);
+    });
+});
+
+describe('parsePythonCircuit errors', () => {
+    test('point at the line and column of the problem', () => {
+        const unknown = errorOf('qc = QuantumCircuit(2)\nqc.h(0)\nqc.foo(1)');
+        expect(unknown.line).toBe(3);
+        expect(unknown.column).toBe(7);
+        expect(unknown.message).toBe('Line 3, column 7: Unsupported QuantumCircuit method "foo"');
+
+        expect(errorOf('qc = QuantumCircuit(2)\nqc.cx(0, 2)').message).toMatch(/Line 2, column 6: Qubit 2 is out of range/);
+        expect(errorOf('qc = QuantumCircuit(2)\nqc.rx(0)').message).toMatch(/"rx" takes 1 parameter\(s\) and 1 qubit\(s\)/);
+        expect(errorOf('qc = QuantumCircuit(1)\nqc.rz(theta / 2, 0)').message).toMatch(/Symbolic parameter "theta"/);
+        expect(errorOf('q = cirq.LineQubit.range(2)\nc = cirq.Circuit(cirq.CNOT(q[0]))').message).toMatch(/acts on 2 qubit\(s\), got 1/);
+    });
+
+    test('reject control flow and snippets without a circuit', () => {
+        expect(errorOf('qc = QuantumCircuit(2)\nfor i in range(2):\n    qc.h(i)').message)
+            .toBe('Line 2, column 1: "for" statements are not supported; only straight-line circuits can be imported');
+        expect(errorOf('x = 1\n').message).toMatch(/No QuantumCircuit or cirq.Circuit found/);
+        expect(errorOf('qc = QuantumCircuit(2, 2)\nwith qc.if_test((0, 1)):\nqc.h(0)').message).toMatch(/Line 3, column 1: Expected an indented block/);
+        expect(errorOf("qc = QuantumCircuit(2)\nqc.h(0\nqc.x('").message).toMatch(/Unterminated string/);
+    });
+});
+
+describe('detectPythonFramework', () => {
+    test('recognizes Qiskit and Cirq but not simulator code', () => {
+        expect(detectPythonFramework('from qiskit import QuantumCircuit')).toBe('qiskit');
+        expect(detectPythonFramework('qc = QuantumCircuit(2)')).toBe('qiskit');
+        expect(detectPythonFramework('import cirq')).toBe('cirq');
+        expect(detectPythonFramework("const sim = new QuantumSimulator(2);\nsim.apply('H', 0);")).toBeNull();
+    });
+});
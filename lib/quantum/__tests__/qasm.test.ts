@@ -0,0 +1,191 @@
+/**
+ * OpenQASM Importer Tests
+ */
+import { parseOpenQASM, isOpenQASM, QasmParseError } from '../qasm';
+import { QuantumSimulator } from '../simulator';
+import { exportToOpenQASM } from '@/lib/ai/exporters';
+
+function simulate(source: string): number[] {
+    const { numQubits, gates } = parseOpenQASM(source);
+    const simulator = new QuantumSimulator(numQubits);
+    for (const gate of gates) simulator.execute({ ...gate, params: gate.params as number[] | undefined });
+    return simulator.getProbabilities();
+}
+
+function errorOf(source: string): QasmParseError {
+    try {
+        parseOpenQASM(source);
+    } catch (e) {
+        expect(e).toBeInstanceOf(QasmParseError);
+        return e as QasmParseError;
+    }
+    throw new Error('Should have thrown');
+}
+
+describe('parseOpenQASM', () => {
+    test('reads an OpenQASM 2.0 Bell circuit', () => {
+        const circuit = parseOpenQASM(`OPENQASM 2.0;
+include "qelib1.inc";
+qreg q[2];
+creg c[2];
+h q[0];
+cx q[0],q[1];
+barrier q;
+measure q -> c;`);
+
+        expect(circuit.version).toBe(2);
+        expect(circuit.numQubits).toBe(2);
+        expect(circuit.numClbits).toBe(2);
+        expect(circuit.gates).toEqual([
+            { gate: 'H', qubits: [0] },
+            { gate: 'CNOT', qubits: [0, 1] },
+            { gate: 'MEASURE', qubits: [0], clbits: [0] },
+            { gate: 'MEASURE', qubits: [1], clbits: [1] },
+        ]);
+    });
+
+    test('evaluates parameter expressions with pi and functions', () => {
+        const { gates } = parseOpenQASM(`OPENQASM 2.0;
+qreg q[1];
+rz(pi/4) q[0];
+u3(-pi/2, 2*pi/3, 0.5e-1) q[0];
+u1(2^3 - sqrt(4)) q[0];
+rx(-(pi + pi) / 4) q[0]; // trailing comment
+/* block
+   comment */ ry(cos(0)) q[0];`);
+
+        expect(gates.map(g => g.gate)).toEqual(['Rz', 'U3', 'Phase', 'Rx', 'Ry']);
+        expect(gates[0].params![0]).toBeCloseTo(Math.PI / 4);
+        expect(gates[1].params).toEqual([-Math.PI / 2, 2 * Math.PI / 3, 0.05]);
+        expect(gates[2].params).toEqual([6]);
+        expect(gates[3].params![0]).toBeCloseTo(-Math.PI / 2);
+        expect(gates[4].params).toEqual([1]);
+    });
+
+    test('flattens registers and broadcasts whole-register operands', () => {
+        const { numQubits, gates } = parseOpenQASM(`OPENQASM 2.0;
+qreg a[2];
+qreg b[2];
+h a;
+cx a, b;
+cz a[0], b;
+reset b[1];`);
+
+        expect(numQubits).toBe(4);
+        expect(gates.map(g => [g.gate, ...g.qubits])).toEqual([
+            ['H', 0], ['H', 1],
+            ['CNOT', 0, 2], ['CNOT', 1, 3],
+            ['CZ', 0, 2], ['CZ', 0, 3],
+            ['RESET', 3],
+        ]);
+    });
+
+    test('inlines gate definitions, including qelib1 gates missing from the library', () => {
+        const { gates } = parseOpenQASM(`OPENQASM 2.0;
+include "qelib1.inc";
+gate half(t) a { rz(t/2) a; }
+gate majority a, b, c { cx c, b; cx c, a; ccx a, b, c; }
+qreg q[3];
+half(pi) q[2];
+majority q[0], q[1], q[2];`);
+
+        expect(gates.map(g => g.gate)).toEqual(['Rz', 'CNOT', 'CNOT', 'Toffoli']);
+        expect(gates[0].params![0]).toBeCloseTo(Math.PI / 2);
+        expect(gates[3].qubits).toEqual([0, 1, 2]);
+
+        // cry(pi) rotates the target fully only when the control is set
+        expect(simulate('qreg q[2]; x q[0]; cry(pi) q[0], q[1];')[3]).toBeCloseTo(1);
+        expect(simulate('qreg q[2]; cry(pi) q[0], q[1];')[0]).toBeCloseTo(1);
+        expect(simulate('qreg q[2]; x q[0]; crx(pi) q[0], q[1];')[3]).toBeCloseTo(1);
+        expect(simulate('qreg q[2]; x q[0]; cy q[0], q[1];')[3]).toBeCloseTo(1);
+        expect(simulate('qreg q[1]; u2(0, pi) q[0];')[1]).toBeCloseTo(0.5);
+    });
+
+    test('reads OpenQASM 3 declarations, inputs, measurements and conditions', () => {
+        const circuit = parseOpenQASM(`OPENQASM 3.0;
+include "stdgates.inc";
+input float[64] theta;
+qubit[2] q;
+bit[2] c;
+ry(theta) q[0];
+c[0] = measure q[0];
+if (c[0] == 1) x q[1];
+if (c == 2) { z q[0]; reset q[1]; }
+c = measure q;`);
+
+        expect(circuit.version).toBe(3);
+        expect(circuit.gates).toEqual([
+            { gate: 'Ry', qubits: [0], params: ['theta'] },
+            { gate: 'MEASURE', qubits: [0], clbits: [0] },
+            { gate: 'X', qubits: [1], condition: { clbits: [0], value: 1 } },
+            { gate: 'Z', qubits: [0], condition: { clbits: [0, 1], value: 2 } },
+            { gate: 'RESET', qubits: [1], condition: { clbits: [0, 1], value: 2 } },
+            { gate: 'MEASURE', qubits: [0], clbits: [0] },
+            { gate: 'MEASURE', qubits: [1], clbits: [1] },
+        ]);
+    });
+
+    test('reads bare bits and boolean values in conditions', () => {
+        const circuit = parseOpenQASM(`OPENQASM 3.0;
+qubit[2] q;
+bit[2] c;
+if (c[0]) x q[1];
+if (c[0] == true && c[1] == false) z q[0];`);
+
+        expect(circuit.gates).toEqual([
+            { gate: 'X', qubits: [1], condition: { clbits: [0], value: 1 } },
+            { gate: 'Z', qubits: [0], condition: { clbits: [0, 1], value: 1 } },
+        ]);
+        expect(errorOf('qubit q;\nbit[2] c;\nif (c) x q;').message).toBe('Line 3, column 6: Compare the register "c" with ==, e.g. c == 1');
+    });
+
+    test('reads back what exportToOpenQASM writes', () => {
+        const gates = [
+            { name: 'H', qubits: [0] },
+            { name: 'CNOT', qubits: [0, 1] },
+            { name: 'Rx', qubits: [2], params: [0.5] },
+            { name: 'MEASURE', qubits: [0], clbits: [0] },
+            { name: 'X', qubits: [2], condition: { clbits: [0], value: 1 } },
+            { name: 'CZ', qubits: [1, 2], condition: { clbits: [0, 1, 2], value: 5 } },
+        ];
+        const { code } = exportToOpenQASM({ numQubits: 3, gates });
+        const circuit = parseOpenQASM(code);
+
+        expect(circuit.numQubits).toBe(3);
+        expect(circuit.gates.slice(0, gates.length)).toEqual(gates.map(({ name, ...rest }) => ({ gate: name, ...rest })));
+        expect(circuit.gates.slice(gates.length).map(g => g.gate)).toEqual(['MEASURE', 'MEASURE', 'MEASURE']);
+    });
+});
+
+describe('parseOpenQASM errors', () => {
+    test('point at the line and column of the problem', () => {
+        const unknown = errorOf('OPENQASM 2.0;\nqreg q[2];\n  foo q[0];');
+        expect(unknown.line).toBe(3);
+        expect(unknown.column).toBe(3);
+        expect(unknown.message).toBe('Line 3, column 3: Unknown gate "foo"');
+
+        expect(errorOf('qreg q[2];\nh q[2];').message).toBe('Line 2, column 5: Index 2 is out of range for q[2]');
+        expect(errorOf('qreg q[2];\nh q[0]').message).toBe('Line 2, column 7: Expected ";" but found end of input');
+        expect(errorOf('qreg q[1];\nrx q[0];').message).toMatch(/Line 2, column 1: Gate "rx" takes 1 parameter/);
+        expect(errorOf('qreg q[2];\ncx q[0], q[0];').message).toMatch(/same qubit twice/);
+    });
+
+    test('explain unsupported input', () => {
+        expect(errorOf('OPENQASM 4.0;').message).toMatch(/Unsupported OpenQASM version 4.0/);
+        expect(errorOf('include "mylib.inc";').message).toMatch(/Cannot include "mylib.inc"/);
+        expect(errorOf('qreg q[1];\n/* open').message).toBe('Line 2, column 1: Unterminated comment');
+        expect(errorOf('qubit[2] q;\nctrl @ x q[0], q[1];').message).toMatch(/"ctrl" is not supported/);
+        expect(errorOf('qubit q;\nrx(theta / 2) q;').message).toMatch(/Line 2, column 10: Symbolic parameter "theta"/);
+        expect(errorOf('qubit q;\nopaque magic a;\nmagic q;').message).toMatch(/Line 3, column 1: Opaque gate "magic"/);
+        expect(errorOf('gate g a { h b; }').message).toMatch(/Unknown qubit "b" in gate "g"/);
+        expect(errorOf('// nothing here\n').message).toMatch(/declares no qubits/);
+    });
+});
+
+describe('isOpenQASM', () => {
+    test('tells QASM from simulator code', () => {
+        expect(isOpenQASM('// Bell\nOPENQASM 3.0;')).toBe(true);
+        expect(isOpenQASM('qreg q[2];')).toBe(true);
+        expect(isOpenQASM("const sim = new QuantumSimulator(2);\nsim.apply('H', 0);")).toBe(false);
+    });
+});
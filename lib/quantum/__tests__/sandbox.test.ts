@@ -0,0 +1,141 @@
+/**
+ * Circuit Code Sandbox Tests
+ */
+import { evaluateCircuitCode, lockDownScope, SandboxError } from '../sandbox';
+
+describe('evaluateCircuitCode', () => {
+    test('records circuits built by helper functions and while loops', async () => {
+        const result = await evaluateCircuitCode(`
+import { QuantumSimulator } from '@/lib/quantum';
+
+function qft(sim: QuantumSimulator, n: number): void {
+    for (let i = 0; i < n; i++) {
+        sim.apply('H', i);
+        for (let j = i + 1; j < n; j++) sim.apply('CPhase', [Math.PI / 2 ** (j - i)], j, i);
+    }
+}
+
+const sim = new QuantumSimulator(3);
+let q = 0;
+while (q < 3) sim.apply('X', q++);
+qft(sim, 2);
+sim.apply('Rz', ['theta'], 2);
+sim.measure(0);
+sim.applyIf({ clbits: [0], value: 1 }, 'X', 2);
+`);
+
+        expect(result.numQubits).toBe(3);
+        expect(result.gates).toEqual([
+            { gate: 'X', qubits: [0] },
+            { gate: 'X', qubits: [1] },
+            { gate: 'X', qubits: [2] },
+            { gate: 'H', qubits: [0] },
+            { gate: 'CPhase', qubits: [1, 0], params: [Math.PI / 2] },
+            { gate: 'H', qubits: [1] },
+            { gate: 'Rz', qubits: [2], params: ['theta'] },
+            { gate: 'MEASURE', qubits: [0], clbits: [0] },
+            { gate: 'X', qubits: [2], condition: { clbits: [0], value: 1 } },
+        ]);
+    });
+
+    test('replays the recording when the code reads the state', async () => {
+        const result = await evaluateCircuitCode(`
+const sim = new QuantumSimulator(1);
+sim.apply('X', 0);
+if (sim.getProbabilities()[1] > 0.5) sim.apply('H', 0);
+`);
+        expect(result.gates.map(g => g.gate)).toEqual(['X', 'H']);
+    });
+
+    test('stops at the operation limit and rejects invalid gates', async () => {
+        await expect(evaluateCircuitCode(`
+const sim = new QuantumSimulator(1);
+for (;;) sim.apply('X', 0);
+`, 100)).rejects.toThrow('The code applied more than 100 operations');
+
+        await expect(evaluateCircuitCode(`
+const sim = new QuantumSimulator(2);
+sim.apply('CNOT', 0, 2);
+`)).rejects.toBeInstanceOf(SandboxError);
+    });
+
+    test('reports syntax errors with their position', async () => {
+        const error = await evaluateCircuitCode(`const sim = new QuantumSimulator(2);\nsim.apply('H', 0;`).catch(e => e);
+
+        expect(error).toBeInstanceOf(SandboxError);
+        expect(error.line).toBe(2);
+        expect(error.message).toMatch(/^Line 2, column \d+: /);
+    });
+
+    test('refuses imports and measurement outcomes', async () => {
+        await expect(evaluateCircuitCode(`import fs from 'fs';\nfs.readFileSync('/etc/passwd');`)).rejects.toThrow('Cannot import "fs" in circuit code');
+        await expect(evaluateCircuitCode(`
+const sim = new QuantumSimulator(2);
+if (sim.measure(0).outcome === 1) sim.apply('X', 1);
+`)).rejects.toThrow(/use sim\.applyIf/);
+    });
+
+    test('rejects dynamic import() in circuit code', async () => {
+        const error = await evaluateCircuitCode(`const sim = new QuantumSimulator(1);\nimport('https://example.com/x.js');`).catch(e => e);
+
+        expect(error).toBeInstanceOf(SandboxError);
+        expect(error.reason).toBe('Circuit code cannot use import()');
+        expect(error.line).toBe(2);
+    });
+});
+
+describe('lockDownScope', () => {
+    // Shaped like a worker: most APIs live on WorkerGlobalScope.prototype and its subclasses
+    function workerScope() {
+        const eventTarget = { addEventListener: () => null };
+        const workerGlobalScope = Object.assign(Object.create(eventTarget), {
+            fetch: () => 'network',
+            fonts: { add: () => null },
+            setTimeout: () => 0,
+            importScripts: () => null,
+        });
+        const dedicatedWorkerGlobalScope = Object.create(workerGlobalScope, {
+            postMessage: { value: () => null, writable: true, configurable: true },
+        });
+        const scope = Object.create(dedicatedWorkerGlobalScope) as Record<string, unknown>;
+        Object.assign(scope, { Math, JSON, Float64Array, eval, Function, FontFace: class {}, WebSocket: class {}, WebSocketStream: class {} });
+        return scope;
+    }
+
+    const chain = (scope: object) => {
+        const objects: Record<string, unknown>[] = [];
+        for (let target = scope; target !== Object.prototype; target = Object.getPrototypeOf(target)) objects.push(target as Record<string, unknown>);
+        return objects;
+    };
+
+    test.each(['fetch', 'fonts', 'FontFace', 'WebSocket', 'WebSocketStream', 'postMessage', 'setTimeout', 'importScripts', 'addEventListener', 'eval', 'Function'])(
+        'removes %s from the scope and every prototype',
+        name => {
+            const scope = workerScope();
+            lockDownScope(scope);
+
+            expect(scope[name]).toBeUndefined();
+            for (const target of chain(scope)) expect(Object.hasOwn(target, name)).toBe(false);
+        }
+    );
+
+    test('keeps the ECMAScript builtins the circuit code needs', () => {
+        const scope = workerScope();
+        lockDownScope(scope);
+
+        expect(scope.Math).toBe(Math);
+        expect(scope.JSON).toBe(JSON);
+        expect(scope.Float64Array).toBe(Float64Array);
+    });
+
+    test('overwrites what cannot be deleted', () => {
+        const scope = workerScope();
+        Object.defineProperty(scope, 'location', { value: 'https://host/', writable: true, configurable: false });
+        lockDownScope(scope);
+        expect(scope.location).toBeUndefined();
+
+        const frozen = workerScope();
+        Object.defineProperty(frozen, 'location', { value: 'https://host/', writable: false, configurable: false });
+        expect(() => lockDownScope(frozen)).toThrow('Cannot remove location from the sandbox scope');
+    });
+});
@@ -99,4 +99,127 @@ describe('QuantumSimulator', () => {
             expect(state[2].real).toBeCloseTo(1);
         }
     });
+
+    test('diagonal phase matches the equivalent RZZ gate', () => {
+        // RZZ(θ) = diag(e^{-iθ/2}, e^{iθ/2}, e^{iθ/2}, e^{-iθ/2})
+        const theta = 0.7;
+        const reference = new QuantumSimulator(2);
+        simulator.apply('H', 0);
+        simulator.apply('H', 1);
+        reference.apply('H', 0);
+        reference.apply('H', 1);
+
+        simulator.applyDiagonalPhase([theta / 2, -theta / 2, -theta / 2, theta / 2]);
+        reference.apply('RZZ', [theta], 0, 1);
+
+        const actual = simulator.getState();
+        reference.getState().forEach((amp, i) => {
+            expect(actual[i].real).toBeCloseTo(amp.real, 10);
+            expect(actual[i].imag).toBeCloseTo(amp.imag, 10);
+        });
+        expect(simulator.diagonalExpectation([1, -1, -1, 1])).toBeCloseTo(reference.expectation('ZZ'), 10);
+        expect(() => simulator.applyDiagonalPhase([0, 0])).toThrow();
+    });
+
+    describe('mid-circuit measurement', () => {
+        test('writes the outcome to the classical register', () => {
+            simulator.apply('X', 1);
+            const result = simulator.measure(1, 0);
+
+            expect(result.outcome).toBe(1);
+            expect(result.probability).toBeCloseTo(1);
+            expect(simulator.getClassicalRegister()).toEqual([1, 0]);
+        });
+
+        test('reset returns a qubit to |0> and keeps the rest', () => {
+            simulator.apply('H', 0);
+            simulator.apply('X', 1);
+            simulator.reset(0);
+
+            // Only |01> survives
+            expect(simulator.getProbabilities()[1]).toBeCloseTo(1);
+        });
+
+        test('samples classical bits across trajectories', () => {
+            simulator.apply('H', 0);
+            simulator.apply('CNOT', 0, 1);
+            simulator.measure(0, 0);
+            simulator.measure(1, 1);
+
+            const counts = simulator.sampleClassical(400);
+            expect(Array.from(counts.keys()).sort()).toEqual(['00', '11']);
+            expect(counts.get('00')).toBeGreaterThan(120);
+            expect(counts.get('11')).toBeGreaterThan(120);
+        });
+
+        test('final sampling re-runs collapsed branches', () => {
+            simulator.apply('H', 0);
+            simulator.measure(0, 0);
+
+            // A single collapsed state would give only one outcome
+            const counts = simulator.sample(400);
+            expect(counts.get('00')).toBeGreaterThan(120);
+            expect(counts.get('10')).toBeGreaterThan(120);
+        });
+
+        test('conditioned corrections complete teleportation on every shot', () => {
+            const sim = new QuantumSimulator(3);
+            sim.apply('X', 0); // Teleport |1>
+            sim.apply('H', 1);
+            sim.apply('CNOT', 1, 2);
+            sim.apply('CNOT', 0, 1);
+            sim.apply('H', 0);
+            sim.measure(0, 0);
+            sim.measure(1, 1);
+            sim.applyIf({ clbits: [1], value: 1 }, 'X', 2);
+            sim.applyIf({ clbits: [0], value: 1 }, 'Z', 2);
+
+            const counts = sim.sample(200);
+            for (const [bits, count] of counts) {
+                expect(bits[2]).toBe('1');
+                expect(count).toBeGreaterThan(0);
+            }
+        });
+
+        test('conditions compare clbits[0] as the least significant bit', () => {
+            simulator.apply('X', 0);
+            simulator.measure(0, 0);
+            simulator.applyIf({ clbits: [0, 1], value: 2 }, 'X', 1);
+            expect(simulator.getProbabilities()[2]).toBeCloseTo(1);
+            simulator.applyIf({ clbits: [0, 1], value: 1 }, 'X', 1);
+            expect(simulator.getProbabilities()[3]).toBeCloseTo(1);
+        });
+
+        test('rejects classical bits outside the register', () => {
+            expect(() => simulator.measure(0, 5)).toThrow();
+        });
+    });
+
+    describe('noise model', () => {
+        test('readout error flips measured bits', () => {
+            const noisy = new QuantumSimulator({ numQubits: 2, noiseModel: { readout_error: 1 } });
+            const counts = noisy.sample(100);
+            expect(counts.get('11')).toBe(100);
+        });
+
+        test('full amplitude damping relaxes |1> to |0>', () => {
+            const noisy = new QuantumSimulator({ numQubits: 1, noiseModel: { amplitude_damping: 1 } });
+            noisy.apply('X', 0);
+            expect(noisy.getProbabilities()[0]).toBeCloseTo(1);
+            expect(noisy.sample(50).get('0')).toBe(50);
+        });
+
+        test('depolarizing noise spreads a basis state', () => {
+            const noisy = new QuantumSimulator({ numQubits: 1, noiseModel: { depolarizing: 0.5 } });
+            noisy.apply('I', 0);
+            const counts = noisy.sample(2000);
+            // Ideal outcome is always 0; X and Y errors flip it (2/3 of p = 1/3)
+            expect(counts.get('1')).toBeGreaterThan(500);
+            expect(counts.get('1')).toBeLessThan(850);
+        });
+
+        test('rejects invalid error rates', () => {
+            expect(() => new QuantumSimulator({ numQubits: 1, noiseModel: { depolarizing: 1.5 } })).toThrow();
+        });
+    });
 });
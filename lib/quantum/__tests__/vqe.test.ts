@@ -0,0 +1,46 @@
+/**
+ * VQE and Optimizer Tests
+ */
+import { minimize, OptimizerName } from '../algorithms/optimizers';
+import { runVQE } from '../algorithms/vqe';
+
+const OPTIMIZERS: OptimizerName[] = ['nelder-mead', 'spsa', 'cobyla'];
+
+describe('optimizers', () => {
+    test.each(OPTIMIZERS)('%s minimizes a quadratic bowl', async (method) => {
+        const bowl = (x: number[]) => (x[0] - 1) ** 2 + 2 * (x[1] + 0.5) ** 2;
+        const result = await minimize(bowl, [0, 0], method, { maxIterations: 400 });
+
+        expect(result.value).toBeLessThan(1e-2);
+        expect(result.trace.length).toBeGreaterThan(0);
+        // Trace records the best value so far, so it never increases
+        for (let i = 1; i < result.trace.length; i++) {
+            expect(result.trace[i]).toBeLessThanOrEqual(result.trace[i - 1] + 1e-12);
+        }
+    });
+});
+
+describe('VQE', () => {
+    const ansatz = [
+        { gate: 'Ry', qubits: [0], params: ['theta_0'] },
+        { gate: 'Ry', qubits: [1], params: ['theta_1'] },
+        { gate: 'CNOT', qubits: [0, 1] },
+    ];
+
+    test('finds the ground state of a two-qubit Hamiltonian', async () => {
+        // Ground state |11> with energy -2
+        const progress: number[] = [];
+        const result = await runVQE(ansatz, 2, 'ZI + IZ', {
+            optimizer: 'nelder-mead',
+            initialParams: { theta_0: 0.5, theta_1: 0.5 },
+        }, p => progress.push(p.bestEnergy));
+
+        expect(result.energy).toBeCloseTo(-2, 3);
+        expect(Object.keys(result.optimalParams)).toEqual(['theta_0', 'theta_1']);
+        expect(result.energyTrace.length).toBe(progress.length);
+    });
+
+    test('rejects an ansatz without symbols', async () => {
+        await expect(runVQE([{ gate: 'H', qubits: [0] }], 1, 'Z')).rejects.toThrow();
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * Expectation-value Gradients
+ * Analytic derivatives of ⟨H⟩ with respect to a circuit's symbolic parameters
+ * via the parameter-shift rule, plus a central finite-difference mode for
+ * cross-checking.
+ */
+import type { NoiseModel } from '../simulator';
+import { Observable, parsePauliSum, toPauliSum } from '../observables';
+import { ParametricGate, ParameterBindings, getCircuitParameters, isSymbol } from '../parameters';
+import { QuantumValidationError, ErrorCodes } from '../validators';
+import { evaluateExpectation } from './vqe';
+
+export type GradientMethod = 'parameter-shift' | 'finite-difference';
+
+export interface GradientOptions {
+  method?: GradientMethod;
+  numQubits?: number; // Defaults to the width of the observable
+  epsilon?: number; // Finite-difference step
+  shots?: number;
+  noiseModel?: NoiseModel;
+}
+
+/**
+ * Gates of the form exp(-iθG/2) with G having eigenvalues ±1 (or a phase
+ * generator with eigenvalues {0, 1}), for which
+ * ∂⟨H⟩/∂θ = [⟨H⟩(θ + π/2) − ⟨H⟩(θ − π/2)] / 2 holds exactly.
+ */
+export const SHIFT_RULE_GATES = ['Rx', 'Ry', 'Rz', 'Phase', 'CPhase', 'RXX', 'RYY', 'RZZ'] as const;
+
+const SHIFT = Math.PI / 2;
+
+/**
+ * Gradient of ⟨observable⟩ at the given parameter values, keyed by symbol name.
+ * A symbol used by several gates accumulates the contribution of each one.
+ */
+export function gradient(
+  circuit: ParametricGate[],
+  observable: Observable,
+  params: ParameterBindings,
+  options: GradientOptions = {}
+): ParameterBindings {
+  const { method = 'parameter-shift', epsilon = 1e-6 } = options;
+  const parsed = typeof observable === 'string' ? parsePauliSum(observable) : observable;
+  const numQubits = options.numQubits ?? parsed[0]?.pauli.length ?? 0;
+  const terms = toPauliSum(parsed, numQubits);
+
+  const expectation = (gates: ParametricGate[], values: ParameterBindings) =>
+    evaluateExpectation(gates, numQubits, terms, values, {
+      shots: options.shots,
+      noiseModel: options.noiseModel,
+    });
+
+  const names = getCircuitParameters(circuit);
+  for (const name of names) {
+    if (!Number.isFinite(params[name])) {
+      throw new QuantumValidationError(
+        `No value bound for parameter "${name}"`,
+        ErrorCodes.UNBOUND_PARAMETER,
+        { parameter: name }
+      );
+    }
+  }
+  const result: ParameterBindings = Object.fromEntries(names.map(name => [name, 0]));
+
+  if (method === 'finite-difference') {
+    for (const name of names) {
+      const plus = expectation(circuit, { ...params, [name]: params[name] + epsilon });
+      const minus = expectation(circuit, { ...params, [name]: params[name] - epsilon });
+      result[name] = (plus - minus) / (2 * epsilon);
+    }
+    return result;
+  }
+
+  // Shift each symbolic occurrence on its own, so shared symbols follow the chain rule
+  circuit.forEach((op, gateIndex) => {
+    op.params?.forEach((param, paramIndex) => {
+      if (!isSymbol(param)) return;
+
+      if (!(SHIFT_RULE_GATES as readonly string[]).includes(op.gate)) {
+        throw new QuantumValidationError(
+          `Parameter-shift rule does not apply to ${op.gate}; use finite differences`,
+          ErrorCodes.INVALID_GATE_PARAMS,
+          { gate: op.gate, parameter: param }
+        );
+      }
+
+      const shifted = (delta: number) =>
+        circuit.map((g, i) =>
+          i === gateIndex
+            ? { ...g, params: g.params!.map((p, j) => (j === paramIndex ? params[param] + delta : p)) }
+            : g
+        );
+
+      result[param] += (expectation(shifted(SHIFT), params) - expectation(shifted(-SHIFT), params)) / 2;
+    });
+  });
+  return result;
+}
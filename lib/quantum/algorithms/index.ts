@@ -0,0 +1,6 @@
+/**
+ * Variational Algorithms
+ */
+export * from './optimizers';
+export * from './vqe';
+export * from './gradients';
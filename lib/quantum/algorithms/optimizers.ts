@@ -0,0 +1,294 @@
+/**
+ * Classical Optimizers
+ * Derivative-free minimizers for variational circuits. All of them are async and
+ * yield to the event loop periodically so long runs keep the UI responsive.
+ */
+
+export type ObjectiveFunction = (x: number[]) => number;
+
+export type OptimizerName = 'nelder-mead' | 'spsa' | 'cobyla';
+
+export interface OptimizerOptions {
+  maxIterations?: number;
+  tolerance?: number;
+  initialStep?: number; // Simplex size / trust radius / SPSA perturbation
+  signal?: AbortSignal;
+}
+
+export interface OptimizerStep {
+  iteration: number;
+  value: number; // Objective at the current iterate
+  bestValue: number;
+  x: number[];
+}
+
+export interface OptimizationResult {
+  x: number[];
+  value: number;
+  trace: number[]; // Best value after each iteration
+  evaluations: number;
+  converged: boolean;
+}
+
+const YIELD_EVERY = 5;
+
+const yieldToEventLoop = () => new Promise(r => setTimeout(r, 1));
+
+/**
+ * Minimizes f starting from x0 with the named method
+ */
+export async function minimize(
+  f: ObjectiveFunction,
+  x0: number[],
+  method: OptimizerName,
+  options: OptimizerOptions = {},
+  onIteration?: (step: OptimizerStep) => void
+): Promise<OptimizationResult> {
+  switch (method) {
+    case 'nelder-mead':
+      return nelderMead(f, x0, options, onIteration);
+    case 'spsa':
+      return spsa(f, x0, options, onIteration);
+    case 'cobyla':
+      return cobyla(f, x0, options, onIteration);
+    default:
+      throw new Error(`Unknown optimizer: ${method}`);
+  }
+}
+
+/**
+ * Nelder-Mead downhill simplex with standard coefficients
+ */
+export async function nelderMead(
+  f: ObjectiveFunction,
+  x0: number[],
+  options: OptimizerOptions = {},
+  onIteration?: (step: OptimizerStep) => void
+): Promise<OptimizationResult> {
+  const { maxIterations = 200, tolerance = 1e-6, initialStep = 0.5, signal } = options;
+  const n = x0.length;
+  let evaluations = 0;
+  const evaluate = (x: number[]) => {
+    evaluations++;
+    return f(x);
+  };
+
+  let simplex = [x0, ...x0.map((_, i) => x0.map((v, j) => (i === j ? v + initialStep : v)))];
+  let values = simplex.map(evaluate);
+  const trace: number[] = [];
+  let converged = false;
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    if (signal?.aborted) break;
+
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+    simplex = order.map(i => simplex[i]);
+    values = order.map(i => values[i]);
+
+    trace.push(values[0]);
+    onIteration?.({ iteration, value: values[0], bestValue: values[0], x: [...simplex[0]] });
+
+    if (Math.abs(values[n] - values[0]) < tolerance) {
+      converged = true;
+      break;
+    }
+
+    const centroid = new Array(n).fill(0);
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) centroid[j] += simplex[i][j] / n;
+    }
+    const towards = (coef: number) => centroid.map((c, j) => c + coef * (simplex[n][j] - c));
+
+    const reflected = towards(-1);
+    const fr = evaluate(reflected);
+
+    if (fr < values[0]) {
+      const expanded = towards(-2);
+      const fe = evaluate(expanded);
+      [simplex[n], values[n]] = fe < fr ? [expanded, fe] : [reflected, fr];
+    } else if (fr < values[n - 1]) {
+      [simplex[n], values[n]] = [reflected, fr];
+    } else {
+      const contracted = fr < values[n] ? towards(-0.5) : towards(0.5);
+      const fc = evaluate(contracted);
+      if (fc < Math.min(fr, values[n])) {
+        [simplex[n], values[n]] = [contracted, fc];
+      } else {
+        // Shrink towards the best vertex
+        for (let i = 1; i <= n; i++) {
+          simplex[i] = simplex[i].map((v, j) => simplex[0][j] + 0.5 * (v - simplex[0][j]));
+          values[i] = evaluate(simplex[i]);
+        }
+      }
+    }
+
+    if (iteration % YIELD_EVERY === 0) await yieldToEventLoop();
+  }
+
+  const best = values.indexOf(Math.min(...values));
+  return { x: simplex[best], value: values[best], trace, evaluations, converged };
+}
+
+/**
+ * Simultaneous perturbation stochastic approximation.
+ * Two evaluations per iteration regardless of dimension, and robust to shot noise.
+ */
+export async function spsa(
+  f: ObjectiveFunction,
+  x0: number[],
+  options: OptimizerOptions = {},
+  onIteration?: (step: OptimizerStep) => void
+): Promise<OptimizationResult> {
+  const { maxIterations = 200, tolerance = 1e-6, initialStep = 0.2, signal } = options;
+  // Spall's recommended gain sequences
+  const a = initialStep;
+  const c = 0.1;
+  const A = 0.1 * maxIterations;
+  const alpha = 0.602;
+  const gamma = 0.101;
+
+  let x = [...x0];
+  let evaluations = 1;
+  let value = f(x);
+  let best = { x: [...x], value };
+  const trace: number[] = [];
+  let converged = false;
+  // A single perturbation can cancel exactly, so require a run of tiny steps
+  let smallSteps = 0;
+
+  for (let k = 0; k < maxIterations; k++) {
+    if (signal?.aborted) break;
+
+    const ak = a / Math.pow(k + 1 + A, alpha);
+    const ck = c / Math.pow(k + 1, gamma);
+    const delta = x.map(() => (Math.random() < 0.5 ? -1 : 1));
+
+    const plus = f(x.map((v, i) => v + ck * delta[i]));
+    const minus = f(x.map((v, i) => v - ck * delta[i]));
+    evaluations += 2;
+
+    const next = x.map((v, i) => v - ak * (plus - minus) / (2 * ck * delta[i]));
+    const step = Math.sqrt(next.reduce((sum, v, i) => sum + (v - x[i]) ** 2, 0));
+    x = next;
+    value = f(x);
+    evaluations++;
+
+    if (value < best.value) best = { x: [...x], value };
+    trace.push(best.value);
+    onIteration?.({ iteration: k, value, bestValue: best.value, x: [...x] });
+
+    smallSteps = step < tolerance ? smallSteps + 1 : 0;
+    if (smallSteps >= 10) {
+      converged = true;
+      break;
+    }
+    if (k % YIELD_EVERY === 0) await yieldToEventLoop();
+  }
+
+  return { x: best.x, value: best.value, trace, evaluations, converged };
+}
+
+/**
+ * COBYLA-style linear trust-region method (unconstrained).
+ * A linear model is interpolated through n+1 points; the step moves a
+ * distance rho downhill and rho shrinks whenever the model stops helping.
+ */
+export async function cobyla(
+  f: ObjectiveFunction,
+  x0: number[],
+  options: OptimizerOptions = {},
+  onIteration?: (step: OptimizerStep) => void
+): Promise<OptimizationResult> {
+  const { maxIterations = 200, tolerance = 1e-6, initialStep = 0.5, signal } = options;
+  let evaluations = 0;
+  const evaluate = (x: number[]) => {
+    evaluations++;
+    return f(x);
+  };
+
+  let rho = initialStep;
+  const buildPoints = (center: number[], centerValue: number) => {
+    const pts = [center, ...center.map((_, i) => center.map((v, j) => (i === j ? v + rho : v)))];
+    return { pts, vals: [centerValue, ...pts.slice(1).map(evaluate)] };
+  };
+
+  let { pts, vals } = buildPoints(x0, evaluate(x0));
+  const trace: number[] = [];
+  let converged = false;
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    if (signal?.aborted) break;
+
+    const bestIdx = vals.indexOf(Math.min(...vals));
+    const xBest = pts[bestIdx];
+    trace.push(vals[bestIdx]);
+    onIteration?.({ iteration, value: vals[bestIdx], bestValue: vals[bestIdx], x: [...xBest] });
+
+    if (rho < tolerance) {
+      converged = true;
+      break;
+    }
+
+    // Linear model: (x_i - x_best) · g = f_i - f_best
+    const rows: number[][] = [];
+    const rhs: number[] = [];
+    pts.forEach((p, i) => {
+      if (i === bestIdx) return;
+      rows.push(p.map((v, j) => v - xBest[j]));
+      rhs.push(vals[i] - vals[bestIdx]);
+    });
+    const g = solveLinearSystem(rows, rhs);
+    const gNorm = g ? Math.sqrt(g.reduce((sum, v) => sum + v * v, 0)) : 0;
+
+    let improved = false;
+    if (g && gNorm > 1e-12) {
+      const trial = xBest.map((v, j) => v - rho * g[j] / gNorm);
+      const ft = evaluate(trial);
+      if (ft < vals[bestIdx]) {
+        // Replace the worst interpolation point
+        const worst = vals.indexOf(Math.max(...vals));
+        pts[worst] = trial;
+        vals[worst] = ft;
+        improved = true;
+      }
+    }
+
+    if (!improved) {
+      rho *= 0.5;
+      ({ pts, vals } = buildPoints(xBest, vals[bestIdx]));
+    }
+
+    if (iteration % YIELD_EVERY === 0) await yieldToEventLoop();
+  }
+
+  const best = vals.indexOf(Math.min(...vals));
+  return { x: pts[best], value: vals[best], trace, evaluations, converged };
+}
+
+/** Gaussian elimination with partial pivoting; null if the system is singular */
+function solveLinearSystem(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
@@ -0,0 +1,110 @@
+/**
+ * Variational Quantum Eigensolver
+ * Minimizes ⟨H⟩ over the symbolic parameters of an ansatz circuit.
+ */
+import { QuantumSimulator } from '../simulator';
+import type { NoiseModel } from '../simulator';
+import { Observable, toPauliSum } from '../observables';
+import { ParametricGate, ParameterBindings, bind, getCircuitParameters } from '../parameters';
+import { QuantumValidationError, ErrorCodes } from '../validators';
+import { minimize, OptimizerName } from './optimizers';
+
+export interface VQEOptions {
+  optimizer?: OptimizerName;
+  maxIterations?: number;
+  tolerance?: number;
+  initialParams?: ParameterBindings; // Missing symbols start at random angles
+  shots?: number; // Estimate ⟨H⟩ from shots instead of exactly
+  noiseModel?: NoiseModel;
+  signal?: AbortSignal;
+}
+
+export interface VQEProgress {
+  iteration: number;
+  energy: number;
+  bestEnergy: number;
+  params: ParameterBindings;
+}
+
+export interface VQEResult {
+  energy: number;
+  optimalParams: ParameterBindings;
+  energyTrace: number[];
+  evaluations: number;
+  converged: boolean;
+}
+
+export interface ExpectationOptions {
+  shots?: number;
+  noiseModel?: NoiseModel;
+}
+
+/**
+ * ⟨H⟩ for one binding of the circuit's symbolic parameters
+ */
+export function evaluateExpectation(
+  circuit: ParametricGate[],
+  numQubits: number,
+  observable: Observable,
+  values: ParameterBindings,
+  options: ExpectationOptions = {}
+): number {
+  const sim = new QuantumSimulator({ numQubits, noiseModel: options.noiseModel });
+  for (const op of bind(circuit, values)) {
+    sim.execute(op);
+  }
+  return sim.expectation(observable, options.shots);
+}
+
+export async function runVQE(
+  ansatz: ParametricGate[],
+  numQubits: number,
+  hamiltonian: Observable,
+  options: VQEOptions = {},
+  onProgress?: (progress: VQEProgress) => void
+): Promise<VQEResult> {
+  const names = getCircuitParameters(ansatz);
+  if (names.length === 0) {
+    throw new QuantumValidationError(
+      'Ansatz has no symbolic parameters to optimize',
+      ErrorCodes.UNBOUND_PARAMETER,
+      { numGates: ansatz.length }
+    );
+  }
+
+  // Parse once so a malformed Hamiltonian fails before the optimizer starts
+  const terms = toPauliSum(hamiltonian, numQubits);
+  const toBindings = (x: number[]) => Object.fromEntries(names.map((name, i) => [name, x[i]]));
+  const energy = (x: number[]) =>
+    evaluateExpectation(ansatz, numQubits, terms, toBindings(x), {
+      shots: options.shots,
+      noiseModel: options.noiseModel,
+    });
+
+  const x0 = names.map(name => options.initialParams?.[name] ?? Math.random() * 2 * Math.PI);
+
+  const result = await minimize(
+    energy,
+    x0,
+    options.optimizer ?? 'nelder-mead',
+    {
+      maxIterations: options.maxIterations,
+      tolerance: options.tolerance,
+      signal: options.signal,
+    },
+    step => onProgress?.({
+      iteration: step.iteration,
+      energy: step.value,
+      bestEnergy: step.bestValue,
+      params: toBindings(step.x),
+    })
+  );
+
+  return {
+    energy: result.value,
+    optimalParams: toBindings(result.x),
+    energyTrace: result.trace,
+    evaluations: result.evaluations,
+    converged: result.converged,
+  };
+}
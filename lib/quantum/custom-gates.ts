@@ -0,0 +1,393 @@
+/**
+ * Custom Gate Registry
+ * User-defined gates, either as a unitary matrix or as a named subcircuit of
+ * existing gates (an oracle, a QFT block). Defined gates are added to
+ * GATE_LIBRARY, so the simulators, validators and code parser accept them
+ * like built-ins; exporters expand subcircuits with expandSubcircuits.
+ */
+import { Complex, complex } from './complex';
+import { Matrix, createMatrix, identity, isUnitary, matrixMultiply } from './matrix';
+import { GATE_LIBRARY, GateInfo, NON_UNITARY_OPS } from './gates';
+import { QuantumValidationError, ErrorCodes, LIMITS, validateQubitArray } from './validators';
+import { isSymbol, isValidSymbol, getCircuitParameters, type ParamValue, type ParametricGate } from './parameters';
+
+interface CustomGateBase {
+  name: string; // Identifier used in circuits and code, e.g. Oracle
+  symbol?: string; // Label in the palette and circuit; defaults to the name
+  description?: string;
+  qubits: number;
+}
+
+/** A fixed unitary; qubits[0] of an application is the most significant index bit */
+export interface MatrixGateDefinition extends CustomGateBase {
+  kind: 'matrix';
+  matrix: Matrix;
+}
+
+/**
+ * A sequence of existing gates on local qubits 0..qubits-1. Parameters of the
+ * inner gates are numbers or names from `params`, bound when the gate is applied.
+ */
+export interface SubcircuitGateDefinition extends CustomGateBase {
+  kind: 'subcircuit';
+  params?: string[];
+  gates: ParametricGate[];
+}
+
+export type CustomGateDefinition = MatrixGateDefinition | SubcircuitGateDefinition;
+
+// A custom gate becomes a 2^n × 2^n matrix for the simulators
+export const MAX_CUSTOM_GATE_QUBITS = 5;
+
+// Gates present before any definition; these cannot be redefined or removed
+const BUILT_IN_GATES = new Set([...Object.keys(GATE_LIBRARY), ...Object.keys(NON_UNITARY_OPS), 'DIAGONAL']);
+
+// Definitions in the order they were made, so dependencies come first
+const registry = new Map<string, CustomGateDefinition>();
+
+function invalid(message: string, name: string): QuantumValidationError {
+  return new QuantumValidationError(message, ErrorCodes.INVALID_CUSTOM_GATE, { gateName: name });
+}
+
+function gateMatrix(info: GateInfo, params: number[]): Matrix {
+  return typeof info.matrix === 'function' ? info.matrix(params.length > 0 ? params : [0]) : info.matrix;
+}
+
+// Lifts a gate on `qubits` to the full 2^n space, with qubit 0 most significant
+function embed(matrix: Matrix, qubits: number[], n: number): Matrix {
+  const size = 1 << n;
+  const targetMask = qubits.reduce((mask, q) => mask | (1 << (n - 1 - q)), 0);
+  const local = (index: number) => qubits.reduce((bits, q) => (bits << 1) | ((index >> (n - 1 - q)) & 1), 0);
+
+  const result = createMatrix(size, size);
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      if ((row & ~targetMask) !== (col & ~targetMask)) continue;
+      result[row][col] = matrix[local(row)][local(col)];
+    }
+  }
+  return result;
+}
+
+/** Unitary of a subcircuit gate with its parameters bound to `values` (missing ones are 0) */
+export function subcircuitMatrix(definition: SubcircuitGateDefinition, values: number[] = []): Matrix {
+  const formal = definition.params ?? [];
+  let total = identity(1 << definition.qubits);
+
+  for (const gate of definition.gates) {
+    const params = (gate.params ?? []).map(p => (isSymbol(p) ? values[formal.indexOf(p)] ?? 0 : p));
+    const matrix = gateMatrix(GATE_LIBRARY[gate.gate], params);
+    total = matrixMultiply(embed(matrix, gate.qubits, definition.qubits), total);
+  }
+  return total;
+}
+
+// Custom gates a definition uses, directly or through other custom gates
+function dependencies(definition: CustomGateDefinition, seen = new Set<string>()): Set<string> {
+  if (definition.kind !== 'subcircuit') return seen;
+  for (const gate of definition.gates) {
+    const inner = registry.get(gate.gate);
+    if (inner && !seen.has(inner.name)) {
+      seen.add(inner.name);
+      dependencies(inner, seen);
+    }
+  }
+  return seen;
+}
+
+function validateMatrix(definition: MatrixGateDefinition): void {
+  const { name, matrix } = definition;
+  const size = 1 << definition.qubits;
+
+  if (!Array.isArray(matrix) || matrix.length !== size || matrix.some(row => !Array.isArray(row) || row.length !== size)) {
+    throw invalid(`${name} acts on ${definition.qubits} qubit(s), so its matrix must be ${size}×${size}`, name);
+  }
+  const finite = matrix.every(row => row.every(entry =>
+    typeof entry?.real === 'number' && Number.isFinite(entry.real) &&
+    typeof entry?.imag === 'number' && Number.isFinite(entry.imag)
+  ));
+  if (!finite) {
+    throw invalid(`Every entry of the ${name} matrix must be a finite complex number`, name);
+  }
+  if (!isUnitary(matrix, LIMITS.NORMALIZATION_TOLERANCE)) {
+    throw invalid(`The ${name} matrix is not unitary (U†U must be the identity)`, name);
+  }
+}
+
+function validateSubcircuit(definition: SubcircuitGateDefinition): void {
+  const { name } = definition;
+  const formal = definition.params ?? [];
+
+  formal.forEach((param, i) => {
+    if (!isValidSymbol(param)) throw invalid(`Parameter "${param}" of ${name} must be a name such as theta`, name);
+    if (formal.indexOf(param) !== i) throw invalid(`Parameter "${param}" of ${name} is listed twice`, name);
+  });
+  if (!Array.isArray(definition.gates) || definition.gates.length === 0) {
+    throw invalid(`${name} must contain at least one gate`, name);
+  }
+
+  definition.gates.forEach((gate, i) => {
+    const where = `${name}, gate ${i + 1}`;
+    if (gate.gate === name) throw invalid(`${where}: a gate cannot contain itself`, name);
+
+    const info = Object.hasOwn(GATE_LIBRARY, gate.gate) ? GATE_LIBRARY[gate.gate] : undefined;
+    if (!info) {
+      const reason = NON_UNITARY_OPS[gate.gate] ? 'is not unitary and cannot be part of a gate' : 'is not a known gate';
+      throw invalid(`${where}: ${gate.gate} ${reason}`, name);
+    }
+    if (gate.condition || gate.clbits) throw invalid(`${where}: gates inside a custom gate cannot use classical bits`, name);
+    if (registry.get(gate.gate) && dependencies(registry.get(gate.gate)!).has(name)) {
+      throw invalid(`${where}: ${gate.gate} already contains ${name}`, name);
+    }
+
+    try {
+      validateQubitArray(gate.qubits, info.qubits, definition.qubits, gate.gate);
+    } catch (error) {
+      throw invalid(`${where}: ${error instanceof Error ? error.message : String(error)}`, name);
+    }
+
+    const params = gate.params ?? [];
+    const required = info.params?.length ?? 0;
+    if (params.length > required || (required > 0 && params.length === 0)) {
+      throw invalid(`${where}: ${gate.gate} takes ${required} parameter(s), found ${params.length}`, name);
+    }
+    for (const param of params) {
+      if (isSymbol(param) ? !formal.includes(param) : !Number.isFinite(param)) {
+        throw invalid(`${where}: parameter ${param} must be a finite number or one of ${name}'s parameters`, name);
+      }
+    }
+  });
+}
+
+/**
+ * Checks a definition without registering it: a free identifier, a qubit count
+ * the simulators can expand, and a unitary matrix or a valid gate sequence.
+ */
+export function validateCustomGate(definition: CustomGateDefinition): void {
+  const { name } = definition;
+
+  if (typeof name !== 'string' || !isValidSymbol(name)) {
+    throw invalid(`Gate name "${name}" must start with a letter or _ and use only letters, digits and _`, String(name));
+  }
+  if (BUILT_IN_GATES.has(name)) {
+    throw invalid(`${name} is a built-in gate and cannot be redefined`, name);
+  }
+  if (!Number.isInteger(definition.qubits) || definition.qubits < 1 || definition.qubits > MAX_CUSTOM_GATE_QUBITS) {
+    throw invalid(`${name} must act on 1 to ${MAX_CUSTOM_GATE_QUBITS} qubits`, name);
+  }
+
+  if (definition.kind === 'matrix') validateMatrix(definition);
+  else if (definition.kind === 'subcircuit') validateSubcircuit(definition);
+  else throw invalid(`${name} must be defined by a matrix or a subcircuit`, name);
+}
+
+function toGateInfo(definition: CustomGateDefinition): GateInfo {
+  const common = {
+    name: definition.name,
+    symbol: definition.symbol || definition.name,
+    qubits: definition.qubits,
+  };
+  if (definition.kind === 'matrix') {
+    return { ...common, matrix: definition.matrix, description: definition.description || `Custom ${definition.qubits}-qubit unitary` };
+  }
+
+  const params = definition.params && definition.params.length > 0 ? [...definition.params] : undefined;
+  return {
+    ...common,
+    // Parametrized subcircuits are recomputed per application; fixed ones once
+    matrix: params ? (values) => subcircuitMatrix(definition, values) : subcircuitMatrix(definition),
+    params,
+    description: definition.description || `Subcircuit of ${definition.gates.length} gate${definition.gates.length === 1 ? '' : 's'}`,
+  };
+}
+
+// Deep copy, so later edits to the caller's objects cannot bypass validation
+function copyDefinition(definition: CustomGateDefinition): CustomGateDefinition {
+  return definition.kind === 'matrix'
+    ? { ...definition, matrix: definition.matrix.map(row => row.map(entry => complex(entry.real, entry.imag))) }
+    : {
+      ...definition,
+      params: definition.params ? [...definition.params] : undefined,
+      gates: definition.gates.map(gate => ({ gate: gate.gate, qubits: [...gate.qubits], ...(gate.params ? { params: [...gate.params] } : {}) })),
+    };
+}
+
+/**
+ * Validates and registers a gate, replacing an earlier definition of the same
+ * name. A replacement must keep the qubit and parameter counts when other
+ * custom gates use it.
+ */
+export function defineGate(definition: CustomGateDefinition): GateInfo {
+  validateCustomGate(definition);
+
+  const previous = registry.get(definition.name);
+  if (previous) {
+    const users = dependentsOf(definition.name);
+    const arity = (d: CustomGateDefinition) => `${d.qubits}/${d.kind === 'subcircuit' ? d.params?.length ?? 0 : 0}`;
+    if (users.length > 0 && arity(previous) !== arity(definition)) {
+      throw invalid(`${definition.name} is used by ${users.join(', ')}; keep its qubit and parameter counts`, definition.name);
+    }
+  }
+
+  const stored = copyDefinition(definition);
+  registry.set(stored.name, stored);
+  const info = toGateInfo(stored);
+  GATE_LIBRARY[stored.name] = info;
+
+  // Fixed subcircuits that contain this gate have a cached matrix to refresh
+  for (const user of dependentsOf(stored.name)) GATE_LIBRARY[user] = toGateInfo(registry.get(user)!);
+  return info;
+}
+
+// Custom gates that contain `name`, directly or indirectly, in definition order
+function dependentsOf(name: string): string[] {
+  return [...registry.values()].filter(d => d.name !== name && dependencies(d).has(name)).map(d => d.name);
+}
+
+/** Removes a custom gate; refuses while another custom gate is built from it */
+export function removeGate(name: string): void {
+  if (!registry.has(name)) {
+    throw invalid(BUILT_IN_GATES.has(name) ? `${name} is a built-in gate and cannot be removed` : `No custom gate named ${name}`, name);
+  }
+  const users = dependentsOf(name);
+  if (users.length > 0) {
+    throw invalid(`${name} is used by ${users.join(', ')}; remove those first`, name);
+  }
+  registry.delete(name);
+  delete GATE_LIBRARY[name];
+}
+
+export function isCustomGate(name: string): boolean {
+  return registry.has(name);
+}
+
+export function getCustomGate(name: string): CustomGateDefinition | undefined {
+  return registry.get(name);
+}
+
+/** Every custom gate, dependencies before the gates that use them */
+export function getCustomGates(): CustomGateDefinition[] {
+  return [...registry.values()];
+}
+
+/** Definitions of the custom gates a circuit uses, including those they are built from */
+export function customGatesUsedBy(gates: { gate: string }[]): CustomGateDefinition[] {
+  const used = new Set<string>();
+  for (const { gate } of gates) {
+    const definition = registry.get(gate);
+    if (definition) {
+      used.add(gate);
+      dependencies(definition, used);
+    }
+  }
+  return getCustomGates().filter(d => used.has(d.name));
+}
+
+/**
+ * Replaces subcircuit gates with the gates they contain, recursively, mapping
+ * qubits and parameters. Conditions carry over to every inner gate; matrix
+ * gates and built-ins pass through.
+ */
+export function expandSubcircuits(gates: ParametricGate[]): ParametricGate[] {
+  return gates.flatMap(gate => {
+    const definition = registry.get(gate.gate);
+    if (definition?.kind !== 'subcircuit') return [gate];
+
+    const formal = definition.params ?? [];
+    const actual = gate.params ?? [];
+    const inner = definition.gates.map((g): ParametricGate => ({
+      gate: g.gate,
+      qubits: g.qubits.map(q => gate.qubits[q]),
+      ...(g.params ? { params: g.params.map((p): ParamValue => (isSymbol(p) ? actual[formal.indexOf(p)] ?? 0 : p)) } : {}),
+      ...(gate.condition ? { condition: gate.condition } : {}),
+    }));
+    return expandSubcircuits(inner);
+  });
+}
+
+/**
+ * Drafts a subcircuit from circuit gates, in order: it acts on the qubits they
+ * span, renumbered from 0, and takes the circuit's symbols as its parameters.
+ * Pass the result to defineGate, which reports anything that cannot be a gate.
+ */
+export function subcircuitFromCircuit(name: string, gates: ParametricGate[]): SubcircuitGateDefinition {
+  const used = gates.flatMap(g => g.qubits);
+  const first = used.length > 0 ? Math.min(...used) : 0;
+  const last = used.length > 0 ? Math.max(...used) : 0;
+  const params = getCircuitParameters(gates);
+
+  return {
+    kind: 'subcircuit',
+    name,
+    qubits: last - first + 1,
+    ...(params.length > 0 ? { params } : {}),
+    gates: gates.map(({ gate, qubits, params, clbits, condition }) => ({
+      gate,
+      qubits: qubits.map(q => q - first),
+      ...(params ? { params } : {}),
+      ...(clbits ? { clbits } : {}),
+      ...(condition ? { condition } : {}),
+    })),
+  };
+}
+
+/** JSON for localStorage or a file; restoreCustomGates reads it back */
+export function serializeCustomGates(definitions: CustomGateDefinition[] = getCustomGates()): string {
+  return JSON.stringify(definitions);
+}
+
+/**
+ * Defines every gate in serialized JSON, in order. Invalid entries are skipped
+ * and reported so one bad gate does not lose the rest; `skipped` holds them
+ * for the caller to keep, and is null when the JSON is not a list at all.
+ */
+export function restoreCustomGates(json: string): { defined: string[]; errors: string[]; skipped: unknown[] | null } {
+  const defined: string[] = [];
+  const errors: string[] = [];
+  const skipped: unknown[] = [];
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(json);
+  } catch {
+    return { defined, errors: ['Saved custom gates are not valid JSON'], skipped: null };
+  }
+  if (!Array.isArray(entries)) return { defined, errors: ['Saved custom gates must be a list'], skipped: null };
+
+  for (const entry of entries as CustomGateDefinition[]) {
+    try {
+      defineGate(entry);
+      defined.push(entry.name);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+      skipped.push(entry);
+    }
+  }
+  return { defined, errors, skipped };
+}
+
+/**
+ * Reads a matrix typed one row per line, entries separated by spaces or commas:
+ * 1, 0.5+0.5i, -i, 0.7071. Returns null if any entry is not a number.
+ */
+export function parseMatrixText(text: string): Matrix | null {
+  const rows = text.trim().split(/\n+/).map(line => line.trim()).filter(Boolean);
+  const matrix = rows.map(row => row.split(/[\s,;]+/).filter(Boolean).map(parseComplex));
+  return matrix.length > 0 && matrix.every(row => row.every(entry => entry !== null)) ? (matrix as Complex[][]) : null;
+}
+
+const NUMBER = String.raw`(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?`;
+const REAL = new RegExp(`^[+-]?${NUMBER}$`, 'i');
+const IMAGINARY = new RegExp(`^([+-]?(?:${NUMBER})?)[ij]$`, 'i');
+const COMPLEX = new RegExp(`^([+-]?${NUMBER})([+-](?:${NUMBER})?)[ij]$`, 'i');
+
+// "i" and "-i" have an implied coefficient of 1
+const coefficient = (text: string) => (text === '' || text === '+' ? 1 : text === '-' ? -1 : Number(text));
+
+function parseComplex(text: string): Complex | null {
+  if (REAL.test(text)) return complex(Number(text));
+  const imaginary = IMAGINARY.exec(text);
+  if (imaginary) return complex(0, coefficient(imaginary[1]));
+  const both = COMPLEX.exec(text);
+  return both ? complex(Number(both[1]), coefficient(both[2])) : null;
+}
@@ -0,0 +1,377 @@
+/**
+ * Density Matrix Simulator
+ * Exact mixed-state simulation for studying decoherence on small registers.
+ * Memory grows as 4^n, so the qubit count is capped well below the state vector limit.
+ */
+import { Complex, complex } from './complex';
+import { Matrix } from './matrix';
+import * as Gates from './gates';
+import { gateNoiseChannels } from './noise';
+import { Observable, toPauliSum, pauliMasks, parity } from './observables';
+import { QuantumSimulator, splitGateArgs, conditionHolds } from './simulator';
+import type { NoiseModel, SimulatorConfig, GateOperation, GateCondition } from './simulator';
+import {
+  validateNoiseModel,
+  validateQubitIndex,
+  validateClbitIndex,
+  QuantumValidationError,
+  ErrorCodes,
+  LIMITS,
+} from './validators';
+
+export class DensityMatrixSimulator {
+  private numQubits: number;
+  private dim: number;
+  // Row-major ρ stored as [re00, im00, re01, im01, ...]
+  private rho: Float64Array;
+  private noiseModel?: NoiseModel;
+  private noiseChannels: Matrix[][];
+  private numClbits: number;
+  private classicalRegister: number[];
+  // Kept so classical-register statistics can be sampled from trajectories
+  private operations: GateOperation[] = [];
+
+  constructor(config: SimulatorConfig | number) {
+    if (typeof config === 'number') {
+      this.numQubits = config;
+      this.numClbits = config;
+      this.noiseModel = undefined;
+    } else {
+      this.numQubits = config.numQubits;
+      this.numClbits = config.numClbits ?? config.numQubits;
+      this.noiseModel = config.noiseModel;
+    }
+    this.classicalRegister = new Array(this.numClbits).fill(0);
+
+    if (this.numQubits > LIMITS.MAX_DENSITY_MATRIX_QUBITS) {
+      throw new QuantumValidationError(
+        `Density matrix simulation supports at most ${LIMITS.MAX_DENSITY_MATRIX_QUBITS} qubits, got ${this.numQubits}`,
+        ErrorCodes.MEMORY_LIMIT,
+        { numQubits: this.numQubits, max: LIMITS.MAX_DENSITY_MATRIX_QUBITS }
+      );
+    }
+
+    if (this.noiseModel) validateNoiseModel(this.noiseModel);
+    this.noiseChannels = gateNoiseChannels(this.noiseModel);
+
+    this.dim = Math.pow(2, this.numQubits);
+    this.rho = new Float64Array(this.dim * this.dim * 2);
+    this.rho[0] = 1.0; // ρ = |0...0⟩⟨0...0|
+  }
+
+  getNumQubits(): number {
+    return this.numQubits;
+  }
+
+  getNumClbits(): number {
+    return this.numClbits;
+  }
+
+  getClassicalRegister(): number[] {
+    return [...this.classicalRegister];
+  }
+
+  getDensityMatrix(): Complex[][] {
+    const result: Complex[][] = [];
+    for (let i = 0; i < this.dim; i++) {
+      const row: Complex[] = [];
+      for (let j = 0; j < this.dim; j++) {
+        const idx = 2 * (i * this.dim + j);
+        row.push({ real: this.rho[idx], imag: this.rho[idx + 1] });
+      }
+      result.push(row);
+    }
+    return result;
+  }
+
+  /** Tr(ρ²): 1 for pure states, 1/2^n for the maximally mixed state */
+  getPurity(): number {
+    let purity = 0;
+    for (let i = 0; i < this.rho.length; i++) {
+      purity += this.rho[i] * this.rho[i];
+    }
+    return purity;
+  }
+
+  getProbabilities(): number[] {
+    const probs: number[] = [];
+    for (let i = 0; i < this.dim; i++) {
+      probs.push(this.rho[2 * (i * this.dim + i)]);
+    }
+    return probs;
+  }
+
+  apply(gateName: string, ...args: (number | number[])[]): void {
+    const { params, qubits } = splitGateArgs(args);
+
+    const gateInfo = Gates.GATE_LIBRARY[gateName];
+    if (!gateInfo) throw new Error(`Unknown gate: ${gateName}`);
+
+    let matrix: Matrix;
+    if (typeof gateInfo.matrix === 'function') {
+      matrix = gateInfo.matrix(params && params.length > 0 ? params : [0]);
+    } else {
+      matrix = gateInfo.matrix;
+    }
+
+    // ρ → U ρ U†
+    this.applyOperator(this.rho, matrix, qubits, 'left');
+    this.applyOperator(this.rho, matrix, qubits, 'right');
+    this.operations.push({ gate: gateName, qubits, params });
+
+    // Noise channels are applied exactly rather than sampled
+    for (const qubit of qubits) {
+      for (const kraus of this.noiseChannels) {
+        this.applyKrausChannel(kraus, qubit);
+      }
+    }
+  }
+
+  applyIf(condition: GateCondition, gateName: string, ...args: (number | number[])[]): void {
+    const { params, qubits } = splitGateArgs(args);
+    this.execute({ gate: gateName, qubits, params, condition });
+  }
+
+  /** Conditions read the classical register of the current measured branch */
+  execute(op: GateOperation): void {
+    if (op.condition) {
+      op.condition.clbits.forEach(clbit => validateClbitIndex(clbit, this.numClbits));
+      if (!conditionHolds(op.condition, this.classicalRegister)) {
+        this.operations.push(op);
+        return;
+      }
+    }
+
+    if (op.gate === 'MEASURE') {
+      this.measure(op.qubits[0], op.clbits?.[0]);
+    } else if (op.gate === 'RESET') {
+      this.reset(op.qubits[0]);
+    } else {
+      this.apply(op.gate, op.params ?? [], ...op.qubits);
+    }
+
+    if (op.condition) {
+      this.operations[this.operations.length - 1].condition = op.condition;
+    }
+  }
+
+  /**
+   * Selective measurement: one outcome is drawn and ρ → P ρ P / p.
+   * The resulting ρ is a single branch; use sample() or sampleClassical()
+   * for statistics over all branches.
+   */
+  measure(qubit: number, clbit?: number): { outcome: number; probability: number } {
+    validateQubitIndex(qubit, this.numQubits, 'measure');
+    if (clbit !== undefined) validateClbitIndex(clbit, this.numClbits);
+
+    const mask = 1 << (this.numQubits - 1 - qubit);
+    let p1 = 0;
+    for (let i = 0; i < this.dim; i++) {
+      if ((i & mask) !== 0) p1 += this.rho[2 * (i * this.dim + i)];
+    }
+
+    const outcome = Math.random() < p1 ? 1 : 0;
+    const probability = outcome === 1 ? p1 : 1 - p1;
+
+    for (let i = 0; i < this.dim; i++) {
+      for (let j = 0; j < this.dim; j++) {
+        const keep = ((i & mask) !== 0 ? 1 : 0) === outcome && ((j & mask) !== 0 ? 1 : 0) === outcome;
+        const idx = 2 * (i * this.dim + j);
+        this.rho[idx] = keep ? this.rho[idx] / probability : 0;
+        this.rho[idx + 1] = keep ? this.rho[idx + 1] / probability : 0;
+      }
+    }
+
+    if (clbit !== undefined) {
+      const readoutError = this.noiseModel?.readout_error ?? 0;
+      this.classicalRegister[clbit] = Math.random() < readoutError ? 1 - outcome : outcome;
+    }
+
+    this.operations.push({ gate: 'MEASURE', qubits: [qubit], clbits: clbit !== undefined ? [clbit] : undefined });
+    return { outcome, probability };
+  }
+
+  /** Exact reset channel with Kraus operators |0⟩⟨0| and |0⟩⟨1| */
+  reset(qubit: number): void {
+    validateQubitIndex(qubit, this.numQubits, 'reset');
+    this.applyKrausChannel([
+      [[complex(1), complex(0)], [complex(0), complex(0)]],
+      [[complex(0), complex(1)], [complex(0), complex(0)]],
+    ], qubit);
+    this.operations.push({ gate: 'RESET', qubits: [qubit] });
+  }
+
+  /**
+   * Applies a Kraus channel ρ → Σ K ρ K† on the given qubit(s).
+   * Operators act on qubits in the same order as gate matrices.
+   */
+  applyKrausChannel(kraus: Matrix[], qubits: number | number[]): void {
+    const targets = Array.isArray(qubits) ? qubits : [qubits];
+    const result = new Float64Array(this.rho.length);
+
+    for (const k of kraus) {
+      const term = new Float64Array(this.rho);
+      this.applyOperator(term, k, targets, 'left');
+      this.applyOperator(term, k, targets, 'right');
+      for (let i = 0; i < result.length; i++) {
+        result[i] += term[i];
+      }
+    }
+
+    this.rho = result;
+  }
+
+  /**
+   * Multiplies ρ by an operator on a subset of qubits.
+   * 'left' computes M ρ (acting on row indices), 'right' computes ρ M† (acting on column indices).
+   */
+  private applyOperator(rho: Float64Array, m: Matrix, qubits: number[], side: 'left' | 'right'): void {
+    const n = this.numQubits;
+    const dim = this.dim;
+    const opSize = Math.pow(2, qubits.length);
+    const masks = qubits.map(q => 1 << (n - 1 - q));
+    const totalMask = masks.reduce((a, b) => a | b, 0);
+    // For ρ M† each row transforms by conj(M)
+    const conj = side === 'right' ? -1 : 1;
+
+    const subIndices = new Int32Array(opSize);
+    const v_re = new Float64Array(opSize);
+    const v_im = new Float64Array(opSize);
+
+    for (let base = 0; base < dim; base++) {
+      if ((base & totalMask) !== 0) continue;
+
+      for (let j = 0; j < opSize; j++) {
+        let idx = base;
+        for (let k = 0; k < qubits.length; k++) {
+          if ((j >> (qubits.length - 1 - k)) & 1) idx |= masks[k];
+        }
+        subIndices[j] = idx;
+      }
+
+      for (let other = 0; other < dim; other++) {
+        const flat = (idx: number) => 2 * (side === 'left' ? idx * dim + other : other * dim + idx);
+
+        for (let j = 0; j < opSize; j++) {
+          const f = flat(subIndices[j]);
+          v_re[j] = rho[f];
+          v_im[j] = rho[f + 1];
+        }
+
+        for (let row = 0; row < opSize; row++) {
+          let target_re = 0, target_im = 0;
+          for (let col = 0; col < opSize; col++) {
+            const g_re = m[row][col].real;
+            const g_im = conj * m[row][col].imag;
+            target_re += (g_re * v_re[col] - g_im * v_im[col]);
+            target_im += (g_re * v_im[col] + g_im * v_re[col]);
+          }
+          const f = flat(subIndices[row]);
+          rho[f] = target_re;
+          rho[f + 1] = target_im;
+        }
+      }
+    }
+  }
+
+  /**
+   * Bloch vector of the reduced single-qubit state.
+   * Its length is below 1 whenever the qubit is mixed or entangled.
+   */
+  getBlochCoordinates(qubit: number): { x: number; y: number; z: number } {
+    const n = this.numQubits;
+    const dim = this.dim;
+    const mask = 1 << (n - 1 - qubit);
+    let rho00 = 0, rho11 = 0;
+    let rho01_re = 0, rho01_im = 0;
+
+    for (let i = 0; i < dim; i++) {
+      const diag = this.rho[2 * (i * dim + i)];
+      if ((i & mask) === 0) {
+        rho00 += diag;
+        const idx = 2 * (i * dim + (i | mask));
+        rho01_re += this.rho[idx];
+        rho01_im += this.rho[idx + 1];
+      } else {
+        rho11 += diag;
+      }
+    }
+
+    // Same sign convention as QuantumSimulator.getBlochCoordinates
+    return {
+      x: 2 * rho01_re,
+      y: 2 * rho01_im,
+      z: rho00 - rho11,
+    };
+  }
+
+  sample(shots: number): Map<string, number> {
+    // After a selective measurement ρ holds one branch only; fall back to trajectories
+    if (this.hasMeasurements()) return this.trajectories().sample(shots);
+
+    const probs = this.getProbabilities();
+    const readoutError = this.noiseModel?.readout_error ?? 0;
+
+    const results = new Map<string, number>();
+    for (let shot = 0; shot < shots; shot++) {
+      const rnd = Math.random();
+      let cumulative = 0;
+      for (let i = 0; i < this.dim; i++) {
+        cumulative += probs[i];
+        if (rnd < cumulative) {
+          let bits = i.toString(2).padStart(this.numQubits, '0');
+          if (readoutError > 0) {
+            bits = Array.from(bits, b => (Math.random() < readoutError ? (b === '0' ? '1' : '0') : b)).join('');
+          }
+          results.set(bits, (results.get(bits) || 0) + 1);
+          break;
+        }
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Tr(ρH) for a Pauli sum; exact unless `shots` is given, in which case the
+   * estimate is drawn from state vector trajectories of the same circuit
+   */
+  expectation(observable: Observable, shots?: number): number {
+    const terms = toPauliSum(observable, this.numQubits);
+    if (shots !== undefined) return this.trajectories().expectation(terms, shots);
+
+    return terms.reduce((sum, term) => {
+      const { xMask, zMask, numY } = pauliMasks(term.pauli);
+      const [ph_re, ph_im] = [[1, 0], [0, 1], [-1, 0], [0, -1]][numY % 4];
+
+      // P|k⟩ = phase_k |k ^ xMask⟩, so Tr(ρP) = Σ_k phase_k ρ[k][k ^ xMask]
+      let value = 0;
+      for (let k = 0; k < this.dim; k++) {
+        const idx = 2 * (k * this.dim + (k ^ xMask));
+        const sign = parity(k & zMask) ? -1 : 1;
+        value += sign * (ph_re * this.rho[idx] - ph_im * this.rho[idx + 1]);
+      }
+      return sum + term.coefficient * value;
+    }, 0);
+  }
+
+  sampleClassical(shots: number): Map<string, number> {
+    return this.trajectories().sampleClassical(shots);
+  }
+
+  private hasMeasurements(): boolean {
+    return this.operations.some(op => op.gate === 'MEASURE');
+  }
+
+  /** State vector simulator replaying the same circuit; its trajectories sample the same ensemble */
+  private trajectories(): QuantumSimulator {
+    const sim = new QuantumSimulator({
+      numQubits: this.numQubits,
+      numClbits: this.numClbits,
+      noiseModel: this.noiseModel,
+    });
+    for (const op of this.operations) {
+      sim.execute(op);
+    }
+    return sim;
+  }
+}
@@ -0,0 +1,1485 @@
+/**
+ * Simulator Code Parser
+ * Reads the TypeScript written against QuantumSimulator in the code editor and
+ * by the AI agents: declarations, arithmetic with Math, arrays, arrow
+ * functions, for loops and if statements over values known before the circuit
+ * runs, and the apply, applyIf, measure, reset and execute calls. The code is
+ * interpreted rather than executed, and problems come back as diagnostics with
+ * a source range so the editor can underline all of them at once.
+ */
+import { QuantumValidationError, ErrorCodes, LIMITS } from './validators';
+import { GATE_LIBRARY } from './gates';
+import { isValidSymbol, type ParametricGate, type ParamValue } from './parameters';
+import type { GateCondition } from './simulator';
+
+export interface DslDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number; // Exclusive, as in Monaco ranges
+}
+
+export interface DslCircuit {
+  numQubits: number;
+  gates: ParametricGate[];
+  diagnostics: DslDiagnostic[];
+}
+
+/** Raised by callers that need a valid circuit; positioned at the first error */
+export class DslParseError extends QuantumValidationError {
+  public readonly line: number;
+  public readonly column: number;
+
+  constructor(public readonly diagnostics: DslDiagnostic[]) {
+    const first = diagnostics.find(d => d.severity === 'error') ?? diagnostics[0];
+    super(`Line ${first.line}, column ${first.column}: ${first.message}`, ErrorCodes.INVALID_CIRCUIT_CODE, { diagnostics });
+    this.name = 'DslParseError';
+    this.line = first.line;
+    this.column = first.column;
+  }
+}
+
+// Loop iterations and callback calls allowed in one program, so `for (;;)` ends
+const MAX_ITERATIONS = 10000;
+const MAX_CALL_DEPTH = 100;
+// new Array(n) and Array.from({ length: n }) allocate on every keystroke in the editor
+const MAX_ARRAY_LENGTH = MAX_ITERATIONS;
+
+// Tokens
+
+interface Token {
+  kind: 'name' | 'number' | 'string' | 'template' | 'op' | 'end';
+  text: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  newlineBefore: boolean; // Statements may end at a line break instead of a semicolon
+}
+
+interface Span {
+  start: Token;
+  end: Token;
+}
+
+function toDiagnostic(severity: DslDiagnostic['severity'], message: string, span: Span): DslDiagnostic {
+  return {
+    severity,
+    message,
+    line: span.start.line,
+    column: span.start.column,
+    endLine: span.end.endLine,
+    endColumn: span.end.endColumn,
+  };
+}
+
+// A problem in one statement: it is reported and the statement is skipped
+class Failure extends Error {
+  constructor(message: string, public readonly span: Span) {
+    super(message);
+  }
+}
+
+const TOKEN_PATTERNS: [Token['kind'] | null, RegExp][] = [
+  [null, /[ \t\r\f\v\u00a0\ufeff]+|\/\/[^\n]*|\/\*[\s\S]*?\*\//y],
+  ['string', /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/y],
+  ['template', /`(?:[^`\\]|\\[\s\S])*`/y],
+  ['number', /0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?/y],
+  ['name', /[\p{L}_$][\p{L}\p{N}_$]*/uy],
+  ['op', /\.\.\.|\*\*=?|[=!]==?|=>|\?\?=?|\?\.(?!\d)|&&=?|\|\|=?|\+\+|--|>>>?=?|<<=?|[+\-*/%&|^<>]=|[()[\]{},;:.?<>=+\-*/%!~&|^@#]/y],
+];
+
+function tokenize(source: string, diagnostics: DslDiagnostic[]): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let lineStart = 0;
+  let index = 0;
+  let newlineBefore = true;
+
+  const report = (message: string, length: number) => {
+    const column = index - lineStart + 1;
+    diagnostics.push({ severity: 'error', message, line, column, endLine: line, endColumn: column + length });
+  };
+
+  outer: while (index < source.length) {
+    if (source[index] === '\n') {
+      index++;
+      line++;
+      lineStart = index;
+      newlineBefore = true;
+      continue;
+    }
+    if (source.startsWith('/*', index) && !source.includes('*/', index + 2)) {
+      report('Unterminated comment', 2);
+      break;
+    }
+
+    for (const [kind, pattern] of TOKEN_PATTERNS) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(source);
+      if (!match) continue;
+
+      const start = { line, column: index - lineStart + 1 };
+      for (let k = index; k < index + match[0].length; k++) {
+        if (source[k] === '\n') {
+          line++;
+          lineStart = k + 1;
+          if (!kind) newlineBefore = true;
+        }
+      }
+      index += match[0].length;
+      if (kind) {
+        tokens.push({ kind, text: match[0], ...start, endLine: line, endColumn: index - lineStart + 1, newlineBefore });
+        newlineBefore = false;
+      }
+      continue outer;
+    }
+
+    if (/['"`]/.test(source[index])) {
+      const lineEnd = source.indexOf('\n', index);
+      const length = (lineEnd === -1 ? source.length : lineEnd) - index;
+      report('Unterminated string', length);
+      index += length;
+    } else {
+      report(`Unexpected character "${source[index]}"`, 1);
+      index++;
+    }
+  }
+
+  const column = index - lineStart + 1;
+  tokens.push({ kind: 'end', text: '', line, column, endLine: line, endColumn: column + 1, newlineBefore: true });
+  return tokens;
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '0': '\0' };
+
+function stringValue(token: Token): string {
+  return token.text.slice(1, -1).replace(/\\([\s\S])/g, (_, c: string) => (Object.hasOwn(ESCAPES, c) ? ESCAPES[c] : c));
+}
+
+// Syntax
+
+type Expr =
+  | { kind: 'literal'; value: Value; span: Span }
+  | { kind: 'name'; name: string; span: Span }
+  | { kind: 'member'; object: Expr; name: string; optional: boolean; span: Span }
+  | { kind: 'index'; object: Expr; index: Expr; span: Span }
+  | { kind: 'call'; callee: Expr; args: Expr[]; span: Span }
+  | { kind: 'new'; callee: Expr; args: Expr[]; span: Span }
+  | { kind: 'array'; items: Expr[]; span: Span }
+  | { kind: 'spread'; value: Expr; span: Span }
+  | { kind: 'object'; fields: [string, Expr][]; span: Span }
+  | { kind: 'arrow'; params: string[]; body: Statement; span: Span }
+  | { kind: 'unary'; op: string; operand: Expr; span: Span }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr; span: Span }
+  | { kind: 'conditional'; test: Expr; then: Expr; otherwise: Expr; span: Span };
+
+type Statement =
+  | { kind: 'import'; names: Token[]; span: Span }
+  | { kind: 'declare'; constant: boolean; declarations: { name: Token; init: Expr | null }[]; span: Span }
+  | { kind: 'assign'; target: Token; op: string; value: Expr | null; span: Span }
+  | { kind: 'expression'; expr: Expr; span: Span }
+  | { kind: 'block'; body: Statement[]; span: Span }
+  | { kind: 'if'; test: Expr; then: Statement; otherwise: Statement | null; span: Span }
+  | { kind: 'for'; init: Statement | null; test: Expr | null; update: Statement | null; body: Statement; span: Span }
+  | { kind: 'forOf'; constant: boolean; name: Token; iterable: Expr; body: Statement; span: Span }
+  | { kind: 'return'; value: Expr | null; span: Span }
+  | { kind: 'break' | 'continue'; span: Span };
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '|': 4,
+  '^': 5,
+  '&': 6,
+  '==': 7, '!=': 7, '===': 7, '!==': 7,
+  '<': 8, '>': 8, '<=': 8, '>=': 8,
+  '<<': 9, '>>': 9, '>>>': 9,
+  '+': 10, '-': 10,
+  '*': 11, '/': 11, '%': 11,
+};
+
+const ASSIGNMENT_OPS = new Set(['=', '+=', '-=', '*=', '/=', '%=', '**=', '&=', '|=', '^=', '<<=', '>>=', '>>>=', '&&=', '||=', '??=']);
+
+const UNSUPPORTED = new Set([
+  'while', 'do', 'function', 'class', 'switch', 'try', 'throw', 'async', 'await', 'interface', 'enum', 'namespace',
+]);
+
+const spanOf = (token: Token): Span => ({ start: token, end: token });
+
+class DslParser {
+  private pos = 0;
+  private inFunction = false;
+  private inLoop = false;
+
+  constructor(private readonly tokens: Token[], private readonly diagnostics: DslDiagnostic[]) {}
+
+  parseProgram(): Statement[] {
+    const body: Statement[] = [];
+    while (this.peek().kind !== 'end') {
+      const statement = this.parseRecovering();
+      if (statement) body.push(statement);
+    }
+    return body;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.kind !== 'end') this.pos++;
+    return token;
+  }
+
+  private previous(): Token {
+    return this.tokens[Math.max(0, this.pos - 1)];
+  }
+
+  private is(text: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return (token.kind === 'op' || token.kind === 'name') && token.text === text;
+  }
+
+  private accept(text: string): boolean {
+    if (!this.is(text)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expect(text: string): Token {
+    if (!this.is(text)) throw this.unexpected(`Expected "${text}"`);
+    return this.next();
+  }
+
+  private expectName(what: string): Token {
+    if (this.peek().kind !== 'name') throw this.unexpected(`Expected ${what}`);
+    return this.next();
+  }
+
+  private spanFrom(start: Token): Span {
+    return { start, end: this.pos > 0 ? this.previous() : start };
+  }
+
+  private unexpected(expected?: string): Failure {
+    const token = this.peek();
+    const found = token.kind === 'end' ? 'end of code' : `"${token.text}"`;
+    return new Failure(expected ? `${expected}, found ${found}` : `Unexpected ${found}`, spanOf(token));
+  }
+
+  private parseRecovering(): Statement | null {
+    const start = this.pos;
+    try {
+      return this.parseStatement();
+    } catch (error) {
+      if (!(error instanceof Failure)) throw error;
+      this.diagnostics.push(toDiagnostic('error', error.message, error.span));
+      this.synchronize(start, this.tokens.indexOf(error.span.start));
+      return null;
+    }
+  }
+
+  // Skips the rest of a broken statement: up to a semicolon, or a line break or "}" outside brackets.
+  // A failure on a new line, as after a missing ")", leaves that line to parse on its own
+  private synchronize(start: number, failure: number): void {
+    this.pos = Math.max(start, failure);
+    if (this.pos > start && this.peek().newlineBefore) return;
+    const from = this.pos;
+    let depth = 0;
+    while (this.peek().kind !== 'end') {
+      const token = this.peek();
+      if (this.pos > from && depth === 0 && (token.newlineBefore || this.is('}'))) return;
+      this.pos++;
+      if (token.kind !== 'op') continue;
+      if (['(', '[', '{'].includes(token.text)) depth++;
+      else if ([')', ']', '}'].includes(token.text)) depth = Math.max(0, depth - 1);
+      else if (token.text === ';' && depth === 0) return;
+    }
+  }
+
+  // A statement ends at a semicolon, a closing brace or a line break
+  private endStatement(): void {
+    if (this.accept(';')) return;
+    const token = this.peek();
+    if (token.kind !== 'end' && !this.is('}') && !token.newlineBefore) throw this.unexpected('Expected ";"');
+  }
+
+  private parseStatement(): Statement {
+    const start = this.peek();
+    if (start.kind === 'name') {
+      switch (start.text) {
+        case 'import':
+          return this.parseImport();
+        case 'export':
+          this.next();
+          return this.parseStatement();
+        case 'const':
+        case 'let':
+        case 'var': {
+          const declaration = this.parseDeclaration();
+          this.endStatement();
+          return declaration;
+        }
+        case 'if':
+          return this.parseIf();
+        case 'for':
+          return this.parseFor();
+        case 'return': {
+          this.next();
+          if (!this.inFunction) throw new Failure('"return" is only allowed inside a function', spanOf(start));
+          const ends = this.is(';') || this.is('}') || this.peek().kind === 'end' || this.peek().newlineBefore;
+          const value = ends ? null : this.parseExpression();
+          this.endStatement();
+          return { kind: 'return', value, span: this.spanFrom(start) };
+        }
+        case 'break':
+        case 'continue': {
+          this.next();
+          if (!this.inLoop) throw new Failure(`"${start.text}" is only allowed inside a loop`, spanOf(start));
+          this.endStatement();
+          return { kind: start.text, span: this.spanFrom(start) };
+        }
+      }
+      if (UNSUPPORTED.has(start.text) && !ASSIGNMENT_OPS.has(this.peek(1).text)) {
+        throw new Failure(`"${start.text}" is not supported in circuit code`, spanOf(start));
+      }
+    }
+
+    if (this.accept('{')) return this.parseBlock(start);
+    if (this.accept(';')) return { kind: 'block', body: [], span: spanOf(start) };
+
+    const statement = this.parseSimpleStatement();
+    this.endStatement();
+    return statement;
+  }
+
+  // import { QuantumSimulator } from '@/lib/quantum'
+  private parseImport(): Statement {
+    const start = this.next();
+    const names: Token[] = [];
+    while (this.peek().kind !== 'string') {
+      if (this.peek().kind === 'end') throw new Failure('Expected the module to import from', this.spanFrom(start));
+      const token = this.next();
+      // `a as b` binds b; `type` and `from` are keywords here
+      if (token.kind === 'name' && !['type', 'from', 'as'].includes(token.text) && !this.is('as')) names.push(token);
+    }
+    this.next();
+    this.endStatement();
+    return { kind: 'import', names, span: this.spanFrom(start) };
+  }
+
+  private parseDeclaration(): Extract<Statement, { kind: 'declare' }> {
+    const start = this.next();
+    const declarations: { name: Token; init: Expr | null }[] = [];
+    do {
+      if (this.is('[') || this.is('{')) throw new Failure('Destructuring is not supported in circuit code', spanOf(this.peek()));
+      const name = this.expectName('a variable name');
+      if (this.accept(':')) this.skipType();
+      const init = this.accept('=') ? this.parseExpression() : null;
+      if (!init && start.text === 'const') throw new Failure(`"${name.text}" must be initialized`, spanOf(name));
+      declarations.push({ name, init });
+    } while (this.accept(','));
+    return { kind: 'declare', constant: start.text === 'const', declarations, span: this.spanFrom(start) };
+  }
+
+  // Type annotations and `as` casts are read past, not checked
+  private skipType(): void {
+    const start = this.pos;
+    let depth = 0;
+    while (this.peek().kind !== 'end') {
+      const token = this.peek();
+      const stops = token.kind === 'op' && ['=', ',', ';', ')', ']', '}', '=>'].includes(token.text);
+      if (depth === 0 && (stops || (this.pos > start && token.newlineBefore))) break;
+      if (token.kind === 'op' && ['(', '[', '{', '<'].includes(token.text)) depth++;
+      else if (token.kind === 'op' && [')', ']', '}', '>'].includes(token.text)) depth--;
+      this.pos++;
+    }
+  }
+
+  private parseSimpleStatement(): Statement {
+    const start = this.peek();
+    if ((this.is('++') || this.is('--')) && this.peek(1).kind === 'name') {
+      const op = this.next().text;
+      const target = this.next();
+      return { kind: 'assign', target, op, value: null, span: this.spanFrom(start) };
+    }
+    if (start.kind === 'name' && this.peek(1).kind === 'op') {
+      const op = this.peek(1).text;
+      if (ASSIGNMENT_OPS.has(op)) {
+        this.pos += 2;
+        return { kind: 'assign', target: start, op, value: this.parseExpression(), span: this.spanFrom(start) };
+      }
+      if ((op === '++' || op === '--') && !this.peek(1).newlineBefore) {
+        this.pos += 2;
+        return { kind: 'assign', target: start, op, value: null, span: this.spanFrom(start) };
+      }
+    }
+
+    const expr = this.parseExpression();
+    if (this.peek().kind === 'op' && ASSIGNMENT_OPS.has(this.peek().text)) {
+      throw new Failure('Only variables can be assigned in circuit code', expr.span);
+    }
+    return { kind: 'expression', expr, span: this.spanFrom(start) };
+  }
+
+  private parseBlock(start: Token): Extract<Statement, { kind: 'block' }> {
+    const body: Statement[] = [];
+    while (!this.is('}')) {
+      if (this.peek().kind === 'end') throw new Failure('Missing "}"', spanOf(start));
+      const statement = this.parseRecovering();
+      if (statement) body.push(statement);
+    }
+    this.next();
+    return { kind: 'block', body, span: this.spanFrom(start) };
+  }
+
+  private parseIf(): Statement {
+    const start = this.next();
+    this.expect('(');
+    const test = this.parseExpression();
+    this.expect(')');
+    const then = this.parseStatement();
+    const otherwise = this.accept('else') ? this.parseStatement() : null;
+    return { kind: 'if', test, then, otherwise, span: this.spanFrom(start) };
+  }
+
+  private parseFor(): Statement {
+    const start = this.next();
+    this.expect('(');
+
+    const declares = ['const', 'let', 'var'].includes(this.peek().text) && this.peek().kind === 'name';
+    if (declares && this.peek(1).kind === 'name' && (this.is('of', 2) || this.is('in', 2))) {
+      const constant = this.next().text === 'const';
+      const name = this.next();
+      if (this.next().text === 'in') throw new Failure('"for...in" is not supported; use "for...of"', this.spanFrom(start));
+      const iterable = this.parseExpression();
+      this.expect(')');
+      const body = this.parseLoopBody();
+      return { kind: 'forOf', constant, name, iterable, body, span: this.spanFrom(start) };
+    }
+
+    const init = this.is(';') ? null : declares ? this.parseDeclaration() : this.parseSimpleStatement();
+    this.expect(';');
+    const test = this.is(';') ? null : this.parseExpression();
+    this.expect(';');
+    const update = this.is(')') ? null : this.parseSimpleStatement();
+    this.expect(')');
+    const body = this.parseLoopBody();
+    return { kind: 'for', init, test, update, body, span: this.spanFrom(start) };
+  }
+
+  private parseLoopBody(): Statement {
+    const inLoop = this.inLoop;
+    this.inLoop = true;
+    try {
+      return this.parseStatement();
+    } finally {
+      this.inLoop = inLoop;
+    }
+  }
+
+  parseExpression(): Expr {
+    if (this.isArrowAhead()) return this.parseArrow();
+
+    const start = this.peek();
+    const test = this.parseBinary(0);
+    if (!this.accept('?')) return test;
+    const then = this.parseExpression();
+    this.expect(':');
+    const otherwise = this.parseExpression();
+    return { kind: 'conditional', test, then, otherwise, span: this.spanFrom(start) };
+  }
+
+  private isArrowAhead(): boolean {
+    if (this.peek().kind === 'name' && this.is('=>', 1)) return true;
+    if (!this.is('(')) return false;
+
+    let depth = 0;
+    for (let i = this.pos; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.kind === 'end') return false;
+      if (token.kind !== 'op') continue;
+      if (token.text === '(') depth++;
+      else if (token.text === ')' && --depth === 0) {
+        // (q: number): void => ...
+        let after = i + 1;
+        if (this.tokens[after]?.text === ':') while (after < this.tokens.length && this.tokens[after].text !== '=>' && !this.tokens[after].newlineBefore) after++;
+        return this.tokens[after]?.kind === 'op' && this.tokens[after].text === '=>';
+      }
+    }
+    return false;
+  }
+
+  private parseArrow(): Expr {
+    const start = this.peek();
+    const params: string[] = [];
+    if (this.accept('(')) {
+      while (!this.accept(')')) {
+        params.push(this.expectName('a parameter name').text);
+        if (this.accept(':')) this.skipType();
+        if (!this.is(')') && !this.accept(',')) throw this.unexpected('Expected "," or ")"');
+      }
+      if (this.accept(':')) this.skipType();
+    } else {
+      params.push(this.next().text);
+    }
+    this.expect('=>');
+
+    const saved = [this.inFunction, this.inLoop];
+    this.inFunction = true;
+    this.inLoop = false;
+    try {
+      const bodyStart = this.peek();
+      const body: Statement = this.accept('{')
+        ? this.parseBlock(bodyStart)
+        : { kind: 'return', value: this.parseExpression(), span: this.spanFrom(bodyStart) };
+      return { kind: 'arrow', params, body, span: this.spanFrom(start) };
+    } finally {
+      [this.inFunction, this.inLoop] = saved;
+    }
+  }
+
+  private parseBinary(minPrecedence: number): Expr {
+    const start = this.peek();
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      const precedence = token.kind === 'op' && Object.hasOwn(BINARY_PRECEDENCE, token.text) ? BINARY_PRECEDENCE[token.text] : 0;
+      if (precedence <= minPrecedence) return left;
+      this.next();
+      const right = this.parseBinary(precedence);
+      left = { kind: 'binary', op: token.text, left, right, span: this.spanFrom(start) };
+    }
+  }
+
+  private parseUnary(): Expr {
+    const start = this.peek();
+    if (start.kind === 'op' && ['-', '+', '!', '~'].includes(start.text)) {
+      this.next();
+      return { kind: 'unary', op: start.text, operand: this.parseUnary(), span: this.spanFrom(start) };
+    }
+    const base = this.parsePostfix();
+    if (!this.accept('**')) return base;
+    return { kind: 'binary', op: '**', left: base, right: this.parseUnary(), span: this.spanFrom(start) };
+  }
+
+  private parsePostfix(): Expr {
+    const start = this.peek();
+    let expr = this.parseAtom();
+    for (;;) {
+      if (this.accept('.') || this.accept('?.')) {
+        const optional = this.previous().text === '?.';
+        const name = this.expectName('a property name');
+        expr = { kind: 'member', object: expr, name: name.text, optional, span: this.spanFrom(start) };
+      } else if (this.accept('[')) {
+        const index = this.parseExpression();
+        this.expect(']');
+        expr = { kind: 'index', object: expr, index, span: this.spanFrom(start) };
+      } else if (this.accept('(')) {
+        const args = this.parseList(')');
+        expr = { kind: 'call', callee: expr, args, span: this.spanFrom(start) };
+      } else if (this.is('!') && !this.peek().newlineBefore) {
+        this.next(); // Non-null assertion
+      } else if (this.is('as') && !this.peek().newlineBefore) {
+        this.next();
+        this.skipType();
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  private parseList(close: string): Expr[] {
+    const items: Expr[] = [];
+    while (!this.accept(close)) {
+      const start = this.peek();
+      items.push(this.accept('...')
+        ? { kind: 'spread', value: this.parseExpression(), span: this.spanFrom(start) }
+        : this.parseExpression());
+      if (!this.is(close) && !this.accept(',')) throw this.unexpected(`Expected "," or "${close}"`);
+    }
+    return items;
+  }
+
+  private parseAtom(): Expr {
+    const token = this.next();
+    const span = spanOf(token);
+    switch (token.kind) {
+      case 'number':
+        return { kind: 'literal', value: { kind: 'number', value: Number(token.text.replace(/_/g, '')) }, span };
+      case 'string':
+        return { kind: 'literal', value: { kind: 'string', value: stringValue(token) }, span };
+      case 'template':
+        // Substitutions are not evaluated: such strings can be printed but not name a gate
+        return token.text.includes('${')
+          ? { kind: 'literal', value: { kind: 'opaque', reason: 'Template strings with ${...} are not evaluated' }, span }
+          : { kind: 'literal', value: { kind: 'string', value: stringValue(token) }, span };
+      case 'name':
+        return this.parseNameAtom(token);
+    }
+
+    if (token.text === '(') {
+      const expr = this.parseExpression();
+      this.expect(')');
+      return { ...expr, span: this.spanFrom(token) };
+    }
+    if (token.text === '[') {
+      return { kind: 'array', items: this.parseList(']'), span: this.spanFrom(token) };
+    }
+    if (token.text === '{') {
+      const fields: [string, Expr][] = [];
+      while (!this.accept('}')) {
+        const key = this.next();
+        if (!['name', 'string', 'number'].includes(key.kind)) throw new Failure('Expected a property name', spanOf(key));
+        const name = key.kind === 'string' ? stringValue(key) : key.text;
+        const value: Expr = this.accept(':') ? this.parseExpression() : { kind: 'name', name, span: spanOf(key) };
+        fields.push([name, value]);
+        if (!this.is('}') && !this.accept(',')) throw this.unexpected('Expected "," or "}"');
+      }
+      return { kind: 'object', fields, span: this.spanFrom(token) };
+    }
+    throw new Failure(token.kind === 'end' ? 'Unexpected end of code' : `Unexpected "${token.text}"`, span);
+  }
+
+  private parseNameAtom(token: Token): Expr {
+    const span = spanOf(token);
+    switch (token.text) {
+      case 'true':
+      case 'false':
+        return { kind: 'literal', value: { kind: 'boolean', value: token.text === 'true' }, span };
+      case 'null':
+      case 'undefined':
+        return { kind: 'literal', value: UNDEFINED, span };
+      case 'new': {
+        let callee: Expr = this.parseNameAtom(this.expectName('a class name'));
+        while (this.accept('.')) {
+          callee = { kind: 'member', object: callee, name: this.expectName('a property name').text, optional: false, span: this.spanFrom(token) };
+        }
+        if (this.is('<')) this.skipTypeArguments();
+        const args = this.accept('(') ? this.parseList(')') : [];
+        return { kind: 'new', callee, args, span: this.spanFrom(token) };
+      }
+    }
+    if (UNSUPPORTED.has(token.text) || token.text === 'this') {
+      throw new Failure(`"${token.text}" is not supported in circuit code`, span);
+    }
+    return { kind: 'name', name: token.text, span };
+  }
+
+  // new Array<number>(3)
+  private skipTypeArguments(): void {
+    let depth = 0;
+    do {
+      const token = this.next();
+      if (token.kind === 'end') return;
+      if (token.text === '<') depth++;
+      else if (token.text === '>') depth--;
+    } while (depth > 0);
+  }
+}
+
+// Evaluation
+
+type Value =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'undefined' }
+  | { kind: 'array'; items: Value[] }
+  | { kind: 'object'; fields: Map<string, Value> }
+  | { kind: 'function'; params: string[]; body: Statement; scope: Scope }
+  | { kind: 'builtin'; name: string } // Globals and their members, e.g. Math, Math.sqrt, console.log
+  | { kind: 'method'; object: Value; name: string } // Array and simulator methods, bound to their object
+  | { kind: 'simulator'; id: number; numQubits: number; numClbits: number }
+  | { kind: 'opaque'; reason: string }; // Measurement outcomes, imports and anything else not known before the circuit runs
+
+type Simulator = Extract<Value, { kind: 'simulator' }>;
+
+interface Argument {
+  value: Value;
+  span: Span;
+}
+
+type Completion = { type: 'normal' | 'break' | 'continue' } | { type: 'return'; value: Value };
+
+const UNDEFINED: Value = { kind: 'undefined' };
+const NORMAL: Completion = { type: 'normal' };
+
+const num = (value: number): Value => ({ kind: 'number', value });
+const bool = (value: boolean): Value => ({ kind: 'boolean', value });
+
+const MEASUREMENT_OUTCOME = 'Measurement outcomes are only known when the circuit runs; use sim.applyIf for classically controlled gates';
+const SIMULATION_RESULT = 'Simulation results are only known when the circuit runs';
+
+const MATH_CONSTANTS: Record<string, number> = {
+  PI: Math.PI,
+  E: Math.E,
+  SQRT2: Math.SQRT2,
+  SQRT1_2: Math.SQRT1_2,
+  LN2: Math.LN2,
+  LN10: Math.LN10,
+  LOG2E: Math.LOG2E,
+  LOG10E: Math.LOG10E,
+};
+
+const MATH_FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  sign: Math.sign,
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  exp: Math.exp,
+  log: Math.log,
+  log2: Math.log2,
+  log10: Math.log10,
+  pow: Math.pow,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  atan2: Math.atan2,
+  hypot: Math.hypot,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: Math.round,
+  trunc: Math.trunc,
+  min: Math.min,
+  max: Math.max,
+};
+
+const GLOBALS = ['Math', 'console', 'QuantumSimulator', 'Array', 'Number'];
+
+const ARRAY_METHODS = new Set([
+  'forEach', 'map', 'filter', 'some', 'every', 'reduce', 'includes', 'indexOf', 'slice', 'concat', 'join',
+  'reverse', 'push', 'keys', 'fill',
+]);
+
+// QuantumSimulator methods that read the state without changing the circuit
+const SIMULATOR_READERS = new Set([
+  'getClassicalRegister', 'getState', 'getSparseState', 'getProbabilities', 'getBlochCoordinates',
+  'sample', 'sampleClassical', 'expectation', 'diagonalExpectation',
+]);
+
+const SIMULATOR_METHODS = new Set([
+  'apply', 'applyIf', 'measure', 'reset', 'execute', 'getNumQubits', 'getNumClbits',
+  'applyKrausChannel', 'applyDiagonalPhase', ...SIMULATOR_READERS,
+]);
+
+class Scope {
+  private readonly variables = new Map<string, { value: Value; constant: boolean }>();
+
+  constructor(private readonly parent?: Scope) {}
+
+  has(name: string): boolean {
+    return this.variables.has(name);
+  }
+
+  declare(name: string, value: Value, constant: boolean): void {
+    this.variables.set(name, { value, constant });
+  }
+
+  find(name: string): { value: Value; constant: boolean } | undefined {
+    return this.variables.get(name) ?? this.parent?.find(name);
+  }
+}
+
+function describe(value: Value): string {
+  switch (value.kind) {
+    case 'number': return String(value.value);
+    case 'string': return JSON.stringify(value.value);
+    case 'boolean': return String(value.value);
+    case 'undefined': return 'undefined';
+    case 'array': return 'an array';
+    case 'object': return 'an object';
+    case 'simulator': return 'the simulator';
+    default: return 'a function';
+  }
+}
+
+function toText(value: Value): string {
+  switch (value.kind) {
+    case 'number':
+    case 'boolean':
+      return String(value.value);
+    case 'string':
+      return value.value;
+    case 'undefined':
+      return 'undefined';
+    case 'array':
+      return value.items.map(toText).join(',');
+    default:
+      return `[${value.kind}]`;
+  }
+}
+
+function sameValue(a: Value, b: Value): boolean {
+  if (a.kind === 'undefined' || b.kind === 'undefined') return a.kind === b.kind;
+  if ((a.kind === 'number' || a.kind === 'string' || a.kind === 'boolean') && a.kind === b.kind) return a.value === b.value;
+  return a === b;
+}
+
+class DslInterpreter {
+  readonly gates: ParametricGate[] = [];
+  numQubits = 2;
+  private simulators = 0;
+  private iterations = 0;
+  private depth = 0;
+  private readonly globals = new Scope();
+
+  constructor(private readonly diagnostics: DslDiagnostic[]) {
+    for (const name of GLOBALS) this.globals.declare(name, { kind: 'builtin', name }, true);
+    this.globals.declare('Infinity', num(Infinity), true);
+    this.globals.declare('NaN', num(NaN), true);
+  }
+
+  run(program: Statement[]): void {
+    this.executeAll(program, new Scope(this.globals));
+  }
+
+  private warn(message: string, span: Span): void {
+    this.diagnostics.push(toDiagnostic('warning', message, span));
+  }
+
+  // Statements
+
+  private executeAll(statements: Statement[], scope: Scope): Completion {
+    for (const statement of statements) {
+      try {
+        const completion = this.execute(statement, scope);
+        if (completion.type !== 'normal') return completion;
+      } catch (error) {
+        if (!(error instanceof Failure)) throw error;
+        this.diagnostics.push(toDiagnostic('error', error.message, error.span));
+      }
+    }
+    return NORMAL;
+  }
+
+  private execute(statement: Statement, scope: Scope): Completion {
+    switch (statement.kind) {
+      case 'import':
+        for (const name of statement.names) {
+          if (!GLOBALS.includes(name.text)) scope.declare(name.text, { kind: 'opaque', reason: `"${name.text}" is imported from another module` }, true);
+        }
+        return NORMAL;
+
+      case 'declare':
+        for (const { name, init } of statement.declarations) {
+          if (scope.has(name.text)) throw new Failure(`"${name.text}" is already declared`, spanOf(name));
+          scope.declare(name.text, init ? this.evaluate(init, scope) : UNDEFINED, statement.constant);
+        }
+        return NORMAL;
+
+      case 'assign':
+        this.assign(statement, scope);
+        return NORMAL;
+
+      case 'expression':
+        this.evaluate(statement.expr, scope);
+        return NORMAL;
+
+      case 'block':
+        return this.executeAll(statement.body, new Scope(scope));
+
+      case 'if':
+        if (this.truthy(this.evaluate(statement.test, scope), statement.test.span)) return this.execute(statement.then, new Scope(scope));
+        return statement.otherwise ? this.execute(statement.otherwise, new Scope(scope)) : NORMAL;
+
+      case 'for': {
+        const loopScope = new Scope(scope);
+        if (statement.init) this.execute(statement.init, loopScope);
+        while (!statement.test || this.truthy(this.evaluate(statement.test, loopScope), statement.test.span)) {
+          this.countIteration(statement.span);
+          const completion = this.execute(statement.body, new Scope(loopScope));
+          if (completion.type === 'break') break;
+          if (completion.type === 'return') return completion;
+          if (statement.update) this.execute(statement.update, loopScope);
+        }
+        return NORMAL;
+      }
+
+      case 'forOf': {
+        const iterable = this.evaluate(statement.iterable, scope);
+        for (const item of this.items(iterable, statement.iterable.span)) {
+          this.countIteration(statement.span);
+          const loopScope = new Scope(scope);
+          loopScope.declare(statement.name.text, item, statement.constant);
+          const completion = this.execute(statement.body, loopScope);
+          if (completion.type === 'break') break;
+          if (completion.type === 'return') return completion;
+        }
+        return NORMAL;
+      }
+
+      case 'return':
+        return { type: 'return', value: statement.value ? this.evaluate(statement.value, scope) : UNDEFINED };
+
+      case 'break':
+      case 'continue':
+        return { type: statement.kind };
+    }
+  }
+
+  private assign(statement: Extract<Statement, { kind: 'assign' }>, scope: Scope): void {
+    const { target, op } = statement;
+    const binding = scope.find(target.text);
+    if (!binding) throw new Failure(`"${target.text}" is not defined`, spanOf(target));
+    if (binding.constant) throw new Failure(`Cannot assign to "${target.text}" because it is a constant`, statement.span);
+
+    if (op === '++' || op === '--') {
+      binding.value = num(this.number(binding.value, spanOf(target)) + (op === '++' ? 1 : -1));
+    } else if (op === '=') {
+      binding.value = this.evaluate(statement.value!, scope);
+    } else {
+      const right: Expr = statement.value!;
+      const current: Expr = { kind: 'literal', value: binding.value, span: spanOf(target) };
+      binding.value = this.evaluate({ kind: 'binary', op: op.slice(0, -1), left: current, right, span: statement.span }, scope);
+    }
+  }
+
+  private countIteration(span: Span): void {
+    if (++this.iterations > MAX_ITERATIONS) {
+      throw new Failure(`Loops ran more than ${MAX_ITERATIONS} times; is a loop missing its exit condition?`, span);
+    }
+  }
+
+  // Expressions
+
+  private evaluate(expr: Expr, scope: Scope): Value {
+    switch (expr.kind) {
+      case 'literal':
+        return expr.value;
+
+      case 'name': {
+        const binding = scope.find(expr.name);
+        if (!binding) throw new Failure(`"${expr.name}" is not defined`, expr.span);
+        return binding.value;
+      }
+
+      case 'member': {
+        const object = this.evaluate(expr.object, scope);
+        if (expr.optional && object.kind === 'undefined') return UNDEFINED;
+        return this.property(object, expr.name, expr.span);
+      }
+
+      case 'index':
+        return this.index(this.evaluate(expr.object, scope), this.evaluate(expr.index, scope), expr.span);
+
+      case 'call': {
+        const callee = this.evaluate(expr.callee, scope);
+        return this.invoke(callee, this.evaluateArguments(expr.args, scope), expr.span);
+      }
+
+      case 'new':
+        return this.construct(this.evaluate(expr.callee, scope), this.evaluateArguments(expr.args, scope), expr.span);
+
+      case 'array':
+        return { kind: 'array', items: this.evaluateArguments(expr.items, scope).map(arg => arg.value) };
+
+      case 'spread':
+        throw new Failure('Spread is only allowed in arrays and calls', expr.span);
+
+      case 'object':
+        return { kind: 'object', fields: new Map(expr.fields.map(([name, value]) => [name, this.evaluate(value, scope)])) };
+
+      case 'arrow':
+        return { kind: 'function', params: expr.params, body: expr.body, scope };
+
+      case 'unary': {
+        const operand = this.evaluate(expr.operand, scope);
+        if (operand.kind === 'opaque') return operand;
+        if (expr.op === '!') return bool(!this.truthy(operand, expr.operand.span));
+        const value = this.number(operand, expr.operand.span);
+        return num(expr.op === '-' ? -value : expr.op === '~' ? ~value : value);
+      }
+
+      case 'binary':
+        return this.binary(expr, scope);
+
+      case 'conditional':
+        return this.truthy(this.evaluate(expr.test, scope), expr.test.span)
+          ? this.evaluate(expr.then, scope)
+          : this.evaluate(expr.otherwise, scope);
+    }
+  }
+
+  private evaluateArguments(items: Expr[], scope: Scope): Argument[] {
+    return items.flatMap(item => {
+      if (item.kind !== 'spread') return [{ value: this.evaluate(item, scope), span: item.span }];
+      const spread = this.evaluate(item.value, scope);
+      return this.items(spread, item.value.span).map(value => ({ value, span: item.span }));
+    });
+  }
+
+  private binary(expr: Extract<Expr, { kind: 'binary' }>, scope: Scope): Value {
+    const { op } = expr;
+    const left = this.evaluate(expr.left, scope);
+    if (op === '&&') return this.truthy(left, expr.left.span) ? this.evaluate(expr.right, scope) : left;
+    if (op === '||') return this.truthy(left, expr.left.span) ? left : this.evaluate(expr.right, scope);
+    if (op === '??') return left.kind === 'undefined' ? this.evaluate(expr.right, scope) : left;
+
+    const right = this.evaluate(expr.right, scope);
+    if (left.kind === 'opaque') return left;
+    if (right.kind === 'opaque') return right;
+
+    switch (op) {
+      case '===':
+      case '==':
+        return bool(sameValue(left, right));
+      case '!==':
+      case '!=':
+        return bool(!sameValue(left, right));
+      case '+':
+        if (left.kind === 'string' || right.kind === 'string') return { kind: 'string', value: toText(left) + toText(right) };
+    }
+
+    const a = this.number(left, expr.left.span);
+    const b = this.number(right, expr.right.span);
+    switch (op) {
+      case '+': return num(a + b);
+      case '-': return num(a - b);
+      case '*': return num(a * b);
+      case '/': return num(a / b);
+      case '%': return num(a % b);
+      case '**': return num(a ** b);
+      case '<': return bool(a < b);
+      case '>': return bool(a > b);
+      case '<=': return bool(a <= b);
+      case '>=': return bool(a >= b);
+      case '&': return num(a & b);
+      case '|': return num(a | b);
+      case '^': return num(a ^ b);
+      case '<<': return num(a << b);
+      case '>>': return num(a >> b);
+      case '>>>': return num(a >>> b);
+    }
+    throw new Failure(`Unsupported operator "${op}"`, expr.span);
+  }
+
+  private known(value: Value, span: Span): Value {
+    if (value.kind === 'opaque') throw new Failure(value.reason, span);
+    return value;
+  }
+
+  private truthy(value: Value, span: Span): boolean {
+    const known = this.known(value, span);
+    switch (known.kind) {
+      case 'number': return known.value !== 0 && !Number.isNaN(known.value);
+      case 'string': return known.value !== '';
+      case 'boolean': return known.value;
+      case 'undefined': return false;
+      default: return true;
+    }
+  }
+
+  private number(value: Value, span: Span): number {
+    const known = this.known(value, span);
+    if (known.kind !== 'number') throw new Failure(`Expected a number, found ${describe(known)}`, span);
+    return known.value;
+  }
+
+  private integer(value: Value, span: Span, what: string): number {
+    const n = this.number(value, span);
+    if (!Number.isInteger(n) || n < 0) throw new Failure(`${what} must be a non-negative integer, found ${n}`, span);
+    return n;
+  }
+
+  private emptyItems(value: Value, span: Span): Value[] {
+    const length = this.integer(value, span, 'The array length');
+    if (length > MAX_ARRAY_LENGTH) throw new Failure(`Arrays can hold at most ${MAX_ARRAY_LENGTH} items, found a length of ${length}`, span);
+    return new Array<Value>(length).fill(UNDEFINED);
+  }
+
+  private items(value: Value, span: Span): Value[] {
+    const known = this.known(value, span);
+    if (known.kind === 'array') return known.items;
+    if (known.kind === 'string') return [...known.value].map(c => ({ kind: 'string', value: c }));
+    throw new Failure(`Expected an array, found ${describe(known)}`, span);
+  }
+
+  private property(object: Value, name: string, span: Span): Value {
+    switch (object.kind) {
+      case 'opaque':
+        return object;
+      case 'array':
+        if (name === 'length') return num(object.items.length);
+        if (ARRAY_METHODS.has(name)) return { kind: 'method', object, name };
+        break;
+      case 'string':
+        if (name === 'length') return num(object.value.length);
+        break;
+      case 'object':
+        return object.fields.get(name) ?? UNDEFINED;
+      case 'simulator':
+        if (SIMULATOR_METHODS.has(name)) return { kind: 'method', object, name };
+        throw new Failure(`QuantumSimulator has no method "${name}"`, span);
+      case 'builtin':
+        if (object.name === 'Math' && Object.hasOwn(MATH_CONSTANTS, name)) return num(MATH_CONSTANTS[name]);
+        if (object.name === 'Math' && Object.hasOwn(MATH_FUNCTIONS, name)) return { kind: 'builtin', name: `Math.${name}` };
+        if (object.name === 'console') return { kind: 'builtin', name: 'console.log' };
+        if (object.name === 'Array' && ['from', 'isArray'].includes(name)) return { kind: 'builtin', name: `Array.${name}` };
+        if (object.name === 'Number' && ['isInteger', 'isFinite'].includes(name)) return { kind: 'builtin', name: `Number.${name}` };
+        break;
+    }
+    throw new Failure(`Cannot read "${name}" of ${describe(object)}`, span);
+  }
+
+  private index(object: Value, index: Value, span: Span): Value {
+    if (object.kind === 'opaque' || index.kind === 'opaque') return object.kind === 'opaque' ? object : index;
+    if (index.kind === 'string') return this.property(object, index.value, span);
+    if (object.kind === 'array') return object.items[this.number(index, span)] ?? UNDEFINED;
+    if (object.kind === 'string') {
+      const c = object.value[this.number(index, span)];
+      return c === undefined ? UNDEFINED : { kind: 'string', value: c };
+    }
+    throw new Failure(`Cannot index ${describe(object)}`, span);
+  }
+
+  // Calls
+
+  private invoke(callee: Value, args: Argument[], span: Span): Value {
+    switch (callee.kind) {
+      case 'function':
+        return this.callFunction(callee, args.map(arg => arg.value), span);
+      case 'builtin':
+        return this.callBuiltin(callee.name, args, span);
+      case 'method':
+        if (callee.object.kind === 'simulator') return this.callSimulator(callee.object, callee.name, args, span);
+        return this.callArrayMethod(callee.object as Extract<Value, { kind: 'array' }>, callee.name, args, span);
+      case 'opaque':
+        // Helpers from other modules are not followed, so anything they apply is missing
+        if (args.some(arg => arg.value.kind === 'simulator')) {
+          this.warn('Gates applied inside imported functions are not loaded into the circuit', span);
+        }
+        return callee;
+    }
+    throw new Failure(`${describe(callee)} is not a function`, span);
+  }
+
+  private callFunction(fn: Extract<Value, { kind: 'function' }>, args: Value[], span: Span): Value {
+    if (this.depth >= MAX_CALL_DEPTH) throw new Failure('Too much recursion', span);
+    const scope = new Scope(fn.scope);
+    fn.params.forEach((name, i) => scope.declare(name, args[i] ?? UNDEFINED, false));
+
+    this.depth++;
+    try {
+      const completion = this.execute(fn.body, scope);
+      return completion.type === 'return' ? completion.value : UNDEFINED;
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private callBuiltin(name: string, args: Argument[], span: Span): Value {
+    if (name.startsWith('Math.')) {
+      return num(MATH_FUNCTIONS[name.slice(5)](...args.map(arg => this.number(arg.value, arg.span))));
+    }
+    switch (name) {
+      case 'console.log':
+        return UNDEFINED;
+      case 'QuantumSimulator':
+        throw new Failure('QuantumSimulator must be created with "new"', span);
+      case 'Array':
+        return this.construct({ kind: 'builtin', name }, args, span);
+      case 'Array.isArray':
+        return bool(args[0]?.value.kind === 'array');
+      case 'Array.from': {
+        const source = args[0];
+        if (!source) throw new Failure('Array.from needs an array or { length }', span);
+        const items = source.value.kind === 'object'
+          ? this.emptyItems(source.value.fields.get('length') ?? UNDEFINED, source.span)
+          : [...this.items(source.value, source.span)];
+        if (!args[1]) return { kind: 'array', items };
+        return { kind: 'array', items: items.map((item, i) => this.callback(args[1], [item, num(i)], span)) };
+      }
+      case 'Number':
+        return num(Number(toText(this.known(args[0]?.value ?? UNDEFINED, span))));
+      case 'Number.isInteger':
+        return bool(args[0]?.value.kind === 'number' && Number.isInteger(args[0].value.value));
+      case 'Number.isFinite':
+        return bool(args[0]?.value.kind === 'number' && Number.isFinite(args[0].value.value));
+    }
+    throw new Failure(`${name} cannot be called`, span);
+  }
+
+  private callback(fn: Argument, args: Value[], span: Span): Value {
+    this.countIteration(span);
+    return this.invoke(this.known(fn.value, fn.span), args.map(value => ({ value, span: fn.span })), span);
+  }
+
+  private callArrayMethod(array: Extract<Value, { kind: 'array' }>, name: string, args: Argument[], span: Span): Value {
+    const { items } = array;
+    const [first, second] = args;
+    const each = (fn: Argument | undefined) => {
+      if (!fn) throw new Failure(`${name} needs a function`, span);
+      return items.map((item, i) => this.callback(fn, [item, num(i), array], span));
+    };
+
+    switch (name) {
+      case 'forEach':
+        each(first);
+        return UNDEFINED;
+      case 'map':
+        return { kind: 'array', items: each(first) };
+      case 'filter': {
+        const keep = each(first);
+        return { kind: 'array', items: items.filter((_, i) => this.truthy(keep[i], span)) };
+      }
+      case 'some':
+        return bool(each(first).some(result => this.truthy(result, span)));
+      case 'every':
+        return bool(each(first).every(result => this.truthy(result, span)));
+      case 'reduce': {
+        if (!first) throw new Failure('reduce needs a function', span);
+        if (!second && items.length === 0) throw new Failure('reduce of an empty array needs an initial value', span);
+        let accumulator = second ? second.value : items[0];
+        for (let i = second ? 0 : 1; i < items.length; i++) {
+          accumulator = this.callback(first, [accumulator, items[i], num(i), array], span);
+        }
+        return accumulator;
+      }
+      case 'includes':
+        return bool(items.some(item => sameValue(item, first?.value ?? UNDEFINED)));
+      case 'indexOf':
+        return num(items.findIndex(item => sameValue(item, first?.value ?? UNDEFINED)));
+      case 'slice': {
+        const start = first ? this.number(first.value, first.span) : 0;
+        const end = second ? this.number(second.value, second.span) : items.length;
+        return { kind: 'array', items: items.slice(start, end) };
+      }
+      case 'concat':
+        return { kind: 'array', items: items.concat(...args.map(arg => (arg.value.kind === 'array' ? arg.value.items : [arg.value]))) };
+      case 'join':
+        return { kind: 'string', value: items.map(toText).join(first ? toText(first.value) : ',') };
+      case 'reverse':
+        items.reverse();
+        return array;
+      case 'push':
+        items.push(...args.map(arg => arg.value));
+        return num(items.length);
+      case 'keys':
+        return { kind: 'array', items: items.map((_, i) => num(i)) };
+      case 'fill':
+        items.fill(first?.value ?? UNDEFINED);
+        return array;
+    }
+    throw new Failure(`Unsupported array method "${name}"`, span);
+  }
+
+  private construct(callee: Value, args: Argument[], span: Span): Value {
+    if (callee.kind === 'opaque') return callee;
+    if (callee.kind === 'builtin' && callee.name === 'Array') {
+      if (args.length !== 1 || args[0].value.kind !== 'number') return { kind: 'array', items: args.map(arg => arg.value) };
+      return { kind: 'array', items: this.emptyItems(args[0].value, args[0].span) };
+    }
+    if (callee.kind !== 'builtin' || callee.name !== 'QuantumSimulator') throw new Failure(`Cannot create ${describe(callee)}`, span);
+
+    // new QuantumSimulator(n) or new QuantumSimulator({ numQubits, numClbits })
+    const config = this.known(args[0]?.value ?? UNDEFINED, span);
+    const configSpan = args[0]?.span ?? span;
+    const field = (name: string) => (config.kind === 'object' ? config.fields.get(name) : undefined);
+    const numQubits = this.integer(config.kind === 'object' ? field('numQubits') ?? UNDEFINED : config, configSpan, 'The number of qubits');
+    if (numQubits < LIMITS.MIN_QUBITS || numQubits > LIMITS.MAX_QUBITS) {
+      throw new Failure(`A simulator needs between ${LIMITS.MIN_QUBITS} and ${LIMITS.MAX_QUBITS} qubits, found ${numQubits}`, configSpan);
+    }
+    const clbits = field('numClbits');
+    const numClbits = clbits ? this.integer(clbits, configSpan, 'The number of classical bits') : numQubits;
+
+    const id = this.simulators++;
+    if (id === 0) this.numQubits = numQubits;
+    else this.warn('Only the first simulator is loaded into the circuit', span);
+    return { kind: 'simulator', id, numQubits, numClbits };
+  }
+
+  // Simulator calls
+
+  private callSimulator(sim: Simulator, name: string, args: Argument[], span: Span): Value {
+    const record = (gate: ParametricGate) => {
+      if (sim.id === 0) this.gates.push(gate);
+    };
+
+    switch (name) {
+      case 'apply':
+        record(this.gateArguments(sim, args, span));
+        return UNDEFINED;
+
+      case 'applyIf': {
+        const [condition, ...rest] = args;
+        if (!condition) throw new Failure('sim.applyIf needs a condition', span);
+        record({ ...this.gateArguments(sim, rest, span), condition: this.condition(sim, condition) });
+        return UNDEFINED;
+      }
+
+      case 'measure': {
+        if (!args[0]) throw new Failure('sim.measure needs a qubit', span);
+        const qubit = this.qubit(sim, args[0]);
+        const clbit = args[1] ? this.clbit(sim, args[1]) : qubit;
+        record({ gate: 'MEASURE', qubits: [qubit], clbits: [clbit] });
+        return { kind: 'opaque', reason: MEASUREMENT_OUTCOME };
+      }
+
+      case 'reset':
+        if (!args[0]) throw new Failure('sim.reset needs a qubit', span);
+        record({ gate: 'RESET', qubits: [this.qubit(sim, args[0])] });
+        return UNDEFINED;
+
+      case 'execute':
+        record(this.operation(sim, args[0], span));
+        return UNDEFINED;
+
+      case 'getNumQubits':
+        return num(sim.numQubits);
+
+      case 'getNumClbits':
+        return num(sim.numClbits);
+    }
+    if (SIMULATOR_READERS.has(name)) return { kind: 'opaque', reason: SIMULATION_RESULT };
+    throw new Failure(`sim.${name} cannot be loaded as circuit gates`, span);
+  }
+
+  // sim.apply(name, [params], ...qubits). Parameters after the qubits are read too, with a warning
+  private gateArguments(sim: Simulator, args: Argument[], span: Span): ParametricGate {
+    const [nameArg, ...rest] = args;
+    if (!nameArg) throw new Failure('Missing gate name', span);
+    const gateName = this.known(nameArg.value, nameArg.span);
+    if (gateName.kind !== 'string') throw new Failure(`The gate name must be a string, found ${describe(gateName)}`, nameArg.span);
+    const info = Object.hasOwn(GATE_LIBRARY, gateName.value) ? GATE_LIBRARY[gateName.value] : undefined;
+    if (!info) throw new Failure(`Unknown gate "${gateName.value}"`, nameArg.span);
+
+    let paramArg: Argument | undefined;
+    let qubitArgs: Argument[] = [];
+    rest.forEach((arg, i) => {
+      if (arg.value.kind !== 'array') {
+        qubitArgs.push(arg);
+        return;
+      }
+      if (paramArg) throw new Failure('Only one parameter array is allowed', arg.span);
+      if (i > 0) this.warn(`Parameters go before the qubits: sim.apply('${gateName.value}', [params], ...qubits)`, arg.span);
+      paramArg = arg;
+    });
+
+    const required = info.params?.length ?? 0;
+    let params = paramArg ? this.items(paramArg.value, paramArg.span).map(value => this.param(value, paramArg!.span)) : [];
+    // sim.apply('Rx', 0, theta), as older snippets write it
+    if (!paramArg && required > 0 && qubitArgs.length > info.qubits) {
+      const trailing = qubitArgs.slice(info.qubits);
+      qubitArgs = qubitArgs.slice(0, info.qubits);
+      const trailingSpan = { start: trailing[0].span.start, end: trailing[trailing.length - 1].span.end };
+      this.warn(`Parameters go before the qubits: sim.apply('${gateName.value}', [params], ...qubits)`, trailingSpan);
+      params = trailing.map(arg => this.param(arg.value, arg.span));
+    }
+
+    if (qubitArgs.length !== info.qubits) {
+      throw new Failure(`${gateName.value} acts on ${info.qubits} qubit${info.qubits === 1 ? '' : 's'}, found ${qubitArgs.length}`, span);
+    }
+    // Like the simulator, trailing parameters may be left out (U3 with only θ)
+    if (params.length > required || (required > 0 && params.length === 0)) {
+      throw new Failure(required === 0
+        ? `${gateName.value} takes no parameters`
+        : `${gateName.value} takes ${required} parameter${required === 1 ? '' : 's'} (${info.params!.join(', ')}), found ${params.length}`, paramArg?.span ?? span);
+    }
+
+    const qubits: number[] = [];
+    for (const arg of qubitArgs) {
+      const qubit = this.qubit(sim, arg);
+      if (qubits.includes(qubit)) throw new Failure(`Qubit ${qubit} is used twice`, arg.span);
+      qubits.push(qubit);
+    }
+    return params.length > 0 ? { gate: gateName.value, qubits, params } : { gate: gateName.value, qubits };
+  }
+
+  private param(value: Value, span: Span): ParamValue {
+    const known = this.known(value, span);
+    if (known.kind === 'number' && Number.isFinite(known.value)) return known.value;
+    if (known.kind === 'string' && isValidSymbol(known.value)) return known.value;
+    throw new Failure(`Gate parameters must be finite numbers or symbol names, found ${describe(known)}`, span);
+  }
+
+  private qubit(sim: Simulator, arg: Argument): number {
+    const qubit = this.integer(arg.value, arg.span, 'A qubit index');
+    if (qubit >= sim.numQubits) throw new Failure(`Qubit ${qubit} is out of range for a ${sim.numQubits}-qubit simulator`, arg.span);
+    return qubit;
+  }
+
+  private clbit(sim: Simulator, arg: Argument): number {
+    const clbit = this.integer(arg.value, arg.span, 'A classical bit index');
+    if (clbit >= sim.numClbits) throw new Failure(`Classical bit ${clbit} is out of range; the simulator has ${sim.numClbits}`, arg.span);
+    return clbit;
+  }
+
+  // { clbits: [0, 1], value: 3 }
+  private condition(sim: Simulator, arg: Argument): GateCondition {
+    const value = this.known(arg.value, arg.span);
+    const clbits = value.kind === 'object' ? value.fields.get('clbits') : undefined;
+    const expected = value.kind === 'object' ? value.fields.get('value') : undefined;
+    if (!clbits || !expected) throw new Failure('A condition needs clbits and value, e.g. { clbits: [0], value: 1 }', arg.span);
+    return {
+      clbits: this.items(clbits, arg.span).map(clbit => this.clbit(sim, { value: clbit, span: arg.span })),
+      value: this.integer(expected, arg.span, 'The condition value'),
+    };
+  }
+
+  // sim.execute({ gate, qubits, params, clbits, condition })
+  private operation(sim: Simulator, arg: Argument | undefined, span: Span): ParametricGate {
+    const op = arg ? this.known(arg.value, arg.span) : UNDEFINED;
+    if (op.kind !== 'object' || !arg) throw new Failure('sim.execute needs an operation, e.g. { gate: \'H\', qubits: [0] }', span);
+    const field = (name: string) => op.fields.get(name);
+    const gateName = field('gate');
+    const qubits = this.items(field('qubits') ?? UNDEFINED, arg.span).map(value => ({ value, span: arg.span }));
+    const params = field('params');
+    const clbits = field('clbits');
+    const condition = field('condition');
+
+    let gate: ParametricGate;
+    if (gateName?.kind === 'string' && (gateName.value === 'MEASURE' || gateName.value === 'RESET')) {
+      if (qubits.length !== 1) throw new Failure(`${gateName.value} acts on 1 qubit, found ${qubits.length}`, arg.span);
+      gate = { gate: gateName.value, qubits: [this.qubit(sim, qubits[0])] };
+      if (gateName.value === 'MEASURE') {
+        gate.clbits = clbits ? this.items(clbits, arg.span).map(value => this.clbit(sim, { value, span: arg.span })) : [gate.qubits[0]];
+      }
+    } else {
+      const args = [{ value: gateName ?? UNDEFINED, span: arg.span }, ...(params ? [{ value: params, span: arg.span }] : []), ...qubits];
+      gate = this.gateArguments(sim, args, arg.span);
+    }
+    if (condition) gate.condition = this.condition(sim, { value: condition, span: arg.span });
+    return gate;
+  }
+}
+
+function byPosition(a: DslDiagnostic, b: DslDiagnostic): number {
+  return a.line - b.line || a.column - b.column;
+}
+
+/**
+ * Reads simulator code into circuit gates. Never throws: syntax errors, unknown
+ * gates, out-of-range qubits and unsupported statements are returned as
+ * diagnostics and the statements they occur in are skipped. Code with syntax
+ * errors is not evaluated, so those are the only diagnostics until it parses.
+ */
+export function parseCircuitDSL(source: string): DslCircuit {
+  const diagnostics: DslDiagnostic[] = [];
+  const program = new DslParser(tokenize(source, diagnostics), diagnostics).parseProgram();
+
+  const interpreter = new DslInterpreter(diagnostics);
+  if (diagnostics.length === 0) interpreter.run(program);
+
+  // Failures inside loops repeat on every iteration; report each once
+  const seen = new Set<string>();
+  const unique = diagnostics.filter(d => {
+    const key = `${d.line}:${d.column}:${d.endLine}:${d.endColumn}:${d.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    numQubits: interpreter.numQubits,
+    gates: interpreter.gates,
+    diagnostics: unique.sort(byPosition),
+  };
+}
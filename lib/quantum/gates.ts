@@ -309,3 +309,13 @@ export const GATE_LIBRARY: Record<string, GateInfo> = {
   CCZ: { name: 'CCZ', symbol: 'CCZ', qubits: 3, matrix: CCZ, description: 'Controlled-controlled-Z' },
   RCCX: { name: 'RCCX', symbol: 'RCCX', qubits: 3, matrix: RCCX, description: 'Relative-phase Toffoli' },
 };
+
+// Non-unitary Operations
+
+export type OperationInfo = Omit<GateInfo, 'matrix' | 'params'>;
+
+/** Operations that collapse or reinitialize qubits; handled by the simulator, not by a matrix */
+export const NON_UNITARY_OPS: Record<string, OperationInfo> = {
+  MEASURE: { name: 'Measure', symbol: 'M', qubits: 1, description: 'Measure into a classical bit' },
+  RESET: { name: 'Reset', symbol: '|0⟩', qubits: 1, description: 'Reset qubit to |0⟩' },
+};
@@ -32,14 +32,45 @@ export * from './matrix';
 // Re-export gates - I here is the Identity Matrix/Gate
 export * from './gates';
 
-export { QuantumSimulator } from './simulator';
+// User-defined matrix and subcircuit gates
+export * from './custom-gates';
+
+export { QuantumSimulator, splitGateArgs, conditionHolds } from './simulator';
 export type {
   QuantumState,
   MeasurementResult,
   SimulatorConfig,
   NoiseModel,
-  GateOperation
+  GateOperation,
+  GateCondition
 } from './simulator';
 
+// Exact mixed-state backend
+export { DensityMatrixSimulator } from './density-matrix';
+
+// Kraus channels for noisy simulation
+export * from './noise';
+
+// Symbolic parameters and binding
+export * from './parameters';
+
+// Pauli-string observables
+export * from './observables';
+
+// OpenQASM 2.0/3.0 importer
+export * from './qasm';
+
+// Qiskit and Cirq snippet importer
+export * from './python';
+
+// Parser for simulator code written in TypeScript
+export * from './dsl';
+
+// Recording simulator for running circuit code in a sandbox worker
+export * from './sandbox';
+
+// Variational algorithms and classical optimizers
+export * from './algorithms';
+
 // Validators for robust error handling
 export * from './validators';
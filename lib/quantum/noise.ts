@@ -0,0 +1,64 @@
+/**
+ * Noise Channels
+ * Kraus operator definitions for the error processes in a NoiseModel
+ */
+import { complex } from './complex';
+import { Matrix } from './matrix';
+import { I, X, Y, Z } from './gates';
+import type { NoiseModel } from './simulator';
+
+function scaleMatrix(m: Matrix, s: number): Matrix {
+  return m.map(row => row.map(c => complex(c.real * s, c.imag * s)));
+}
+
+/** Depolarizing channel: random Pauli error with total probability p */
+export function depolarizingKraus(p: number): Matrix[] {
+  return [
+    scaleMatrix(I, Math.sqrt(1 - p)),
+    scaleMatrix(X, Math.sqrt(p / 3)),
+    scaleMatrix(Y, Math.sqrt(p / 3)),
+    scaleMatrix(Z, Math.sqrt(p / 3)),
+  ];
+}
+
+/** Amplitude damping channel: |1⟩ decays to |0⟩ with probability γ (T1) */
+export function amplitudeDampingKraus(gamma: number): Matrix[] {
+  return [
+    [
+      [complex(1), complex(0)],
+      [complex(0), complex(Math.sqrt(1 - gamma))],
+    ],
+    [
+      [complex(0), complex(Math.sqrt(gamma))],
+      [complex(0), complex(0)],
+    ],
+  ];
+}
+
+/** Phase damping channel: loss of coherence without energy loss (T2) */
+export function phaseDampingKraus(lambda: number): Matrix[] {
+  return [
+    [
+      [complex(1), complex(0)],
+      [complex(0), complex(Math.sqrt(1 - lambda))],
+    ],
+    [
+      [complex(0), complex(0)],
+      [complex(0), complex(Math.sqrt(lambda))],
+    ],
+  ];
+}
+
+/**
+ * Single-qubit channels applied to every qubit a gate touches, in order.
+ * Readout error is not a gate channel and is handled at sampling time.
+ */
+export function gateNoiseChannels(model?: NoiseModel): Matrix[][] {
+  if (!model) return [];
+
+  const channels: Matrix[][] = [];
+  if (model.depolarizing) channels.push(depolarizingKraus(model.depolarizing));
+  if (model.amplitude_damping) channels.push(amplitudeDampingKraus(model.amplitude_damping));
+  if (model.phase_damping) channels.push(phaseDampingKraus(model.phase_damping));
+  return channels;
+}
@@ -0,0 +1,107 @@
+/**
+ * Pauli-string Observables
+ * Weighted sums of Pauli strings such as 0.5*ZZI - 0.3*XIX, where the
+ * leftmost character acts on qubit 0.
+ */
+import { QuantumValidationError, ErrorCodes } from './validators';
+
+export interface PauliTerm {
+  coefficient: number;
+  pauli: string; // One of I, X, Y, Z per qubit
+}
+
+export type PauliSum = PauliTerm[];
+
+/** Anything expectation() accepts: a parsed sum or its text form */
+export type Observable = PauliSum | string;
+
+const TERM_PATTERN = /^([+-]?\s*(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)?\s*\*?\s*([IXYZ]+)$/i;
+
+/**
+ * Parses text such as "0.5*ZZI - 0.3*XIX + YYI".
+ * A missing coefficient means 1.
+ */
+export function parsePauliSum(text: string): PauliSum {
+  const normalized = text.replace(/\s+/g, '');
+  if (normalized === '') {
+    throw new QuantumValidationError('Observable is empty', ErrorCodes.INVALID_OBSERVABLE, { text });
+  }
+
+  // Split before every +/- that is not the sign of an exponent such as 1e-3
+  const pieces: string[] = [];
+  let start = 0;
+  for (let i = 1; i < normalized.length; i++) {
+    const isSign = normalized[i] === '+' || normalized[i] === '-';
+    const isExponent = /[eE]/.test(normalized[i - 1]) && /\d/.test(normalized[i - 2] ?? '');
+    if (isSign && !isExponent) {
+      pieces.push(normalized.slice(start, i));
+      start = i;
+    }
+  }
+  pieces.push(normalized.slice(start));
+
+  return pieces.map(piece => {
+    const sign = piece.startsWith('-') ? -1 : 1;
+    const unsigned = piece.replace(/^[+-]/, '');
+    const match = unsigned.match(TERM_PATTERN);
+    if (!match) {
+      throw new QuantumValidationError(
+        `Cannot parse observable term "${piece}"`,
+        ErrorCodes.INVALID_OBSERVABLE,
+        { text, term: piece }
+      );
+    }
+    const magnitude = match[1] !== undefined ? parseFloat(match[1]) : 1;
+    return { coefficient: sign * magnitude, pauli: match[2].toUpperCase() };
+  });
+}
+
+/**
+ * Parses (if needed) and checks that every term spans exactly numQubits qubits
+ */
+export function toPauliSum(observable: Observable, numQubits: number): PauliSum {
+  const terms = typeof observable === 'string' ? parsePauliSum(observable) : observable;
+
+  for (const term of terms) {
+    if (term.pauli.length !== numQubits || !/^[IXYZ]+$/.test(term.pauli)) {
+      throw new QuantumValidationError(
+        `Pauli string "${term.pauli}" must use I, X, Y, Z and act on ${numQubits} qubits`,
+        ErrorCodes.INVALID_OBSERVABLE,
+        { pauli: term.pauli, numQubits }
+      );
+    }
+    if (!Number.isFinite(term.coefficient)) {
+      throw new QuantumValidationError(
+        `Coefficient of "${term.pauli}" must be finite`,
+        ErrorCodes.INVALID_OBSERVABLE,
+        { pauli: term.pauli, coefficient: term.coefficient }
+      );
+    }
+  }
+  return terms;
+}
+
+/**
+ * Bit masks describing P|i⟩ = i^numY · (-1)^popcount(i & zMask) · |i ^ xMask⟩
+ */
+export function pauliMasks(pauli: string): { xMask: number; zMask: number; numY: number } {
+  const n = pauli.length;
+  let xMask = 0, zMask = 0, numY = 0;
+  for (let q = 0; q < n; q++) {
+    const bit = 1 << (n - 1 - q);
+    const p = pauli[q];
+    if (p === 'X' || p === 'Y') xMask |= bit;
+    if (p === 'Z' || p === 'Y') zMask |= bit;
+    if (p === 'Y') numY++;
+  }
+  return { xMask, zMask, numY };
+}
+
+export function parity(x: number): number {
+  let bits = 0;
+  while (x) {
+    x &= x - 1;
+    bits++;
+  }
+  return bits & 1;
+}
@@ -0,0 +1,84 @@
+/**
+ * Symbolic Circuit Parameters
+ * Gate parameters may be numbers or named symbols (e.g. theta_0) that are
+ * bound to concrete values just before simulation.
+ */
+import { QuantumValidationError, ErrorCodes } from './validators';
+import type { GateCondition } from './simulator';
+
+export type ParamValue = number | string;
+
+export type ParameterBindings = Record<string, number>;
+
+/** A circuit operation whose parameters may still be symbolic */
+export interface ParametricGate {
+  gate: string;
+  qubits: number[];
+  params?: ParamValue[];
+  clbits?: number[];
+  condition?: GateCondition;
+}
+
+const SYMBOL_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function isSymbol(value: ParamValue): value is string {
+  return typeof value === 'string';
+}
+
+export function isValidSymbol(name: string): boolean {
+  return SYMBOL_PATTERN.test(name);
+}
+
+/**
+ * Reads a parameter typed by the user: a number literal or a symbol name.
+ * Returns null for anything else.
+ */
+export function parseParamValue(text: string): ParamValue | null {
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+
+  const numeric = Number(trimmed);
+  if (Number.isFinite(numeric)) return numeric;
+
+  return isValidSymbol(trimmed) ? trimmed : null;
+}
+
+/** Symbol names used by a circuit, in order of first appearance */
+export function getCircuitParameters(gates: { params?: ParamValue[] }[]): string[] {
+  const names: string[] = [];
+  for (const gate of gates) {
+    for (const param of gate.params ?? []) {
+      if (isSymbol(param) && !names.includes(param)) names.push(param);
+    }
+  }
+  return names;
+}
+
+/**
+ * Produces a concrete copy of the circuit with every symbol replaced by its value.
+ * Throws if a symbol has no binding.
+ */
+export function bind<T extends { params?: ParamValue[] }>(
+  gates: T[],
+  values: ParameterBindings
+): (Omit<T, 'params'> & { params?: number[] })[] {
+  return gates.map(gate => {
+    if (!gate.params) return { ...gate, params: undefined };
+
+    const params = gate.params.map(param => {
+      if (!isSymbol(param)) return param;
+
+      const value = values[param];
+      if (value === undefined || !Number.isFinite(value)) {
+        throw new QuantumValidationError(
+          `No value bound for parameter "${param}"`,
+          ErrorCodes.UNBOUND_PARAMETER,
+          { parameter: param }
+        );
+      }
+      return value;
+    });
+
+    return { ...gate, params };
+  });
+}
@@ -0,0 +1,1134 @@
+/**
+ * Qiskit and Cirq Importer
+ * Reads the straight-line subset of Qiskit and Cirq snippets: circuit, register
+ * and qubit construction, gate calls, measurements, resets and classical
+ * conditions. Other statements (imports, printing, running a simulator) are
+ * evaluated loosely and ignored unless their result is added to the circuit.
+ */
+import { QuantumValidationError, ErrorCodes, LIMITS } from './validators';
+import { isValidSymbol, type ParametricGate, type ParamValue } from './parameters';
+import { getStandardGate, expandStandardGate } from './qasm';
+import type { GateCondition } from './simulator';
+
+export class PythonParseError extends QuantumValidationError {
+  constructor(message: string, public readonly line: number, public readonly column: number) {
+    super(`Line ${line}, column ${column}: ${message}`, ErrorCodes.INVALID_PYTHON_CIRCUIT, { line, column });
+    this.name = 'PythonParseError';
+  }
+}
+
+export type PythonFramework = 'qiskit' | 'cirq';
+
+export interface PythonCircuit {
+  framework: PythonFramework;
+  numQubits: number;
+  numClbits: number;
+  gates: ParametricGate[];
+}
+
+// Tokens, grouped into logical lines
+
+interface Token {
+  kind: 'name' | 'number' | 'string' | 'op';
+  text: string;
+  line: number;
+  column: number;
+}
+
+interface LogicalLine {
+  tokens: Token[];
+  indent: number;
+}
+
+const TOKEN_PATTERNS: [Token['kind'] | null, RegExp][] = [
+  [null, /[ \t\f]+|#[^\n]*|\\\r?\n/y],
+  ['string', /[rRbBuUfF]{0,2}(?:"""[\s\S]*?"""|'''[\s\S]*?'''|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*')/y],
+  ['number', /(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?j?/y],
+  ['name', /[\p{L}_][\p{L}\p{N}_]*/uy],
+  ['op', /\*\*=?|\/\/=?|->|[+\-*/%@&|^]=|[=!<>]=|[()[\]{},:.;=+\-*/%@<>~&|^]/y],
+];
+
+function tokenize(source: string): LogicalLine[] {
+  const lines: LogicalLine[] = [];
+  let current: Token[] = [];
+  let depth = 0;
+  let line = 1;
+  let lineStart = 0;
+  let index = 0;
+
+  const endLine = () => {
+    if (current.length > 0) lines.push({ tokens: current, indent: current[0].column - 1 });
+    current = [];
+  };
+
+  outer: while (index < source.length) {
+    if (source[index] === '\n' || source.startsWith('\r\n', index)) {
+      index += source[index] === '\n' ? 1 : 2;
+      line++;
+      lineStart = index;
+      if (depth === 0) endLine();
+      continue;
+    }
+
+    for (const [kind, pattern] of TOKEN_PATTERNS) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(source);
+      if (!match) continue;
+
+      if (kind) {
+        current.push({ kind, text: match[0], line, column: index - lineStart + 1 });
+        if (kind === 'op' && '([{'.includes(match[0])) depth++;
+        if (kind === 'op' && ')]}'.includes(match[0])) depth = Math.max(0, depth - 1);
+      }
+      for (let k = index; k < index + match[0].length; k++) {
+        if (source[k] === '\n') {
+          line++;
+          lineStart = k + 1;
+        }
+      }
+      index += match[0].length;
+      continue outer;
+    }
+
+    const column = index - lineStart + 1;
+    if (/['"]/.test(source[index])) throw new PythonParseError('Unterminated string', line, column);
+    throw new PythonParseError(`Unexpected character "${source[index]}"`, line, column);
+  }
+
+  endLine();
+  return lines;
+}
+
+function stringValue(token: Token): string {
+  const body = token.text.replace(/^[rRbBuUfF]*/, '');
+  const quote = body.startsWith('"""') || body.startsWith("'''") ? 3 : 1;
+  return body.slice(quote, -quote).replace(/\\(['"\\])/g, '$1');
+}
+
+// Expressions
+
+type Expr =
+  | { kind: 'number'; value: number; token: Token }
+  | { kind: 'string'; value: string; token: Token }
+  | { kind: 'name'; name: string; token: Token }
+  | { kind: 'attribute'; object: Expr; name: string; token: Token }
+  | { kind: 'subscript'; object: Expr; index: Expr; token: Token }
+  | { kind: 'call'; func: Expr; args: Expr[]; keywords: Map<string, Expr>; token: Token }
+  | { kind: 'list'; items: Expr[]; token: Token }
+  | { kind: 'comprehension'; item: Expr; target: string; iterable: Expr; token: Token }
+  | { kind: 'starred'; value: Expr; token: Token }
+  | { kind: 'unary'; op: string; operand: Expr; token: Token }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr; token: Token };
+
+// Runtime values of the snippet
+type Value =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'symbol'; name: string } // Unassigned names, qiskit Parameters and sympy Symbols
+  | { kind: 'module'; path: string } // Imported names such as cirq, np or qiskit.QuantumCircuit
+  | { kind: 'register'; quantum: boolean; size: number; offset?: number }
+  | { kind: 'qubit'; index: number }
+  | { kind: 'clbit'; index: number }
+  | { kind: 'list'; items: Value[] }
+  | { kind: 'circuit' }
+  | { kind: 'gate'; name: string; params: ParamValue[] } // A Cirq gate before it is applied, e.g. cirq.rx(0.5)
+  | { kind: 'operations'; gates: ParametricGate[] }
+  | { kind: 'condition'; condition: GateCondition }
+  | { kind: 'opaque' }; // Simulators, results and anything else the importer does not model
+
+const OPAQUE: Value = { kind: 'opaque' };
+
+// Names usable without an import, as in most pasted snippets
+const IMPLICIT_MODULES: Record<string, string> = {
+  np: 'numpy',
+  numpy: 'numpy',
+  math: 'math',
+  cirq: 'cirq',
+  sympy: 'sympy',
+  QuantumCircuit: 'qiskit.QuantumCircuit',
+  QuantumRegister: 'qiskit.QuantumRegister',
+  ClassicalRegister: 'qiskit.ClassicalRegister',
+  Parameter: 'qiskit.circuit.Parameter',
+  range: 'builtins.range',
+  list: 'builtins.list',
+  len: 'builtins.len',
+  abs: 'builtins.abs',
+  print: 'builtins.print',
+};
+
+const CONSTANTS: Record<string, number> = {
+  'numpy.pi': Math.PI,
+  'numpy.e': Math.E,
+  'math.pi': Math.PI,
+  'math.e': Math.E,
+  'math.tau': 2 * Math.PI,
+  'sympy.pi': Math.PI,
+};
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  exp: Math.exp,
+  log: Math.log,
+  sqrt: Math.sqrt,
+  arcsin: Math.asin,
+  arccos: Math.acos,
+  arctan: Math.atan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  abs: Math.abs,
+  fabs: Math.abs,
+};
+
+// Qiskit method names that differ from the qelib1.inc gate names
+const QISKIT_ALIASES: Record<string, string> = {
+  i: 'id',
+  toffoli: 'ccx',
+  fredkin: 'cswap',
+};
+
+// QuantumCircuit / cirq.Circuit methods that do not change the circuit
+const HARMLESS_METHODS = new Set([
+  'barrier', 'draw', 'depth', 'size', 'width', 'count_ops', 'num_qubits', 'num_clbits', 'qasm',
+  'save_statevector', 'save_state', 'to_text_diagram', 'all_qubits', 'moments',
+]);
+
+// Cirq gate constants, by their qelib1.inc name
+const CIRQ_GATES: Record<string, string> = {
+  I: 'id',
+  X: 'x',
+  Y: 'y',
+  Z: 'z',
+  H: 'h',
+  S: 's',
+  T: 't',
+  CNOT: 'cx',
+  CX: 'cx',
+  CZ: 'cz',
+  SWAP: 'swap',
+  ISWAP: 'iswap',
+  TOFFOLI: 'ccx',
+  CCX: 'ccx',
+  CCNOT: 'ccx',
+  FREDKIN: 'cswap',
+  CSWAP: 'cswap',
+  CCZ: 'ccz',
+};
+
+// cirq.rx(θ) and friends
+const CIRQ_ROTATIONS = ['rx', 'ry', 'rz'];
+
+// gate ** exponent for the powers that have a standard gate
+const CIRQ_POWERS: Record<string, string> = {
+  'x^0.5': 'sx',
+  'x^-0.5': 'sxdg',
+  'z^0.5': 's',
+  'z^-0.5': 'sdg',
+  'z^0.25': 't',
+  'z^-0.25': 'tdg',
+  's^-1': 'sdg',
+  't^-1': 'tdg',
+};
+const SELF_INVERSE = new Set(['id', 'x', 'y', 'z', 'h', 'cx', 'cz', 'swap', 'ccx', 'cswap', 'ccz']);
+
+// Compound statements beyond straight-line code
+const UNSUPPORTED = new Set(['for', 'while', 'if', 'elif', 'else', 'def', 'class', 'try', 'except', 'finally', 'lambda', 'async', 'return', 'yield', 'global', 'nonlocal', 'del', 'assert', 'raise']);
+
+class PythonParser {
+  private lines: LogicalLine[];
+  private tokens: Token[] = [];
+  private pos = 0;
+  private env = new Map<string, Value>();
+  private blocks: { indent: number; condition: GateCondition }[] = [];
+  private measureKeys = new Map<string, number[]>();
+  framework: PythonFramework | null = null;
+  numQubits = 0;
+  numClbits = 0;
+  gates: ParametricGate[] = [];
+
+  constructor(source: string) {
+    this.lines = tokenize(source);
+  }
+
+  parseProgram(): void {
+    let expectBlock: Token | null = null;
+    for (const line of this.lines) {
+      this.tokens = line.tokens;
+      this.pos = 0;
+
+      if (expectBlock && line.indent <= this.blocks[this.blocks.length - 1].indent) {
+        throw this.error('Expected an indented block after "with"', line.tokens[0]);
+      }
+      expectBlock = null;
+      while (this.blocks.length > 0 && line.indent <= this.blocks[this.blocks.length - 1].indent) this.blocks.pop();
+
+      if (this.parseStatementLine(line.indent)) expectBlock = line.tokens[0];
+    }
+
+    if (expectBlock) throw this.error('Expected an indented block after "with"', expectBlock);
+    if (!this.framework) throw new PythonParseError('No QuantumCircuit or cirq.Circuit found', 1, 1);
+  }
+
+  // Token helpers
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.tokens.length || this.peek()!.text === ';';
+  }
+
+  // End of an expression list: (a, b,) or a, b, = ...
+  private atClose(): boolean {
+    return this.atEnd() || [')', ']', '}', '=', ':'].includes(this.peek()!.text);
+  }
+
+  private accept(text: string): boolean {
+    const token = this.peek();
+    if (!token || token.text !== text || token.kind === 'string') return false;
+    this.pos++;
+    return true;
+  }
+
+  private expect(text: string): Token {
+    const token = this.peek();
+    if (!token || token.text !== text || token.kind === 'string') throw this.error(`Expected "${text}" but found ${this.describe(token)}`, token);
+    this.pos++;
+    return token;
+  }
+
+  private expectName(what: string): Token {
+    const token = this.peek();
+    if (!token || token.kind !== 'name') throw this.error(`Expected ${what} but found ${this.describe(token)}`, token);
+    this.pos++;
+    return token;
+  }
+
+  private describe(token: Token | undefined): string {
+    return token ? `"${token.text}"` : 'end of line';
+  }
+
+  private error(message: string, token: Token | undefined = this.peek()): PythonParseError {
+    const at = token ?? this.tokens[this.tokens.length - 1];
+    return new PythonParseError(message, at.line, token ? at.column : at.column + at.text.length);
+  }
+
+  // Statements
+
+  /** Parses the statements on one logical line; true if it opens a with block */
+  private parseStatementLine(indent: number): boolean {
+    let opensBlock = false;
+    while (this.pos < this.tokens.length) {
+      opensBlock = this.parseStatement(indent);
+      if (!this.accept(';')) break;
+    }
+    if (this.pos < this.tokens.length) throw this.error(`Unexpected ${this.describe(this.peek())}`);
+    return opensBlock;
+  }
+
+  private parseStatement(indent: number): boolean {
+    const first = this.peek()!;
+    if (first.kind === 'name') {
+      if (first.text === 'import' || first.text === 'from') {
+        this.parseImport();
+        return false;
+      }
+      if (first.text === 'with') {
+        this.parseWith(indent);
+        return true;
+      }
+      if (first.text === 'pass') {
+        this.pos++;
+        return false;
+      }
+      if (UNSUPPORTED.has(first.text)) {
+        throw this.error(`"${first.text}" statements are not supported; only straight-line circuits can be imported`, first);
+      }
+    }
+
+    const targets = this.parseTargets();
+    const value = this.parseExpressionList();
+    if (targets?.op === '+=') this.assignAdd(targets.names[0], value);
+    else if (targets) this.assign(targets.names, this.evaluate(value), value.token);
+    else this.evaluate(value);
+    return false;
+  }
+
+  // import numpy as np / from qiskit import QuantumCircuit as QC
+  private parseImport(): void {
+    if (this.accept('import')) {
+      do {
+        // import a.b binds a; import a.b as c binds c to a.b
+        const path = this.parseDottedName();
+        if (this.accept('as')) this.env.set(this.expectName('a name').text, this.moduleValue(path));
+        else this.env.set(path.split('.')[0], { kind: 'module', path: path.split('.')[0] });
+      } while (this.accept(','));
+      return;
+    }
+
+    this.expect('from');
+    const path = this.parseDottedName();
+    this.expect('import');
+    if (this.accept('*')) return;
+    const parenthesized = this.accept('(');
+    do {
+      if (parenthesized && this.peek()?.text === ')') break;
+      const name = this.expectName('a name').text;
+      const alias = this.accept('as') ? this.expectName('a name').text : name;
+      this.env.set(alias, this.moduleValue(`${path}.${name}`));
+    } while (this.accept(','));
+    if (parenthesized) this.expect(')');
+  }
+
+  private parseDottedName(): string {
+    let path = this.expectName('a module name').text;
+    while (this.accept('.')) path += `.${this.expectName('a module name').text}`;
+    return path;
+  }
+
+  // with qc.if_test((cr[0], 1)):
+  private parseWith(indent: number): void {
+    const keyword = this.expect('with');
+    const expr = this.parseExpression();
+    const value = this.evaluate(expr);
+    if (this.accept('as')) this.expectName('a name');
+    this.expect(':');
+    if (!this.atEnd()) throw this.error('Put the body of a with block on the following lines');
+    if (value.kind !== 'condition') throw this.error('Only "with qc.if_test(...)" blocks are supported', keyword);
+    this.blocks.push({ indent, condition: value.condition });
+  }
+
+  // a = ..., a, b = ..., circuit += ...; returns null for an expression statement
+  private parseTargets(): { names: Token[]; op: string } | null {
+    const start = this.pos;
+    const names: Token[] = [];
+    const parenthesized = this.accept('(') || this.accept('[');
+    while (this.peek()?.kind === 'name') {
+      names.push(this.expectName('a name'));
+      if (!this.accept(',')) break;
+    }
+    if (parenthesized && !(this.accept(')') || this.accept(']'))) names.length = 0;
+
+    const op = this.peek()?.text;
+    if (names.length > 0 && (op === '=' || (op === '+=' && names.length === 1))) {
+      this.pos++;
+      return { names, op };
+    }
+    this.pos = start;
+    return null;
+  }
+
+  private assign(names: Token[], value: Value, at: Token): void {
+    if (names.length === 1) {
+      this.env.set(names[0].text, value);
+      return;
+    }
+    if (value.kind !== 'list' || value.items.length !== names.length) {
+      throw this.error(`Cannot unpack into ${names.length} names`, at);
+    }
+    names.forEach((name, k) => this.env.set(name.text, value.items[k]));
+  }
+
+  private assignAdd(name: Token, expr: Expr): void {
+    const target = this.env.get(name.text);
+    if (target?.kind === 'circuit') {
+      this.appendToCircuit(this.evaluate(expr), expr.token);
+    } else if (target?.kind === 'number') {
+      this.env.set(name.text, { kind: 'number', value: target.value + this.number(this.evaluate(expr), expr.token) });
+    } else {
+      this.env.set(name.text, OPAQUE);
+    }
+  }
+
+  // Expressions, by increasing precedence: tuples, + -, * /, unary, **, calls
+
+  private parseExpressionList(): Expr {
+    const first = this.parseExpression();
+    if (this.peek()?.text !== ',') return first;
+    const items = [first];
+    while (this.accept(',') && !this.atClose()) items.push(this.parseExpression());
+    return { kind: 'list', items, token: first.token };
+  }
+
+  private parseExpression(): Expr {
+    let left = this.parseTerm();
+    while (this.peek()?.text === '+' || this.peek()?.text === '-') {
+      const token = this.tokens[this.pos++];
+      left = { kind: 'binary', op: token.text, left, right: this.parseTerm(), token };
+    }
+    return left;
+  }
+
+  private parseTerm(): Expr {
+    let left = this.parseUnary();
+    while (this.peek()?.text === '*' || this.peek()?.text === '/') {
+      const token = this.tokens[this.pos++];
+      left = { kind: 'binary', op: token.text, left, right: this.parseUnary(), token };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expr {
+    const token = this.peek();
+    if (token && (token.text === '-' || token.text === '+') && token.kind === 'op') {
+      this.pos++;
+      return { kind: 'unary', op: token.text, operand: this.parseUnary(), token };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): Expr {
+    const base = this.parsePostfix();
+    if (this.peek()?.text === '**') {
+      const token = this.tokens[this.pos++];
+      return { kind: 'binary', op: '**', left: base, right: this.parseUnary(), token };
+    }
+    return base;
+  }
+
+  private parsePostfix(): Expr {
+    let expr = this.parseAtom();
+    for (;;) {
+      const token = this.peek();
+      if (this.accept('.')) {
+        expr = { kind: 'attribute', object: expr, name: this.expectName('an attribute name').text, token: token! };
+      } else if (this.accept('[')) {
+        const index = this.parseExpressionList();
+        this.expect(']');
+        expr = { kind: 'subscript', object: expr, index, token: token! };
+      } else if (this.accept('(')) {
+        expr = this.parseCallArguments(expr, token!);
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  private parseCallArguments(func: Expr, token: Token): Expr {
+    const args: Expr[] = [];
+    const keywords = new Map<string, Expr>();
+    while (!this.accept(')')) {
+      const next = this.tokens[this.pos + 1];
+      if (this.peek()?.kind === 'name' && next?.text === '=') {
+        const name = this.expectName('an argument name').text;
+        this.pos++;
+        keywords.set(name, this.parseExpression());
+      } else if (keywords.size > 0) {
+        throw this.error('Positional argument follows a keyword argument');
+      } else {
+        args.push(this.parseArgument());
+      }
+      if (!this.accept(',')) {
+        this.expect(')');
+        break;
+      }
+    }
+    return { kind: 'call', func, args, keywords, token };
+  }
+
+  private parseArgument(): Expr {
+    const token = this.peek();
+    if (this.accept('*')) return { kind: 'starred', value: this.parseExpression(), token: token! };
+    return this.parseExpression();
+  }
+
+  private parseAtom(): Expr {
+    const token = this.peek();
+    if (!token || this.atEnd()) throw this.error(`Expected an expression but found ${this.describe(token)}`, token);
+
+    if (token.kind === 'number') {
+      this.pos++;
+      if (token.text.endsWith('j')) throw this.error('Complex numbers are not supported', token);
+      return { kind: 'number', value: Number(token.text.replace(/_/g, '')), token };
+    }
+    if (token.kind === 'string') {
+      let value = '';
+      while (this.peek()?.kind === 'string') value += stringValue(this.tokens[this.pos++]);
+      return { kind: 'string', value, token };
+    }
+    if (token.kind === 'name') {
+      this.pos++;
+      return { kind: 'name', name: token.text, token };
+    }
+    if (this.accept('(')) {
+      if (this.accept(')')) return { kind: 'list', items: [], token };
+      const expr = this.parseExpressionList();
+      this.expect(')');
+      return expr;
+    }
+    if (this.accept('[')) return this.parseListDisplay(token);
+    throw this.error(`Unexpected "${token.text}"`, token);
+  }
+
+  // [a, b, *c] or [item for name in iterable]
+  private parseListDisplay(token: Token): Expr {
+    const items: Expr[] = [];
+    while (!this.accept(']')) {
+      items.push(this.parseArgument());
+      if (items.length === 1 && this.accept('for')) {
+        const target = this.expectName('a loop variable').text;
+        this.expect('in');
+        const iterable = this.parseExpression();
+        this.expect(']');
+        return { kind: 'comprehension', item: items[0], target, iterable, token };
+      }
+      if (!this.accept(',')) {
+        this.expect(']');
+        break;
+      }
+    }
+    return { kind: 'list', items, token };
+  }
+
+  // Evaluation
+
+  private evaluate(expr: Expr): Value {
+    switch (expr.kind) {
+      case 'number':
+        return { kind: 'number', value: expr.value };
+      case 'string':
+        return { kind: 'string', value: expr.value };
+      case 'name':
+        return this.lookup(expr.name);
+      case 'attribute':
+        return this.getAttribute(this.evaluate(expr.object), expr.name);
+      case 'subscript':
+        return this.subscript(this.evaluate(expr.object), this.evaluate(expr.index), expr.token);
+      case 'list':
+        return { kind: 'list', items: this.evaluateItems(expr.items) };
+      case 'starred':
+        throw this.error('Unexpected "*"', expr.token);
+      case 'comprehension': {
+        const iterable = this.evaluate(expr.iterable);
+        if (iterable.kind !== 'list') throw this.error('Only lists and range() can be iterated', expr.iterable.token);
+        const saved = this.env.get(expr.target);
+        const items = iterable.items.map(item => {
+          this.env.set(expr.target, item);
+          return this.evaluate(expr.item);
+        });
+        if (saved) this.env.set(expr.target, saved);
+        else this.env.delete(expr.target);
+        return { kind: 'list', items };
+      }
+      case 'unary': {
+        const operand = this.evaluate(expr.operand);
+        if (operand.kind === 'opaque') return OPAQUE;
+        const value = this.number(operand, expr.operand.token);
+        return { kind: 'number', value: expr.op === '-' ? -value : value };
+      }
+      case 'binary':
+        return this.binary(expr);
+      case 'call':
+        return this.call(expr);
+    }
+  }
+
+  // Lists with *starred entries spliced in
+  private evaluateItems(items: Expr[]): Value[] {
+    return items.flatMap(item => {
+      if (item.kind !== 'starred') return [this.evaluate(item)];
+      const value = this.evaluate(item.value);
+      if (value.kind !== 'list') throw this.error('Only lists can be unpacked with "*"', item.token);
+      return value.items;
+    });
+  }
+
+  private lookup(name: string): Value {
+    const value = this.env.get(name);
+    if (value) return value;
+    if (name === 'True' || name === 'False') return { kind: 'number', value: name === 'True' ? 1 : 0 };
+    if (name === 'None') return OPAQUE;
+    if (Object.hasOwn(IMPLICIT_MODULES, name)) return this.moduleValue(IMPLICIT_MODULES[name]);
+    return { kind: 'symbol', name };
+  }
+
+  // A qualified name: numpy.pi is a number, cirq.H a gate, anything else a module path
+  private moduleValue(path: string): Value {
+    if (Object.hasOwn(CONSTANTS, path)) return { kind: 'number', value: CONSTANTS[path] };
+    const [root, name] = path.split('.');
+    if (root === 'cirq' && path.split('.').length === 2 && Object.hasOwn(CIRQ_GATES, name)) {
+      return { kind: 'gate', name: CIRQ_GATES[name], params: [] };
+    }
+    return { kind: 'module', path };
+  }
+
+  private getAttribute(object: Value, name: string): Value {
+    if (object.kind === 'module') return this.moduleValue(`${object.path}.${name}`);
+    return OPAQUE;
+  }
+
+  private subscript(object: Value, index: Value, at: Token): Value {
+    if (object.kind === 'opaque' || object.kind === 'symbol') return OPAQUE;
+    const k = this.integer(index, at);
+
+    if (object.kind === 'register') {
+      if (object.offset === undefined) throw this.error('Add the register to a QuantumCircuit before indexing it', at);
+      if (k < 0 || k >= object.size) throw this.error(`Index ${k} is out of range for a register of size ${object.size}`, at);
+      return object.quantum ? { kind: 'qubit', index: object.offset + k } : { kind: 'clbit', index: object.offset + k };
+    }
+    if (object.kind === 'list') {
+      const item = object.items[k < 0 ? object.items.length + k : k];
+      if (!item) throw this.error(`Index ${k} is out of range for a list of length ${object.items.length}`, at);
+      return item;
+    }
+    throw this.error('This value cannot be indexed', at);
+  }
+
+  private binary(expr: Extract<Expr, { kind: 'binary' }>): Value {
+    const left = this.evaluate(expr.left);
+    const right = this.evaluate(expr.right);
+    if (left.kind === 'gate' && expr.op === '**') return this.power(left, this.number(right, expr.right.token), expr.token);
+    if (left.kind === 'opaque' || right.kind === 'opaque') return OPAQUE;
+    if (left.kind === 'list' && right.kind === 'list' && expr.op === '+') return { kind: 'list', items: [...left.items, ...right.items] };
+
+    const a = this.number(left, expr.left.token);
+    const b = this.number(right, expr.right.token);
+    const value = expr.op === '+' ? a + b
+      : expr.op === '-' ? a - b
+      : expr.op === '*' ? a * b
+      : expr.op === '/' ? a / b
+      : a ** b;
+    if (!Number.isFinite(value)) throw this.error('Expression does not evaluate to a finite number', expr.token);
+    return { kind: 'number', value };
+  }
+
+  // cirq.X**0.5, cirq.T**-1
+  private power(gate: Extract<Value, { kind: 'gate' }>, exponent: number, at: Token): Value {
+    if (exponent === 1) return gate;
+    if (exponent === -1 && SELF_INVERSE.has(gate.name)) return gate;
+    if (exponent === -1 && CIRQ_ROTATIONS.includes(gate.name) && typeof gate.params[0] === 'number') {
+      return { kind: 'gate', name: gate.name, params: [-gate.params[0]] };
+    }
+    const name = CIRQ_POWERS[`${gate.name}^${exponent}`];
+    if (!name) throw this.error(`Raising "${gate.name}" to the power ${exponent} is not supported`, at);
+    return { kind: 'gate', name, params: [] };
+  }
+
+  private call(expr: Extract<Expr, { kind: 'call' }>): Value {
+    if (expr.func.kind === 'attribute') {
+      const object = this.evaluate(expr.func.object);
+      if (object.kind !== 'module') return this.callMethod(object, expr.func.name, expr);
+    }
+
+    const func = this.evaluate(expr.func);
+    if (func.kind === 'module') return this.callFunction(func.path, expr);
+    if (func.kind === 'gate') return this.applyCirqGate(func, this.evaluateItems(expr.args), expr.token);
+    // print(...), execute(...) and other calls the importer does not model
+    this.evaluateItems(expr.args);
+    return OPAQUE;
+  }
+
+  private callFunction(path: string, expr: Extract<Expr, { kind: 'call' }>): Value {
+    const args = this.evaluateItems(expr.args);
+    const keyword = (name: string) => {
+      const value = expr.keywords.get(name);
+      return value ? this.evaluate(value) : undefined;
+    };
+    const segments = path.split('.');
+    const name = segments[segments.length - 1];
+
+    if ((segments[0] === 'numpy' || segments[0] === 'math' || path === 'builtins.abs') && Object.hasOwn(FUNCTIONS, name)) {
+      const value = FUNCTIONS[name](this.number(args[0], expr.token));
+      if (!Number.isFinite(value)) throw this.error('Expression does not evaluate to a finite number', expr.token);
+      return { kind: 'number', value };
+    }
+
+    switch (path) {
+      case 'builtins.range': {
+        const bounds = args.map(arg => this.integer(arg, expr.token));
+        const [start, stop, step = 1] = bounds.length === 1 ? [0, bounds[0]] : bounds;
+        if (step === 0 || Math.abs((stop - start) / step) > 10000) throw this.error('Unsupported range', expr.token);
+        const items: Value[] = [];
+        for (let k = start; step > 0 ? k < stop : k > stop; k += step) items.push({ kind: 'number', value: k });
+        return { kind: 'list', items };
+      }
+      case 'builtins.list':
+        return args[0]?.kind === 'list' ? args[0] : OPAQUE;
+      case 'builtins.len':
+        return args[0]?.kind === 'list' ? { kind: 'number', value: args[0].items.length } : OPAQUE;
+      case 'sympy.Symbol':
+        return { kind: 'symbol', name: this.text(args[0], expr.token) };
+      case 'sympy.Eq':
+        return this.sympyCondition(args, expr.token);
+    }
+
+    if (segments[0] === 'qiskit') {
+      switch (name) {
+        case 'QuantumCircuit': return this.createQiskitCircuit(args, expr.token);
+        case 'QuantumRegister': return { kind: 'register', quantum: true, size: this.size(args[0], expr.token) };
+        case 'ClassicalRegister': return { kind: 'register', quantum: false, size: this.size(args[0], expr.token) };
+        case 'Parameter': {
+          const symbol = this.text(args[0], expr.token);
+          if (!isValidSymbol(symbol)) throw this.error(`Parameter name "${symbol}" must be a plain identifier such as theta_0`, expr.token);
+          return { kind: 'symbol', name: symbol };
+        }
+      }
+      return OPAQUE;
+    }
+
+    if (segments[0] === 'cirq') return this.callCirq(segments.slice(1).join('.'), args, keyword, expr.token);
+    return OPAQUE;
+  }
+
+  private callCirq(name: string, args: Value[], keyword: (name: string) => Value | undefined, at: Token): Value {
+    switch (name) {
+      case 'LineQubit':
+        return this.lineQubit(this.integer(args[0], at), at);
+      case 'LineQubit.range': {
+        const bounds = args.map(arg => this.integer(arg, at));
+        const [start, stop] = bounds.length === 1 ? [0, bounds[0]] : bounds;
+        return { kind: 'list', items: Array.from({ length: Math.max(0, stop - start) }, (_, k) => this.lineQubit(start + k, at)) };
+      }
+      case 'NamedQubit':
+      case 'GridQubit':
+        throw this.error(`cirq.${name} is not supported; use cirq.LineQubit`, at);
+      case 'Circuit': {
+        const circuit = this.createCircuit('cirq', at);
+        for (const arg of args) this.appendToCircuit(arg, at);
+        return circuit;
+      }
+      case 'Moment':
+        return { kind: 'operations', gates: args.flatMap(arg => this.operations(arg, at)) };
+      case 'measure':
+      case 'measure_each': {
+        const qubits = args.flatMap(arg => this.cirqQubits(arg, at));
+        const key = keyword('key');
+        const keyName = key ? this.text(key, at) : qubits.map(q => `q(${q})`).join(',');
+        const numbered = keyName.match(/^c(\d+)$/);
+        const clbits = numbered && qubits.length === 1 ? [parseInt(numbered[1], 10)] : qubits;
+        this.measureKeys.set(keyName, clbits);
+        return { kind: 'operations', gates: qubits.map((qubit, k) => ({ gate: 'MEASURE', qubits: [qubit], clbits: [clbits[k]] })) };
+      }
+      case 'reset':
+        return { kind: 'operations', gates: args.flatMap(arg => this.cirqQubits(arg, at)).map(qubit => ({ gate: 'RESET', qubits: [qubit] })) };
+    }
+
+    if (CIRQ_ROTATIONS.includes(name)) {
+      const rads = keyword('rads');
+      return { kind: 'gate', name, params: [this.param(args[0] ?? rads, at)] };
+    }
+    // Simulators and other helpers
+    return OPAQUE;
+  }
+
+  private callMethod(object: Value, name: string, expr: Extract<Expr, { kind: 'call' }>): Value {
+    const args = this.evaluateItems(expr.args);
+    const at = expr.token;
+
+    if (object.kind === 'circuit') {
+      return this.framework === 'cirq' ? this.cirqCircuitMethod(name, args, at) : this.qiskitCircuitMethod(name, args, at);
+    }
+
+    if (object.kind === 'gate') {
+      if (name === 'on') return this.applyCirqGate(object, args, at);
+      if (name === 'on_each') {
+        const qubits = args.flatMap(arg => this.cirqQubits(arg, at));
+        return { kind: 'operations', gates: qubits.flatMap(qubit => this.cirqGateOperations(object, [qubit], at)) };
+      }
+      throw this.error(`Gate method "${name}" is not supported`, at);
+    }
+
+    if (object.kind === 'operations') {
+      if (name === 'c_if') {
+        this.addCondition(object.gates, this.qiskitCondition(args[0], args[1], at), at);
+        return object;
+      }
+      if (name === 'with_classical_controls') {
+        const condition = args.map(arg => this.cirqControl(arg, at)).reduce((a, b) => this.mergeConditions(a, b, at));
+        const gates = object.gates.map(gate => ({ ...gate }));
+        this.addCondition(gates, condition, at);
+        return { kind: 'operations', gates };
+      }
+      throw this.error(`Operation method "${name}" is not supported`, at);
+    }
+
+    return OPAQUE;
+  }
+
+  // Qiskit
+
+  private createQiskitCircuit(args: Value[], at: Token): Value {
+    const circuit = this.createCircuit('qiskit', at);
+    if (args.length > 0 && args.every(arg => arg.kind === 'register')) {
+      for (const register of args) this.addRegister(register as Extract<Value, { kind: 'register' }>, at);
+    } else {
+      this.numQubits = this.size(args[0], at);
+      this.numClbits = args[1] ? this.integer(args[1], at) : 0;
+    }
+    this.checkQubitLimit(at);
+    return circuit;
+  }
+
+  private addRegister(register: Extract<Value, { kind: 'register' }>, at: Token): void {
+    if (register.offset !== undefined) throw this.error('The register is already part of the circuit', at);
+    register.offset = register.quantum ? this.numQubits : this.numClbits;
+    if (register.quantum) this.numQubits += register.size;
+    else this.numClbits += register.size;
+    this.checkQubitLimit(at);
+  }
+
+  private qiskitCircuitMethod(name: string, args: Value[], at: Token): Value {
+    switch (name) {
+      case 'measure': {
+        const qubits = this.qiskitBits(args[0], true, at);
+        const clbits = this.qiskitBits(args[1], false, at);
+        if (qubits.length !== clbits.length) throw this.error(`Cannot measure ${qubits.length} qubit(s) into ${clbits.length} bit(s)`, at);
+        return this.emit(qubits.map((qubit, k) => ({ gate: 'MEASURE', qubits: [qubit], clbits: [clbits[k]] })), at);
+      }
+      case 'measure_all': {
+        // The simulator keeps one classical bit per qubit, so these take the place of Qiskit's new "meas" register
+        this.numClbits = Math.max(this.numClbits, this.numQubits);
+        return this.emit(Array.from({ length: this.numQubits }, (_, k) => ({ gate: 'MEASURE', qubits: [k], clbits: [k] })), at);
+      }
+      case 'reset':
+        return this.emit(this.qiskitBits(args[0], true, at).map(qubit => ({ gate: 'RESET', qubits: [qubit] })), at);
+      case 'if_test': {
+        const test = args[0];
+        if (test?.kind !== 'list' || test.items.length !== 2) throw this.error('if_test expects a (bit, value) pair', at);
+        return { kind: 'condition', condition: this.qiskitCondition(test.items[0], test.items[1], at) };
+      }
+      case 'add_register':
+        for (const arg of args) {
+          if (arg.kind !== 'register') throw this.error('add_register expects a register', at);
+          this.addRegister(arg, at);
+        }
+        return OPAQUE;
+    }
+    if (HARMLESS_METHODS.has(name)) return OPAQUE;
+
+    const gateName = Object.hasOwn(QISKIT_ALIASES, name) ? QISKIT_ALIASES[name] : name;
+    const arity = getStandardGate(gateName);
+    if (!arity) throw this.error(`Unsupported QuantumCircuit method "${name}"`, at);
+    if (args.length !== arity.params + arity.qubits) {
+      throw this.error(`"${name}" takes ${arity.params} parameter(s) and ${arity.qubits} qubit(s), got ${args.length} argument(s)`, at);
+    }
+
+    const params = args.slice(0, arity.params).map(arg => this.param(arg, at));
+    const operands = args.slice(arity.params).map(arg => this.qiskitBits(arg, true, at));
+    const sizes = new Set(operands.filter(op => op.length > 1).map(op => op.length));
+    if (sizes.size > 1) throw this.error(`Qubit lists passed to "${name}" have different lengths`, at);
+    const count = sizes.size === 0 ? 1 : [...sizes][0];
+
+    const gates: ParametricGate[] = [];
+    for (let k = 0; k < count; k++) {
+      const qubits = operands.map(op => (op.length === 1 ? op[0] : op[k]));
+      if (new Set(qubits).size !== qubits.length) throw this.error(`"${name}" is applied to the same qubit twice`, at);
+      gates.push(...this.expand(gateName, params, qubits, at));
+    }
+    return this.emit(gates, at);
+  }
+
+  // Integers, qr[k], whole registers and lists of these
+  private qiskitBits(value: Value | undefined, quantum: boolean, at: Token): number[] {
+    const what = quantum ? 'qubit' : 'classical bit';
+    const limit = quantum ? this.numQubits : this.numClbits;
+    if (!value) throw this.error(`Missing ${what} argument`, at);
+
+    let indices: number[];
+    if (value.kind === 'number') indices = [this.integer(value, at)];
+    else if (value.kind === (quantum ? 'qubit' : 'clbit')) indices = [(value as { index: number }).index];
+    else if (value.kind === 'register' && value.quantum === quantum && value.offset !== undefined) {
+      indices = Array.from({ length: value.size }, (_, k) => value.offset! + k);
+    } else if (value.kind === 'list') indices = value.items.flatMap(item => this.qiskitBits(item, quantum, at));
+    else throw this.error(`Expected a ${what}`, at);
+
+    for (const index of indices) {
+      if (index < 0 || index >= limit) throw this.error(`${quantum ? 'Qubit' : 'Classical bit'} ${index} is out of range for a circuit with ${limit}`, at);
+    }
+    return indices;
+  }
+
+  // c_if(cr[0], 1), c_if(cr, 5), if_test((cr[1], 0))
+  private qiskitCondition(target: Value | undefined, value: Value | undefined, at: Token): GateCondition {
+    const clbits = this.qiskitBits(target, false, at);
+    const expected = this.integer(value, at);
+    if (expected < 0 || expected >= 2 ** clbits.length) throw this.error(`${expected} does not fit in ${clbits.length} bit(s)`, at);
+    return { clbits, value: expected };
+  }
+
+  // Cirq
+
+  private lineQubit(index: number, at: Token): Value {
+    if (index < 0) throw this.error('Qubit indices must not be negative', at);
+    this.numQubits = Math.max(this.numQubits, index + 1);
+    this.checkQubitLimit(at);
+    return { kind: 'qubit', index };
+  }
+
+  private cirqCircuitMethod(name: string, args: Value[], at: Token): Value {
+    if (name === 'append') {
+      for (const arg of args) this.appendToCircuit(arg, at);
+      return OPAQUE;
+    }
+    if (HARMLESS_METHODS.has(name)) return OPAQUE;
+    throw this.error(`Unsupported cirq.Circuit method "${name}"`, at);
+  }
+
+  private appendToCircuit(value: Value, at: Token): void {
+    if (this.framework !== 'cirq') throw this.error('Only a cirq.Circuit can be extended with +=', at);
+    this.gates.push(...this.operations(value, at).map(gate => ({ ...gate })));
+  }
+
+  // Operations, possibly nested in lists and moments
+  private operations(value: Value, at: Token): ParametricGate[] {
+    if (value.kind === 'operations') return value.gates;
+    if (value.kind === 'list') return value.items.flatMap(item => this.operations(item, at));
+    throw this.error('Expected a Cirq operation such as cirq.H(q[0])', at);
+  }
+
+  private cirqQubits(value: Value, at: Token): number[] {
+    if (value.kind === 'qubit') return [value.index];
+    if (value.kind === 'list') return value.items.flatMap(item => this.cirqQubits(item, at));
+    throw this.error('Expected a cirq.LineQubit', at);
+  }
+
+  private applyCirqGate(gate: Extract<Value, { kind: 'gate' }>, args: Value[], at: Token): Value {
+    const qubits = args.map(arg => {
+      if (arg.kind !== 'qubit') throw this.error('Expected a cirq.LineQubit', at);
+      return arg.index;
+    });
+    return { kind: 'operations', gates: this.cirqGateOperations(gate, qubits, at) };
+  }
+
+  private cirqGateOperations(gate: Extract<Value, { kind: 'gate' }>, qubits: number[], at: Token): ParametricGate[] {
+    const arity = getStandardGate(gate.name)!;
+    if (qubits.length !== arity.qubits) throw this.error(`Gate "${gate.name}" acts on ${arity.qubits} qubit(s), got ${qubits.length}`, at);
+    if (new Set(qubits).size !== qubits.length) throw this.error(`Gate "${gate.name}" is applied to the same qubit twice`, at);
+    return this.expand(gate.name, gate.params, qubits, at);
+  }
+
+  // 'c0' or sympy.Eq(sympy.Symbol('c0'), 0)
+  private cirqControl(value: Value, at: Token): GateCondition {
+    if (value.kind === 'condition') return value.condition;
+    const key = value.kind === 'string' ? value.value : value.kind === 'symbol' ? value.name : null;
+    if (key === null) throw this.error('Expected a measurement key', at);
+    return { clbits: [this.keyClbit(key, at)], value: 1 };
+  }
+
+  private sympyCondition(args: Value[], at: Token): Value {
+    const [symbol, value] = args;
+    if (symbol?.kind !== 'symbol') throw this.error('sympy.Eq expects a measurement key symbol', at);
+    const bit = this.integer(value, at);
+    if (bit !== 0 && bit !== 1) throw this.error('A measurement key can only be compared with 0 or 1', at);
+    return { kind: 'condition', condition: { clbits: [this.keyClbit(symbol.name, at)], value: bit } };
+  }
+
+  private keyClbit(key: string, at: Token): number {
+    const clbits = this.measureKeys.get(key) ?? (/^c\d+$/.test(key) ? [parseInt(key.slice(1), 10)] : undefined);
+    if (!clbits) throw this.error(`Unknown measurement key "${key}"`, at);
+    if (clbits.length !== 1) throw this.error(`Conditions on key "${key}", which measures several qubits, are not supported`, at);
+    return clbits[0];
+  }
+
+  // Shared helpers
+
+  private createCircuit(framework: PythonFramework, at: Token): Value {
+    if (this.framework) throw this.error('Only one circuit per snippet is supported', at);
+    this.framework = framework;
+    return { kind: 'circuit' };
+  }
+
+  private checkQubitLimit(at: Token): void {
+    if (this.numQubits > LIMITS.MAX_QUBITS) {
+      throw this.error(`The circuit needs ${this.numQubits} qubits, more than the maximum of ${LIMITS.MAX_QUBITS}`, at);
+    }
+  }
+
+  private expand(name: string, params: ParamValue[], qubits: number[], at: Token): ParametricGate[] {
+    try {
+      return expandStandardGate(name, params, qubits);
+    } catch (e) {
+      if (e instanceof QuantumValidationError) throw this.error(e.message, at);
+      throw e;
+    }
+  }
+
+  // Qiskit gates are part of the circuit as soon as they are called; with blocks condition them
+  private emit(gates: ParametricGate[], at: Token): Value {
+    const block = this.blocks.map(b => b.condition);
+    if (block.length > 0) this.addCondition(gates, block.reduce((a, b) => this.mergeConditions(a, b, at)), at);
+    this.gates.push(...gates);
+    return { kind: 'operations', gates };
+  }
+
+  private addCondition(gates: ParametricGate[], condition: GateCondition, at: Token): void {
+    for (const gate of gates) gate.condition = gate.condition ? this.mergeConditions(gate.condition, condition, at) : condition;
+  }
+
+  private mergeConditions(a: GateCondition, b: GateCondition, at: Token): GateCondition {
+    const bits = new Map<number, number>();
+    for (const { clbits, value } of [a, b]) {
+      clbits.forEach((clbit, k) => {
+        const bit = (value >> k) & 1;
+        if (bits.has(clbit) && bits.get(clbit) !== bit) throw this.error('The condition can never hold', at);
+        bits.set(clbit, bit);
+      });
+    }
+    const clbits = [...bits.keys()];
+    return { clbits, value: clbits.reduce((sum, clbit, k) => sum + (bits.get(clbit)! << k), 0) };
+  }
+
+  private number(value: Value | undefined, at: Token): number {
+    if (value?.kind === 'number') return value.value;
+    if (value?.kind === 'symbol') {
+      throw this.error(`Symbolic parameter "${value.name}" can only be passed to a gate as is, not used in arithmetic`, at);
+    }
+    throw this.error('Expected a number', at);
+  }
+
+  private integer(value: Value | undefined, at: Token): number {
+    const number = this.number(value, at);
+    if (!Number.isInteger(number)) throw this.error(`Expected an integer, got ${number}`, at);
+    return number;
+  }
+
+  private size(value: Value | undefined, at: Token): number {
+    const size = this.integer(value, at);
+    if (size < 1) throw this.error('A circuit or register needs at least one bit', at);
+    return size;
+  }
+
+  private text(value: Value | undefined, at: Token): string {
+    if (value?.kind !== 'string') throw this.error('Expected a string', at);
+    return value.value;
+  }
+
+  // Gate parameters: numbers, or names left unbound as symbolic parameters
+  private param(value: Value | undefined, at: Token): ParamValue {
+    if (value?.kind === 'symbol') {
+      if (!isValidSymbol(value.name)) throw this.error(`"${value.name}" cannot be used as a parameter name`, at);
+      return value.name;
+    }
+    return this.number(value, at);
+  }
+}
+
+/** Which framework a Python snippet uses, or null if it is neither Qiskit nor Cirq */
+export function detectPythonFramework(source: string): PythonFramework | null {
+  if (/^\s*(?:import|from)\s+cirq\b|\bcirq\.\w/m.test(source)) return 'cirq';
+  if (/^\s*(?:import|from)\s+qiskit\b|\bQuantumCircuit\s*\(/m.test(source)) return 'qiskit';
+  return null;
+}
+
+/**
+ * Parses a Qiskit or Cirq snippet into circuit operations. Gates outside the
+ * library are decomposed as in qelib1.inc; unassigned names used as gate
+ * angles become symbolic parameters. Throws a PythonParseError pointing at
+ * the offending line and column.
+ */
+export function parsePythonCircuit(source: string): PythonCircuit {
+  const parser = new PythonParser(source);
+  parser.parseProgram();
+
+  // Cirq has no classical register; measurement keys map to one bit per qubit unless named c<n>
+  const clbits = parser.gates.flatMap(gate => gate.clbits ?? []);
+  return {
+    framework: parser.framework!,
+    numQubits: parser.numQubits,
+    numClbits: parser.framework === 'cirq' ? Math.max(parser.numQubits, ...clbits.map(c => c + 1)) : parser.numClbits,
+    gates: parser.gates,
+  };
+}
@@ -0,0 +1,790 @@
+/**
+ * OpenQASM Importer
+ * Reads OpenQASM 2.0 and 3.0 programs into circuit operations. Registers are
+ * flattened into one qubit and one classical bit index space in declaration
+ * order, and user-defined gates are inlined down to library gates.
+ */
+import { QuantumValidationError, ErrorCodes, LIMITS } from './validators';
+import { isValidSymbol, type ParametricGate, type ParamValue } from './parameters';
+import type { GateCondition } from './simulator';
+
+export class QasmParseError extends QuantumValidationError {
+  constructor(message: string, public readonly line: number, public readonly column: number) {
+    super(`Line ${line}, column ${column}: ${message}`, ErrorCodes.INVALID_QASM, { line, column });
+    this.name = 'QasmParseError';
+  }
+}
+
+export interface QasmCircuit {
+  version: 2 | 3;
+  numQubits: number;
+  numClbits: number;
+  gates: ParametricGate[];
+}
+
+// Tokens
+
+interface Token {
+  kind: 'identifier' | 'number' | 'string' | 'symbol' | 'eof';
+  text: string;
+  line: number;
+  column: number;
+}
+
+const TOKEN_PATTERNS: [Token['kind'] | null, RegExp][] = [
+  [null, /\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\//y],
+  ['number', /(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y],
+  ['identifier', /[A-Za-z_πτℇ][A-Za-z0-9_]*/y],
+  ['string', /"[^"\n]*"/y],
+  ['symbol', /->|==|&&|\*\*|[{}()[\];,=+\-*/^@]/y],
+];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let lineStart = 0;
+  let index = 0;
+
+  outer: while (index < source.length) {
+    if (source.startsWith('/*', index) && !source.includes('*/', index + 2)) {
+      throw new QasmParseError('Unterminated comment', line, index - lineStart + 1);
+    }
+    for (const [kind, pattern] of TOKEN_PATTERNS) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(source);
+      if (!match) continue;
+
+      if (kind) tokens.push({ kind, text: match[0], line, column: index - lineStart + 1 });
+      for (let k = index; k < index + match[0].length; k++) {
+        if (source[k] === '\n') {
+          line++;
+          lineStart = k + 1;
+        }
+      }
+      index += match[0].length;
+      continue outer;
+    }
+
+    const column = index - lineStart + 1;
+    if (source[index] === '"') throw new QasmParseError('Unterminated string', line, column);
+    throw new QasmParseError(`Unexpected character "${source[index]}"`, line, column);
+  }
+
+  tokens.push({ kind: 'eof', text: 'end of input', line, column: index - lineStart + 1 });
+  return tokens;
+}
+
+// Syntax tree for parameter expressions and gate bodies
+
+type Expr =
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; token: Token }
+  | { kind: 'unary'; op: string; operand: Expr; token: Token }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr; token: Token }
+  | { kind: 'call'; fn: Token; arg: Expr };
+
+interface GateCall {
+  name: Token;
+  params: Expr[];
+  args: Token[]; // Qubit argument names of the enclosing definition
+}
+
+interface GateDefinition {
+  params: string[];
+  qubits: string[];
+  body: GateCall[] | null; // null for opaque gates
+}
+
+interface Register {
+  offset: number;
+  size: number;
+}
+
+// Standard gates that map straight onto the gate library
+const LIBRARY_GATES: Record<string, { gate: string; params: number; qubits: number }> = {
+  id: { gate: 'I', params: 0, qubits: 1 },
+  x: { gate: 'X', params: 0, qubits: 1 },
+  y: { gate: 'Y', params: 0, qubits: 1 },
+  z: { gate: 'Z', params: 0, qubits: 1 },
+  h: { gate: 'H', params: 0, qubits: 1 },
+  s: { gate: 'S', params: 0, qubits: 1 },
+  sdg: { gate: 'SDag', params: 0, qubits: 1 },
+  t: { gate: 'T', params: 0, qubits: 1 },
+  tdg: { gate: 'TDag', params: 0, qubits: 1 },
+  sx: { gate: 'SX', params: 0, qubits: 1 },
+  sxdg: { gate: 'SXDag', params: 0, qubits: 1 },
+  rx: { gate: 'Rx', params: 1, qubits: 1 },
+  ry: { gate: 'Ry', params: 1, qubits: 1 },
+  rz: { gate: 'Rz', params: 1, qubits: 1 },
+  p: { gate: 'Phase', params: 1, qubits: 1 },
+  phase: { gate: 'Phase', params: 1, qubits: 1 },
+  u1: { gate: 'Phase', params: 1, qubits: 1 },
+  U: { gate: 'U3', params: 3, qubits: 1 },
+  u: { gate: 'U3', params: 3, qubits: 1 },
+  u3: { gate: 'U3', params: 3, qubits: 1 },
+  CX: { gate: 'CNOT', params: 0, qubits: 2 },
+  cx: { gate: 'CNOT', params: 0, qubits: 2 },
+  cnot: { gate: 'CNOT', params: 0, qubits: 2 },
+  cz: { gate: 'CZ', params: 0, qubits: 2 },
+  ch: { gate: 'CH', params: 0, qubits: 2 },
+  swap: { gate: 'SWAP', params: 0, qubits: 2 },
+  iswap: { gate: 'iSWAP', params: 0, qubits: 2 },
+  cp: { gate: 'CPhase', params: 1, qubits: 2 },
+  cphase: { gate: 'CPhase', params: 1, qubits: 2 },
+  cu1: { gate: 'CPhase', params: 1, qubits: 2 },
+  rxx: { gate: 'RXX', params: 1, qubits: 2 },
+  ryy: { gate: 'RYY', params: 1, qubits: 2 },
+  rzz: { gate: 'RZZ', params: 1, qubits: 2 },
+  ccx: { gate: 'Toffoli', params: 0, qubits: 3 },
+  cswap: { gate: 'Fredkin', params: 0, qubits: 3 },
+  ccz: { gate: 'CCZ', params: 0, qubits: 3 },
+  rccx: { gate: 'RCCX', params: 0, qubits: 3 },
+};
+
+// qelib1.inc / stdgates.inc gates without a library equivalent, decomposed
+const STANDARD_DEFINITIONS = `
+gate u2(phi, lambda) a { u3(pi/2, phi, lambda) a; }
+gate u0(gamma) a { id a; }
+gate cy a, b { sdg b; cx a, b; s b; }
+gate crz(theta) a, b { rz(theta/2) b; cx a, b; rz(-theta/2) b; cx a, b; }
+gate cry(theta) a, b { ry(theta/2) b; cx a, b; ry(-theta/2) b; cx a, b; }
+gate crx(theta) a, b { h b; crz(theta) a, b; h b; }
+gate csx a, b { h b; cp(pi/2) a, b; h b; }
+gate cu3(theta, phi, lambda) c, t {
+  u1((lambda + phi)/2) c; u1((lambda - phi)/2) t; cx c, t;
+  u3(-theta/2, 0, -(phi + lambda)/2) t; cx c, t; u3(theta/2, phi, 0) t;
+}
+`;
+
+const INCLUDES = ['qelib1.inc', 'stdgates.inc'];
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, π: Math.PI, tau: 2 * Math.PI, τ: 2 * Math.PI, euler: Math.E, ℇ: Math.E };
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  exp: Math.exp,
+  ln: Math.log,
+  sqrt: Math.sqrt,
+  arcsin: Math.asin,
+  arccos: Math.acos,
+  arctan: Math.atan,
+};
+
+// OpenQASM 3 statements beyond straight-line circuits
+const UNSUPPORTED = new Set([
+  'for', 'while', 'def', 'let', 'const', 'box', 'delay', 'extern', 'cal', 'defcal', 'switch', 'return',
+  'break', 'continue', 'ctrl', 'negctrl', 'inv', 'pow', 'gphase', 'int', 'uint', 'float', 'bool', 'angle',
+  'duration', 'stretch', 'array', 'complex', 'output',
+]);
+
+class QasmParser {
+  private tokens: Token[];
+  private pos = 0;
+  version: 2 | 3 = 3;
+  private qregs = new Map<string, Register>();
+  private cregs = new Map<string, Register>();
+  numQubits = 0;
+  numClbits = 0;
+  definitions: Map<string, GateDefinition>;
+  gates: ParametricGate[] = [];
+
+  constructor(source: string, definitions: Map<string, GateDefinition> = new Map()) {
+    this.tokens = tokenize(source);
+    this.definitions = new Map(definitions);
+  }
+
+  parseProgram(requireQubits = true): void {
+    if (this.peek().text === 'OPENQASM') this.parseVersion();
+    while (this.peek().kind !== 'eof') this.parseStatement();
+    if (requireQubits && this.numQubits === 0) throw this.error('The program declares no qubits');
+  }
+
+  // Token helpers
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.kind !== 'eof') this.pos++;
+    return token;
+  }
+
+  private accept(text: string): boolean {
+    if (this.peek().text !== text || this.peek().kind === 'string') return false;
+    this.pos++;
+    return true;
+  }
+
+  private expect(text: string): Token {
+    const token = this.peek();
+    if (token.text !== text || token.kind === 'string') throw this.error(`Expected "${text}" but found ${describe(token)}`, token);
+    return this.next();
+  }
+
+  private expectIdentifier(what: string): Token {
+    const token = this.peek();
+    if (token.kind !== 'identifier') throw this.error(`Expected ${what} but found ${describe(token)}`, token);
+    return this.next();
+  }
+
+  private expectInteger(): number {
+    const token = this.peek();
+    if (token.kind !== 'number' || !/^\d+$/.test(token.text)) throw this.error(`Expected an integer but found ${describe(token)}`, token);
+    this.next();
+    return parseInt(token.text, 10);
+  }
+
+  private error(message: string, token: Token = this.peek()): QasmParseError {
+    return new QasmParseError(message, token.line, token.column);
+  }
+
+  // Statements
+
+  private parseVersion(): void {
+    this.next();
+    const token = this.peek();
+    if (token.kind !== 'number') throw this.error(`Expected a version number but found ${describe(token)}`, token);
+    this.next();
+    if (/^2(\.0)?$/.test(token.text)) this.version = 2;
+    else if (/^3(\.\d+)?$/.test(token.text)) this.version = 3;
+    else throw this.error(`Unsupported OpenQASM version ${token.text}`, token);
+    this.expect(';');
+  }
+
+  private parseStatement(condition?: GateCondition): void {
+    const token = this.peek();
+    if (token.kind !== 'identifier') throw this.error(`Expected a statement but found ${describe(token)}`, token);
+
+    const declaration = ['OPENQASM', 'include', 'qreg', 'creg', 'qubit', 'bit', 'input', 'gate', 'opaque'].includes(token.text);
+    if (declaration && condition) throw this.error(`"${token.text}" cannot appear inside an if statement`, token);
+
+    switch (token.text) {
+      case 'OPENQASM': throw this.error('OPENQASM must be the first statement', token);
+      case 'include': return this.parseInclude();
+      case 'qreg': return this.parseOldRegister(this.qregs, 'qubit');
+      case 'creg': return this.parseOldRegister(this.cregs, 'bit');
+      case 'qubit': return this.parseRegister(this.qregs, 'qubit');
+      case 'bit': return this.parseRegister(this.cregs, 'bit');
+      case 'input': return this.parseInput();
+      case 'gate': return this.parseGateDefinition();
+      case 'opaque': return this.parseOpaque();
+      case 'measure': return this.parseMeasure(condition);
+      case 'reset': return this.parseReset(condition);
+      case 'barrier': return this.parseBarrier();
+      case 'if': return this.parseIf(condition);
+    }
+
+    if (this.cregs.has(token.text)) return this.parseMeasureAssignment(condition);
+    if (UNSUPPORTED.has(token.text)) throw this.error(`"${token.text}" is not supported; only gates, measure, reset, barrier and if are`, token);
+    this.parseGateStatement(condition);
+  }
+
+  private parseInclude(): void {
+    this.next();
+    const file = this.peek();
+    if (file.kind !== 'string') throw this.error(`Expected a file name but found ${describe(file)}`, file);
+    this.next();
+    const name = file.text.slice(1, -1);
+    if (!INCLUDES.includes(name)) throw this.error(`Cannot include "${name}"; only ${INCLUDES.join(' and ')} are built in`, file);
+    this.expect(';');
+  }
+
+  // qreg q[2]; creg c[2];
+  private parseOldRegister(registers: Map<string, Register>, kind: 'qubit' | 'bit'): void {
+    this.next();
+    const name = this.expectIdentifier('a register name');
+    this.expect('[');
+    const size = this.expectInteger();
+    this.expect(']');
+    this.expect(';');
+    this.declareRegister(registers, kind, name, size);
+  }
+
+  // qubit[2] q; bit c;
+  private parseRegister(registers: Map<string, Register>, kind: 'qubit' | 'bit'): void {
+    this.next();
+    let size = 1;
+    if (this.accept('[')) {
+      size = this.expectInteger();
+      this.expect(']');
+    }
+    const name = this.expectIdentifier('a register name');
+    if (this.peek().text === '=') throw this.error('Initializing a register is not supported');
+    this.expect(';');
+    this.declareRegister(registers, kind, name, size);
+  }
+
+  private declareRegister(registers: Map<string, Register>, kind: 'qubit' | 'bit', name: Token, size: number): void {
+    if (this.qregs.has(name.text) || this.cregs.has(name.text)) throw this.error(`Register "${name.text}" is already declared`, name);
+    if (size < 1) throw this.error(`Register "${name.text}" must have at least one ${kind}`, name);
+
+    if (kind === 'qubit') {
+      if (this.numQubits + size > LIMITS.MAX_QUBITS) {
+        throw this.error(`The program needs ${this.numQubits + size} qubits, more than the maximum of ${LIMITS.MAX_QUBITS}`, name);
+      }
+      registers.set(name.text, { offset: this.numQubits, size });
+      this.numQubits += size;
+    } else {
+      registers.set(name.text, { offset: this.numClbits, size });
+      this.numClbits += size;
+    }
+  }
+
+  // input float[64] theta; leaves theta as a symbolic parameter
+  private parseInput(): void {
+    this.next();
+    this.expectIdentifier('a type');
+    if (this.accept('[')) {
+      this.expectInteger();
+      this.expect(']');
+    }
+    const name = this.expectIdentifier('a parameter name');
+    if (!isValidSymbol(name.text) || Object.hasOwn(CONSTANTS, name.text)) throw this.error(`"${name.text}" cannot be used as a parameter name`, name);
+    this.expect(';');
+  }
+
+  private parseGateDefinition(): void {
+    this.next();
+    const name = this.expectIdentifier('a gate name');
+    const params = this.accept('(') ? this.parseNameList(')') : [];
+    const qubits = this.parseNameList('{');
+    if (qubits.length === 0) throw this.error(`Gate "${name.text}" must act on at least one qubit`, name);
+
+    const body: GateCall[] = [];
+    while (!this.accept('}')) {
+      const token = this.peek();
+      if (token.kind === 'eof') throw this.error(`Gate "${name.text}" is missing its closing "}"`, token);
+      if (this.accept('barrier')) {
+        this.parseNameList(';');
+        continue;
+      }
+      const call = this.parseGateCall(() => this.expectIdentifier('a qubit argument'));
+      call.args.forEach((arg, k) => {
+        if (!qubits.includes(arg.text)) throw this.error(`Unknown qubit "${arg.text}" in gate "${name.text}"`, arg);
+        if (call.args.findIndex(other => other.text === arg.text) !== k) {
+          throw this.error(`Gate "${call.name.text}" is applied to "${arg.text}" twice`, arg);
+        }
+      });
+      this.checkGateExists(call.name, call.params.length, call.args.length);
+      this.checkParamNames(call.params, params, name.text);
+      body.push(call);
+    }
+
+    this.define(name, { params, qubits, body });
+  }
+
+  private parseOpaque(): void {
+    this.next();
+    const name = this.expectIdentifier('a gate name');
+    const params = this.accept('(') ? this.parseNameList(')') : [];
+    const qubits = this.parseNameList(';');
+    this.define(name, { params, qubits, body: null });
+  }
+
+  private define(name: Token, definition: GateDefinition): void {
+    // Redefining a standard gate (e.g. a pasted copy of qelib1.inc) keeps the library version
+    if (Object.hasOwn(LIBRARY_GATES, name.text)) return;
+    this.definitions.set(name.text, definition);
+  }
+
+  // Comma-separated identifiers up to and including the closing token
+  private parseNameList(close: string): string[] {
+    const names: string[] = [];
+    if (this.accept(close)) return names;
+    do {
+      names.push(this.expectIdentifier('a name').text);
+    } while (this.accept(','));
+    this.expect(close);
+    return names;
+  }
+
+  private parseGateCall(parseArg: () => Token): GateCall {
+    const name = this.expectIdentifier('a gate name');
+    if (this.peek().text === '@') throw this.error('Gate modifiers are not supported', this.peek());
+
+    const params: Expr[] = [];
+    if (this.accept('(') && !this.accept(')')) {
+      do {
+        params.push(this.parseExpression());
+      } while (this.accept(','));
+      this.expect(')');
+    }
+
+    const args: Token[] = [];
+    do {
+      args.push(parseArg());
+    } while (this.accept(','));
+    this.expect(';');
+    return { name, params, args };
+  }
+
+  private parseGateStatement(condition?: GateCondition): void {
+    const operands: number[][] = [];
+    const call = this.parseGateCall(() => {
+      const start = this.peek();
+      operands.push(this.parseOperand(this.qregs, 'qubit'));
+      return start;
+    });
+    this.checkGateExists(call.name, call.params.length, call.args.length);
+    const fail: Fail = (message, at) => {
+      throw this.error(message, at ?? call.name);
+    };
+    const params = call.params.map(expr => evaluate(expr, new Map(), fail, true));
+
+    for (const qubits of broadcast(operands, call.name)) {
+      if (new Set(qubits).size !== qubits.length) throw this.error(`Gate "${call.name.text}" is applied to the same qubit twice`, call.name);
+      this.apply(call.name.text, params, qubits, condition, call.name);
+    }
+  }
+
+  // measure q[0] -> c[0];  measure q -> c;
+  private parseMeasure(condition?: GateCondition): void {
+    const keyword = this.next();
+    const qubits = this.parseOperand(this.qregs, 'qubit');
+    let clbits: number[] | null = null;
+    if (this.accept('->')) clbits = this.parseOperand(this.cregs, 'bit');
+    this.expect(';');
+    this.emitMeasure(qubits, clbits, condition, keyword);
+  }
+
+  // c[0] = measure q[0];  c = measure q;
+  private parseMeasureAssignment(condition?: GateCondition): void {
+    const target = this.peek();
+    const clbits = this.parseOperand(this.cregs, 'bit');
+    this.expect('=');
+    if (this.peek().text !== 'measure') throw this.error(`Expected "measure" after assigning to "${target.text}"`, this.peek());
+    this.next();
+    const qubits = this.parseOperand(this.qregs, 'qubit');
+    this.expect(';');
+    this.emitMeasure(qubits, clbits, condition, target);
+  }
+
+  private emitMeasure(qubits: number[], clbits: number[] | null, condition: GateCondition | undefined, at: Token): void {
+    if (clbits && clbits.length !== qubits.length) {
+      throw this.error(`Cannot measure ${qubits.length} qubit(s) into ${clbits.length} bit(s)`, at);
+    }
+    qubits.forEach((qubit, k) => {
+      this.gates.push({ gate: 'MEASURE', qubits: [qubit], clbits: [clbits ? clbits[k] : qubit], ...(condition && { condition }) });
+    });
+  }
+
+  private parseReset(condition?: GateCondition): void {
+    this.next();
+    const qubits = this.parseOperand(this.qregs, 'qubit');
+    this.expect(';');
+    for (const qubit of qubits) this.gates.push({ gate: 'RESET', qubits: [qubit], ...(condition && { condition }) });
+  }
+
+  // Barriers only constrain compilers; the operands are still checked
+  private parseBarrier(): void {
+    this.next();
+    if (this.accept(';')) return;
+    do {
+      this.parseOperand(this.qregs, 'qubit');
+    } while (this.accept(','));
+    this.expect(';');
+  }
+
+  // if (c == 3) x q[0];  if (c[0] == 1 && c[1] == 0) { x q[0]; }  if (c[0]) x q[0];  if (c[0] == false) x q[0];
+  private parseIf(outer?: GateCondition): void {
+    this.next();
+    this.expect('(');
+    const bits = new Map<number, number>();
+    outer?.clbits.forEach((clbit, k) => bits.set(clbit, (outer.value >> k) & 1));
+
+    do {
+      const target = this.peek();
+      const clbits = this.parseOperand(this.cregs, 'bit');
+      const compared = this.accept('==');
+      const valueToken = this.peek();
+      // A bare register would mean "not zero", which a single equality cannot express
+      if (!compared && clbits.length > 1) throw this.error(`Compare the register "${target.text}" with ==, e.g. ${target.text} == 1`, valueToken);
+      const value = !compared || this.accept('true') ? 1 : this.accept('false') ? 0 : this.expectInteger();
+      if (value >= 2 ** clbits.length) throw this.error(`${value} does not fit in ${clbits.length} bit(s)`, valueToken);
+      clbits.forEach((clbit, k) => {
+        const bit = (value >> k) & 1;
+        if (bits.has(clbit) && bits.get(clbit) !== bit) throw this.error(`The condition on "${target.text}" can never hold`, target);
+        bits.set(clbit, bit);
+      });
+    } while (this.accept('&&'));
+    this.expect(')');
+
+    const clbits = [...bits.keys()];
+    const condition: GateCondition = { clbits, value: clbits.reduce((sum, clbit, k) => sum + (bits.get(clbit)! << k), 0) };
+
+    if (this.accept('{')) {
+      while (!this.accept('}')) {
+        if (this.peek().kind === 'eof') throw this.error('The if block is missing its closing "}"');
+        this.parseStatement(condition);
+      }
+    } else {
+      this.parseStatement(condition);
+    }
+  }
+
+  // q[1] selects one index, a bare q the whole register
+  private parseOperand(registers: Map<string, Register>, kind: 'qubit' | 'bit'): number[] {
+    const name = this.expectIdentifier(`a ${kind} register`);
+    const register = registers.get(name.text);
+    if (!register) {
+      const other = kind === 'qubit' ? this.cregs : this.qregs;
+      throw this.error(other.has(name.text)
+        ? `"${name.text}" is a ${kind === 'qubit' ? 'classical' : 'quantum'} register, expected a ${kind} register`
+        : `Unknown ${kind} register "${name.text}"`, name);
+    }
+
+    if (!this.accept('[')) return Array.from({ length: register.size }, (_, k) => register.offset + k);
+    const indexToken = this.peek();
+    const index = this.expectInteger();
+    this.expect(']');
+    if (index >= register.size) {
+      throw this.error(`Index ${index} is out of range for ${name.text}[${register.size}]`, indexToken);
+    }
+    return [register.offset + index];
+  }
+
+  // Gate lookup and expansion
+
+  private checkGateExists(name: Token, numParams: number, numQubits: number): void {
+    const library = libraryGate(name.text);
+    const definition = this.definitions.get(name.text);
+    if (!library && !definition) throw this.error(`Unknown gate "${name.text}"`, name);
+
+    const expectedParams = library ? library.params : definition!.params.length;
+    const expectedQubits = library ? library.qubits : definition!.qubits.length;
+    if (numParams !== expectedParams) {
+      throw this.error(`Gate "${name.text}" takes ${expectedParams} parameter(s), got ${numParams}`, name);
+    }
+    if (numQubits !== expectedQubits) {
+      throw this.error(`Gate "${name.text}" acts on ${expectedQubits} qubit(s), got ${numQubits}`, name);
+    }
+  }
+
+  private checkParamNames(exprs: Expr[], params: string[], gate: string): void {
+    const visit = (expr: Expr): void => {
+      if (expr.kind === 'name' && !params.includes(expr.token.text) && !Object.hasOwn(CONSTANTS, expr.token.text)) {
+        throw this.error(`Unknown parameter "${expr.token.text}" in gate "${gate}"`, expr.token);
+      }
+      if (expr.kind === 'unary') visit(expr.operand);
+      if (expr.kind === 'binary') {
+        visit(expr.left);
+        visit(expr.right);
+      }
+      if (expr.kind === 'call') visit(expr.arg);
+    };
+    exprs.forEach(visit);
+  }
+
+  // site is the statement in the user's program that the gate expands from
+  private apply(name: string, params: ParamValue[], qubits: number[], condition: GateCondition | undefined, site: Token): void {
+    const gates = expand(name, params, qubits, this.definitions, message => {
+      throw this.error(message, site);
+    });
+    this.gates.push(...gates.map(gate => (condition ? { ...gate, condition } : gate)));
+  }
+
+  // Expressions, by increasing precedence: + -, * /, unary -, ^ **
+
+  private parseExpression(): Expr {
+    let left = this.parseTerm();
+    while (this.peek().text === '+' || this.peek().text === '-') {
+      const token = this.next();
+      left = { kind: 'binary', op: token.text, left, right: this.parseTerm(), token };
+    }
+    return left;
+  }
+
+  private parseTerm(): Expr {
+    let left = this.parseUnary();
+    while (this.peek().text === '*' || this.peek().text === '/') {
+      const token = this.next();
+      left = { kind: 'binary', op: token.text, left, right: this.parseUnary(), token };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expr {
+    if (this.peek().text === '-' || this.peek().text === '+') {
+      const token = this.next();
+      return { kind: 'unary', op: token.text, operand: this.parseUnary(), token };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): Expr {
+    const base = this.parsePrimary();
+    if (this.peek().text === '^' || this.peek().text === '**') {
+      const token = this.next();
+      return { kind: 'binary', op: '^', left: base, right: this.parseUnary(), token };
+    }
+    return base;
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.peek();
+    if (token.kind === 'number') {
+      this.next();
+      return { kind: 'number', value: Number(token.text) };
+    }
+    if (this.accept('(')) {
+      const expr = this.parseExpression();
+      this.expect(')');
+      return expr;
+    }
+    if (token.kind === 'identifier') {
+      this.next();
+      if (Object.hasOwn(FUNCTIONS, token.text)) {
+        this.expect('(');
+        const arg = this.parseExpression();
+        this.expect(')');
+        return { kind: 'call', fn: token, arg };
+      }
+      return { kind: 'name', token };
+    }
+    throw this.error(`Expected an expression but found ${describe(token)}`, token);
+  }
+}
+
+type Fail = (message: string, at?: Token) => never;
+
+function libraryGate(name: string): { gate: string; params: number; qubits: number } | undefined {
+  return Object.hasOwn(LIBRARY_GATES, name) ? LIBRARY_GATES[name] : undefined;
+}
+
+/**
+ * Evaluates a parameter to a number. With allowSymbols an unknown name
+ * becomes a symbolic parameter, which may be passed on but not computed with.
+ */
+function evaluate(expr: Expr, env: Map<string, ParamValue>, fail: Fail, allowSymbols: boolean): ParamValue {
+  const numeric = (operand: Expr, at: Token): number => {
+    const value = evaluate(operand, env, fail, allowSymbols);
+    if (typeof value === 'string') return fail(`Symbolic parameter "${value}" can only be passed to a gate as is, not used in arithmetic`, at);
+    return value;
+  };
+
+  let value: number;
+  switch (expr.kind) {
+    case 'number':
+      return expr.value;
+    case 'name': {
+      const name = expr.token.text;
+      if (env.has(name)) return env.get(name)!;
+      if (Object.hasOwn(CONSTANTS, name)) return CONSTANTS[name];
+      if (allowSymbols && isValidSymbol(name)) return name;
+      return fail(`Unknown parameter "${name}"`, expr.token);
+    }
+    case 'unary':
+      value = expr.op === '-' ? -numeric(expr.operand, expr.token) : numeric(expr.operand, expr.token);
+      break;
+    case 'call':
+      value = FUNCTIONS[expr.fn.text](numeric(expr.arg, expr.fn));
+      break;
+    case 'binary': {
+      const left = numeric(expr.left, expr.token);
+      const right = numeric(expr.right, expr.token);
+      value = expr.op === '+' ? left + right
+        : expr.op === '-' ? left - right
+        : expr.op === '*' ? left * right
+        : expr.op === '/' ? left / right
+        : left ** right;
+      break;
+    }
+  }
+
+  if (!Number.isFinite(value)) {
+    return fail('Parameter expression does not evaluate to a finite number', expr.kind === 'call' ? expr.fn : expr.token);
+  }
+  return value;
+}
+
+// Inlines a gate down to library gates; errors are reported at the outermost call
+function expand(
+  name: string,
+  params: ParamValue[],
+  qubits: number[],
+  definitions: Map<string, GateDefinition>,
+  fail: (message: string) => never
+): ParametricGate[] {
+  const library = libraryGate(name);
+  if (library) return [{ gate: library.gate, qubits, ...(params.length > 0 && { params }) }];
+
+  const definition = definitions.get(name)!;
+  if (!definition.body) return fail(`Opaque gate "${name}" has no definition to simulate`);
+
+  const env = new Map(definition.params.map((param, k) => [param, params[k]]));
+  return definition.body.flatMap(call => expand(
+    call.name.text,
+    call.params.map(expr => evaluate(expr, env, message => fail(message), false)),
+    call.args.map(arg => qubits[definition.qubits.indexOf(arg.text)]),
+    definitions,
+    fail
+  ));
+}
+
+function describe(token: Token): string {
+  return token.kind === 'eof' ? 'end of input' : `"${token.text}"`;
+}
+
+// Whole-register operands apply the gate once per index: cx q, r; pairs q[k] with r[k]
+function broadcast(operands: number[][], name: Token): number[][] {
+  const sizes = new Set(operands.filter(op => op.length > 1).map(op => op.length));
+  if (sizes.size > 1) {
+    throw new QasmParseError(`Registers passed to "${name.text}" have different sizes`, name.line, name.column);
+  }
+  const count = sizes.size === 0 ? 1 : [...sizes][0];
+  return Array.from({ length: count }, (_, k) => operands.map(op => (op.length === 1 ? op[0] : op[k])));
+}
+
+let standardDefinitions: Map<string, GateDefinition> | null = null;
+
+function getStandardDefinitions(): Map<string, GateDefinition> {
+  if (!standardDefinitions) {
+    const parser = new QasmParser(STANDARD_DEFINITIONS);
+    parser.parseProgram(false);
+    standardDefinitions = parser.definitions;
+  }
+  return standardDefinitions;
+}
+
+/** Parameter and qubit counts of a qelib1.inc or stdgates.inc gate, or null for any other name */
+export function getStandardGate(name: string): { params: number; qubits: number } | null {
+  const library = libraryGate(name);
+  if (library) return { params: library.params, qubits: library.qubits };
+  const definition = getStandardDefinitions().get(name);
+  return definition ? { params: definition.params.length, qubits: definition.qubits.length } : null;
+}
+
+/**
+ * Decomposes a standard gate into library gates, e.g. cy into sdg, cx, s.
+ * Throws if a symbolic parameter would need arithmetic in the decomposition.
+ */
+export function expandStandardGate(name: string, params: ParamValue[], qubits: number[]): ParametricGate[] {
+  return expand(name, params, qubits, getStandardDefinitions(), message => {
+    throw new QuantumValidationError(message, ErrorCodes.INVALID_GATE_PARAMS, { gate: name });
+  });
+}
+
+/** True when the text looks like an OpenQASM program rather than simulator code */
+export function isOpenQASM(source: string): boolean {
+  return /^(?:\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*(?:OPENQASM\b|include\s+"|qreg\b|qubit\s*[[\s])/.test(source);
+}
+
+/**
+ * Parses an OpenQASM 2.0 or 3.0 program. Includes of qelib1.inc and
+ * stdgates.inc are accepted and their gates are always available.
+ * Throws a QasmParseError pointing at the offending line and column.
+ */
+export function parseOpenQASM(source: string): QasmCircuit {
+  const parser = new QasmParser(source, getStandardDefinitions());
+  parser.parseProgram();
+  return {
+    version: parser.version,
+    numQubits: parser.numQubits,
+    numClbits: parser.numClbits,
+    gates: parser.gates,
+  };
+}
@@ -0,0 +1,50 @@
+import { getCustomGates } from './custom-gates';
+import { DEFAULT_SANDBOX_LIMITS, SandboxError, SandboxEvent, SandboxLimits, SandboxRequest, SandboxResult } from './sandbox';
+
+// Time allowed to load the worker and TypeScript before the code starts
+const LOAD_TIMEOUT_MS = 15000;
+
+/**
+ * Runs circuit code in a fresh sandbox worker and resolves with the recorded
+ * circuit. The worker is terminated when it finishes or runs out of time, so
+ * an endless loop costs one thread for `limits.timeoutMs` and nothing more.
+ */
+export function runCircuitCodeInSandbox(
+  code: string,
+  limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS
+): Promise<SandboxResult> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./sandbox-worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = (error: SandboxError | null, result?: SandboxResult) => {
+      clearTimeout(timer);
+      worker.terminate();
+      if (error) reject(error);
+      else resolve(result!);
+    };
+
+    let timer = setTimeout(
+      () => finish(new SandboxError('The sandbox did not start in time')),
+      LOAD_TIMEOUT_MS
+    );
+
+    worker.onmessage = (e: MessageEvent<SandboxEvent>) => {
+      const event = e.data;
+      if (event.type === 'started') {
+        clearTimeout(timer);
+        timer = setTimeout(
+          () => finish(new SandboxError(`The code did not finish within ${limits.timeoutMs} ms`)),
+          limits.timeoutMs
+        );
+      } else if (event.type === 'done') {
+        finish(null, event.result);
+      } else {
+        finish(new SandboxError(event.message, event.line, event.column));
+      }
+    };
+    worker.onerror = (e) => finish(new SandboxError(e.message || 'The sandbox failed to load'));
+
+    const request: SandboxRequest = { code, maxOperations: limits.maxOperations, customGates: getCustomGates() };
+    worker.postMessage(request);
+  });
+}
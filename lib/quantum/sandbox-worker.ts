@@ -0,0 +1,25 @@
+/// <reference lib="webworker" />
+// Web Worker entry: evaluates one piece of circuit code away from the page, then is terminated
+import { evaluateCircuitCode, lockDownScope, SandboxError, SandboxEvent, SandboxRequest } from './sandbox';
+import { defineGate } from './custom-gates';
+
+const scope = self as unknown as DedicatedWorkerGlobalScope;
+// Captured before lockDownScope removes it from the scope
+const post = scope.postMessage.bind(scope) as (event: SandboxEvent) => void;
+
+scope.onmessage = async (e: MessageEvent<SandboxRequest>) => {
+  try {
+    e.data.customGates.forEach(defineGate);
+    const result = await evaluateCircuitCode(e.data.code, e.data.maxOperations, () => {
+      lockDownScope(scope);
+      post({ type: 'started' });
+    });
+    post({ type: 'done', result });
+  } catch (error) {
+    if (error instanceof SandboxError) {
+      post({ type: 'error', message: error.reason, line: error.line, column: error.column });
+    } else {
+      post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+};
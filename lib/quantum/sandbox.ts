@@ -0,0 +1,335 @@
+/**
+ * Circuit Code Sandbox
+ * Runs circuit code that the static parser (./dsl) cannot follow - helper
+ * functions, while loops, recursion - by executing it against a stand-in
+ * QuantumSimulator that records every operation instead of the state vector.
+ *
+ * The code itself runs as plain JavaScript; isolation comes from the worker
+ * it runs in (./sandbox-worker): no DOM, every global but the ECMAScript
+ * builtins removed before the code starts, and terminated by ./sandbox-runner
+ * at the time limit.
+ */
+
+import { QuantumValidationError, ErrorCodes, validateGateOperation, validateQubitIndex, validateClbitIndex, validateQubitCount } from './validators';
+import { QuantumSimulator, splitGateArgs, type GateCondition, type GateOperation, type SimulatorConfig } from './simulator';
+import { isSymbol, isValidSymbol, type ParamValue, type ParametricGate } from './parameters';
+import type { Observable } from './observables';
+import type { CustomGateDefinition } from './custom-gates';
+import type { Node as TsNode } from 'typescript';
+
+export interface SandboxLimits {
+  timeoutMs: number; // Wall-clock time for the code itself, counted once the sandbox has loaded
+  maxOperations: number; // Gates, measurements and resets across all simulators
+}
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+  timeoutMs: 2000,
+  maxOperations: 10000,
+};
+
+export interface SandboxResult {
+  numQubits: number;
+  gates: ParametricGate[];
+}
+
+// Custom gates are defined in the worker before the code runs
+export type SandboxRequest = { code: string; maxOperations: number; customGates: CustomGateDefinition[] };
+
+export type SandboxEvent =
+  | { type: 'started' } // Transpiled and locked down; the time limit starts now
+  | { type: 'done'; result: SandboxResult }
+  | { type: 'error'; message: string; line?: number; column?: number };
+
+export class SandboxError extends QuantumValidationError {
+  constructor(
+    public readonly reason: string,
+    public readonly line?: number,
+    public readonly column?: number
+  ) {
+    super(line !== undefined ? `Line ${line}, column ${column}: ${reason}` : reason, ErrorCodes.SANDBOX_FAILED, { line, column });
+    this.name = 'SandboxError';
+  }
+}
+
+// Everything else on the worker scope is removed: new web APIs keep adding ways
+// to reach the network (FontFace, WebSocketStream), so a denylist falls behind.
+// These are ECMAScript builtins, minus eval and Function, which build code from
+// strings and could reach import() at run time
+const SAFE_GLOBALS = new Set([
+  'globalThis', 'undefined', 'NaN', 'Infinity', 'console',
+  'Object', 'Array', 'Number', 'String', 'Boolean', 'Symbol', 'BigInt', 'Math', 'JSON', 'Date', 'RegExp',
+  'Error', 'TypeError', 'RangeError', 'SyntaxError', 'ReferenceError', 'EvalError', 'URIError', 'AggregateError',
+  'Map', 'Set', 'WeakMap', 'WeakSet', 'WeakRef', 'FinalizationRegistry', 'Promise', 'Proxy', 'Reflect', 'Intl',
+  'ArrayBuffer', 'DataView', 'Int8Array', 'Uint8Array', 'Uint8ClampedArray', 'Int16Array', 'Uint16Array',
+  'Int32Array', 'Uint32Array', 'Float32Array', 'Float64Array', 'BigInt64Array', 'BigUint64Array',
+  'parseInt', 'parseFloat', 'isNaN', 'isFinite', 'encodeURI', 'encodeURIComponent', 'decodeURI', 'decodeURIComponent',
+]);
+
+// Reached through any function's .constructor even with the globals gone
+const CODE_CONSTRUCTORS = [
+  Function,
+  Object.getPrototypeOf(async function () {}).constructor,
+  Object.getPrototypeOf(function* () {}).constructor,
+  Object.getPrototypeOf(async function* () {}).constructor,
+] as const;
+
+function blockedConstructor(): never {
+  throw new Error('Circuit code cannot build code from strings');
+}
+
+/**
+ * Removes everything but SAFE_GLOBALS from a worker scope before untrusted
+ * code runs. Web IDL puts most APIs (fetch, fonts, postMessage) on
+ * WorkerGlobalScope.prototype and its parents rather than on the scope, so
+ * every object in the chain is cleared. Anything the worker still needs must
+ * be captured first.
+ */
+export function lockDownScope(scope: object): void {
+  for (let target = scope; target && target !== Object.prototype; target = Object.getPrototypeOf(target)) {
+    for (const name of Object.getOwnPropertyNames(target)) {
+      if (target === scope && SAFE_GLOBALS.has(name)) continue;
+      if (Reflect.deleteProperty(target, name)) continue;
+      // Unforgeable attributes cannot be deleted; overwrite them where they are writable
+      if (!Reflect.defineProperty(target, name, { value: undefined, writable: false })) {
+        throw new Error(`Cannot remove ${name} from the sandbox scope`);
+      }
+    }
+  }
+
+  // Only the realm's own global owns these constructors; a modelled scope leaves them alone
+  if (scope === globalThis) {
+    for (const constructor of CODE_CONSTRUCTORS) {
+      Object.defineProperty(constructor.prototype, 'constructor', { value: blockedConstructor, writable: false, configurable: false });
+    }
+  }
+}
+
+const UNKNOWN_OUTCOME = 'Measurement outcomes are only known when the circuit runs; use sim.applyIf for classically controlled gates';
+
+// Returned by sim.measure(): ignoring it is fine, reading it is not
+const unknownOutcome = new Proxy({}, {
+  get() {
+    throw new Error(UNKNOWN_OUTCOME);
+  },
+});
+
+interface Recording {
+  numQubits: number;
+  gates: ParametricGate[];
+  simulators: number;
+  operations: number;
+}
+
+// Gate operation with symbolic parameters, as the circuit builder stores them
+function toGate(gate: string, qubits: number[], params?: ParamValue[], clbits?: number[], condition?: GateCondition): ParametricGate {
+  return {
+    gate,
+    qubits: [...qubits],
+    ...(params && params.length > 0 ? { params: [...params] } : {}),
+    ...(clbits ? { clbits: [...clbits] } : {}),
+    ...(condition ? { condition: { clbits: [...condition.clbits], value: condition.value } } : {}),
+  };
+}
+
+function validateOperation(op: ParametricGate, numQubits: number, numClbits: number): void {
+  if (op.gate === 'MEASURE' || op.gate === 'RESET') {
+    validateQubitIndex(op.qubits[0], numQubits, op.gate.toLowerCase());
+  } else {
+    // Symbolic parameters stay unbound; check them by name and the rest by value
+    const params = (op.params ?? []).map(p => (isSymbol(p) && isValidSymbol(p) ? 0 : p)) as number[];
+    validateGateOperation(op.gate, op.qubits, params, numQubits);
+  }
+  op.clbits?.forEach(clbit => validateClbitIndex(clbit, numClbits));
+  op.condition?.clbits.forEach(clbit => validateClbitIndex(clbit, numClbits));
+}
+
+/**
+ * QuantumSimulator stand-in for one evaluation. Mutating calls are validated
+ * and recorded; readers replay the recording on a real simulator on demand,
+ * so code that only builds a circuit never pays for the state vector.
+ */
+function createRecordingSimulator(recording: Recording, maxOperations: number) {
+  return class RecordingSimulator {
+    private readonly numQubits: number;
+    private readonly numClbits: number;
+    private readonly config: SimulatorConfig;
+    // Only the first simulator becomes the circuit; later ones are scratch space
+    private readonly loaded: boolean;
+    private readonly recorded: ParametricGate[] = [];
+    private backing: QuantumSimulator | null = null;
+    private replayed = 0;
+
+    constructor(config: SimulatorConfig | number) {
+      this.config = typeof config === 'number' ? { numQubits: config } : { ...config };
+      this.numQubits = this.config.numQubits;
+      this.numClbits = this.config.numClbits ?? this.numQubits;
+      validateQubitCount(this.numQubits);
+
+      this.loaded = recording.simulators++ === 0;
+      if (this.loaded) recording.numQubits = this.numQubits;
+    }
+
+    getNumQubits(): number {
+      return this.numQubits;
+    }
+
+    getNumClbits(): number {
+      return this.numClbits;
+    }
+
+    apply(gateName: string, ...args: (ParamValue | ParamValue[])[]): void {
+      const { params, qubits } = splitGateArgs(args as (number | number[])[]);
+      this.record(toGate(gateName, qubits, params));
+    }
+
+    applyIf(condition: GateCondition, gateName: string, ...args: (ParamValue | ParamValue[])[]): void {
+      const { params, qubits } = splitGateArgs(args as (number | number[])[]);
+      this.record(toGate(gateName, qubits, params, undefined, condition));
+    }
+
+    execute(op: GateOperation): void {
+      const clbits = op.gate === 'MEASURE' ? op.clbits ?? [op.qubits[0]] : op.clbits;
+      this.record(toGate(op.gate, op.qubits, op.params, clbits, op.condition));
+    }
+
+    measure(qubit: number, clbit?: number): unknown {
+      this.record(toGate('MEASURE', [qubit], undefined, [clbit ?? qubit]));
+      return unknownOutcome;
+    }
+
+    reset(qubit: number): void {
+      this.record(toGate('RESET', [qubit]));
+    }
+
+    applyKrausChannel(): void {
+      throw new Error('sim.applyKrausChannel cannot be loaded as circuit gates');
+    }
+
+    applyDiagonalPhase(): void {
+      throw new Error('sim.applyDiagonalPhase cannot be loaded as circuit gates');
+    }
+
+    getState() {
+      return this.simulated().getState();
+    }
+
+    getSparseState(maxElements?: number) {
+      return this.simulated().getSparseState(maxElements);
+    }
+
+    getProbabilities() {
+      return this.simulated().getProbabilities();
+    }
+
+    getClassicalRegister() {
+      return this.simulated().getClassicalRegister();
+    }
+
+    getBlochCoordinates(qubit: number) {
+      return this.simulated().getBlochCoordinates(qubit);
+    }
+
+    sample(shots: number) {
+      return this.simulated().sample(shots);
+    }
+
+    sampleClassical(shots: number) {
+      return this.simulated().sampleClassical(shots);
+    }
+
+    expectation(observable: Observable, shots?: number) {
+      return this.simulated().expectation(observable, shots);
+    }
+
+    diagonalExpectation(values: number[]) {
+      return this.simulated().diagonalExpectation(values);
+    }
+
+    private record(op: ParametricGate): void {
+      validateOperation(op, this.numQubits, this.numClbits);
+      if (++recording.operations > maxOperations) {
+        throw new Error(`The code applied more than ${maxOperations} operations`);
+      }
+      this.recorded.push(op);
+      if (this.loaded) recording.gates.push(op);
+    }
+
+    private simulated(): QuantumSimulator {
+      this.backing ??= new QuantumSimulator(this.config);
+      for (; this.replayed < this.recorded.length; this.replayed++) {
+        const op = this.recorded[this.replayed];
+        if (op.params?.some(isSymbol)) {
+          throw new Error(`Cannot read the state: ${op.gate} has a symbolic parameter`);
+        }
+        this.backing.execute(op as GateOperation);
+      }
+      return this.backing;
+    }
+  };
+}
+
+// Loaded inside the worker on first use so it stays out of the page bundle
+async function transpile(code: string): Promise<string> {
+  const ts = (await import('typescript')).default;
+  const { outputText, diagnostics = [] } = ts.transpileModule(code, {
+    compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.CommonJS },
+    reportDiagnostics: true,
+  });
+
+  const [first] = diagnostics;
+  if (first) {
+    const reason = ts.flattenDiagnosticMessageText(first.messageText, '\n');
+    if (first.file && first.start !== undefined) {
+      const { line, character } = first.file.getLineAndCharacterOfPosition(first.start);
+      throw new SandboxError(reason, line + 1, character + 1);
+    }
+    throw new SandboxError(reason);
+  }
+
+  // import() loads modules outside requireModule's reach, from any URL
+  const source = ts.createSourceFile('circuit.ts', code, ts.ScriptTarget.ES2020, true);
+  const findImportCall = (node: TsNode): TsNode | undefined =>
+    ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword
+      ? node
+      : ts.forEachChild(node, findImportCall);
+  const importCall = findImportCall(source);
+  if (importCall) {
+    const { line, character } = source.getLineAndCharacterOfPosition(importCall.getStart(source));
+    throw new SandboxError('Circuit code cannot use import()', line + 1, character + 1);
+  }
+  return outputText;
+}
+
+/**
+ * Transpiles circuit code and runs it against the recording simulator.
+ * `onStart` is called just before the code runs, for the worker to lock
+ * itself down and tell the runner to start the clock. Only call this from
+ * a sandbox worker: the code gets the same globals as the caller.
+ */
+export async function evaluateCircuitCode(
+  code: string,
+  maxOperations: number = DEFAULT_SANDBOX_LIMITS.maxOperations,
+  onStart: () => void = () => {}
+): Promise<SandboxResult> {
+  const js = await transpile(code);
+
+  const recording: Recording = { numQubits: 2, gates: [], simulators: 0, operations: 0 };
+  const Simulator = createRecordingSimulator(recording, maxOperations);
+  const quantumModule = { QuantumSimulator: Simulator };
+  const requireModule = (specifier: string) => {
+    if (/quantum/i.test(specifier)) return quantumModule;
+    throw new Error(`Cannot import "${specifier}" in circuit code`);
+  };
+  const silentConsole = { log() {}, info() {}, warn() {}, error() {}, debug() {}, table() {} };
+
+  // Code that uses the simulator without importing it gets it as a global
+  const run = new Function('require', 'exports', 'module', 'QuantumSimulator', 'console', js);
+
+  onStart();
+  try {
+    run(requireModule, {}, { exports: {} }, Simulator, silentConsole);
+  } catch (error) {
+    throw new SandboxError(error instanceof Error ? error.message : String(error));
+  }
+  return { numQubits: recording.numQubits, gates: recording.gates };
+}
@@ -6,6 +6,16 @@
 import { Complex, ZERO, ONE } from './complex';
 import { Matrix } from './matrix';
 import * as Gates from './gates';
+import { gateNoiseChannels } from './noise';
+import { Observable, toPauliSum, pauliMasks, parity } from './observables';
+import {
+  validateNoiseModel,
+  validateQubitIndex,
+  validateClbitIndex,
+  validateShots,
+  QuantumValidationError,
+  ErrorCodes,
+} from './validators';
 
 export interface QuantumState {
   numQubits: number;
@@ -20,6 +30,7 @@ export interface MeasurementResult {
 
 export interface SimulatorConfig {
   numQubits: number;
+  numClbits?: number; // Defaults to one classical bit per qubit
   noiseModel?: NoiseModel;
 }
 
@@ -30,10 +41,33 @@ export interface NoiseModel {
   readout_error?: number;
 }
 
+/**
+ * Classical guard on an operation: it only runs when the listed bits hold
+ * `value`, read with clbits[0] as the least significant bit (as Qiskit's c_if).
+ */
+export interface GateCondition {
+  clbits: number[];
+  value: number;
+}
+
 export interface GateOperation {
   gate: string;
   qubits: number[];
   params?: number[];
+  clbits?: number[]; // Target classical bits for MEASURE
+  condition?: GateCondition;
+}
+
+/** Splits apply()-style arguments into the optional leading parameter array and qubit indices */
+export function splitGateArgs(args: (number | number[])[]): { params: number[]; qubits: number[] } {
+  if (Array.isArray(args[0])) {
+    return { params: args[0] as number[], qubits: args.slice(1) as number[] };
+  }
+  return { params: [], qubits: args as number[] };
+}
+
+export function conditionHolds(condition: GateCondition, register: number[]): boolean {
+  return condition.clbits.every((clbit, k) => register[clbit] === ((condition.value >> k) & 1));
 }
 
 export class QuantumSimulator {
@@ -41,15 +75,26 @@ export class QuantumSimulator {
   // State is stored as a Float64Array: [re0, im0, re1, im1, ...]
   private state: Float64Array;
   private noiseModel?: NoiseModel;
+  // Kraus channels injected after every gate (empty for an ideal simulator)
+  private noiseChannels: Matrix[][];
+  // Operations applied so far, replayed per shot when sampling a noisy circuit
+  private operations: GateOperation[] = [];
+  private numClbits: number;
+  private classicalRegister: number[];
 
   constructor(config: SimulatorConfig | number) {
     if (typeof config === 'number') {
       this.numQubits = config;
+      this.numClbits = config;
       this.noiseModel = undefined;
     } else {
       this.numQubits = config.numQubits;
+      this.numClbits = config.numClbits ?? config.numQubits;
       this.noiseModel = config.noiseModel;
     }
+    this.classicalRegister = new Array(this.numClbits).fill(0);
+    if (this.noiseModel) validateNoiseModel(this.noiseModel);
+    this.noiseChannels = gateNoiseChannels(this.noiseModel);
 
     const stateSize = Math.pow(2, this.numQubits);
     // 2 values per amplitude (real and imaginary)
@@ -57,6 +102,19 @@ export class QuantumSimulator {
     this.state[0] = 1.0; // Initial state |0...0>
   }
 
+  getNumQubits(): number {
+    return this.numQubits;
+  }
+
+  getNumClbits(): number {
+    return this.numClbits;
+  }
+
+  /** Classical bit values written by mid-circuit measurements, c0 first */
+  getClassicalRegister(): number[] {
+    return [...this.classicalRegister];
+  }
+
   getState(): Complex[] {
     const size = Math.pow(2, this.numQubits);
     // Limit result size to prevent crashing the UI for massive qubit counts
@@ -105,15 +163,7 @@ export class QuantumSimulator {
   }
 
   apply(gateName: string, ...args: (number | number[])[]): void {
-    let params: number[] = [];
-    let qubits: number[];
-
-    if (Array.isArray(args[0])) {
-      params = args[0] as number[];
-      qubits = args.slice(1) as number[];
-    } else {
-      qubits = args as number[];
-    }
+    const { params, qubits } = splitGateArgs(args);
 
     const gateInfo = Gates.GATE_LIBRARY[gateName];
     if (!gateInfo) throw new Error(`Unknown gate: ${gateName}`);
@@ -132,6 +182,219 @@ export class QuantumSimulator {
     } else {
       this.applyMultiQubitGate(matrix, qubits);
     }
+
+    this.operations.push({ gate: gateName, qubits, params });
+
+    // Stochastic error injection on every qubit the gate touched
+    for (const qubit of qubits) {
+      for (const kraus of this.noiseChannels) {
+        this.applyKrausChannel(kraus, qubit);
+      }
+    }
+  }
+
+  /**
+   * Applies a gate only if the classical register matches the condition,
+   * e.g. applyIf({ clbits: [1], value: 1 }, 'X', 2) for a teleportation correction
+   */
+  applyIf(condition: GateCondition, gateName: string, ...args: (number | number[])[]): void {
+    const { params, qubits } = splitGateArgs(args);
+    this.execute({ gate: gateName, qubits, params, condition });
+  }
+
+  /**
+   * Runs any recorded operation, including the non-unitary MEASURE and RESET.
+   * Conditioned operations are always recorded so every replayed shot re-evaluates them.
+   */
+  execute(op: GateOperation): void {
+    if (op.condition) {
+      op.condition.clbits.forEach(clbit => validateClbitIndex(clbit, this.numClbits));
+      if (!conditionHolds(op.condition, this.classicalRegister)) {
+        this.operations.push(op);
+        return;
+      }
+    }
+
+    if (op.gate === 'MEASURE') {
+      this.measure(op.qubits[0], op.clbits?.[0]);
+    } else if (op.gate === 'RESET') {
+      this.reset(op.qubits[0]);
+    } else if (op.gate === 'DIAGONAL') {
+      this.applyDiagonalPhase(op.params ?? []);
+    } else {
+      this.apply(op.gate, op.params ?? [], ...op.qubits);
+    }
+
+    if (op.condition) {
+      this.operations[this.operations.length - 1].condition = op.condition;
+    }
+  }
+
+  /**
+   * Projective Z-basis measurement of one qubit.
+   * The state collapses onto the observed outcome; if a classical bit is
+   * given the outcome (subject to readout error) is written to it.
+   */
+  measure(qubit: number, clbit?: number): MeasurementResult {
+    validateQubitIndex(qubit, this.numQubits, 'measure');
+    if (clbit !== undefined) validateClbitIndex(clbit, this.numClbits);
+
+    const size = Math.pow(2, this.numQubits);
+    const mask = 1 << (this.numQubits - 1 - qubit);
+
+    let p1 = 0;
+    for (let i = 0; i < size; i++) {
+      if ((i & mask) !== 0) {
+        p1 += this.state[2 * i] * this.state[2 * i] + this.state[2 * i + 1] * this.state[2 * i + 1];
+      }
+    }
+
+    const outcome = Math.random() < p1 ? 1 : 0;
+    const probability = outcome === 1 ? p1 : 1 - p1;
+    const norm = 1 / Math.sqrt(probability);
+
+    for (let i = 0; i < size; i++) {
+      const bit = (i & mask) !== 0 ? 1 : 0;
+      if (bit === outcome) {
+        this.state[2 * i] *= norm;
+        this.state[2 * i + 1] *= norm;
+      } else {
+        this.state[2 * i] = 0;
+        this.state[2 * i + 1] = 0;
+      }
+    }
+
+    if (clbit !== undefined) {
+      const readoutError = this.noiseModel?.readout_error ?? 0;
+      this.classicalRegister[clbit] = Math.random() < readoutError ? 1 - outcome : outcome;
+    }
+
+    this.operations.push({ gate: 'MEASURE', qubits: [qubit], clbits: clbit !== undefined ? [clbit] : undefined });
+
+    return { outcome, probability, collapsedState: this.getState() };
+  }
+
+  /**
+   * Returns a qubit to |0⟩ by measuring it and flipping it on outcome 1
+   */
+  reset(qubit: number): void {
+    validateQubitIndex(qubit, this.numQubits, 'reset');
+
+    const size = Math.pow(2, this.numQubits);
+    const mask = 1 << (this.numQubits - 1 - qubit);
+
+    let p1 = 0;
+    for (let i = 0; i < size; i++) {
+      if ((i & mask) !== 0) {
+        p1 += this.state[2 * i] * this.state[2 * i] + this.state[2 * i + 1] * this.state[2 * i + 1];
+      }
+    }
+
+    const outcome = Math.random() < p1 ? 1 : 0;
+    const norm = 1 / Math.sqrt(outcome === 1 ? p1 : 1 - p1);
+
+    for (let i = 0; i < size; i++) {
+      if ((i & mask) !== 0) continue;
+      const i0 = 2 * i;
+      const i1 = 2 * (i | mask);
+      // Keep the surviving branch and move it onto the |0⟩ half
+      const src = outcome === 1 ? i1 : i0;
+      this.state[i0] = this.state[src] * norm;
+      this.state[i0 + 1] = this.state[src + 1] * norm;
+      this.state[i1] = 0;
+      this.state[i1 + 1] = 0;
+    }
+
+    this.operations.push({ gate: 'RESET', qubits: [qubit] });
+  }
+
+  /**
+   * Applies a single-qubit Kraus channel as a quantum trajectory:
+   * one operator K_k is chosen with probability ||K_k ψ||² and the
+   * resulting state is renormalized.
+   */
+  applyKrausChannel(kraus: Matrix[], qubit: number): void {
+    const n = this.numQubits;
+    const size = Math.pow(2, n);
+    const mask = 1 << (n - 1 - qubit);
+
+    const weights = kraus.map(k => {
+      let weight = 0;
+      for (let i = 0; i < size; i++) {
+        if ((i & mask) !== 0) continue;
+        const i0 = 2 * i;
+        const i1 = 2 * (i | mask);
+        const a_re = this.state[i0], a_im = this.state[i0 + 1];
+        const b_re = this.state[i1], b_im = this.state[i1 + 1];
+
+        const r0_re = k[0][0].real * a_re - k[0][0].imag * a_im + k[0][1].real * b_re - k[0][1].imag * b_im;
+        const r0_im = k[0][0].real * a_im + k[0][0].imag * a_re + k[0][1].real * b_im + k[0][1].imag * b_re;
+        const r1_re = k[1][0].real * a_re - k[1][0].imag * a_im + k[1][1].real * b_re - k[1][1].imag * b_im;
+        const r1_im = k[1][0].real * a_im + k[1][0].imag * a_re + k[1][1].real * b_im + k[1][1].imag * b_re;
+        weight += r0_re * r0_re + r0_im * r0_im + r1_re * r1_re + r1_im * r1_im;
+      }
+      return weight;
+    });
+
+    const rnd = Math.random();
+    let cumulative = 0;
+    let chosen = weights.length - 1;
+    for (let k = 0; k < weights.length; k++) {
+      cumulative += weights[k];
+      if (rnd < cumulative) {
+        chosen = k;
+        break;
+      }
+    }
+
+    if (weights[chosen] < 1e-15) return;
+
+    this.applySingleQubitGate(kraus[chosen], qubit);
+    const norm = 1 / Math.sqrt(weights[chosen]);
+    for (let i = 0; i < this.state.length; i++) {
+      this.state[i] *= norm;
+    }
+  }
+
+  /**
+   * Multiplies each basis amplitude |i⟩ by e^{-i·angles[i]} in a single pass.
+   * A diagonal cost layer such as QAOA's e^{-iγH_C} would otherwise take one
+   * Rz or RZZ sweep per Hamiltonian term.
+   */
+  applyDiagonalPhase(angles: number[]): void {
+    const size = Math.pow(2, this.numQubits);
+    if (angles.length !== size) {
+      throw new QuantumValidationError(
+        `Diagonal needs ${size} phases, got ${angles.length}`,
+        ErrorCodes.INVALID_GATE_PARAMS,
+        { expected: size, received: angles.length }
+      );
+    }
+
+    for (let i = 0; i < size; i++) {
+      const c = Math.cos(angles[i]);
+      const s = -Math.sin(angles[i]);
+      const re = this.state[2 * i], im = this.state[2 * i + 1];
+      this.state[2 * i] = re * c - im * s;
+      this.state[2 * i + 1] = re * s + im * c;
+    }
+
+    this.operations.push({
+      gate: 'DIAGONAL',
+      qubits: Array.from({ length: this.numQubits }, (_, q) => q),
+      params: angles,
+    });
+  }
+
+  /** ⟨ψ|D|ψ⟩ for a diagonal observable given by its entries, e.g. a cost per basis state */
+  diagonalExpectation(values: number[]): number {
+    const size = Math.pow(2, this.numQubits);
+    let value = 0;
+    for (let i = 0; i < size; i++) {
+      const re = this.state[2 * i], im = this.state[2 * i + 1];
+      value += (re * re + im * im) * values[i];
+    }
+    return value;
   }
 
   private applySingleQubitGate(gate: Matrix, qubit: number): void {
@@ -273,25 +536,147 @@ export class QuantumSimulator {
   }
 
   sample(shots: number): Map<string, number> {
+    const results = new Map<string, number>();
+    const readoutError = this.noiseModel?.readout_error ?? 0;
+    const replay = this.needsTrajectories();
+
+    for (let shot = 0; shot < shots; shot++) {
+      // With gate noise or mid-circuit collapse every shot is an independent trajectory
+      const outcome = replay ? this.replayTrajectory().drawOutcome() : this.drawOutcome();
+      if (outcome < 0) continue;
+
+      let bits = outcome.toString(2).padStart(this.numQubits, '0');
+      if (readoutError > 0) {
+        bits = Array.from(bits, b => (Math.random() < readoutError ? (b === '0' ? '1' : '0') : b)).join('');
+      }
+      results.set(bits, (results.get(bits) || 0) + 1);
+    }
+    return results;
+  }
+
+  /**
+   * Expectation value ⟨ψ|H|ψ⟩ of a Pauli sum such as "0.5*ZZI - 0.3*XIX".
+   * Exact from the state vector unless `shots` is given, in which case each term
+   * is estimated by rotating its support into the Z basis and averaging parities.
+   */
+  expectation(observable: Observable, shots?: number): number {
+    const terms = toPauliSum(observable, this.numQubits);
+    if (shots !== undefined) validateShots(shots);
+
+    return terms.reduce((sum, term) => {
+      const value = shots === undefined
+        ? this.pauliExpectation(term.pauli)
+        : this.estimatePauli(term.pauli, shots);
+      return sum + term.coefficient * value;
+    }, 0);
+  }
+
+  private pauliExpectation(pauli: string): number {
     const size = Math.pow(2, this.numQubits);
-    const probs = new Float64Array(size);
+    const { xMask, zMask, numY } = pauliMasks(pauli);
+    // Global phase i^numY contributed by the Y factors
+    const [ph_re, ph_im] = [[1, 0], [0, 1], [-1, 0], [0, -1]][numY % 4];
+
+    let value = 0;
     for (let i = 0; i < size; i++) {
-      probs[i] = this.state[2 * i] * this.state[2 * i] + this.state[2 * i + 1] * this.state[2 * i + 1];
+      const j = i ^ xMask;
+      const sign = parity(i & zMask) ? -1 : 1;
+      const a_re = this.state[2 * i], a_im = this.state[2 * i + 1];
+      const b_re = this.state[2 * j], b_im = this.state[2 * j + 1];
+      // conj(ψ_j) · ψ_i
+      const p_re = b_re * a_re + b_im * a_im;
+      const p_im = b_re * a_im - b_im * a_re;
+      value += sign * (ph_re * p_re - ph_im * p_im);
     }
+    return value;
+  }
 
-    const results = new Map<string, number>();
+  private estimatePauli(pauli: string, shots: number): number {
+    const { xMask, zMask } = pauliMasks(pauli);
+    const support = xMask | zMask;
+    if (support === 0) return 1;
+
+    const readoutError = this.noiseModel?.readout_error ?? 0;
+    const replay = this.needsTrajectories();
+    const shared = replay ? null : this.copy().rotateToZBasis(pauli);
+
+    let total = 0;
     for (let shot = 0; shot < shots; shot++) {
-      const rnd = Math.random();
-      let cumulative = 0;
-      for (let i = 0; i < size; i++) {
-        cumulative += probs[i];
-        if (rnd < cumulative) {
-          const bits = i.toString(2).padStart(this.numQubits, '0');
-          results.set(bits, (results.get(bits) || 0) + 1);
-          break;
+      const sim = shared ?? this.replayTrajectory().rotateToZBasis(pauli);
+      let outcome = sim.drawOutcome();
+      if (outcome < 0) continue;
+      if (readoutError > 0) {
+        for (let q = 0; q < this.numQubits; q++) {
+          const bit = 1 << (this.numQubits - 1 - q);
+          if ((support & bit) && Math.random() < readoutError) outcome ^= bit;
         }
       }
+      total += parity(outcome & support) ? -1 : 1;
+    }
+    return total / shots;
+  }
+
+  /** Noise-free basis change so that measuring Z on each qubit measures the Pauli factor */
+  private rotateToZBasis(pauli: string): QuantumSimulator {
+    for (let q = 0; q < pauli.length; q++) {
+      if (pauli[q] === 'X') {
+        this.applySingleQubitGate(Gates.H, q);
+      } else if (pauli[q] === 'Y') {
+        this.applySingleQubitGate(Gates.SDag, q);
+        this.applySingleQubitGate(Gates.H, q);
+      }
+    }
+    return this;
+  }
+
+  private copy(): QuantumSimulator {
+    const sim = new QuantumSimulator({
+      numQubits: this.numQubits,
+      numClbits: this.numClbits,
+      noiseModel: this.noiseModel,
+    });
+    sim.state = this.state.slice();
+    return sim;
+  }
+
+  /**
+   * Samples the classical register: the circuit is re-run for every shot and
+   * the bits written by its measurements are counted, keyed c0 first.
+   */
+  sampleClassical(shots: number): Map<string, number> {
+    const results = new Map<string, number>();
+    for (let shot = 0; shot < shots; shot++) {
+      const bits = this.replayTrajectory().classicalRegister.join('');
+      results.set(bits, (results.get(bits) || 0) + 1);
     }
     return results;
   }
+
+  private needsTrajectories(): boolean {
+    return this.noiseChannels.length > 0 ||
+      this.operations.some(op => op.gate === 'MEASURE' || op.gate === 'RESET');
+  }
+
+  private replayTrajectory(): QuantumSimulator {
+    const trajectory = new QuantumSimulator({
+      numQubits: this.numQubits,
+      numClbits: this.numClbits,
+      noiseModel: this.noiseModel,
+    });
+    for (const op of this.operations) {
+      trajectory.execute(op);
+    }
+    return trajectory;
+  }
+
+  private drawOutcome(): number {
+    const size = Math.pow(2, this.numQubits);
+    const rnd = Math.random();
+    let cumulative = 0;
+    for (let i = 0; i < size; i++) {
+      cumulative += this.state[2 * i] * this.state[2 * i] + this.state[2 * i + 1] * this.state[2 * i + 1];
+      if (rnd < cumulative) return i;
+    }
+    return -1;
+  }
 }
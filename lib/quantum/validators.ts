@@ -5,6 +5,7 @@
 
 import { Complex, magnitudeSquared } from './complex';
 import { GATE_LIBRARY, GateInfo } from './gates';
+import type { NoiseModel } from './simulator';
 
 // Validation error class for specific quantum errors
 export class QuantumValidationError extends Error {
@@ -29,6 +30,15 @@ export const ErrorCodes = {
     DUPLICATE_QUBITS: 'DUPLICATE_QUBITS',
     INSUFFICIENT_QUBITS: 'INSUFFICIENT_QUBITS',
     MEMORY_LIMIT: 'MEMORY_LIMIT',
+    INVALID_NOISE_MODEL: 'INVALID_NOISE_MODEL',
+    INVALID_CLBIT_INDEX: 'INVALID_CLBIT_INDEX',
+    UNBOUND_PARAMETER: 'UNBOUND_PARAMETER',
+    INVALID_OBSERVABLE: 'INVALID_OBSERVABLE',
+    INVALID_QASM: 'INVALID_QASM',
+    INVALID_PYTHON_CIRCUIT: 'INVALID_PYTHON_CIRCUIT',
+    INVALID_CIRCUIT_CODE: 'INVALID_CIRCUIT_CODE',
+    SANDBOX_FAILED: 'SANDBOX_FAILED',
+    INVALID_CUSTOM_GATE: 'INVALID_CUSTOM_GATE',
 } as const;
 
 // Check if running in Electron
@@ -38,6 +48,7 @@ const isElectron = typeof navigator !== 'undefined' && /electron/i.test(navigato
 export const LIMITS = {
     MAX_QUBITS: isElectron ? 30 : 20, // Increase limit for desktop app
     MIN_QUBITS: 1,
+    MAX_DENSITY_MATRIX_QUBITS: 10, // ρ has 4^n entries
     MAX_CIRCUIT_DEPTH: 1000,
     MAX_SHOTS: 100000,
     NORMALIZATION_TOLERANCE: 1e-6,
@@ -68,6 +79,19 @@ export function validateQubitIndex(
     }
 }
 
+/**
+ * Validate classical bit index is within the classical register
+ */
+export function validateClbitIndex(index: number, numClbits: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= numClbits) {
+        throw new QuantumValidationError(
+            `Classical bit index ${index} out of range [0, ${numClbits - 1}]`,
+            ErrorCodes.INVALID_CLBIT_INDEX,
+            { index, numClbits }
+        );
+    }
+}
+
 /**
  * Validate qubit count is within limits
  */
@@ -298,3 +322,19 @@ export function validateGateOperation(
     validateQubitArray(qubits, gateInfo.qubits, numQubits, gateName);
     return gateInfo;
 }
+
+/**
+ * Validate noise model error rates are probabilities
+ */
+export function validateNoiseModel(model: NoiseModel): void {
+    for (const [channel, rate] of Object.entries(model)) {
+        if (rate === undefined) continue;
+        if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0 || rate > 1) {
+            throw new QuantumValidationError(
+                `Noise rate for "${channel}" must be a probability in [0, 1], got ${rate}`,
+                ErrorCodes.INVALID_NOISE_MODEL,
+                { channel, rate }
+            );
+        }
+    }
+}
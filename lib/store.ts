@@ -3,14 +3,42 @@
  * Manages application state using Zustand
  */
 import { create } from 'zustand';
-import { QuantumSimulator, GateOperation, Complex } from '@/lib/quantum';
+import {
+  QuantumSimulator,
+  DensityMatrixSimulator,
+  GateOperation,
+  GateCondition,
+  Complex,
+  NoiseModel,
+  LIMITS,
+  ParamValue,
+  ParameterBindings,
+  bind,
+  getCircuitParameters,
+  isOpenQASM,
+  parseOpenQASM,
+  detectPythonFramework,
+  parsePythonCircuit,
+  parseCircuitDSL,
+  DslParseError,
+  ParametricGate,
+  CustomGateDefinition,
+  defineGate,
+  removeGate as removeGateDefinition,
+  getCustomGates,
+  serializeCustomGates,
+  restoreCustomGates,
+} from '@/lib/quantum';
+import { runCircuitCodeInSandbox } from '@/lib/quantum/sandbox-runner';
 import type { QuizQuestion, SkillLevel } from '@/lib/ai/types';
 
 export interface CircuitGate {
   id: string;
   gate: string;
   qubits: number[];
-  params?: number[];
+  params?: ParamValue[]; // Numbers or symbol names resolved by bind()
+  clbits?: number[]; // Classical bit targets of a MEASURE
+  condition?: GateCondition; // Only fires when the classical register matches
   step: number;
 }
 
@@ -35,16 +63,24 @@ export interface SimulationResult {
   sparseState: SparseStateEntry[];
   measurements?: Map<string, number>;
   blochCoordinates?: { x: number; y: number; z: number }[];
+  classicalRegister?: number[]; // Only set when the circuit measures mid-circuit
+  purity?: number; // Only reported by the density matrix backend
 }
 
+export type SimulationBackend = 'statevector' | 'density_matrix';
+
 interface QuantumStore {
   // Simulator
-  simulator: QuantumSimulator | null;
+  simulator: QuantumSimulator | DensityMatrixSimulator | null;
   numQubits: number;
   circuitGates: CircuitGate[];
   simulationResult: SimulationResult | null;
   isRunning: boolean;
   _lastRunId: number;
+  noiseModel: NoiseModel | null;
+  backend: SimulationBackend;
+  parameterBindings: ParameterBindings;
+  customGates: CustomGateDefinition[]; // Mirrors the custom gate registry for rendering
 
   // UI State
   selectedGate: string | null;
@@ -67,11 +103,18 @@ interface QuantumStore {
 
   // Actions
   initSimulator: (numQubits: number) => void;
-  addGate: (gate: string, qubits: number[], params?: number[], step?: number) => void;
+  addGate: (gate: string, qubits: number[], params?: ParamValue[], step?: number, clbits?: number[]) => void;
   removeGate: (gateId: string) => void;
+  setGateCondition: (gateId: string, condition: GateCondition | null) => void;
   clearCircuit: () => void;
   runSimulation: () => void;
   runMeasurement: (shots: number) => void;
+  setNoiseModel: (noiseModel: NoiseModel | null) => void;
+  setBackend: (backend: SimulationBackend) => void;
+  setParameterValue: (name: string, value: number) => void;
+  defineCustomGate: (definition: CustomGateDefinition) => void;
+  removeCustomGate: (name: string) => void;
+  loadCustomGates: () => string[];
   setSelectedGate: (gate: string | null) => void;
   setSelectedQubits: (qubits: number[]) => void;
   toggleCodeEditor: () => void;
@@ -81,7 +124,7 @@ interface QuantumStore {
   setAiProvider: (provider: 'gemini' | 'openai' | 'anthropic') => void;
   setAiModel: (model: string) => void;
   setApiKey: (key: string) => void;
-  loadCircuitFromCode: (code: string) => void;
+  loadCircuitFromCode: (code: string) => Promise<void>;
   reset: () => void;
 
   // Undo/Redo
@@ -93,6 +136,71 @@ interface QuantumStore {
 
 const generateId = () => Math.random().toString(36).substring(2, 9);
 
+const CUSTOM_GATES_KEY = 'quantum-simulator-gates';
+
+// Saved entries that failed to restore; written back with every save so they are not lost
+let unrestoredGates: unknown[] = [];
+
+function saveCustomGates(): void {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(CUSTOM_GATES_KEY, serializeCustomGates([...getCustomGates(), ...unrestoredGates as CustomGateDefinition[]]));
+}
+
+// One step per operation; the simulator keeps one classical bit per qubit
+function toCircuitGates(numQubits: number, gates: ParametricGate[]): { numQubits: number; gates: CircuitGate[] } {
+  const clbits = gates.flatMap(g => [...(g.clbits ?? []), ...(g.condition?.clbits ?? [])]);
+  if (clbits.some(clbit => clbit >= numQubits)) {
+    throw new Error(`The program uses classical bit ${Math.max(...clbits)}, but only ${numQubits} are available (one per qubit)`);
+  }
+
+  return { numQubits, gates: gates.map((gate, step) => ({ ...gate, id: generateId(), step })) };
+}
+
+/**
+ * Reads an OpenQASM program into circuit gates.
+ * Throws a QasmParseError with the line and column of a syntax error.
+ */
+export function circuitFromQASM(source: string): { numQubits: number; gates: CircuitGate[] } {
+  const { numQubits, gates } = parseOpenQASM(source);
+  return toCircuitGates(numQubits, gates);
+}
+
+/**
+ * Reads a Qiskit or Cirq snippet into circuit gates.
+ * Throws a PythonParseError with the line and column of the problem.
+ */
+export function circuitFromPython(source: string): { numQubits: number; gates: CircuitGate[] } {
+  const { numQubits, gates } = parsePythonCircuit(source);
+  return toCircuitGates(numQubits, gates);
+}
+
+/**
+ * Reads simulator code (sim.apply, loops, constants) into circuit gates.
+ * Throws a DslParseError carrying every diagnostic when the code has errors.
+ */
+export function circuitFromCode(source: string): { numQubits: number; gates: CircuitGate[] } {
+  const { numQubits, gates, diagnostics } = parseCircuitDSL(source);
+  if (diagnostics.some(d => d.severity === 'error')) throw new DslParseError(diagnostics);
+  return toCircuitGates(numQubits, gates);
+}
+
+/**
+ * Reads any supported circuit code into circuit gates. Simulator code that
+ * the static parser cannot follow (helper functions, while loops) is run in
+ * a sandbox worker instead; without workers its DslParseError is thrown.
+ */
+export async function circuitFromAnyCode(source: string): Promise<{ numQubits: number; gates: CircuitGate[] }> {
+  if (isOpenQASM(source)) return circuitFromQASM(source);
+  if (detectPythonFramework(source)) return circuitFromPython(source);
+  try {
+    return circuitFromCode(source);
+  } catch (error) {
+    if (!(error instanceof DslParseError) || typeof Worker === 'undefined') throw error;
+    const { numQubits, gates } = await runCircuitCodeInSandbox(source);
+    return toCircuitGates(numQubits, gates);
+  }
+}
+
 export const useQuantumStore = create<QuantumStore>((set, get) => ({
   // Initial State
   simulator: null,
@@ -101,6 +209,10 @@ export const useQuantumStore = create<QuantumStore>((set, get) => ({
   simulationResult: null,
   isRunning: false,
   _lastRunId: 0,
+  noiseModel: null,
+  backend: 'statevector',
+  parameterBindings: {},
+  customGates: [],
   selectedGate: null,
   selectedQubits: [],
   showCodeEditor: false,
@@ -137,8 +249,8 @@ export const useQuantumStore = create<QuantumStore>((set, get) => ({
     });
   },
 
-  addGate: (gate: string, qubits: number[], params?: number[], step?: number) => {
-    const { circuitGates, simulator, history, historyIndex } = get();
+  addGate: (gate: string, qubits: number[], params?: ParamValue[], step?: number, clbits?: number[]) => {
+    const { circuitGates, simulator, history, historyIndex, parameterBindings } = get();
     if (!simulator) return;
 
     let targetStep = step;
@@ -153,6 +265,7 @@ export const useQuantumStore = create<QuantumStore>((set, get) => ({
       gate,
       qubits,
       params,
+      clbits,
       step: targetStep,
     };
 
@@ -160,8 +273,15 @@ export const useQuantumStore = create<QuantumStore>((set, get) => ({
     const newHistory = [...history.slice(0, historyIndex + 1), newGates.map(g => ({ ...g }))];
     const trimmedHistory = newHistory.slice(-50);
 
+    // New symbols start at 0 so the circuit stays runnable
+    const bindings = { ...parameterBindings };
+    for (const name of getCircuitParameters([newGate])) {
+      if (bindings[name] === undefined) bindings[name] = 0;
+    }
+
     set({
       circuitGates: newGates,
+      parameterBindings: bindings,
       history: trimmedHistory,
       historyIndex: trimmedHistory.length - 1,
     });
@@ -180,6 +300,21 @@ export const useQuantumStore = create<QuantumStore>((set, get) => ({
     });
   },
 
+  setGateCondition: (gateId: string, condition: GateCondition | null) => {
+    const { circuitGates, history, historyIndex } = get();
+    const newGates = circuitGates.map(g =>
+      g.id === gateId ? { ...g, condition: condition ?? undefined } : g
+    );
+    const newHistory = [...history.slice(0, historyIndex + 1), newGates.map(g => ({ ...g }))];
+    const trimmedHistory = newHistory.slice(-50);
+
+    set({
+      circuitGates: newGates,
+      history: trimmedHistory,
+      historyIndex: trimmedHistory.length - 1,
+    });
+  },
+
   clearCircuit: () => {
     const { numQubits, history, historyIndex } = get();
     const simulator = new QuantumSimulator(numQubits);
@@ -196,7 +331,7 @@ export const useQuantumStore = create<QuantumStore>((set, get) => ({
   },
 
   runSimulation: () => {
-    const { numQubits, circuitGates } = get();
+    const { numQubits, circuitGates, noiseModel, backend, parameterBindings } = get();
     if (circuitGates.length === 0) {
       set({ simulationResult: null, isRunning: false });
       return;
@@ -209,20 +344,38 @@ export const useQuantumStore = create<QuantumStore>((set, get) => ({
       if (get()._lastRunId !== runId) return;
 
       try {
-        const simulator = new QuantumSimulator(numQubits);
-        const sortedGates = [...circuitGates].sort((a, b) => a.step - b.step);
+        const config = { numQubits, noiseModel: noiseModel ?? undefined };
+        const useDensityMatrix = backend === 'density_matrix' && numQubits <= LIMITS.MAX_DENSITY_MATRIX_QUBITS;
+        const simulator = useDensityMatrix ? new DensityMatrixSimulator(config) : new QuantumSimulator(config);
+        const sortedGates = bind([...circuitGates].sort((a, b) => a.step - b.step), parameterBindings);
 
         for (const gate of sortedGates) {
-          if (gate.params && gate.params.length > 0) {
-            simulator.apply(gate.gate, gate.params, ...gate.qubits);
-          } else {
-            simulator.apply(gate.gate, ...gate.qubits);
-          }
+          // Conditions are evaluated against this run's register and again on every sampled shot
+          simulator.execute({
+            gate: gate.gate,
+            qubits: gate.qubits,
+            params: gate.params,
+            clbits: gate.clbits,
+            condition: gate.condition,
+          });
         }
+        const hasMeasurements = sortedGates.some(g => g.gate === 'MEASURE');
 
-        const sparseState = simulator.getSparseState(1000);
-        const stateVector = simulator.getState();
         const probabilities = simulator.getProbabilities();
+        let stateVector: Complex[] = [];
+        let sparseState: SparseStateEntry[];
+        let purity: number | undefined;
+
+        if (simulator instanceof DensityMatrixSimulator) {
+          // Mixed states have no amplitudes; list the populated diagonal instead
+          sparseState = probabilities
+            .map((probability, index) => ({ index, amplitude: { real: Math.sqrt(probability), imag: 0 }, probability }))
+            .filter(entry => entry.probability > 1e-10);
+          purity = simulator.getPurity();
+        } else {
+          sparseState = simulator.getSparseState(1000);
+          stateVector = simulator.getState();
+        }
 
         const blochCoordinates = [];
         for (let i = 0; i < numQubits; i++) {
@@ -238,6 +391,8 @@ export const useQuantumStore = create<QuantumStore>((set, get) => ({
             probabilities,
             sparseState,
             blochCoordinates,
+            classicalRegister: hasMeasurements ? simulator.getClassicalRegister() : undefined,
+            purity,
           },
           isRunning: false,
         });
@@ -263,6 +418,46 @@ export const useQuantumStore = create<QuantumStore>((set, get) => ({
     }));
   },
 
+  setNoiseModel: (noiseModel: NoiseModel | null) => set({ noiseModel }),
+  setBackend: (backend: SimulationBackend) => set({ backend }),
+  setParameterValue: (name: string, value: number) =>
+    set(state => ({ parameterBindings: { ...state.parameterBindings, [name]: value } })),
+
+  // Invalid definitions throw a QuantumValidationError for the dialog to show
+  defineCustomGate: (definition: CustomGateDefinition) => {
+    defineGate(definition);
+    // A new definition supersedes a saved one that failed to restore
+    unrestoredGates = unrestoredGates.filter(entry => (entry as { name?: unknown } | null)?.name !== definition.name);
+    saveCustomGates();
+    set({ customGates: getCustomGates() });
+  },
+
+  removeCustomGate: (name: string) => {
+    if (get().circuitGates.some(g => g.gate === name)) {
+      throw new Error(`${name} is still used in the circuit; remove it there first`);
+    }
+    removeGateDefinition(name);
+    saveCustomGates();
+    set({ customGates: getCustomGates() });
+  },
+
+  // Returns why any saved gate could not be restored
+  loadCustomGates: () => {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(CUSTOM_GATES_KEY) : null;
+    if (!saved) return [];
+    const { errors, skipped } = restoreCustomGates(saved);
+    if (skipped) {
+      unrestoredGates = skipped;
+    } else {
+      // Unreadable as a whole: move it aside rather than overwrite it on the next save
+      localStorage.setItem(`${CUSTOM_GATES_KEY}-unreadable`, saved);
+      localStorage.removeItem(CUSTOM_GATES_KEY);
+      errors.push(`The saved text was moved to the "${CUSTOM_GATES_KEY}-unreadable" storage key`);
+    }
+    set({ customGates: getCustomGates() });
+    return errors;
+  },
+
   setSelectedGate: (gate: string | null) => set({ selectedGate: gate }),
   setSelectedQubits: (qubits: number[]) => set({ selectedQubits: qubits }),
   toggleCodeEditor: () => set(state => ({ showCodeEditor: !state.showCodeEditor })),
@@ -280,46 +475,30 @@ export const useQuantumStore = create<QuantumStore>((set, get) => ({
   setAiModel: (model: string) => set({ aiModel: model }),
   setApiKey: (key: string) => set({ apiKey: key }),
 
-  loadCircuitFromCode: (code: string) => {
-    try {
-      const lines = code.split('\n');
-      const gatePattern = /sim\.apply\(['"](\w+)['"],?\s*(.+)?\)/;
-      const numQubitsPattern = /QuantumSimulator\((\d+)\)/;
+  loadCircuitFromCode: async (code: string) => {
+    // Parse and sandbox errors carry a position, so they reach the editor rather than being logged
+    const { numQubits, gates } = await circuitFromAnyCode(code);
 
-      let numQubits = 2;
-      const gates: CircuitGate[] = [];
-      let step = 0;
-
-      for (const line of lines) {
-        const qubitsMatch = line.match(numQubitsPattern);
-        if (qubitsMatch) numQubits = parseInt(qubitsMatch[1]);
-
-        const gateMatch = line.match(gatePattern);
-        if (gateMatch) {
-          const gateName = gateMatch[1];
-          const argsStr = gateMatch[2];
-          const args = argsStr ? argsStr.split(',').map(a => parseInt(a.trim())).filter(n => !isNaN(n)) : [];
-
-          gates.push({ id: generateId(), gate: gateName, qubits: args, step: step++ });
-        }
-      }
+    const { history, historyIndex, parameterBindings } = get();
+    const newHistory = [...history.slice(0, historyIndex + 1), gates.map(g => ({ ...g }))];
+    const trimmedHistory = newHistory.slice(-50);
 
-      const { history, historyIndex } = get();
-      const newHistory = [...history.slice(0, historyIndex + 1), gates.map(g => ({ ...g }))];
-      const trimmedHistory = newHistory.slice(-50);
-
-      const simulator = new QuantumSimulator(numQubits);
-      set({
-        simulator,
-        numQubits,
-        circuitGates: gates,
-        simulationResult: null,
-        history: trimmedHistory,
-        historyIndex: trimmedHistory.length - 1,
-      });
-    } catch (error) {
-      console.error('Failed to parse circuit code:', error);
+    // Imported symbols start at 0, as in addGate, so the circuit runs straight away
+    const bindings = { ...parameterBindings };
+    for (const name of getCircuitParameters(gates)) {
+      if (bindings[name] === undefined) bindings[name] = 0;
     }
+
+    const simulator = new QuantumSimulator(numQubits);
+    set({
+      simulator,
+      numQubits,
+      circuitGates: gates,
+      parameterBindings: bindings,
+      simulationResult: null,
+      history: trimmedHistory,
+      historyIndex: trimmedHistory.length - 1,
+    });
   },
 
   reset: () => {
@@ -332,6 +511,7 @@ export const useQuantumStore = create<QuantumStore>((set, get) => ({
       _lastRunId: 0,
       selectedGate: null,
       selectedQubits: [],
+      parameterBindings: {},
       history: [[]],
       historyIndex: 0,
     });